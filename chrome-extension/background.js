@@ -7,8 +7,11 @@ class Dev3000Monitor {
     this.logBuffer = []
     this.maxLogEntries = 1000
     this.currentIconState = "inactive"
-    this.mcpServerStatus = "unknown" // 'connected', 'disconnected', 'unknown'
-    this.lastMcpServerCheck = 0
+    this.instances = [] // d3k instances logs are sent to: { url, projectName, appPort, status }
+    this.lastInstanceRefresh = 0
+    this.instanceRefresh = null // Pending refresh, shared by concurrent callers
+    this.pageScripts = new Map() // Scripts d3k injects into pages, fetched once per instance URL
+    this.minScreenshotInterval = 1000 // Same throttle as d3k's CDP monitor
     this.errorCounts = new Map() // Track error counts per tab for crash detection
     this.suspectedCrashes = new Map() // Track suspected crashes
 
@@ -165,7 +168,7 @@ class Dev3000Monitor {
 
     const urlObj = new URL(url)
     const hostname = urlObj.hostname
-    const port = parseInt(urlObj.port, 10) || (urlObj.protocol === "https:" ? 443 : 80)
+    const port = this.getUrlPort(url)
 
     // Check if hostname is in allowed hosts
     if (!settings.customHosts.includes(hostname)) return false
@@ -179,6 +182,28 @@ class Dev3000Monitor {
     return settings.customPorts.includes(port)
   }
 
+  getUrlPort(url) {
+    try {
+      const urlObj = new URL(url)
+      return parseInt(urlObj.port, 10) || (urlObj.protocol === "https:" ? 443 : 80)
+    } catch (_error) {
+      return null
+    }
+  }
+
+  // Parse a port list like "3684-3693, 4000", capped so a typo can't start thousands of probes
+  parsePortList(input) {
+    const ports = []
+    for (const part of (input || "").split(",")) {
+      const [start, end = start] = part.split("-").map((p) => parseInt(p.trim(), 10))
+      if (Number.isNaN(start) || Number.isNaN(end)) continue
+      for (let port = Math.max(start, 1); port <= Math.min(end, 65535) && ports.length < 100; port++) {
+        ports.push(port)
+      }
+    }
+    return ports
+  }
+
   async getSettings() {
     try {
       const result = await chrome.storage.sync.get("dev3000Settings")
@@ -191,7 +216,10 @@ class Dev3000Monitor {
         captureNetwork: true,
         captureErrors: true,
         capturePerformance: true,
-        maxLogEntries: 1000
+        maxLogEntries: 1000,
+        mcpInstances: ["http://localhost:3684"],
+        discoverInstances: true,
+        discoveryPorts: "3684-3693"
       }
       return { ...defaultSettings, ...result.dev3000Settings }
     } catch (error) {
@@ -205,11 +233,87 @@ class Dev3000Monitor {
         captureNetwork: true,
         captureErrors: true,
         capturePerformance: true,
-        maxLogEntries: 1000
+        maxLogEntries: 1000,
+        mcpInstances: ["http://localhost:3684"],
+        discoverInstances: true,
+        discoveryPorts: "3684-3693"
       }
     }
   }
 
+  // Sent as a bearer token to instances started with --api-token
+  async getAuthHeaders(instanceUrl) {
+    try {
+      const { dev3000ApiTokens } = await chrome.storage.local.get("dev3000ApiTokens")
+      const token = dev3000ApiTokens?.[instanceUrl]
+      return token ? { Authorization: `Bearer ${token}` } : {}
+    } catch (_error) {
+      return {}
+    }
+  }
+
+  // The configured instances plus, with discovery on, any d3k answering on the discovery ports.
+  // Refreshed at most every 30 seconds unless forced.
+  async getInstances(force = false) {
+    if (!force && Date.now() - this.lastInstanceRefresh < 30000) {
+      return this.instances
+    }
+
+    if (!this.instanceRefresh) {
+      this.instanceRefresh = this.discoverInstances()
+        .then((instances) => {
+          this.instances = instances
+          this.lastInstanceRefresh = Date.now()
+          return instances
+        })
+        .finally(() => {
+          this.instanceRefresh = null
+        })
+    }
+    return this.instanceRefresh
+  }
+
+  async discoverInstances() {
+    const settings = await this.getSettings()
+    const urls = new Set(settings.mcpInstances)
+    if (settings.discoverInstances) {
+      for (const port of this.parsePortList(settings.discoveryPorts)) {
+        urls.add(`http://localhost:${port}`)
+      }
+    }
+
+    const instances = await Promise.all(
+      Array.from(urls).map((url) => this.probeInstance(url, settings.mcpInstances.includes(url)))
+    )
+    return instances.filter(Boolean)
+  }
+
+  async probeInstance(url, configured) {
+    try {
+      const response = await fetch(`${url}/api/session`, { signal: AbortSignal.timeout(1000) })
+      if (response.ok) {
+        const session = await response.json()
+        return { url, projectName: session.projectName, appPort: session.appPort, status: "connected" }
+      }
+    } catch (_error) {
+      // Nothing listening on this port
+    }
+
+    // Keep configured instances that don't answer: d3k versions without /api/session still accept logs
+    return configured ? { url, projectName: null, appPort: null, status: "unknown" } : null
+  }
+
+  // Tabs go to the instance monitoring the app on their port, or else to an instance that
+  // didn't report its app port
+  async getInstanceForPort(appPort) {
+    const instances = await this.getInstances()
+    return (
+      instances.find((instance) => instance.appPort !== null && instance.appPort === appPort) ||
+      instances.find((instance) => instance.appPort === null) ||
+      null
+    )
+  }
+
   async attachToTab(tabId) {
     try {
       // Check if already attached
@@ -260,30 +364,39 @@ class Dev3000Monitor {
         language: browserInfo.language,
         screenResolution: browserInfo.screenResolution,
         windowSize: browserInfo.windowSize,
+        appPort: this.getUrlPort(tab.url), // Picks the d3k instance the tab's logs go to
         attached: true,
-        startTime: Date.now()
+        startTime: Date.now(),
+        // Page state, tracked like d3k's CDP monitor does for its browser
+        pendingRequests: 0,
+        networkIdleTimer: null,
+        lastScreenshotTime: 0,
+        pollTimer: null,
+        pollCount: 0,
+        layoutShiftCount: 0, // Shifts of the current page already reported
+        webVitals: null, // Latest web vitals polled from the current page
+        webVitalsTimer: null,
+        reportedEventCount: null // Interactions in the web vitals reported for the current page
       }
 
       console.log(`Attached to tab ${tabId} (${tab.title})`)
       this.attachedTabs.set(tabId, tabMetadata)
 
-      // Create a friendly tab identifier
-      const tabIdentifier = this.createTabIdentifier(tabMetadata)
-
-      // Log attachment with tab info and mark as Chrome Extension
+      // Log attachment with tab info
+      this.addLogEntry(`[TARGET] Monitoring started - ${tab.title} (${tab.url})`, tabId)
+      this.addLogEntry(`[TARGET] User-Agent: ${browserInfo.userAgent || "Unknown"}`, tabId)
       this.addLogEntry(
-        `[${new Date().toISOString()}] [TAB-${tabIdentifier}] [BROWSER] [ATTACH] Monitoring started - ${tab.title} (${tab.url}) [CHROME_EXTENSION]`
-      )
-      this.addLogEntry(
-        `[${new Date().toISOString()}] [TAB-${tabIdentifier}] [BROWSER] [INFO] User-Agent: ${browserInfo.userAgent || "Unknown"} [CHROME_EXTENSION]`
-      )
-      this.addLogEntry(
-        `[${new Date().toISOString()}] [TAB-${tabIdentifier}] [BROWSER] [INFO] Resolution: ${browserInfo.screenResolution || "Unknown"}, Window: ${browserInfo.windowSize || "Unknown"} [CHROME_EXTENSION]`
+        `[TARGET] Resolution: ${browserInfo.screenResolution || "Unknown"}, Window: ${browserInfo.windowSize || "Unknown"}`,
+        tabId
       )
 
       // Enable domains we want to monitor
       await this.enableDomains(tabId)
 
+      // Track interactions and page performance with the scripts d3k injects itself
+      await this.injectPageScripts(tabId)
+      this.startPagePolling(tabId)
+
       // Update icon to show active state
       this.updateIcon()
     } catch (error) {
@@ -304,8 +417,12 @@ class Dev3000Monitor {
 
   handleTabDisconnection(tabId, reason) {
     const tabData = this.attachedTabs.get(tabId)
-    const tabIdentifier = this.getTabIdentifier(tabId)
-    const timestamp = new Date().toISOString()
+
+    // The page is gone, so the web vitals polled last are final
+    if (tabData) {
+      this.stopPagePolling(tabData)
+      this.reportWebVitals(tabId, false)
+    }
 
     if (reason === "target_closed" && tabData) {
       // Analyze if this might be a crash rather than normal closure
@@ -352,32 +469,26 @@ class Dev3000Monitor {
           recentLogs: recentLogs.slice(-10) // Keep last 10 log entries for context
         })
 
-        this.addLogEntry(
-          `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [SUSPECTED CRASH] Tab disconnected unexpectedly - ${crashReasons.join(", ")} [CHROME_EXTENSION]`
-        )
+        const crashFields = { level: "error" }
+        this.addLogEntry(`[CRASH] Tab disconnected unexpectedly - ${crashReasons.join(", ")}`, tabId, crashFields)
 
         // Log error context if available
         if (errorCount > 0) {
-          this.addLogEntry(
-            `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [CRASH CONTEXT] ${errorCount} errors preceded disconnection [CHROME_EXTENSION]`
-          )
+          this.addLogEntry(`[CRASH] ${errorCount} errors preceded disconnection`, tabId, crashFields)
         }
 
         // Log memory errors if found
         memoryErrors.slice(-3).forEach((errorLog) => {
-          this.addLogEntry(
-            `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [CRASH CONTEXT] Recent error: ${errorLog.split("] [BROWSER] ").pop()} [CHROME_EXTENSION]`
-          )
+          this.addLogEntry(`[CRASH] Recent error: ${errorLog.split("] [BROWSER] ").pop()}`, tabId, crashFields)
         })
       } else {
         this.addLogEntry(
-          `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [DISCONNECT] Tab closed normally (${Math.round(timeSinceAttach / 1000)}s runtime, ${errorCount} errors) [CHROME_EXTENSION]`
+          `[TARGET] Tab closed normally (${Math.round(timeSinceAttach / 1000)}s runtime, ${errorCount} errors)`,
+          tabId
         )
       }
     } else {
-      this.addLogEntry(
-        `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [DISCONNECT] Debugger detached: ${reason} [CHROME_EXTENSION]`
-      )
+      this.addLogEntry(`[TARGET] Debugger detached: ${reason}`, tabId)
     }
 
     // Clean up tracking data
@@ -388,15 +499,11 @@ class Dev3000Monitor {
 
   handleTabRemoval(tabId, removeInfo) {
     const tabData = this.attachedTabs.get(tabId)
-    const tabIdentifier = this.getTabIdentifier(tabId)
-    const timestamp = new Date().toISOString()
 
     if (tabData && !removeInfo.isWindowClosing) {
       // Individual tab was closed (not part of window close)
       // This provides additional context for crash detection
-      this.addLogEntry(
-        `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [TAB REMOVED] Individual tab closed (not window closure) [CHROME_EXTENSION]`
-      )
+      this.addLogEntry("[TARGET] Individual tab closed (not window closure)", tabId)
     }
   }
 
@@ -411,7 +518,7 @@ class Dev3000Monitor {
   }
 
   async enableDomains(tabId) {
-    const domains = ["Runtime", "Network", "Page", "DOM", "Performance", "Security", "Log"]
+    const domains = ["Runtime", "Network", "Page", "DOM", "Performance", "Log"]
 
     for (const domain of domains) {
       try {
@@ -436,45 +543,84 @@ class Dev3000Monitor {
   }
 
   handleDebuggerEvent(source, method, params) {
-    const timestamp = new Date().toISOString()
     const tabId = source.tabId
-    const tabIdentifier = this.getTabIdentifier(tabId)
+    const tabData = this.attachedTabs.get(tabId)
+    if (!tabData) return
 
-    // Format log entry similar to the original CDP monitor
+    // Same events and log lines as d3k's CDP monitor
     let logEntry = null
 
     switch (method) {
       case "Runtime.consoleAPICalled":
-        logEntry = this.formatConsoleLog(timestamp, tabIdentifier, params)
+        logEntry = this.formatConsoleLog(params)
         // Track console errors for crash detection
         if (params.type === "error" || params.type === "assert") {
           this.trackErrorForTab(tabId)
         }
         break
 
-      case "Network.responseReceived":
-        logEntry = this.formatNetworkResponse(timestamp, tabIdentifier, params)
+      case "Runtime.exceptionThrown":
+        logEntry = this.formatException(params)
+        this.trackErrorForTab(tabId) // Track error for crash detection
+        this.takeScreenshot(tabId, "error")
         break
 
-      case "Page.loadEventFired":
-        logEntry = `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [PAGE] Load event fired [CHROME_EXTENSION]`
+      case "Log.entryAdded":
+        // Other levels are already captured through Runtime.consoleAPICalled
+        if (params.entry.level === "error" || params.entry.level === "warning") {
+          logEntry = this.formatLogEntry(params)
+        }
+        break
+
+      case "Network.requestWillBeSent":
+        tabData.pendingRequests++
+        clearTimeout(tabData.networkIdleTimer)
+        tabData.networkIdleTimer = null
+        if (this.shouldMonitorUrl(tabData, params.request.url)) {
+          logEntry = this.formatNetworkRequest(params)
+        }
+        break
+
+      case "Network.responseReceived":
+        if (this.shouldMonitorUrl(tabData, params.response.url)) {
+          logEntry = this.formatNetworkResponse(params)
+        }
         break
 
-      case "Page.domContentLoadedEventFired":
-        logEntry = `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [PAGE] DOM content loaded [CHROME_EXTENSION]`
+      case "Network.loadingFinished":
+      case "Network.loadingFailed":
+        tabData.pendingRequests = Math.max(tabData.pendingRequests - 1, 0)
+        this.scheduleNetworkIdleScreenshot(tabId)
         break
 
       case "Page.frameNavigated":
-        logEntry = `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [NAVIGATION] ${params.frame.url} [CHROME_EXTENSION]`
+        if (params.frame.parentId) break // Only log main frame navigation
+        this.handleNavigation(tabId, params.frame.url)
+        if (this.shouldMonitorUrl(tabData, params.frame.url)) {
+          logEntry = {
+            message: `[NAVIGATION] ${params.frame.url}`,
+            fields: { kind: "navigation", url: params.frame.url }
+          }
+        }
         break
 
-      case "Runtime.exceptionThrown":
-        logEntry = this.formatException(timestamp, tabIdentifier, params)
-        this.trackErrorForTab(tabId) // Track error for crash detection
+      case "Page.domContentEventFired":
+        logEntry = { message: "[DOM] DOM content loaded" }
+        this.injectPageScripts(tabId)
         break
 
-      case "Security.securityStateChanged":
-        logEntry = `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [SECURITY] State changed to ${params.securityState} [CHROME_EXTENSION]`
+      case "Page.loadEventFired":
+        logEntry = { message: "[DOM] Load event fired" }
+        this.takeScreenshot(tabId, "page-loaded")
+        this.injectPageScripts(tabId)
+        // Load metrics are final once the page settled, INP is reported when it's left
+        clearTimeout(tabData.webVitalsTimer)
+        tabData.webVitalsTimer = setTimeout(() => this.reportWebVitals(tabId, true), 2000)
+        break
+
+      case "DOM.documentUpdated":
+        // Document structure changed - useful for SPA routing
+        logEntry = { message: "[DOM] Document updated" }
         break
 
       default:
@@ -485,7 +631,7 @@ class Dev3000Monitor {
     }
 
     if (logEntry) {
-      this.addLogEntry(logEntry)
+      this.addLogEntry(logEntry.message, tabId, logEntry.fields)
 
       // Send to content script if needed
       chrome.tabs
@@ -493,116 +639,425 @@ class Dev3000Monitor {
           type: "CDP_EVENT",
           method,
           params,
-          timestamp,
-          logEntry
+          timestamp: new Date().toISOString(),
+          logEntry: logEntry.message
         })
         .catch(() => {}) // Ignore if content script not ready
     }
   }
 
-  formatConsoleLog(timestamp, tabIdentifier, params) {
-    const level = params.type.toUpperCase()
-    const args = params.args || []
-    let message = ""
+  // Only requests to the tab's own app server are logged, like d3k does for the app it starts
+  shouldMonitorUrl(tabData, url) {
+    try {
+      const urlObj = new URL(url)
+      const isLocalhost = ["localhost", "127.0.0.1", "0.0.0.0"].includes(urlObj.hostname)
+      return isLocalhost && this.getUrlPort(url) === tabData.appPort
+    } catch (_error) {
+      return false
+    }
+  }
 
-    if (args.length > 0) {
-      message = args
-        .map((arg) => {
-          if (arg.type === "string") {
-            return arg.value
-          } else if (arg.type === "object" && arg.preview) {
-            return JSON.stringify(arg.preview)
-          } else {
-            return String(arg.value || arg.description || "[Object]")
-          }
+  // A new document: report the final web vitals of the page being left and start over
+  handleNavigation(tabId, url) {
+    const tabData = this.attachedTabs.get(tabId)
+    if (!tabData) return
+
+    this.reportWebVitals(tabId, false)
+    clearTimeout(tabData.webVitalsTimer)
+    tabData.webVitalsTimer = null
+    tabData.webVitals = null
+    tabData.reportedEventCount = null
+    tabData.layoutShiftCount = 0
+    this.updateTabUrl(tabId, url)
+  }
+
+  updateTabUrl(tabId, url) {
+    const tabData = this.attachedTabs.get(tabId)
+    if (tabData) {
+      tabData.url = url
+      tabData.appPort = this.getUrlPort(url)
+    }
+  }
+
+  formatConsoleLog(params) {
+    const { type, args = [], stackTrace } = params
+
+    // Handle console formatting: if first arg has %c, skip style string args
+    let formatCount = 0
+    if (args.length > 0 && args[0].type === "string" && args[0].value) {
+      formatCount = (args[0].value.match(/%c/g) || []).length
+    }
+
+    const values = args
+      .map((arg, index) => {
+        // Skip style string arguments (they come after the format string)
+        if (formatCount > 0 && index > 0 && index <= formatCount && arg.type === "string") {
+          return null
+        }
+
+        if (arg.type === "object" && arg.preview) {
+          return JSON.stringify(arg.preview)
+        }
+
+        // For the first string argument, strip %c formatting directives
+        if (index === 0 && arg.type === "string" && arg.value && formatCount > 0) {
+          return arg.value.replace(/%c/g, "")
+        }
+
+        return arg.value || "[object]"
+      })
+      .filter((v) => v !== null)
+      .join(" ")
+
+    const typeTags = { error: "ERROR", warn: "WARNING", info: "INFO", debug: "DEBUG" }
+    const levels = { error: "error", assert: "error", warn: "warn", info: "info", debug: "debug" }
+    let message = `[${typeTags[type] || "LOG"}] ${values}`
+
+    // Add stack trace for errors
+    if (stackTrace && (type === "error" || type === "assert")) {
+      message += `\n[STACK] ${stackTrace.callFrames
+        .slice(0, 3)
+        .map((frame) => `${frame.functionName || "anonymous"}@${frame.url}:${frame.lineNumber}`)
+        .join(" -> ")}`
+    }
+
+    return { message, fields: { kind: "console", level: levels[type] || "log" } }
+  }
+
+  formatLogEntry(params) {
+    const { level, text, url, lineNumber } = params.entry
+
+    let message = `[CONSOLE ${level.toUpperCase()}] ${text}`
+    if (url && lineNumber) {
+      message += ` at ${url}:${lineNumber}`
+    }
+
+    return { message, fields: { kind: "console", level: level === "error" ? "error" : "warn", url } }
+  }
+
+  // Frames keep their bundled locations: d3k resolves source maps for its own browser only
+  formatException(params) {
+    const { text, lineNumber, columnNumber, url, exception, stackTrace } = params.exceptionDetails
+
+    // Uncaught errors carry the message in the exception, text is just "Uncaught"
+    const description = exception?.description?.split("\n")[0]
+    const errorMessage = description && !text.includes(description) ? `${text} ${description}` : text
+
+    // CDP positions are 0-based, editors and stack traces are 1-based
+    const position = (frame) => `${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1}`
+
+    let message = `[ERROR] ${errorMessage}`
+    if (url) message += ` at ${position({ url, lineNumber, columnNumber })}`
+
+    for (const frame of (stackTrace?.callFrames || []).slice(0, 10)) {
+      message += frame.functionName
+        ? `\n    at ${frame.functionName} (${position(frame)})`
+        : `\n    at ${position(frame)}`
+    }
+
+    return { message, fields: { kind: "error", level: "error", url: url || undefined } }
+  }
+
+  formatNetworkRequest(params) {
+    const { url, method, headers, postData } = params.request
+    const { requestId, type, initiator } = params
+
+    let message = `[NETWORK] ${method} ${url}`
+    if (type) message += ` (${type})`
+    if (initiator?.type) message += ` initiated by ${initiator.type}`
+    if (requestId) message += ` (id ${requestId})` // Pairs the request with its response in the logs viewer
+
+    // Log important headers
+    const headerInfo = ["content-type", "authorization", "cookie"]
+      .filter((h) => headers?.[h])
+      .map((h) => {
+        const maxLength = h === "authorization" ? 10 : 50
+        return `${h}: ${headers[h].slice(0, maxLength)}${headers[h].length > maxLength ? "..." : ""}`
+      })
+      .join(", ")
+
+    if (headerInfo) message += ` [${headerInfo}]`
+    if (postData) message += ` body: ${postData.slice(0, 100)}${postData.length > 100 ? "..." : ""}`
+
+    return { message, fields: { kind: "network", url, method, requestId } }
+  }
+
+  formatNetworkResponse(params) {
+    const { url, status, statusText, mimeType, headers, timing } = params.response
+    const { requestId, type } = params
+
+    let message = `[NETWORK] ${status} ${statusText} ${url}`
+    if (type) message += ` (${type})`
+    if (mimeType) message += ` [${mimeType}]`
+
+    // receiveHeadersEnd is in ms relative to requestTime
+    const totalTime = Math.round(timing?.receiveHeadersEnd || 0)
+    if (totalTime > 0) message += ` (${totalTime}ms)`
+
+    // Response size, when the server announces it
+    const contentLength = Number(headers?.["content-length"] ?? headers?.["Content-Length"])
+    if (contentLength >= 0 && Number.isFinite(contentLength)) message += ` (${contentLength} bytes)`
+    if (requestId) message += ` (id ${requestId})`
+
+    return { message, fields: { kind: "network", level: status >= 400 ? "error" : undefined, url, status, requestId } }
+  }
+
+  // The tracker and observers d3k injects in its own browser, served by the instance the tab's logs go to
+  async getPageScripts(instance) {
+    if (!this.pageScripts.has(instance.url)) {
+      try {
+        const response = await fetch(`${instance.url}/api/page-scripts`, {
+          headers: await this.getAuthHeaders(instance.url)
         })
-        .join(" ")
+        if (!response.ok) return null // d3k versions without the route
+        this.pageScripts.set(instance.url, await response.json())
+      } catch (_error) {
+        return null
+      }
     }
+    return this.pageScripts.get(instance.url)
+  }
 
-    return `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [CONSOLE ${level}] ${message} [CHROME_EXTENSION]`
+  // Injected on attach and on every new document, the scripts ignore repeated injections
+  async injectPageScripts(tabId) {
+    const tabData = this.attachedTabs.get(tabId)
+    const instance = tabData && (await this.getInstanceForPort(tabData.appPort))
+    const scripts = instance && (await this.getPageScripts(instance))
+    if (!scripts) return
+
+    for (const expression of [scripts.interactionTracker, scripts.performanceObservers]) {
+      try {
+        await this.sendCommand(tabId, "Runtime.evaluate", { expression, includeCommandLineAPI: false })
+      } catch (error) {
+        console.debug(`Failed to inject page scripts into tab ${tabId}:`, error.message)
+      }
+    }
   }
 
-  formatNetworkResponse(timestamp, tabIdentifier, params) {
-    const response = params.response
-    const url = response.url
-    const status = response.status
-    const statusText = response.statusText
-    const mimeType = response.mimeType
-    const resourceType = params.type || "Unknown"
+  // Poll interactions and layout shifts every 500ms and web vitals every 2s, like d3k does
+  startPagePolling(tabId) {
+    const tabData = this.attachedTabs.get(tabId)
+    if (!tabData || tabData.pollTimer) return
+
+    tabData.pollTimer = setInterval(() => {
+      tabData.pollCount++
+      this.pollInteractions(tabId)
+      this.pollLayoutShifts(tabId)
+      if (tabData.pollCount % 4 === 0) {
+        this.pollWebVitals(tabId)
+      }
+    }, 500)
+  }
 
-    return `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [NETWORK RESPONSE] ${status} ${statusText} ${url} (${resourceType}) [${mimeType}] [CHROME_EXTENSION]`
+  stopPagePolling(tabData) {
+    clearInterval(tabData.pollTimer)
+    clearTimeout(tabData.networkIdleTimer)
+    clearTimeout(tabData.webVitalsTimer)
+    tabData.pollTimer = null
   }
 
-  formatException(timestamp, tabIdentifier, params) {
-    const exception = params.exceptionDetails
-    const message = exception.text || exception.exception?.description || "Unknown error"
-    const url = exception.url || "unknown"
-    const line = exception.lineNumber || 0
-    const col = exception.columnNumber || 0
+  async evaluateInTab(tabId, expression) {
+    try {
+      const result = await this.sendCommand(tabId, "Runtime.evaluate", { expression, returnByValue: true })
+      return result?.result?.value
+    } catch (_error) {
+      return undefined // Detached, or the page is navigating
+    }
+  }
 
-    return `[${timestamp}] [TAB-${tabIdentifier}] [BROWSER] [ERROR] ${message} at ${url}:${line}:${col} [CHROME_EXTENSION]`
+  async pollInteractions(tabId) {
+    const tabData = this.attachedTabs.get(tabId)
+    const instance = tabData && (await this.getInstanceForPort(tabData.appPort))
+    const scripts = instance && this.pageScripts.get(instance.url)
+    if (!scripts) return
+
+    for (const interaction of (await this.evaluateInTab(tabId, scripts.takeInteractions)) || []) {
+      this.addLogEntry(`[INTERACTION] ${interaction.message}`, tabId)
+
+      // Take screenshot when scroll settles
+      if (interaction.message.startsWith("SCROLL_SETTLED")) {
+        this.takeScreenshot(tabId, "scroll-settled")
+      }
+    }
+  }
+
+  async pollLayoutShifts(tabId) {
+    const shifts = await this.evaluateInTab(tabId, "window.__dev3000_layout_shifts__ || []")
+    const tabData = this.attachedTabs.get(tabId)
+    if (!tabData || !shifts || shifts.length <= tabData.layoutShiftCount) return
+
+    const newShifts = shifts.slice(tabData.layoutShiftCount)
+    tabData.layoutShiftCount = shifts.length
+    this.sendPerformance(tabId, { layoutShifts: newShifts })
   }
 
-  addLogEntry(entry) {
-    // Add to local buffer for popup display
-    this.logBuffer.push(entry)
+  async pollWebVitals(tabId) {
+    const webVitals = await this.evaluateInTab(tabId, "window.__dev3000_web_vitals__ || null")
+    const tabData = this.attachedTabs.get(tabId)
+    if (tabData && webVitals) {
+      tabData.webVitals = webVitals
+    }
+  }
+
+  // Log the web vitals polled last: all of them once the page loaded, and the final INP when it's
+  // left if interactions happened since
+  reportWebVitals(tabId, includeLoadMetrics) {
+    const tabData = this.attachedTabs.get(tabId)
+    const webVitals = tabData?.webVitals
+    if (!webVitals) return
+
+    const eventCount = webVitals.events?.length || 0
+    if (!includeLoadMetrics && (tabData.reportedEventCount === null || eventCount === tabData.reportedEventCount)) {
+      return
+    }
+    tabData.reportedEventCount = eventCount
+    this.sendPerformance(tabId, { webVitals, includeLoadMetrics })
+  }
+
+  scheduleNetworkIdleScreenshot(tabId) {
+    const tabData = this.attachedTabs.get(tabId)
+    if (!tabData || tabData.pendingRequests > 0) return
+
+    // Wait 500ms of network idle before taking screenshot
+    clearTimeout(tabData.networkIdleTimer)
+    tabData.networkIdleTimer = setTimeout(() => {
+      tabData.networkIdleTimer = null
+      this.takeScreenshot(tabId, "network-idle")
+    }, 500)
+  }
+
+  async takeScreenshot(tabId, event) {
+    const tabData = this.attachedTabs.get(tabId)
+    if (!tabData) return
+
+    // Special cases that should always take screenshots
+    const priorityEvents = ["error", "crash", "manual"]
+    const now = Date.now()
+    if (!priorityEvents.includes(event) && now - tabData.lastScreenshotTime < this.minScreenshotInterval) {
+      return
+    }
+    tabData.lastScreenshotTime = now
+
+    const appPort = tabData.appPort
+    const tabIdentifier = this.createTabIdentifier(tabData)
+    try {
+      const { data } = await this.sendCommand(tabId, "Page.captureScreenshot", { format: "png", fromSurface: true })
+
+      const instance = await this.getInstanceForPort(appPort)
+      if (!instance) return
+
+      // The instance saves the screenshot and logs its [SCREENSHOT] line
+      const response = await fetch(`${instance.url}/api/screenshots/upload`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await this.getAuthHeaders(instance.url)) },
+        body: JSON.stringify({ event, data, tabIdentifier })
+      })
+      if (response.ok) {
+        const { filename } = await response.json()
+        this.bufferLogEntry(`[SCREENSHOT] ${filename}`, tabIdentifier)
+      }
+    } catch (error) {
+      console.debug(`Screenshot of tab ${tabId} failed:`, error.message)
+    }
+  }
+
+  // Layout shifts and web vitals are formatted by the instance, with the formatters d3k uses
+  async sendPerformance(tabId, body) {
+    const tabData = this.attachedTabs.get(tabId)
+    const instance = tabData && (await this.getInstanceForPort(tabData.appPort))
+    if (!instance) return
+
+    const tabIdentifier = this.createTabIdentifier(tabData)
+    try {
+      const response = await fetch(`${instance.url}/api/logs/performance`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(await this.getAuthHeaders(instance.url)) },
+        body: JSON.stringify({ ...body, tabIdentifier })
+      })
+      if (response.ok) {
+        const { lines } = await response.json()
+        for (const line of lines) {
+          this.bufferLogEntry(line, tabIdentifier)
+        }
+      }
+    } catch (error) {
+      console.debug(`MCP server ${instance.url} not available:`, error.message)
+    }
+  }
+
+  // Add a line to the local buffer for popup display, in the format of the consolidated log
+  bufferLogEntry(message, tabIdentifier) {
+    this.logBuffer.push(`[${new Date().toISOString()}] [TAB-${tabIdentifier}] [BROWSER] ${message}`)
 
     // Keep buffer size manageable
     if (this.logBuffer.length > this.maxLogEntries) {
       this.logBuffer = this.logBuffer.slice(-this.maxLogEntries)
     }
+  }
 
-    // Send to MCP server for unified logging
-    this.sendToMcpServer(entry)
+  addLogEntry(message, tabId, fields = {}) {
+    const tabIdentifier = this.getTabIdentifier(tabId)
+    this.bufferLogEntry(message, tabIdentifier)
+
+    // Send to MCP server for unified logging. The port is read now, since detach entries
+    // are logged right before the tab is forgotten.
+    this.sendToMcpServer({ message, fields, tabIdentifier }, this.attachedTabs.get(tabId)?.appPort ?? null)
   }
 
-  async sendToMcpServer(entry) {
+  async sendToMcpServer(logEntry, appPort) {
+    const instance = await this.getInstanceForPort(appPort)
+    if (!instance) {
+      return
+    }
+
     try {
-      const response = await fetch("http://localhost:3684/api/logs/append", {
+      const response = await fetch(`${instance.url}/api/logs/append`, {
         method: "POST",
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          ...(await this.getAuthHeaders(instance.url))
         },
         body: JSON.stringify({
-          entry: entry,
+          ...logEntry,
           source: "chrome-extension"
         })
       })
 
       if (response.ok) {
-        this.mcpServerStatus = "connected"
+        instance.status = "connected"
       } else {
-        this.mcpServerStatus = "disconnected"
-        console.warn(`Failed to send log to MCP server: ${response.status}`)
+        instance.status = "disconnected"
+        console.warn(`Failed to send log to MCP server ${instance.url}: ${response.status}`)
       }
     } catch (error) {
       // Silently fail if MCP server is not running
       // This allows the extension to work independently
-      this.mcpServerStatus = "disconnected"
-      console.debug("MCP server not available:", error.message)
+      instance.status = "disconnected"
+      console.debug(`MCP server ${instance.url} not available:`, error.message)
     }
-
-    this.lastMcpServerCheck = Date.now()
   }
 
-  async checkMcpServerStatus() {
-    // Only check every 30 seconds to avoid spam
-    if (Date.now() - this.lastMcpServerCheck < 30000) {
-      return this.mcpServerStatus
+  // Status of the instance a page's logs go to, for the popup
+  async checkMcpServerStatus(url) {
+    const instance = await this.getInstanceForPort(this.getUrlPort(url))
+    if (!instance) {
+      return { status: "disconnected", instance: null }
     }
 
-    try {
-      const response = await fetch("http://localhost:3684/api/logs/tail?lines=1", {
-        method: "GET"
-      })
+    if (instance.status === "unknown") {
+      try {
+        const response = await fetch(`${instance.url}/api/logs/tail?lines=1`, {
+          method: "GET",
+          headers: await this.getAuthHeaders(instance.url)
+        })
 
-      this.mcpServerStatus = response.ok ? "connected" : "disconnected"
-    } catch (_error) {
-      this.mcpServerStatus = "disconnected"
+        instance.status = response.ok ? "connected" : "disconnected"
+      } catch (_error) {
+        instance.status = "disconnected"
+      }
     }
 
-    this.lastMcpServerCheck = Date.now()
-    return this.mcpServerStatus
+    return { status: instance.status, instance }
   }
 
   // API for popup and content scripts
@@ -667,12 +1122,17 @@ chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
       return true
 
     case "getMcpServerStatus":
-      monitor.checkMcpServerStatus().then(sendResponse)
+      monitor.checkMcpServerStatus(request.url).then(sendResponse)
+      return true
+
+    case "getInstances":
+      monitor.getInstances(request.refresh).then(sendResponse)
       return true
 
     case "settingsChanged":
-      // Settings changed from options page
+      // Settings changed from options page, instances may have been added or removed
       console.log("Settings updated:", request.settings)
+      monitor.getInstances(true)
       sendResponse({ success: true })
       break
 
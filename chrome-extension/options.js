@@ -11,7 +11,10 @@ class Dev3000Options {
       captureNetwork: true,
       captureErrors: true,
       capturePerformance: true,
-      maxLogEntries: 1000
+      maxLogEntries: 1000,
+      mcpInstances: ["http://localhost:3684"],
+      discoverInstances: true,
+      discoveryPorts: "3684-3693"
     }
 
     this.initialize()
@@ -20,6 +23,7 @@ class Dev3000Options {
   async initialize() {
     await this.loadSettings()
     this.setupEventListeners()
+    this.loadRunningInstances(false)
   }
 
   async loadSettings() {
@@ -27,14 +31,17 @@ class Dev3000Options {
       const result = await chrome.storage.sync.get("dev3000Settings")
       const settings = { ...this.defaultSettings, ...result.dev3000Settings }
 
-      this.populateForm(settings)
+      // Tokens stay on this machine instead of syncing with the other settings
+      const { dev3000ApiTokens } = await chrome.storage.local.get("dev3000ApiTokens")
+
+      this.populateForm(settings, dev3000ApiTokens || {})
     } catch (error) {
       console.error("Failed to load settings:", error)
       this.populateForm(this.defaultSettings)
     }
   }
 
-  populateForm(settings) {
+  populateForm(settings, tokens = {}) {
     // Checkboxes
     document.getElementById("autoAttach").checked = settings.autoAttach
     document.getElementById("monitorAllLocalhost").checked = settings.monitorAllLocalhost
@@ -42,14 +49,111 @@ class Dev3000Options {
     document.getElementById("captureNetwork").checked = settings.captureNetwork
     document.getElementById("captureErrors").checked = settings.captureErrors
     document.getElementById("capturePerformance").checked = settings.capturePerformance
+    document.getElementById("discoverInstances").checked = settings.discoverInstances
 
     // Text inputs
     document.getElementById("customPorts").value = settings.customPorts.join(", ")
     document.getElementById("customHosts").value = settings.customHosts.join(", ")
     document.getElementById("maxLogEntries").value = settings.maxLogEntries
+    document.getElementById("discoveryPorts").value = settings.discoveryPorts
 
     // Update preset port selection
     this.updatePresetPorts(settings.customPorts)
+
+    // Instance rows
+    document.getElementById("instanceList").replaceChildren()
+    settings.mcpInstances.forEach((url) => {
+      this.addInstanceRow(url, tokens[url])
+    })
+  }
+
+  addInstanceRow(url = "", token = "") {
+    const row = document.createElement("div")
+    row.className = "instance-row"
+
+    const urlInput = document.createElement("input")
+    urlInput.type = "text"
+    urlInput.className = "instance-url"
+    urlInput.placeholder = "http://localhost:3684"
+    urlInput.value = url
+
+    const tokenInput = document.createElement("input")
+    tokenInput.type = "password"
+    tokenInput.className = "instance-token"
+    tokenInput.placeholder = "API token (optional)"
+    tokenInput.autocomplete = "off"
+    tokenInput.value = token || ""
+
+    const removeBtn = document.createElement("button")
+    removeBtn.type = "button"
+    removeBtn.className = "btn secondary small"
+    removeBtn.textContent = "Remove"
+    removeBtn.addEventListener("click", () => row.remove())
+
+    row.append(urlInput, tokenInput, removeBtn)
+    document.getElementById("instanceList").append(row)
+  }
+
+  // Read the instance rows, throwing on a URL that doesn't parse
+  parseInstanceRows() {
+    const instances = []
+    const tokens = {}
+
+    document.querySelectorAll(".instance-row").forEach((row) => {
+      const input = row.querySelector(".instance-url").value.trim()
+      if (!input) return
+
+      let url
+      try {
+        url = new URL(input).origin
+      } catch (_error) {
+        throw new Error(`"${input}" is not a valid URL`)
+      }
+
+      if (!instances.includes(url)) instances.push(url)
+      const token = row.querySelector(".instance-token").value.trim()
+      if (token) tokens[url] = token
+    })
+
+    return { instances, tokens }
+  }
+
+  async loadRunningInstances(refresh) {
+    const list = document.getElementById("runningInstances")
+
+    try {
+      const instances = await chrome.runtime.sendMessage({ action: "getInstances", refresh })
+      const configured = Array.from(document.querySelectorAll(".instance-url")).map((input) => input.value.trim())
+
+      list.replaceChildren()
+      for (const instance of instances.filter((i) => i.status !== "unknown")) {
+        const item = document.createElement("li")
+        const label = document.createElement("span")
+        label.textContent = `${instance.projectName} - app on port ${instance.appPort ?? "?"} - ${instance.url}`
+        item.append(label)
+
+        if (!configured.includes(instance.url)) {
+          const addBtn = document.createElement("button")
+          addBtn.type = "button"
+          addBtn.className = "btn small"
+          addBtn.textContent = "Add"
+          addBtn.addEventListener("click", () => {
+            this.addInstanceRow(instance.url)
+            addBtn.remove()
+          })
+          item.append(addBtn)
+        }
+        list.append(item)
+      }
+
+      if (list.children.length === 0) {
+        const item = document.createElement("li")
+        item.textContent = "No running d3k instances found"
+        list.append(item)
+      }
+    } catch (error) {
+      console.error("Failed to load running instances:", error)
+    }
   }
 
   updatePresetPorts(selectedPorts) {
@@ -75,6 +179,14 @@ class Dev3000Options {
       this.resetSettings()
     })
 
+    // Instances
+    document.getElementById("addInstanceBtn").addEventListener("click", () => {
+      this.addInstanceRow()
+    })
+    document.getElementById("findInstancesBtn").addEventListener("click", () => {
+      this.loadRunningInstances(true)
+    })
+
     // Preset port tags
     document.querySelectorAll(".port-tag").forEach((tag) => {
       tag.addEventListener("click", () => {
@@ -127,6 +239,14 @@ class Dev3000Options {
   }
 
   async saveSettings() {
+    let instanceRows
+    try {
+      instanceRows = this.parseInstanceRows()
+    } catch (error) {
+      this.showStatus(error.message, "error")
+      return
+    }
+
     try {
       const settings = {
         autoAttach: document.getElementById("autoAttach").checked,
@@ -137,10 +257,14 @@ class Dev3000Options {
         captureNetwork: document.getElementById("captureNetwork").checked,
         captureErrors: document.getElementById("captureErrors").checked,
         capturePerformance: document.getElementById("capturePerformance").checked,
-        maxLogEntries: parseInt(document.getElementById("maxLogEntries").value, 10) || 1000
+        maxLogEntries: parseInt(document.getElementById("maxLogEntries").value, 10) || 1000,
+        mcpInstances: instanceRows.instances,
+        discoverInstances: document.getElementById("discoverInstances").checked,
+        discoveryPorts: document.getElementById("discoveryPorts").value.trim()
       }
 
       await chrome.storage.sync.set({ dev3000Settings: settings })
+      await chrome.storage.local.set({ dev3000ApiTokens: instanceRows.tokens })
 
       // Notify background script of settings change
       chrome.runtime.sendMessage({
@@ -149,6 +273,7 @@ class Dev3000Options {
       })
 
       this.showStatus("Settings saved successfully!", "success")
+      this.loadRunningInstances(true)
     } catch (error) {
       console.error("Failed to save settings:", error)
       this.showStatus("Failed to save settings. Please try again.", "error")
@@ -158,6 +283,7 @@ class Dev3000Options {
   async resetSettings() {
     try {
       await chrome.storage.sync.remove("dev3000Settings")
+      await chrome.storage.local.remove("dev3000ApiTokens")
 
       this.populateForm(this.defaultSettings)
 
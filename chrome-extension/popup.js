@@ -294,25 +294,35 @@ class Dev3000Popup {
 
   async loadMcpServerStatus() {
     try {
-      const status = await chrome.runtime.sendMessage({
-        action: "getMcpServerStatus"
+      // The status of the d3k instance this tab's logs go to
+      const { status, instance } = await chrome.runtime.sendMessage({
+        action: "getMcpServerStatus",
+        url: this.currentTab?.url
       })
 
-      this.updateMcpServerStatus(status)
+      this.updateMcpServerStatus(status, instance)
     } catch (error) {
       console.error("Failed to load MCP server status:", error)
       this.updateMcpServerStatus("disconnected")
     }
   }
 
-  updateMcpServerStatus(status) {
+  updateMcpServerStatus(status, instance) {
     const mcpStatusIndicator = document.getElementById("mcpStatusIndicator")
     const mcpStatusText = document.getElementById("mcpStatusText")
 
+    if (instance) {
+      const logsLink = document.getElementById("logsLink")
+      logsLink.href = `${instance.url}/logs`
+      logsLink.textContent = `${new URL(instance.url).host}/logs`
+    }
+
     switch (status) {
       case "connected":
         mcpStatusIndicator.className = "status-indicator active"
-        mcpStatusText.textContent = "MCP Server: Connected ✓"
+        mcpStatusText.textContent = instance?.projectName
+          ? `MCP Server: Connected to ${instance.projectName} ✓`
+          : "MCP Server: Connected ✓"
         break
       case "disconnected":
         mcpStatusIndicator.className = "status-indicator inactive"
@@ -17,6 +17,7 @@ async function getRealCLSData(
   totalCLS: number
   grade: string
   cssViewport?: { width: number; height: number; devicePixelRatio: number }
+  device?: string
 } | null> {
   try {
     const metadataPath = join(screenshotDir, `${session}-metadata.json`)
@@ -33,7 +34,8 @@ async function getRealCLSData(
       shifts: metadata.layoutShifts,
       totalCLS: metadata.totalCLS || 0,
       grade: metadata.clsGrade || "unknown",
-      cssViewport: metadata.cssViewport
+      cssViewport: metadata.cssViewport,
+      device: metadata.device
     }
   } catch (error) {
     console.error("Failed to fetch real CLS data:", error)
@@ -331,6 +333,7 @@ export async function GET(_request: NextRequest, { params }: { params: Promise<{
       source: "performance-observer-validated",
       actualCLS: realCLS.totalCLS,
       grade: realCLS.grade,
+      device: realCLS.device,
       note: `Real CLS: ${realCLS.totalCLS.toFixed(4)} (${realCLS.grade}). Filtered ${clsMarkers.length - filteredMarkers.length} false positives from pixel-diff.`
     })
   }
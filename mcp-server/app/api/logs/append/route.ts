@@ -1,82 +1,47 @@
-import { appendFileSync, existsSync, mkdirSync } from "fs"
+import { existsSync } from "fs"
 import type { NextRequest } from "next/server"
-import { dirname } from "path"
+import { appendToSessionLog, getCurrentLogPath } from "@/lib/log-files"
+import type { LogAppendRequest } from "@/types"
 
-interface LogEntry {
-  entry: string
-  source?: string
-}
+// "[timestamp] [TAB-1.0] [BROWSER] message", the complete lines of older extension versions
+const LEGACY_ENTRY_PATTERN = /^\[[^\]]*\] (?:\[TAB-([^\]]+)\] )?\[BROWSER\] ([\s\S]*)$/
 
 export async function POST(request: NextRequest): Promise<Response> {
   try {
     const body = await request.json()
-    const { entry, source }: LogEntry = body
+    const { message, fields, tabIdentifier, entry, source }: LogAppendRequest = body
 
-    if (!entry) {
-      return Response.json(
-        { error: "Log entry is required" },
-        {
-          status: 400,
-          headers: {
-            "Access-Control-Allow-Origin": "*",
-            "Access-Control-Allow-Methods": "POST, OPTIONS",
-            "Access-Control-Allow-Headers": "Content-Type"
-          }
-        }
-      )
+    if (!message && !entry) {
+      return Response.json({ error: "Log entry is required" }, { status: 400 })
     }
 
-    const logPath = process.env.LOG_FILE_PATH || "./ai-dev-tools/consolidated.log"
+    // CORS for the extension is handled by proxy.ts, which only allows trusted origins
+    const logPath = getCurrentLogPath()
 
-    // Ensure directory exists
-    const logDir = dirname(logPath)
-    if (!existsSync(logDir)) {
-      mkdirSync(logDir, { recursive: true })
+    // Formatted like the lines d3k writes itself, so the extension's lines can't be told apart
+    if (!existsSync(logPath)) {
+      return Response.json({ error: "Log file not found" }, { status: 404 })
+    }
+    if (message) {
+      appendToSessionLog(logPath, [message], fields, tabIdentifier)
+    } else if (entry) {
+      // The entry's own timestamp is replaced, so it follows the session's format like every other line
+      const legacy = entry.trimEnd().match(LEGACY_ENTRY_PATTERN)
+      appendToSessionLog(logPath, [legacy ? legacy[2] : entry.trimEnd()], {}, legacy?.[1])
     }
 
-    // Append the log entry
-    const logLine = `${entry}\n`
-    appendFileSync(logPath, logLine, "utf-8")
-
-    return Response.json(
-      {
-        success: true,
-        message: "Log entry appended",
-        source: source || "unknown"
-      },
-      {
-        headers: {
-          "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "POST, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type"
-        }
-      }
-    )
+    return Response.json({
+      success: true,
+      message: "Log entry appended",
+      source: source || "unknown"
+    })
   } catch (error) {
     console.error("Failed to append log:", error)
     return Response.json(
       {
         error: error instanceof Error ? error.message : "Unknown error"
       },
-      {
-        status: 500,
-        headers: {
-          "Access-Control-Allow-Origin": "*",
-          "Access-Control-Allow-Methods": "POST, OPTIONS",
-          "Access-Control-Allow-Headers": "Content-Type"
-        }
-      }
+      { status: 500 }
     )
   }
 }
-
-export async function OPTIONS(): Promise<Response> {
-  return new Response(null, {
-    status: 200,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type"
-    }
-  })
-}
@@ -0,0 +1,80 @@
+import {
+  getEventLogPath,
+  LOG_EVENT_KINDS,
+  LOG_EVENT_LEVELS,
+  type LogEventKind,
+  type LogEventLevel,
+  type LogEventQuery,
+  queryLogEvents
+} from "@dev3000/src/utils/log-events"
+import { findLogSidecar, readLogFile } from "@dev3000/src/utils/log-rotation"
+import type { NextRequest } from "next/server"
+import { resolveLogPath } from "@/lib/log-files"
+import type { LogEventsApiResponse, LogsApiError } from "@/types"
+
+function badRequest(error: string): Response {
+  const errorResponse: LogsApiError = { error }
+  return Response.json(errorResponse, { status: 400 })
+}
+
+/**
+ * Query the structured event sidecar of the consolidated log by field, e.g.
+ * /api/logs/events?kind=network&level=error&url=/api/users&limit=20
+ * Add stack=1 for the events with a stack trace only.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const { searchParams } = new URL(request.url)
+    const logPath = resolveLogPath(searchParams.get("logId"))
+    const eventLogPath = logPath && findLogSidecar(getEventLogPath(logPath))
+
+    if (!eventLogPath) {
+      const errorResponse: LogsApiError = { error: "Event log not found" }
+      return Response.json(errorResponse, { status: 404 })
+    }
+
+    const source = searchParams.get("source")
+    const kind = searchParams.get("kind")
+    const level = searchParams.get("level")
+    if (source && source !== "server" && source !== "browser") {
+      return badRequest("source must be server or browser")
+    }
+    if (kind && !LOG_EVENT_KINDS.includes(kind as LogEventKind)) {
+      return badRequest(`kind must be one of ${LOG_EVENT_KINDS.join(", ")}`)
+    }
+    if (level && !LOG_EVENT_LEVELS.includes(level as LogEventLevel)) {
+      return badRequest(`level must be one of ${LOG_EVENT_LEVELS.join(", ")}`)
+    }
+
+    const query: LogEventQuery = {
+      source: (source as LogEventQuery["source"]) || undefined,
+      kind: (kind as LogEventKind) || undefined,
+      level: (level as LogEventLevel) || undefined,
+      url: searchParams.get("url") || undefined,
+      status: searchParams.has("status") ? parseInt(searchParams.get("status") || "", 10) : undefined,
+      method: searchParams.get("method") || undefined,
+      requestId: searchParams.get("requestId") || undefined,
+      text: searchParams.get("text") || undefined,
+      hasStack: searchParams.get("stack") === "1" || undefined,
+      since: searchParams.has("since") ? new Date(searchParams.get("since") || "") : undefined,
+      until: searchParams.has("until") ? new Date(searchParams.get("until") || "") : undefined,
+      limit: parseInt(searchParams.get("limit") || "100", 10)
+    }
+    if (
+      (query.status !== undefined && Number.isNaN(query.status)) ||
+      Number.isNaN(query.limit) ||
+      (query.since && Number.isNaN(query.since.getTime())) ||
+      (query.until && Number.isNaN(query.until.getTime()))
+    ) {
+      return badRequest("status and limit must be numbers, since and until ISO timestamps")
+    }
+
+    const response: LogEventsApiResponse = queryLogEvents(readLogFile(eventLogPath), query)
+    return Response.json(response)
+  } catch (error) {
+    const errorResponse: LogsApiError = {
+      error: error instanceof Error ? error.message : "Unknown error"
+    }
+    return Response.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { formatLayoutShiftLog } from "@dev3000/src/utils/performance-observers"
+import { formatWebVitalsLog, summarizeWebVitals } from "@dev3000/src/utils/web-vitals"
+import { existsSync } from "fs"
+import type { NextRequest } from "next/server"
+import { appendToSessionLog, getCurrentLogPath } from "@/lib/log-files"
+import type { PerformanceLogRequest, PerformanceLogResponse } from "@/types"
+
+/**
+ * Log the layout shifts and web vitals the Chrome extension polled from a page
+ * The raw entries are formatted here, with the formatters d3k's own CDP monitor uses.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const {
+      layoutShifts,
+      webVitals,
+      includeLoadMetrics = true,
+      tabIdentifier
+    }: PerformanceLogRequest = await request.json()
+
+    const logPath = getCurrentLogPath()
+    if (!existsSync(logPath)) {
+      return Response.json({ error: "Log file not found" }, { status: 404 })
+    }
+
+    const lines = (layoutShifts || []).map(formatLayoutShiftLog)
+    if (webVitals) {
+      lines.push(...formatWebVitalsLog(summarizeWebVitals(webVitals), includeLoadMetrics))
+    }
+    appendToSessionLog(logPath, lines, {}, tabIdentifier)
+
+    const response: PerformanceLogResponse = { lines }
+    return Response.json(response)
+  } catch (error) {
+    return Response.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 })
+  }
+}
@@ -1,39 +1,26 @@
-import { extractProjectNameFromLogFilename } from "@dev3000/src/utils/log-filename"
-import { existsSync, renameSync, writeFileSync } from "fs"
-import { type NextRequest, NextResponse } from "next/server"
-import { dirname, join } from "path"
-
-export async function POST(request: NextRequest) {
+import { getRotatedLogFilename } from "@dev3000/src/utils/log-filename"
+import { rotateLogFile } from "@dev3000/src/utils/log-rotation"
+import { existsSync } from "fs"
+import { NextResponse } from "next/server"
+import { basename } from "path"
+import { getCurrentLogPath } from "@/lib/log-files"
+
+/**
+ * Rotate the log d3k is writing to - archived logs are never renamed, so no path is taken from the request
+ */
+export async function POST() {
   try {
-    const body = await request.json()
-    const { currentLogPath } = body
-
-    if (!currentLogPath) {
-      return NextResponse.json({ error: "currentLogPath is required" }, { status: 400 })
-    }
+    const currentLogPath = getCurrentLogPath()
 
     // Check if the current log file exists
     if (!existsSync(currentLogPath)) {
       return NextResponse.json({ error: "Current log file not found" }, { status: 404 })
     }
 
-    const logDir = dirname(currentLogPath)
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
-
-    // Extract project name from current log filename using shared utility
-    const currentFileName = currentLogPath.split("/").pop() || ""
-    const projectName = extractProjectNameFromLogFilename(currentFileName) || "unknown"
-
-    // Create new timestamped filename
-    const archivedLogPath = join(logDir, `${projectName}-${timestamp}.log`)
-
-    // Rename current log to archived name
-    renameSync(currentLogPath, archivedLogPath)
-
-    // Create new empty log file
-    writeFileSync(currentLogPath, "")
-
-    // No symlink update needed - each instance uses its own log file
+    // Archive the log and its sidecars under a timestamped name and start them over empty
+    const now = new Date()
+    const archivedLogPath = rotateLogFile(currentLogPath, getRotatedLogFilename(basename(currentLogPath), now))
+    const timestamp = now.toISOString().replace(/[:.]/g, "-")
 
     return NextResponse.json({
       success: true,
@@ -1,98 +1,123 @@
-import { existsSync, readFileSync, statSync, watch } from "fs"
+import { existsSync, type FSWatcher, watch } from "fs"
 import type { NextRequest } from "next/server"
+import { resolveLogPath } from "@/lib/log-files"
+import { formatLogPosition, IncrementalLogReader, type LogChunk, parseLogPosition } from "@/lib/log-reader"
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
-  const logPath = searchParams.get("logPath") || process.env.LOG_FILE_PATH || "./ai-dev-tools/consolidated.log"
+  const logPath = resolveLogPath(searchParams.get("logId"))
 
-  if (!existsSync(logPath)) {
+  if (!logPath || !existsSync(logPath)) {
     return new Response("Log file not found", { status: 404 })
   }
 
+  // Reconnecting clients resume after the last event they received. EventSource sends the header
+  // itself; LogsClient opens a new EventSource on reconnect and passes it as a query parameter.
+  const resumeFrom = parseLogPosition(request.headers.get("last-event-id") ?? searchParams.get("lastEventId"))
+
   const encoder = new TextEncoder()
-  let lastSize = 0
-  let lastInode = 0
 
   const stream = new ReadableStream({
     start(controller) {
-      // Send initial content
-      try {
-        const content = readFileSync(logPath, "utf-8")
-        const stats = statSync(logPath)
-        lastSize = content.length
-        lastInode = stats.ino
+      let reader: IncrementalLogReader
+      let watcher: FSWatcher | null = null
+      let rewatchTimeout: ReturnType<typeof setTimeout> | null = null
+      let closed = false
 
-        // Send initial content as string (parseLogEntries expects string, not array)
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ lines: content })}\n\n`))
-      } catch (error) {
-        console.error("Failed to read initial log:", error)
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: "Failed to read log" })}\n\n`))
+      const send = (data: Record<string, unknown>, chunk?: LogChunk) => {
+        const id = chunk ? `id: ${formatLogPosition(chunk.position)}\n` : ""
+        controller.enqueue(encoder.encode(`${id}data: ${JSON.stringify(data)}\n\n`))
       }
 
-      // Watch for file changes using fs.watch (more efficient than watchFile)
-      let watcher: ReturnType<typeof watch> | null = null
-
-      try {
-        watcher = watch(logPath, (eventType) => {
-          // Handle both 'change' and 'rename' (rotation/truncation)
-          try {
-            const stats = statSync(logPath)
-            const rotatedOrRecreated = stats.ino !== lastInode || eventType === "rename"
-            if (rotatedOrRecreated) {
-              // Log rotation detected - send full content of new file
-              console.log("Log rotation detected, reloading full file")
-              const content = readFileSync(logPath, "utf-8")
-              lastSize = content.length
-              lastInode = stats.ino
-
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ rotated: true, lines: content })}\n\n`))
-              return
+      // Send what was written since the last read - a rotated or truncated file replaces the client's logs
+      const sendUpdates = () => {
+        try {
+          for (const chunk of reader.read()) {
+            if (chunk.reset) {
+              console.log(`Log file ${chunk.reset}, reloading from the start`)
+              send({ [chunk.reset]: true, lines: chunk.text }, chunk)
+            } else {
+              send({ newLines: chunk.text }, chunk)
             }
+          }
+        } catch (error) {
+          // The file is briefly missing while it is rotated, the next watch event picks it up
+          if ((error as NodeJS.ErrnoException).code === "ENOENT") return
+          console.error("Error reading log updates:", error)
+          send({ error: "Failed to read log updates" })
+        }
+      }
 
-            // Normal file update - send only new content
-            const content = readFileSync(logPath, "utf-8")
-            if (content.length > lastSize) {
-              const newContent = content.slice(lastSize)
-              if (newContent.length > 0) {
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({ newLines: newContent })}\n\n`))
-              }
-              lastSize = content.length
-            } else if (content.length < lastSize) {
-              // File was truncated - reload full content
-              console.log("Log file truncated, reloading")
-              lastSize = content.length
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ truncated: true, lines: content })}\n\n`))
-            }
-          } catch (error) {
-            console.error("Error reading log updates:", error)
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: "Failed to read log updates" })}\n\n`))
+      // fs.watch follows the inode, so a rotated file has to be watched again under its path
+      const startWatching = () => {
+        if (closed) return
+        if (!existsSync(logPath)) {
+          rewatchTimeout = setTimeout(() => {
+            startWatching()
+            sendUpdates()
+          }, 100)
+          return
+        }
+        watcher = watch(logPath, (eventType) => {
+          if (eventType === "rename") {
+            watcher?.close()
+            watcher = null
+            startWatching()
           }
+          sendUpdates()
         })
+      }
 
-        // Send periodic heartbeat to keep connection alive
-        const heartbeatInterval = setInterval(() => {
-          try {
-            controller.enqueue(encoder.encode(": heartbeat\n\n"))
-          } catch (_error) {
-            // Connection closed, cleanup
-            clearInterval(heartbeatInterval)
+      // Send initial content, or only what was missed when resuming
+      try {
+        reader = new IncrementalLogReader(logPath, resumeFrom)
+        if (resumeFrom) {
+          sendUpdates()
+        } else {
+          const [first = { text: "", position: reader.getPosition() }, ...rest] = reader.read()
+          // parseLogEntries expects a string, not an array
+          send({ lines: first.text }, first)
+          for (const chunk of rest) {
+            send({ newLines: chunk.text }, chunk)
           }
-        }, 30000) // Every 30 seconds
+        }
+      } catch (error) {
+        console.error("Failed to read initial log:", error)
+        send({ error: "Failed to read log" })
+        controller.close()
+        return
+      }
 
-        // Cleanup on close
-        request.signal.addEventListener("abort", () => {
-          clearInterval(heartbeatInterval)
-          if (watcher) {
-            watcher.close()
-            watcher = null
-          }
-          controller.close()
-        })
+      try {
+        startWatching()
       } catch (error) {
         console.error("Failed to setup file watcher:", error)
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ error: "Failed to setup file watcher" })}\n\n`))
+        send({ error: "Failed to setup file watcher" })
         controller.close()
+        return
       }
+
+      // Send periodic heartbeat to keep connection alive
+      const heartbeatInterval = setInterval(() => {
+        try {
+          controller.enqueue(encoder.encode(": heartbeat\n\n"))
+        } catch (_error) {
+          // Connection closed, cleanup
+          clearInterval(heartbeatInterval)
+        }
+      }, 30000) // Every 30 seconds
+
+      // Cleanup on close
+      request.signal.addEventListener("abort", () => {
+        closed = true
+        clearInterval(heartbeatInterval)
+        if (rewatchTimeout) clearTimeout(rewatchTimeout)
+        if (watcher) {
+          watcher.close()
+          watcher = null
+        }
+        controller.close()
+      })
     }
   })
 
@@ -1,25 +1,28 @@
-import { existsSync, readFileSync } from "fs"
+import { readLogFile } from "@dev3000/src/utils/log-rotation"
+import { existsSync, statSync } from "fs"
 import type { NextRequest } from "next/server"
+import { resolveLogPath } from "@/lib/log-files"
 import type { LogsApiError, LogsApiResponse } from "@/types"
 
 export async function GET(request: NextRequest): Promise<Response> {
   try {
     const { searchParams } = new URL(request.url)
     const lines = parseInt(searchParams.get("lines") || "50", 10)
-    const logPath = searchParams.get("logPath") || process.env.LOG_FILE_PATH || "./ai-dev-tools/consolidated.log"
+    const logPath = resolveLogPath(searchParams.get("logId"))
 
-    if (!existsSync(logPath)) {
+    if (!logPath || !existsSync(logPath)) {
       const errorResponse: LogsApiError = { error: "Log file not found" }
       return Response.json(errorResponse, { status: 404 })
     }
 
-    const logContent = readFileSync(logPath, "utf-8")
+    const logContent = readLogFile(logPath) // Archives may be gzipped
     const allLines = logContent.split("\n").filter((line) => line.trim())
     const tailLines = allLines.slice(-lines)
 
     const response: LogsApiResponse = {
       logs: tailLines.join("\n"),
-      total: allLines.length
+      total: allLines.length,
+      lastModified: statSync(logPath).mtime.toISOString()
     }
 
     return Response.json(response)
@@ -0,0 +1,45 @@
+import { buildHar, getNetworkLogPath, isFailedExchange, parseCapturedExchanges } from "@dev3000/src/utils/har"
+import { findLogSidecar, readLogFile } from "@dev3000/src/utils/log-rotation"
+import type { NextRequest } from "next/server"
+import { basename } from "path"
+import { resolveLogPath } from "@/lib/log-files"
+import type { LogsApiError } from "@/types"
+
+/**
+ * Export the network exchanges captured with --capture-network as a HAR 1.2 file, e.g.
+ * /api/network/har?url=/api/users&failed=true
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  try {
+    const { searchParams } = new URL(request.url)
+    const logPath = resolveLogPath(searchParams.get("logId"))
+    if (!logPath) {
+      const errorResponse: LogsApiError = { error: "Log file not found" }
+      return Response.json(errorResponse, { status: 404 })
+    }
+    const networkLogPath = findLogSidecar(getNetworkLogPath(logPath))
+
+    if (!networkLogPath) {
+      const errorResponse: LogsApiError = {
+        error: "Network capture not found - start dev3000 with --capture-network to record requests"
+      }
+      return Response.json(errorResponse, { status: 404 })
+    }
+
+    const url = searchParams.get("url")
+    const failedOnly = searchParams.get("failed") === "true"
+    const exchanges = parseCapturedExchanges(readLogFile(networkLogPath)).filter(
+      (exchange) => (!url || exchange.request.url.includes(url)) && (!failedOnly || isFailedExchange(exchange))
+    )
+
+    const fileName = basename(logPath).replace(/\.log(?:\.gz)?$/, "")
+    return Response.json(buildHar(exchanges, process.env.DEV3000_VERSION), {
+      headers: { "Content-Disposition": `attachment; filename="${fileName}.har"` }
+    })
+  } catch (error) {
+    const errorResponse: LogsApiError = {
+      error: error instanceof Error ? error.message : "Unknown error"
+    }
+    return Response.json(errorResponse, { status: 500 })
+  }
+}
@@ -0,0 +1,15 @@
+import { buildInteractionTrackingScript, TAKE_INTERACTIONS_EXPRESSION } from "@dev3000/src/utils/interaction-tracker"
+import { PERFORMANCE_OBSERVER_SCRIPT } from "@dev3000/src/utils/performance-observers"
+import type { PageScriptsApiResponse } from "@/types"
+
+/**
+ * The scripts d3k injects into the monitored page, for the Chrome extension to inject the same ones
+ */
+export async function GET(): Promise<Response> {
+  const scripts: PageScriptsApiResponse = {
+    interactionTracker: buildInteractionTrackingScript(),
+    takeInteractions: TAKE_INTERACTIONS_EXPRESSION,
+    performanceObservers: PERFORMANCE_OBSERVER_SCRIPT
+  }
+  return Response.json(scripts)
+}
@@ -0,0 +1,33 @@
+import { readFile } from "fs/promises"
+import { createRequire } from "module"
+import { NextResponse } from "next/server"
+import { dirname, join } from "path"
+
+// react-scan only exports its package.json, so locate the global build next to it. Resolved from the
+// server's directory: Turbopack rewrites require.resolve relative to import.meta.url to a module ID.
+const require = createRequire(join(process.cwd(), "package.json"))
+
+/**
+ * Serve the bundled react-scan build injected by --plugin-react-scan
+ * Pinned by our dependency and served locally, so it works offline and never picks up an untested release.
+ */
+export async function GET() {
+  try {
+    const packagePath = require.resolve("react-scan/package.json")
+    const { version } = JSON.parse(await readFile(packagePath, "utf-8")) as { version: string }
+    const script = await readFile(join(dirname(packagePath), "dist", "auto.global.js"), "utf-8")
+
+    // The monitored app runs on another port, so the script is loaded cross-origin
+    return new NextResponse(script, {
+      headers: {
+        "Content-Type": "application/javascript; charset=utf-8",
+        "Cache-Control": "public, max-age=3600",
+        "Access-Control-Allow-Origin": "*",
+        "X-React-Scan-Version": version
+      }
+    })
+  } catch (error) {
+    console.error("Error serving react-scan:", error)
+    return new NextResponse("react-scan is not installed", { status: 500 })
+  }
+}
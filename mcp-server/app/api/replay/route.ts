@@ -0,0 +1,224 @@
+import type { LogEventFields } from "@dev3000/src/utils/log-events"
+import {
+  describeReplayEvent,
+  parseReplayEvents,
+  REPLAY_END_MARKER,
+  REPLAY_START_MARKER,
+  type ReplayEvent,
+  runReplay
+} from "@dev3000/src/utils/replay"
+import { existsSync, readFileSync, statSync } from "fs"
+import type { NextRequest } from "next/server"
+import { WebSocket } from "ws"
+import { parseLogEntries } from "@/app/logs/utils"
+import { findActiveSessions } from "@/app/mcp/tools"
+import { appendToSessionLog, getCurrentLogPath } from "@/lib/log-files"
+import type { ReplayExecuteRequest, ReplayParseResponse, ReplayStreamMessage } from "@/types"
+
+/**
+ * Resolve the CDP WebSocket URL of the session that owns this MCP server's log file
+ */
+function resolveCdpUrl(logPath: string): string | null {
+  const sessions = findActiveSessions()
+  const session = sessions.find((s) => s.logFilePath === logPath) || sessions[0]
+  if (session) {
+    try {
+      const sessionData = JSON.parse(readFileSync(session.sessionFile, "utf-8"))
+      if (sessionData.cdpUrl) {
+        return sessionData.cdpUrl.replace("http://", "ws://")
+      }
+    } catch {
+      // Fall through to the environment
+    }
+  }
+  return process.env.CDP_URL || null
+}
+
+// Written like d3k's own lines, with the session's timestamps and an event in the sidecar
+function appendReplayLog(logPath: string, message: string, fields?: LogEventFields) {
+  try {
+    appendToSessionLog(logPath, [message], fields)
+  } catch (error) {
+    console.error("Failed to write replay log:", error)
+  }
+}
+
+async function connectToCDP(cdpUrl: string) {
+  const ws = new WebSocket(cdpUrl)
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error("CDP connection timeout")), 5000)
+    ws.on("open", () => {
+      clearTimeout(timeout)
+      resolve()
+    })
+    ws.on("error", (error) => {
+      clearTimeout(timeout)
+      reject(error)
+    })
+  })
+
+  let messageId = 5000
+  const send = (method: string, params: Record<string, unknown> = {}): Promise<Record<string, unknown>> => {
+    return new Promise((resolve, reject) => {
+      const id = messageId++
+
+      const handler = (data: Buffer) => {
+        const response = JSON.parse(data.toString())
+        if (response.id === id) {
+          clearTimeout(timeout)
+          ws.off("message", handler)
+          if (response.error) {
+            reject(new Error(response.error.message))
+          } else {
+            resolve(response.result)
+          }
+        }
+      }
+
+      const timeout = setTimeout(() => {
+        ws.off("message", handler)
+        reject(new Error(`CDP command timeout: ${method}`))
+      }, 10000)
+
+      ws.on("message", handler)
+      ws.send(JSON.stringify({ id, method, params }))
+    })
+  }
+
+  return { ws, send }
+}
+
+function readReplayEvents(logPath: string): ReplayEvent[] {
+  if (!existsSync(logPath)) {
+    return []
+  }
+  return parseReplayEvents(parseLogEntries(readFileSync(logPath, "utf-8"), statSync(logPath).mtime))
+}
+
+export async function GET(request: NextRequest): Promise<Response> {
+  const { searchParams } = new URL(request.url)
+  if (searchParams.get("action") !== "parse") {
+    return Response.json({ error: "Unsupported action" }, { status: 400 })
+  }
+
+  try {
+    const logPath = getCurrentLogPath()
+    if (!existsSync(logPath)) {
+      return Response.json({ error: "Log file not found" }, { status: 404 })
+    }
+
+    const events = readReplayEvents(logPath)
+    const response: ReplayParseResponse = {
+      events,
+      interactionCount: events.filter((event) => event.type !== "NAVIGATION").length,
+      durationMs: events.length > 0 ? events[events.length - 1].offsetMs : 0
+    }
+    return Response.json(response)
+  } catch (error) {
+    return Response.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 })
+  }
+}
+
+/**
+ * Execute a replay and stream progress back as Server-Sent Events.
+ * Progress is also written to the consolidated log as [REPLAY] lines.
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  let body: ReplayExecuteRequest
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: "Invalid JSON body" }, { status: 400 })
+  }
+
+  if (body.action !== "execute") {
+    return Response.json({ error: "Unsupported action" }, { status: 400 })
+  }
+
+  const logPath = getCurrentLogPath()
+  const events = body.events && body.events.length > 0 ? body.events : readReplayEvents(logPath)
+  if (events.length === 0) {
+    return Response.json({ error: "No user interactions found in logs to replay" }, { status: 400 })
+  }
+
+  const cdpUrl = resolveCdpUrl(logPath)
+  if (!cdpUrl) {
+    return Response.json(
+      { error: "No Chrome DevTools connection found. Browser monitoring must be active to replay." },
+      { status: 503 }
+    )
+  }
+
+  let connection: Awaited<ReturnType<typeof connectToCDP>>
+  try {
+    connection = await connectToCDP(cdpUrl)
+  } catch (error) {
+    return Response.json(
+      { error: `Failed to connect to Chrome: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 503 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream({
+    async start(controller) {
+      const sendMessage = (message: ReplayStreamMessage) => {
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`))
+        } catch {
+          // Client disconnected - the replay keeps running until aborted
+        }
+      }
+
+      appendReplayLog(logPath, `${REPLAY_START_MARKER} (${events.length} events, speed ${body.speed || 1}x)`)
+      sendMessage({ type: "start", total: events.length })
+
+      try {
+        const result = await runReplay(connection.send, events, {
+          speed: body.speed,
+          signal: request.signal,
+          onProgress: (progress) => {
+            const description = describeReplayEvent(progress.event)
+            if (progress.status === "failed") {
+              appendReplayLog(logPath, `[REPLAY] Failed ${description}: ${progress.error}`, { level: "error" })
+            } else if (progress.status === "executed") {
+              const resolution =
+                progress.resolvedBy === "coordinates"
+                  ? " (element not found, used recorded coordinates)"
+                  : progress.resolvedBy
+                    ? ` (resolved by ${progress.resolvedBy})`
+                    : ""
+              appendReplayLog(logPath, `[REPLAY] ${description}${resolution}`)
+            }
+            sendMessage({ type: "progress", ...progress })
+          }
+        })
+
+        appendReplayLog(
+          logPath,
+          `${REPLAY_END_MARKER} (${result.executed} executed, ${result.skipped} skipped, ${result.failed} failed${result.aborted ? ", aborted" : ""})`
+        )
+        sendMessage({ type: "complete", success: result.failed === 0 && !result.aborted, ...result })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        appendReplayLog(logPath, `${REPLAY_END_MARKER} with error: ${message}`, { level: "error" })
+        sendMessage({ type: "error", error: message })
+      } finally {
+        connection.ws.close()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive"
+    }
+  })
+}
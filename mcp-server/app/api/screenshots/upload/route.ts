@@ -0,0 +1,44 @@
+import { existsSync, mkdirSync, writeFileSync } from "fs"
+import type { NextRequest } from "next/server"
+import { tmpdir } from "os"
+import { join } from "path"
+import { appendToSessionLog, getCurrentLogPath } from "@/lib/log-files"
+import type { ScreenshotUploadRequest, ScreenshotUploadResponse } from "@/types"
+
+/**
+ * Save a screenshot the Chrome extension captured and log it like d3k's own screenshots
+ */
+export async function POST(request: NextRequest): Promise<Response> {
+  try {
+    const { event, data, tabIdentifier }: ScreenshotUploadRequest = await request.json()
+
+    // The event becomes part of the filename
+    if (!event || !/^[a-z0-9-]+$/.test(event) || !data) {
+      return Response.json(
+        { error: "An event (lowercase letters, digits and dashes) and data are required" },
+        { status: 400 }
+      )
+    }
+
+    const screenshotDir = process.env.SCREENSHOT_DIR || join(tmpdir(), "dev3000-mcp-deps", "public", "screenshots")
+    if (!existsSync(screenshotDir)) {
+      mkdirSync(screenshotDir, { recursive: true })
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
+    const filename = `${timestamp}-${event}.png`
+    writeFileSync(join(screenshotDir, filename), Buffer.from(data, "base64"))
+
+    appendToSessionLog(
+      getCurrentLogPath(),
+      [`[SCREENSHOT] ${filename}`],
+      { kind: "screenshot", url: `/api/screenshots/${filename}` },
+      tabIdentifier
+    )
+
+    const response: ScreenshotUploadResponse = { filename }
+    return Response.json(response)
+  } catch (error) {
+    return Response.json({ error: error instanceof Error ? error.message : "Unknown error" }, { status: 500 })
+  }
+}
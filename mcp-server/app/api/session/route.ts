@@ -0,0 +1,22 @@
+import { extractProjectNameFromLogFilename } from "@dev3000/src/utils/log-filename"
+import { connection } from "next/server"
+import { basename } from "path"
+import { getCurrentLogPath } from "@/lib/log-files"
+import type { SessionApiResponse } from "@/types"
+
+/**
+ * Describe the d3k instance serving this MCP server
+ * The Chrome extension probes this to find the instance whose app a tab is showing.
+ */
+export async function GET(): Promise<Response> {
+  await connection()
+
+  const appPort = Number.parseInt(process.env.APP_PORT || "", 10)
+  const session: SessionApiResponse = {
+    projectName: extractProjectNameFromLogFilename(basename(getCurrentLogPath())) || "unknown",
+    appPort: Number.isNaN(appPort) ? null : appPort,
+    mcpPort: Number.parseInt(process.env.PORT || "3684", 10),
+    version: process.env.DEV3000_VERSION || null
+  }
+  return Response.json(session)
+}
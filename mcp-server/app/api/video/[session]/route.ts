@@ -0,0 +1,68 @@
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs"
+import type { NextRequest } from "next/server"
+import { tmpdir } from "os"
+import { join } from "path"
+import { PNG } from "pngjs"
+import { getApiAccessConfig } from "@/lib/api-access"
+import { encodeJankVideo, type JankVideoFrame } from "@/lib/jank-video"
+import type { ClsMarker } from "@/types"
+
+/**
+ * Build a downloadable MP4 of a jank screencast session, with the layout shifts
+ * found by /api/jank/[session] burned in. The video is cached next to the frames
+ * and rebuilt when they change - unless the layout shifts couldn't be found, so a
+ * video without its overlays is not kept. Add ?download=1 to get it as an attachment.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ session: string }> }) {
+  const { session } = await params
+  if (!session || session.includes("..") || session.includes("/")) {
+    return Response.json({ error: "Invalid session" }, { status: 400 })
+  }
+
+  const screenshotDir = process.env.SCREENSHOT_DIR || join(tmpdir(), "dev3000-mcp-deps", "public", "screenshots")
+  const frameFiles = existsSync(screenshotDir)
+    ? readdirSync(screenshotDir)
+        .filter((f) => f.startsWith(session) && f.includes("-jank-") && f.endsWith(".png"))
+        .map((file) => ({ file, timestamp: parseInt(file.match(/-(\d+)ms\.png$/)?.[1] || "0", 10) }))
+        .sort((a, b) => a.timestamp - b.timestamp)
+    : []
+
+  if (frameFiles.length === 0) {
+    return Response.json({ error: `No screencast frames found for session ${session}` }, { status: 404 })
+  }
+
+  try {
+    const videoPath = join(screenshotDir, `${session}-jank.mp4`)
+    const framesModified = Math.max(...frameFiles.map(({ file }) => statSync(join(screenshotDir, file)).mtimeMs))
+
+    let video: Buffer
+    if (existsSync(videoPath) && statSync(videoPath).mtimeMs >= framesModified) {
+      video = readFileSync(videoPath)
+    } else {
+      // Under --api-token this request to itself needs the token like any other
+      const { token } = getApiAccessConfig()
+      const jankResponse = await fetch(new URL(`/api/jank/${session}`, request.url), {
+        headers: token ? { Authorization: `Bearer ${token}` } : {}
+      }).catch(() => null)
+      const { clsMarkers = [] } = jankResponse?.ok ? ((await jankResponse.json()) as { clsMarkers?: ClsMarker[] }) : {}
+
+      const frames: JankVideoFrame[] = frameFiles.map(({ file, timestamp }) => ({
+        timestamp,
+        load: () => PNG.sync.read(readFileSync(join(screenshotDir, file)))
+      }))
+      video = await encodeJankVideo(frames, clsMarkers)
+      if (jankResponse?.ok) writeFileSync(videoPath, video)
+    }
+
+    const headers: Record<string, string> = { "Content-Type": "video/mp4", "Cache-Control": "no-cache" }
+    if (new URL(request.url).searchParams.get("download") === "1") {
+      headers["Content-Disposition"] = `attachment; filename="${session}-jank.mp4"`
+    }
+    return new Response(new Uint8Array(video), { headers })
+  } catch (error) {
+    return Response.json(
+      { error: `Failed to encode video: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { existsSync } from "fs"
+import { readFile } from "fs/promises"
+import { type NextRequest, NextResponse } from "next/server"
+import { join } from "path"
+import { getVisualRegressionDir } from "@/lib/visual-regression"
+
+export async function GET(request: NextRequest) {
+  try {
+    const project = request.nextUrl.searchParams.get("project")
+    const file = request.nextUrl.searchParams.get("file")
+
+    // Only serve screenshots from the project's baseline and latest directories
+    if (!project || project.includes("..") || project.includes("/")) {
+      return new NextResponse("Invalid project", { status: 400 })
+    }
+    if (!file || !/^(baseline|latest)\/[\w@.-]+\.png$/.test(file) || file.includes("..")) {
+      return new NextResponse("Invalid file", { status: 400 })
+    }
+
+    const imagePath = join(getVisualRegressionDir(project), file)
+    if (!existsSync(imagePath)) {
+      return new NextResponse("Screenshot not found", { status: 404 })
+    }
+
+    const imageData = new Uint8Array(await readFile(imagePath))
+
+    // Baselines are overwritten in place, so never cache
+    return new NextResponse(imageData, {
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "no-store"
+      }
+    })
+  } catch (error) {
+    console.error("Error serving visual regression screenshot:", error)
+    return new NextResponse("Internal server error", { status: 500 })
+  }
+}
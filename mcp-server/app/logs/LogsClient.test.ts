@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest"
-import { parseLogEntries } from "./utils"
+import { findEntriesAround, getStatusClass, parseLogEntries, parseNetworkRequests } from "./utils"
 
 describe("parseLogEntries", () => {
   it("should parse single-line log entries correctly", () => {
@@ -414,3 +414,86 @@ myapp:dev: }
     })
   })
 })
+
+describe("parseNetworkRequests", () => {
+  it("should pair requests with their responses", () => {
+    const entries = parseLogEntries(
+      [
+        "[2025-10-01T10:00:00.000Z] [BROWSER] [NETWORK] POST http://localhost:3000/api/users (Fetch) initiated by script",
+        "[2025-10-01T10:00:00.010Z] [BROWSER] [NETWORK] GET http://localhost:3000/api/users (Fetch) initiated by script",
+        "[2025-10-01T10:00:00.050Z] [BROWSER] [NETWORK] 500 Internal Server Error http://localhost:3000/api/users (Fetch) [application/json] (48ms) (27 bytes)",
+        "[2025-10-01T10:00:00.060Z] [BROWSER] [CONSOLE ERROR] Failed to save user"
+      ].join("\n")
+    )
+
+    const requests = parseNetworkRequests(entries)
+
+    expect(requests).toHaveLength(2)
+    expect(requests[0]).toEqual({
+      id: "2025-10-01T10:00:00.000Z-0",
+      timestamp: "2025-10-01T10:00:00.000Z",
+      method: "POST",
+      url: "http://localhost:3000/api/users",
+      status: 500,
+      statusText: "Internal Server Error",
+      resourceType: "Fetch",
+      mimeType: "application/json",
+      durationMs: 48,
+      sizeBytes: 27,
+      entryIndex: 0
+    })
+    expect(getStatusClass(requests[0])).toBe("5xx")
+    expect(requests[1].status).toBeUndefined()
+    expect(getStatusClass(requests[1])).toBe("pending")
+  })
+
+  it("should pair responses by request id when requests to a URL overlap", () => {
+    const entries = parseLogEntries(
+      [
+        "[2025-10-01T10:00:00.000Z] [BROWSER] [NETWORK] GET http://localhost:3000/api/search (Fetch) initiated by script (id 100.1)",
+        "[2025-10-01T10:00:00.010Z] [BROWSER] [NETWORK] GET http://localhost:3000/api/search (Fetch) initiated by script (id 100.2) [content-type: application/json]",
+        "[2025-10-01T10:00:00.030Z] [BROWSER] [NETWORK] 200 OK http://localhost:3000/api/search (Fetch) [application/json] (20ms) (id 100.2)",
+        "[2025-10-01T10:00:00.090Z] [BROWSER] [NETWORK] 500 Internal Server Error http://localhost:3000/api/search (Fetch) (90ms) (id 100.1)"
+      ].join("\n")
+    )
+
+    const requests = parseNetworkRequests(entries)
+
+    expect(requests.map((request) => [request.timestamp, request.status, request.durationMs])).toEqual([
+      ["2025-10-01T10:00:00.000Z", 500, 90],
+      ["2025-10-01T10:00:00.010Z", 200, 20]
+    ])
+  })
+
+  it("should keep responses without a logged request", () => {
+    const entries = parseLogEntries(
+      [
+        "[2025-10-01T10:00:00.000Z] [BROWSER] [NETWORK] 200  http://localhost:3000/ (Document) [text/html]",
+        "[2025-10-01T10:00:01.000Z] [TAB-1.2] [BROWSER] [NETWORK RESPONSE] 404 Not Found http://localhost:3000/logo.png (Image) [image/png] [CHROME_EXTENSION]"
+      ].join("\n")
+    )
+
+    const requests = parseNetworkRequests(entries)
+
+    expect(requests.map((request) => [request.method, request.status, request.resourceType])).toEqual([
+      [undefined, 200, "Document"],
+      [undefined, 404, "Image"]
+    ])
+    expect(requests[0].statusText).toBeUndefined()
+  })
+})
+
+describe("findEntriesAround", () => {
+  it("should find the entries logged around a point in time", () => {
+    const entries = parseLogEntries(
+      [
+        "[2025-10-01T10:00:00.000Z] [SERVER] before",
+        "[2025-10-01T10:00:05.000Z] [SERVER] during",
+        "[2025-10-01T10:00:06.500Z] [BROWSER] [SCREENSHOT] 2025-10-01-network-idle.png",
+        "[2025-10-01T10:00:10.000Z] [SERVER] after"
+      ].join("\n")
+    )
+
+    expect(findEntriesAround(entries, "2025-10-01T10:00:05.000Z", 2000, 2000)).toEqual([1, 2])
+  })
+})
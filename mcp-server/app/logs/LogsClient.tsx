@@ -1,12 +1,22 @@
 "use client"
 
+import { parseStackFrame, type StackFrame } from "@dev3000/src/services/parsers/stack-trace"
+import { describeReplayEvent, parseReplayEvents, type ReplayEvent } from "@dev3000/src/utils/replay"
 import Image from "next/image"
 import { useRouter, useSearchParams } from "next/navigation"
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { DarkModeToggle } from "@/components/dark-mode-toggle"
 import { useDarkMode } from "@/hooks/use-dark-mode"
 import { getTextColor, LOG_COLORS } from "@/lib/constants/log-colors"
-import type { LogEntry, LogFile, LogListResponse, LogsApiResponse } from "@/types"
+import type {
+  LogEntry,
+  LogEventsApiResponse,
+  LogFile,
+  LogListResponse,
+  LogsApiResponse,
+  ReplayParseResponse,
+  ReplayStreamMessage
+} from "@/types"
 
 // Define interfaces for object property rendering
 interface PropertyData {
@@ -16,20 +26,8 @@ interface PropertyData {
   subtype?: string
 }
 
-interface ReplayEvent {
-  timestamp: string
-  event: string
-  details: string
-  type?: string
-  x?: number
-  y?: number
-  target?: string
-  direction?: string
-  distance?: number
-  key?: string
-}
-
-import { parseLogEntries } from "./utils"
+import { NetworkPanel } from "./NetworkPanel"
+import { parseLogEntries, parseNetworkRequests } from "./utils"
 
 // Keep this for backwards compatibility, but it's not used anymore
 function _parseLogLine(line: string): LogEntry | null {
@@ -253,7 +251,96 @@ function ObjectRenderer({ content }: { content: string }) {
   }
 }
 
-function LogEntryComponent({ entry, darkMode }: { entry: LogEntry; darkMode: boolean }) {
+function formatStackFrame(frame: StackFrame): string {
+  let location = [frame.file, frame.line, frame.column].filter((part) => part !== undefined).join(":")
+  if (frame.bundled) location += ` [${frame.bundled}]`
+  return `    at ${frame.function ? `${frame.function} (${location})` : location}`
+}
+
+/**
+ * Split a grouped error entry into its message and its stack trace lines
+ * @param stack - The frames the logger recorded in the event sidecar, shown instead of the text's
+ * @returns null when the entry has no stack trace
+ */
+function splitStackTrace(
+  message: string,
+  stack?: StackFrame[]
+): { summary: string; trace: string[]; frameCount: number } | null {
+  const lines = message.split("\n")
+  if (lines.length < 2 && !stack?.length) return null
+
+  const summary: string[] = []
+  const trace: string[] = []
+  let frameCount = 0
+  lines.forEach((line, index) => {
+    const isFrame = index > 0 && parseStackFrame(line) !== null
+    if (isFrame) frameCount++
+    // Frames and indented lines (source excerpts, elided frames) go in the collapsible part
+    if (isFrame || (index > 0 && /^\s/.test(line))) {
+      trace.push(line)
+    } else {
+      summary.push(line)
+    }
+  })
+
+  if (stack?.length) {
+    return { summary: summary.join("\n"), trace: stack.map(formatStackFrame), frameCount: stack.length }
+  }
+  return frameCount > 0 ? { summary: summary.join("\n"), trace, frameCount } : null
+}
+
+function StackTraceRenderer({ trace, frameCount }: { trace: string[]; frameCount: number }) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <div className="mt-1">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+      >
+        <svg
+          className={`w-3 h-3 transition-transform ${isExpanded ? "rotate-90" : ""}`}
+          fill="currentColor"
+          viewBox="0 0 20 20"
+        >
+          <path
+            fillRule="evenodd"
+            d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 111.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z"
+            clipRule="evenodd"
+          />
+        </svg>
+        {frameCount} stack {frameCount === 1 ? "frame" : "frames"}
+      </button>
+      {isExpanded && (
+        <pre className="mt-1 ml-4 border-l-2 border-gray-200 dark:border-gray-700 pl-3 text-xs text-muted-foreground whitespace-pre-wrap">
+          {trace.join("\n")}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+function LogEntryComponent({
+  entry,
+  stack,
+  darkMode,
+  highlighted = false
+}: {
+  entry: LogEntry
+  stack?: StackFrame[]
+  darkMode: boolean
+  highlighted?: boolean
+}) {
+  const entryRef = useRef<HTMLDivElement>(null)
+
+  // Bring the entry into view when it's opened from the network panel
+  useEffect(() => {
+    if (highlighted) {
+      entryRef.current?.scrollIntoView({ block: "center" })
+    }
+  }, [highlighted])
+
   // Parse log type from message patterns - using shared TUI colors
   const parseLogType = (message: string) => {
     if (message.includes("[INTERACTION]"))
@@ -292,6 +379,18 @@ function LogEntryComponent({ entry, darkMode }: { entry: LogEntry; darkMode: boo
         backgroundColor: LOG_COLORS.DEBUG,
         textColor: getTextColor(LOG_COLORS.DEBUG)
       }
+    if (message.includes("[A11Y]"))
+      return {
+        type: "A11Y",
+        backgroundColor: LOG_COLORS.A11Y,
+        textColor: getTextColor(LOG_COLORS.A11Y)
+      }
+    if (message.includes("[REACT]"))
+      return {
+        type: "REACT",
+        backgroundColor: LOG_COLORS.REACT,
+        textColor: getTextColor(LOG_COLORS.REACT)
+      }
     if (message.includes("[SCREENSHOT]"))
       return {
         type: "SCREENSHOT",
@@ -343,6 +442,7 @@ function LogEntryComponent({ entry, darkMode }: { entry: LogEntry; darkMode: boo
   }
 
   const logTypeInfo = parseLogType(entry.message)
+  const stackTrace = splitStackTrace(entry.message, stack)
 
   // Extract and highlight type tags, detect JSON objects and URLs
   const renderMessage = (message: string) => {
@@ -516,7 +616,11 @@ function LogEntryComponent({ entry, darkMode }: { entry: LogEntry; darkMode: boo
   }
 
   return (
-    <div className={`border-l-4 ${getBorderClass()} pl-4 py-2`} style={getBackgroundStyle()}>
+    <div
+      ref={entryRef}
+      className={`border-l-4 ${getBorderClass()} pl-4 py-2 ${highlighted ? "ring-2 ring-blue-500" : ""}`}
+      style={getBackgroundStyle()}
+    >
       {/* Table-like layout using CSS Grid */}
       <div className="grid grid-cols-[auto_auto_1fr] gap-3 items-start">
         {/* Column 1: Timestamp */}
@@ -538,7 +642,16 @@ function LogEntryComponent({ entry, darkMode }: { entry: LogEntry; darkMode: boo
         {/* Column 3: Message content with user agent info */}
         <div className="font-mono text-sm min-w-0 text-foreground">
           <div className="flex flex-wrap items-start gap-2">
-            <div className="flex-1 min-w-0">{renderMessage(entry.message)}</div>
+            <div className="flex-1 min-w-0">
+              {stackTrace ? (
+                <>
+                  <div className="whitespace-pre-wrap">{renderMessage(stackTrace.summary)}</div>
+                  <StackTraceRenderer trace={stackTrace.trace} frameCount={stackTrace.frameCount} />
+                </>
+              ) : (
+                renderMessage(entry.message)
+              )}
+            </div>
             {/* User Agent and Tab Identifier Pills */}
             <div className="flex items-center gap-1 flex-shrink-0">
               {entry.tabIdentifier && (
@@ -856,19 +969,41 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
   const [showFilters, setShowFilters] = useState(false)
   const [showReplayPreview, setShowReplayPreview] = useState(false)
   const [replayEvents, setReplayEvents] = useState<ReplayEvent[]>([])
+  const [replayProgress, setReplayProgress] = useState<{ current: number; total: number } | null>(null)
   const [isRotatingLog, setIsRotatingLog] = useState(false)
   const [retryCount, setRetryCount] = useState(0)
   const [maxRetries] = useState(5)
   const [lastFailedUrl, setLastFailedUrl] = useState<string | null>(null)
+  const [stacks, setStacks] = useState<Map<string, StackFrame[]>>(() => new Map())
+
+  // Stack traces come from the event sidecar, fetched again when an entry with one comes in
+  const tracedEntryCount = useMemo(() => logs.filter((entry) => entry.message.includes("\n")).length, [logs])
+  useEffect(() => {
+    if (tracedEntryCount === 0) return
+    const requestedFile = searchParams.get("file")
+    const logId = (requestedFile && availableLogs.find((f) => f.name === requestedFile)?.name) || ""
+    fetch(`/api/logs/events?stack=1&limit=1000&logId=${encodeURIComponent(logId)}`)
+      .then((response) => (response.ok ? (response.json() as Promise<LogEventsApiResponse>) : null))
+      .then((data) => {
+        setStacks(new Map((data?.events ?? []).map((event) => [event.message, event.stack ?? []])))
+      })
+      .catch(() => {
+        // Entries keep the frames parsed from their text
+      })
+  }, [tracedEntryCount, searchParams, availableLogs])
   const [hasLoadedInitial, setHasLoadedInitial] = useState(false)
   const [filters, setFilters] = useState({
     browser: true,
     server: true,
     interaction: true,
-    screenshot: true
+    screenshot: true,
+    accessibility: true
   })
   const [userAgentFilters, setUserAgentFilters] = useState<Record<string, boolean>>({})
+  const [processFilters, setProcessFilters] = useState<Record<string, boolean>>({}) // Unchecked processes are false
   const [logBuffer, setLogBuffer] = useState<LogEntry[]>([]) // Buffer logs when not in live mode
+  const [view, setView] = useState<"logs" | "network">("logs")
+  const [highlightedEntry, setHighlightedEntry] = useState<LogEntry | null>(null) // Entry opened from the network panel
   const bottomRef = useRef<HTMLDivElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const pollIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
@@ -908,30 +1043,23 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
     if (mode !== "tail") return
 
     try {
-      // Determine which log file to poll
+      // Determine which log file to poll - an empty ID is the current log
       const requestedFile = searchParams.get("file")
-      let logPath = ""
+      let logId = ""
       let isCurrentFile = true
 
       if (requestedFile && availableLogs.length > 0) {
         // Find the specific log file requested
         const foundFile = availableLogs.find((f) => f.name === requestedFile)
-        logPath = foundFile?.path || currentLogFile
+        logId = foundFile?.name || ""
         isCurrentFile = foundFile?.isCurrent !== false
-      } else {
-        // Use current log file
-        logPath = currentLogFile
-        isCurrentFile = true
       }
 
       // Only poll for new logs if viewing the current (active) log file
       if (!isCurrentFile) return
 
-      // Build API URL with logPath parameter if needed
       // For polling, only fetch a small number of new lines to reduce server load
-      const apiUrl = logPath
-        ? `/api/logs/tail?lines=50&logPath=${encodeURIComponent(logPath)}`
-        : `/api/logs/tail?lines=50`
+      const apiUrl = `/api/logs/tail?lines=50&logId=${encodeURIComponent(logId)}`
 
       // Check if we've exceeded retry limit for this specific URL
       if (lastFailedUrl === apiUrl && retryCount >= maxRetries) {
@@ -962,7 +1090,7 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
         return
       }
 
-      const entries = parseLogEntries(data.logs)
+      const entries = parseLogEntries(data.logs, new Date(data.lastModified))
 
       if (entries.length > lastLogCount) {
         if (isAtBottom) {
@@ -998,16 +1126,8 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
 
       // Build the failed URL for tracking
       const requestedFile = searchParams.get("file")
-      let logPath = ""
-      if (requestedFile && availableLogs.length > 0) {
-        const foundFile = availableLogs.find((f) => f.name === requestedFile)
-        logPath = foundFile?.path || currentLogFile
-      } else {
-        logPath = currentLogFile
-      }
-      const failedUrl = logPath
-        ? `/api/logs/tail?lines=50&logPath=${encodeURIComponent(logPath)}`
-        : `/api/logs/tail?lines=50`
+      const logId = (requestedFile && availableLogs.find((f) => f.name === requestedFile)?.name) || ""
+      const failedUrl = `/api/logs/tail?lines=50&logId=${encodeURIComponent(logId)}`
 
       // Increment retry count if it's the same URL, otherwise reset
       if (lastFailedUrl === failedUrl) {
@@ -1032,7 +1152,6 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
     isAtBottom,
     searchParams,
     availableLogs,
-    currentLogFile,
     lastLogCount,
     logBuffer,
     logs,
@@ -1051,22 +1170,19 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
       eventSourceRef.current = null
     }
 
-    // Determine which log file to stream
+    // Determine which log file to stream - an empty ID is the current log
     const requestedFile = searchParams.get("file")
-    let logPath = ""
+    let logId = ""
     let isCurrentFile = true
 
     if (requestedFile && availableLogs.length > 0) {
       const foundFile = availableLogs.find((f) => f.name === requestedFile)
-      logPath = foundFile?.path || currentLogFile
+      logId = foundFile?.name || ""
       isCurrentFile = foundFile?.isCurrent !== false
-    } else {
-      logPath = currentLogFile
-      isCurrentFile = true
     }
 
     // Only stream current (active) log file
-    if (!isCurrentFile || !logPath) return
+    if (!isCurrentFile || !currentLogFile) return
 
     // Construct SSE URL with proper host/port
     // Use MCP_BASE_URL environment variable if available, otherwise detect from window.location
@@ -1092,15 +1208,19 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
     }
 
     const baseUrl = getBaseUrl()
-    const sseUrl = `${baseUrl}/api/logs/stream?logPath=${encodeURIComponent(logPath)}`
+    const sseUrl = `${baseUrl}/api/logs/stream?logId=${encodeURIComponent(logId)}`
     console.log("Connecting to SSE:", sseUrl, baseUrl ? `(base: ${baseUrl})` : "(relative URL)")
 
     let reconnectAttempts = 0
     const maxReconnectAttempts = 5
     let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+    // Position of the last received chunk - reconnects resume from it instead of reloading the whole file
+    let lastEventId = ""
 
     const connect = () => {
-      const eventSource = new EventSource(sseUrl)
+      const eventSource = new EventSource(
+        lastEventId ? `${sseUrl}&lastEventId=${encodeURIComponent(lastEventId)}` : sseUrl
+      )
       eventSourceRef.current = eventSource
 
       eventSource.onopen = () => {
@@ -1111,6 +1231,9 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
       eventSource.onmessage = (event) => {
         try {
           const data = JSON.parse(event.data)
+          if (event.lastEventId) {
+            lastEventId = event.lastEventId
+          }
 
           if (data.error) {
             console.error("SSE error:", data.error)
@@ -1275,23 +1398,10 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
     }
 
     try {
-      // Determine which log file to load
+      // Determine which log file to load - an empty ID is the current log
       const requestedFile = searchParams.get("file")
-      let logPath = ""
-
-      if (requestedFile && availableLogs.length > 0) {
-        // Find the specific log file requested
-        const foundFile = availableLogs.find((f) => f.name === requestedFile)
-        logPath = foundFile?.path || currentLogFile
-      } else {
-        // Use current log file
-        logPath = currentLogFile
-      }
-
-      // Build API URL with logPath parameter if needed
-      const apiUrl = logPath
-        ? `/api/logs/${mode}?lines=1000&logPath=${encodeURIComponent(logPath)}`
-        : `/api/logs/${mode}?lines=1000`
+      const logId = (requestedFile && availableLogs.find((f) => f.name === requestedFile)?.name) || ""
+      const apiUrl = `/api/logs/${mode}?lines=1000&logId=${encodeURIComponent(logId)}`
 
       // Check if we've exceeded retry limit for this specific URL
       if (lastFailedUrl === apiUrl && retryCount >= maxRetries) {
@@ -1321,7 +1431,7 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
         return
       }
 
-      const entries = parseLogEntries(data.logs)
+      const entries = parseLogEntries(data.logs, new Date(data.lastModified))
 
       setLogs(entries)
       setLastLogCount(entries.length)
@@ -1347,16 +1457,8 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
 
       // Build the failed URL for tracking
       const requestedFile = searchParams.get("file")
-      let logPath = ""
-      if (requestedFile && availableLogs.length > 0) {
-        const foundFile = availableLogs.find((f) => f.name === requestedFile)
-        logPath = foundFile?.path || currentLogFile
-      } else {
-        logPath = currentLogFile
-      }
-      const failedUrl = logPath
-        ? `/api/logs/${mode}?lines=1000&logPath=${encodeURIComponent(logPath)}`
-        : `/api/logs/${mode}?lines=1000`
+      const logId = (requestedFile && availableLogs.find((f) => f.name === requestedFile)?.name) || ""
+      const failedUrl = `/api/logs/${mode}?lines=1000&logId=${encodeURIComponent(logId)}`
 
       // Track retry attempts
       if (lastFailedUrl === failedUrl) {
@@ -1375,7 +1477,7 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
     } finally {
       setIsInitialLoading(false)
     }
-  }, [loadAvailableLogs, searchParams, availableLogs, currentLogFile, mode, retryCount, lastFailedUrl, maxRetries])
+  }, [loadAvailableLogs, searchParams, availableLogs, mode, retryCount, lastFailedUrl, maxRetries])
 
   useEffect(() => {
     // Only load logs if we don't have initial data and haven't tried loading yet
@@ -1478,83 +1580,76 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
         throw new Error("Failed to parse replay data")
       }
 
-      const replayData = await response.json()
+      const replayData: ReplayParseResponse = await response.json()
 
-      if (replayData.interactions.length === 0) {
+      if (replayData.interactionCount === 0) {
         alert("No user interactions found in logs to replay")
         return
       }
 
-      // Generate CDP commands for replay
+      // Execute the replay - progress is streamed back as Server-Sent Events
       const response2 = await fetch("/api/replay", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           action: "execute",
-          replayData: replayData,
+          events: replayData.events,
           speed: 2
         })
       })
 
-      const result = await response2.json()
+      if (!response2.ok || !response2.body) {
+        const error = await response2.json().catch(() => ({ error: `HTTP ${response2.status}` }))
+        throw new Error(error.error || "Replay failed")
+      }
+
+      const reader = response2.body.getReader()
+      const decoder = new TextDecoder()
+      let buffer = ""
+      let result: ReplayStreamMessage | null = null
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const messages = buffer.split("\n\n")
+        buffer = messages.pop() || ""
+
+        for (const raw of messages) {
+          if (!raw.startsWith("data: ")) continue
+          const message: ReplayStreamMessage = JSON.parse(raw.slice(6))
+          if (message.type === "start") {
+            setReplayProgress({ current: 0, total: message.total })
+          } else if (message.type === "progress") {
+            setReplayProgress({ current: message.index + 1, total: message.total })
+          } else {
+            result = message
+          }
+        }
+      }
 
-      if (result.success) {
+      if (result?.type === "complete") {
         console.log("Replay executed successfully:", result)
-        alert(`Replay completed! Executed ${result.totalCommands} commands.`)
-      } else {
-        console.log("CDP execution failed, showing commands:", result)
         alert(
-          `CDP execution not available. Generated ${result.commands?.length || 0} commands. Check console for details.`
+          `Replay completed! Executed ${result.executed} of ${result.total} events` +
+            (result.failed > 0 ? ` (${result.failed} failed)` : "")
         )
+      } else if (result?.type === "error") {
+        throw new Error(result.error)
       }
     } catch (error) {
       console.error("Replay error:", error)
       alert(`Failed to start replay: ${error instanceof Error ? error.message : "Unknown error"}`)
     } finally {
       setIsReplaying(false)
+      setReplayProgress(null)
     }
   }
 
   const loadReplayPreview = () => {
     // Extract interactions from current logs instead of making API call
-    const interactions = logs
-      .filter((log) => log.message.includes("[INTERACTION]"))
-      .map((log) => {
-        const match = log.message.match(/\[INTERACTION\] (.+)/)
-        if (match) {
-          try {
-            // Try parsing as JSON (new format)
-            const data = JSON.parse(match[1])
-            return {
-              timestamp: log.timestamp,
-              event: data.type || "unknown",
-              details: JSON.stringify(data),
-              type: data.type,
-              x: data.x,
-              y: data.y,
-              target: data.target,
-              direction: data.direction,
-              distance: data.distance,
-              key: data.key
-            } as ReplayEvent
-          } catch {
-            // Fallback to old format parsing
-            const oldMatch = match[1].match(/(CLICK|TAP|SCROLL|KEY) (.+)/)
-            if (oldMatch) {
-              return {
-                timestamp: log.timestamp,
-                event: oldMatch[1],
-                details: oldMatch[2],
-                type: oldMatch[1]
-              } as ReplayEvent
-            }
-          }
-        }
-        return null
-      })
-      .filter((item): item is ReplayEvent => item !== null)
-
-    setReplayEvents(interactions)
+    setReplayEvents(parseReplayEvents(logs))
   }
 
   const handleRotateLog = async () => {
@@ -1573,13 +1668,7 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
 
     setIsRotatingLog(true)
     try {
-      const response = await fetch("/api/logs/rotate", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({ currentLogPath: currentLogFile })
-      })
+      const response = await fetch("/api/logs/rotate", { method: "POST" })
 
       if (response.ok) {
         // Clear current logs from UI
@@ -1632,17 +1721,33 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
     }
   }, [availableUserAgents])
 
+  // Processes of multiplexed server output (foreman, turbo, ...)
+  const availableProcesses = useMemo(() => {
+    const processes = new Set<string>()
+    logs.forEach((entry) => {
+      if (entry.processName) {
+        processes.add(entry.processName)
+      }
+    })
+    return Array.from(processes).sort()
+  }, [logs])
+
   const filteredLogs = useMemo(() => {
     return logs.filter((entry) => {
       // Check specific message types first (these override source filtering)
       const isInteraction = entry.message.includes("[INTERACTION]")
       const isScreenshot = entry.message.includes("[SCREENSHOT]")
+      const isAccessibility = entry.message.includes("[A11Y]")
 
       if (isInteraction) return filters.interaction
       if (isScreenshot) return filters.screenshot
+      if (isAccessibility) return filters.accessibility
 
       // For other logs, filter by source
-      if (entry.source === "SERVER") return filters.server
+      if (entry.source === "SERVER") {
+        if (!filters.server) return false
+        return !entry.processName || processFilters[entry.processName] !== false
+      }
       if (entry.source === "BROWSER") {
         // First check if browser logs are enabled at all
         if (!filters.browser) return false
@@ -1658,7 +1763,15 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
 
       return true
     })
-  }, [logs, filters, userAgentFilters, availableUserAgents])
+  }, [logs, filters, userAgentFilters, availableUserAgents, processFilters])
+
+  const networkRequests = useMemo(() => parseNetworkRequests(logs), [logs])
+
+  const showInLogs = useCallback((entry: LogEntry) => {
+    userScrolledManually.current = true // Don't jump back to the bottom while looking at the entry
+    setHighlightedEntry(entry)
+    setView("logs")
+  }, [])
 
   return (
     <div className="h-screen bg-background text-foreground flex flex-col transition-colors">
@@ -1736,9 +1849,7 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
                       <div className="h-4 bg-gray-200 rounded animate-pulse" style={{ width: "220px" }} />
                     ) : currentLogFile ? (
                       // Show basename for all files
-                      currentLogFile
-                        .split("/")
-                        .pop()
+                      currentLogFile.split("/").pop()
                     ) : (
                       "No log file"
                     )}
@@ -1780,8 +1891,8 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
 
             {/* Mode Toggle */}
             <div className="flex items-center gap-2">
-              {/* Replay Button - Hidden until functionality is complete */}
-              {false && (
+              {/* Replay Button */}
+              {mode === "tail" && (
                 <div className="relative">
                   <button
                     type="button"
@@ -1803,7 +1914,9 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
                     {isReplaying ? (
                       <>
                         <div className="w-3 h-3 border border-purple-300 border-t-purple-600 rounded-full animate-spin"></div>
-                        Replaying...
+                        {replayProgress
+                          ? `Replaying ${replayProgress.current}/${replayProgress.total}`
+                          : "Replaying..."}
                       </>
                     ) : (
                       <>
@@ -1842,7 +1955,9 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
                                         ? "bg-blue-100 text-blue-800"
                                         : event.type === "SCROLL"
                                           ? "bg-green-100 text-green-800"
-                                          : "bg-muted text-muted-foreground"
+                                          : event.type === "NAVIGATION"
+                                            ? "bg-purple-100 text-purple-800"
+                                            : "bg-muted text-muted-foreground"
                                     }`}
                                   >
                                     {event.type}
@@ -1852,10 +1967,7 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
                                   </span>
                                 </div>
                                 <div className="mt-1 text-xs text-gray-600 font-mono truncate">
-                                  {event.type === "CLICK" && `(${event.x}, ${event.y}) on ${event.target}`}
-                                  {event.type === "SCROLL" &&
-                                    `${event.direction} ${event.distance}px to (${event.x}, ${event.y})`}
-                                  {event.type === "KEY" && `${event.key} in ${event.target}`}
+                                  {describeReplayEvent(event)}
                                 </div>
                               </div>
                             ))
@@ -1866,6 +1978,23 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
                   )}
                 </div>
               )}
+              {/* Logs/Network view toggle */}
+              <div className="flex items-center bg-muted rounded-md p-1">
+                {(["logs", "network"] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setView(option)}
+                    className={`px-2 sm:px-3 py-1 rounded text-xs sm:text-sm font-medium transition-colors whitespace-nowrap ${
+                      view === option
+                        ? "bg-background text-foreground shadow-sm"
+                        : "text-muted-foreground hover:text-foreground"
+                    }`}
+                  >
+                    {option === "logs" ? "Logs" : `Network (${networkRequests.length})`}
+                  </button>
+                ))}
+              </div>
               {/* Filter Button */}
               <div className="relative" ref={filterDropdownRef}>
                 <button
@@ -1912,6 +2041,36 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
                         </span>
                       </label>
 
+                      {/* Process Sub-filters */}
+                      {availableProcesses.length > 1 && filters.server && (
+                        <div className="ml-6 border-l border-border pl-2">
+                          {availableProcesses.map((processName) => (
+                            <label
+                              key={processName}
+                              className="flex items-center justify-between px-2 py-1 text-xs hover:bg-accent cursor-pointer"
+                            >
+                              <div className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={processFilters[processName] !== false}
+                                  onChange={(e) =>
+                                    setProcessFilters((prev) => ({
+                                      ...prev,
+                                      [processName]: e.target.checked
+                                    }))
+                                  }
+                                  className="rounded border-input text-primary focus:ring-ring w-3 h-3"
+                                />
+                                <span className="text-foreground">{processName.toLowerCase()}</span>
+                              </div>
+                              <span className="text-xs text-muted-foreground">
+                                {logs.filter((l) => l.processName === processName).length}
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Browser Logs */}
                       <label className="flex items-center justify-between px-3 py-2 text-sm hover:bg-accent cursor-pointer">
                         <div className="flex items-center gap-2">
@@ -2015,6 +2174,27 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
                           {logs.filter((l) => l.message.includes("[SCREENSHOT]")).length}
                         </span>
                       </label>
+
+                      {/* Accessibility audit results */}
+                      <label className="flex items-center justify-between px-3 py-2 text-sm hover:bg-accent cursor-pointer">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={filters.accessibility}
+                            onChange={(e) =>
+                              setFilters((prev) => ({
+                                ...prev,
+                                accessibility: e.target.checked
+                              }))
+                            }
+                            className="rounded border-input text-primary focus:ring-ring"
+                          />
+                          <span className="text-foreground">Accessibility</span>
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {logs.filter((l) => l.message.includes("[A11Y]")).length}
+                        </span>
+                      </label>
                     </div>
                   </div>
                 )}
@@ -2098,6 +2278,8 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
                 )}
               </div>
             </div>
+          ) : view === "network" ? (
+            <NetworkPanel entries={logs} requests={networkRequests} onShowInLogs={showInLogs} />
           ) : filteredLogs.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-muted-foreground text-lg">🔍 No logs match current filters</div>
@@ -2108,7 +2290,13 @@ export default function LogsClient({ version, initialData }: LogsClientProps) {
           ) : (
             <div className="space-y-1 pb-4">
               {filteredLogs.map((entry, index) => (
-                <LogEntryComponent key={`${entry.timestamp}-${index}`} entry={entry} darkMode={darkMode} />
+                <LogEntryComponent
+                  key={`${entry.timestamp}-${index}`}
+                  entry={entry}
+                  stack={stacks.get(entry.message)}
+                  darkMode={darkMode}
+                  highlighted={entry === highlightedEntry}
+                />
               ))}
               <div ref={bottomRef} />
             </div>
@@ -0,0 +1,262 @@
+"use client"
+
+import Image from "next/image"
+import { useMemo, useState } from "react"
+import type { LogEntry, NetworkRequest } from "@/types"
+import { findEntriesAround, getStatusClass } from "./utils"
+
+const STATUS_CLASSES = ["2xx", "3xx", "4xx", "5xx", "pending"]
+
+// Window of log lines shown around a request - screenshots are taken once the network is idle, so look further ahead
+const RELATED_LOGS_BEFORE_MS = 2000
+const RELATED_LOGS_AFTER_MS = 2000
+const RELATED_SCREENSHOTS_AFTER_MS = 5000
+
+function formatBytes(bytes: number | undefined): string {
+  if (bytes === undefined) return "—"
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} kB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.pathname}${parsed.search}`
+  } catch {
+    return url
+  }
+}
+
+function getStatusColor(request: NetworkRequest): string {
+  switch (getStatusClass(request)) {
+    case "2xx":
+      return "text-green-600 dark:text-green-400"
+    case "3xx":
+      return "text-blue-600 dark:text-blue-400"
+    case "4xx":
+      return "text-orange-600 dark:text-orange-400"
+    case "5xx":
+      return "text-red-600 dark:text-red-400"
+    default:
+      return "text-muted-foreground"
+  }
+}
+
+function RequestDetails({
+  request,
+  entries,
+  onShowInLogs
+}: {
+  request: NetworkRequest
+  entries: LogEntry[]
+  onShowInLogs: (entry: LogEntry) => void
+}) {
+  const afterMs = (request.durationMs || 0) + RELATED_LOGS_AFTER_MS
+  const relatedLogs = findEntriesAround(entries, request.timestamp, RELATED_LOGS_BEFORE_MS, afterMs)
+  const screenshots = findEntriesAround(entries, request.timestamp, 0, RELATED_SCREENSHOTS_AFTER_MS)
+    .map((index) => entries[index].screenshot)
+    .filter((screenshot): screenshot is string => !!screenshot)
+
+  return (
+    <div className="border-t border-border pt-4 mt-4 space-y-4">
+      <div>
+        <div className="font-mono text-sm break-all text-foreground">
+          {request.method || "?"} {request.url}
+        </div>
+        <div className="text-xs text-muted-foreground mt-1">
+          {request.status !== undefined ? `${request.status} ${request.statusText || ""}` : "No response logged"}
+          {request.mimeType && ` · ${request.mimeType}`}
+          {` · sent ${new Date(request.timestamp).toLocaleTimeString()}`}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-xs font-medium text-muted-foreground mb-2">
+          Log lines around this request ({relatedLogs.length})
+        </div>
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {relatedLogs.map((index) => {
+            const entry = entries[index]
+            return (
+              <button
+                key={`${entry.timestamp}-${index}`}
+                type="button"
+                onClick={() => onShowInLogs(entry)}
+                className={`w-full text-left flex gap-2 px-2 py-1 rounded text-xs font-mono hover:bg-accent ${
+                  index === request.entryIndex ? "bg-accent" : ""
+                }`}
+                title="Show in logs"
+              >
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+                <span className="text-muted-foreground">{entry.source}</span>
+                <span className="truncate text-foreground">{entry.message.split("\n")[0]}</span>
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      {screenshots.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-2">Screenshots</div>
+          <div className="flex gap-2 overflow-x-auto">
+            {screenshots.map((screenshot) => {
+              const src = screenshot.startsWith("http") ? screenshot : `/api/screenshots/${screenshot}`
+              return (
+                <a key={screenshot} href={src} target="_blank" rel="noopener noreferrer" className="flex-none">
+                  <Image
+                    src={src}
+                    alt="Screenshot"
+                    width={240}
+                    height={150}
+                    className="border rounded shadow-sm"
+                    style={{ objectFit: "contain" }}
+                    unoptimized
+                  />
+                </a>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Mini DevTools Network tab built from the [NETWORK] lines of the log
+ */
+export function NetworkPanel({
+  entries,
+  requests,
+  onShowInLogs
+}: {
+  entries: LogEntry[]
+  requests: NetworkRequest[]
+  onShowInLogs: (entry: LogEntry) => void
+}) {
+  const [statusFilter, setStatusFilter] = useState<string | null>(null)
+  const [typeFilter, setTypeFilter] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const resourceTypes = useMemo(
+    () => [...new Set(requests.map((request) => request.resourceType).filter((type): type is string => !!type))].sort(),
+    [requests]
+  )
+
+  const filteredRequests = useMemo(
+    () =>
+      requests.filter(
+        (request) =>
+          (!statusFilter || getStatusClass(request) === statusFilter) &&
+          (!typeFilter || request.resourceType === typeFilter)
+      ),
+    [requests, statusFilter, typeFilter]
+  )
+
+  const selectedRequest = requests.find((request) => request.id === selectedId)
+
+  if (requests.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-muted-foreground text-lg">🌐 No network requests yet</div>
+        <div className="text-muted-foreground text-sm mt-2">
+          Requests made by your app in the browser will appear here
+        </div>
+      </div>
+    )
+  }
+
+  const filterButtonClass = (active: boolean) =>
+    `px-2 py-1 rounded text-xs font-medium transition-colors whitespace-nowrap ${
+      active ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground"
+    }`
+
+  return (
+    <div className="pb-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <div className="flex items-center bg-muted rounded-md p-1">
+          <button type="button" onClick={() => setStatusFilter(null)} className={filterButtonClass(!statusFilter)}>
+            All
+          </button>
+          {STATUS_CLASSES.map((statusClass) => (
+            <button
+              key={statusClass}
+              type="button"
+              onClick={() => setStatusFilter(statusClass)}
+              className={filterButtonClass(statusFilter === statusClass)}
+            >
+              {statusClass}
+            </button>
+          ))}
+        </div>
+        {resourceTypes.length > 0 && (
+          <div className="flex items-center bg-muted rounded-md p-1">
+            <button type="button" onClick={() => setTypeFilter(null)} className={filterButtonClass(!typeFilter)}>
+              All types
+            </button>
+            {resourceTypes.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setTypeFilter(type)}
+                className={filterButtonClass(typeFilter === type)}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {filteredRequests.length} of {requests.length} requests
+        </span>
+      </div>
+
+      {/* Request table */}
+      <div className="border border-border rounded-md overflow-x-auto">
+        <table className="w-full text-xs font-mono">
+          <thead className="bg-muted text-muted-foreground">
+            <tr>
+              <th className="text-left font-medium px-2 py-1">Method</th>
+              <th className="text-left font-medium px-2 py-1">URL</th>
+              <th className="text-left font-medium px-2 py-1">Status</th>
+              <th className="text-left font-medium px-2 py-1">Type</th>
+              <th className="text-right font-medium px-2 py-1">Duration</th>
+              <th className="text-right font-medium px-2 py-1">Size</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filteredRequests.map((request) => (
+              <tr
+                key={request.id}
+                onClick={() => setSelectedId(request.id === selectedId ? null : request.id)}
+                className={`border-t border-border cursor-pointer hover:bg-accent ${
+                  request.id === selectedId ? "bg-accent" : ""
+                }`}
+              >
+                <td className="px-2 py-1 whitespace-nowrap">{request.method || "—"}</td>
+                <td className="px-2 py-1 max-w-md truncate" title={request.url}>
+                  {formatUrl(request.url)}
+                </td>
+                <td className={`px-2 py-1 whitespace-nowrap ${getStatusColor(request)}`}>
+                  {request.status ?? "pending"}
+                </td>
+                <td className="px-2 py-1 whitespace-nowrap">{request.resourceType || "—"}</td>
+                <td className="px-2 py-1 whitespace-nowrap text-right">
+                  {request.durationMs !== undefined ? `${request.durationMs} ms` : "—"}
+                </td>
+                <td className="px-2 py-1 whitespace-nowrap text-right">{formatBytes(request.sizeBytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedRequest && <RequestDetails request={selectedRequest} entries={entries} onShowInLogs={onShowInLogs} />}
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
-import { extractProjectNameFromLogFilename, logFilenameMatchesProject } from "@dev3000/src/utils/log-filename"
-import { existsSync, readdirSync, readFileSync, statSync } from "fs"
+import { logFilenameMatchesProject } from "@dev3000/src/utils/log-filename"
+import { readLogFile } from "@dev3000/src/utils/log-rotation"
+import { existsSync, statSync } from "fs"
 import { redirect } from "next/navigation"
-import { basename, dirname, join } from "path"
 import { Suspense } from "react"
+import { listLogFiles } from "@/lib/log-files"
 import LogsClient from "./LogsClient"
 import { parseLogEntries } from "./utils"
 
@@ -12,49 +13,7 @@ interface PageProps {
 
 async function getLogFiles() {
   try {
-    const currentLogPath = process.env.LOG_FILE_PATH || "/var/log/dev3000/dev3000.log"
-
-    if (!existsSync(currentLogPath)) {
-      return { files: [], currentFile: "", projectName: "unknown" }
-    }
-
-    const logDir = dirname(currentLogPath)
-    const currentLogName = basename(currentLogPath)
-
-    // Extract project name from current log filename using shared utility
-    const projectName = extractProjectNameFromLogFilename(currentLogName) || "unknown"
-
-    const dirContents = readdirSync(logDir)
-    const logFiles = dirContents
-      // Get all log files for this project
-      .filter((file) => logFilenameMatchesProject(file, projectName))
-      .map((file) => {
-        const filePath = join(logDir, file)
-        const stats = statSync(filePath)
-
-        const timestampMatch = file.match(/(\d{4}-\d{2}-\d{2}T[\d-]+Z)/)
-        const timestamp = timestampMatch ? timestampMatch[1].replace(/-/g, ":") : ""
-
-        return {
-          name: file,
-          path: filePath,
-          timestamp,
-          size: stats.size,
-          mtime: stats.mtime,
-          isCurrent: file === currentLogName
-        }
-      })
-      .sort((a, b) => b.mtime.getTime() - a.mtime.getTime())
-      .map((file) => ({
-        ...file,
-        mtime: file.mtime.toISOString() // Convert to string after sorting
-      }))
-
-    return {
-      files: logFiles,
-      currentFile: currentLogPath,
-      projectName
-    }
+    return listLogFiles()
   } catch (_error) {
     return { files: [], currentFile: "", projectName: "unknown" }
   }
@@ -63,20 +22,21 @@ async function getLogFiles() {
 async function getLogData(logPath: string, mode: "head" | "tail" = "tail", lines: number = 100) {
   try {
     if (!existsSync(logPath)) {
-      return { logs: "", total: 0 }
+      return { logs: "", total: 0, lastModified: new Date() }
     }
 
-    const logContent = readFileSync(logPath, "utf-8")
+    const logContent = readLogFile(logPath)
     const allLines = logContent.split("\n").filter((line) => line.trim())
 
     const selectedLines = mode === "head" ? allLines.slice(0, lines) : allLines.slice(-lines)
 
     return {
       logs: selectedLines.join("\n"),
-      total: allLines.length
+      total: allLines.length,
+      lastModified: statSync(logPath).mtime
     }
   } catch (_error) {
-    return { logs: "", total: 0 }
+    return { logs: "", total: 0, lastModified: new Date() }
   }
 }
 
@@ -137,7 +97,7 @@ async function LogsContent({ searchParams }: PageProps) {
 
   // Get initial log data server-side
   const logData = await getLogData(logPath, mode)
-  const parsedLogs = parseLogEntries(logData.logs)
+  const parsedLogs = parseLogEntries(logData.logs, logData.lastModified)
 
   return (
     <LogsClient
@@ -7,12 +7,18 @@ import { createMcpHandler } from "mcp-handler"
 import { z } from "zod"
 import { getMCPClientManager } from "./client-manager"
 import {
+  auditAccessibility,
   crawlApp,
   executeBrowserAction,
+  exportNetworkHar,
+  exportPlaywrightTest,
   findComponentSource,
   fixMyApp,
+  getRenderHotspots,
+  queryLogs,
   restartDevServer,
-  TOOL_DESCRIPTIONS
+  TOOL_DESCRIPTIONS,
+  visualRegression
 } from "./tools"
 
 // Detect available package runner (prefer bunx, fallback to pnpm dlx)
@@ -519,7 +525,7 @@ const handler = createMcpHandler(
     // Alias: fix_my_jank -> fix_my_app with performance focus
     server.tool(
       "fix_my_jank",
-      "🎯 **JANK & PERFORMANCE FIXER** - Specialized alias for detecting and fixing layout shifts, CLS issues, and performance problems. Automatically focuses on performance analysis and jank detection from passive screencast captures.\n\n💡 This is an alias for fix_my_app with focusArea='performance', perfect for 'fix my jank' or 'why is my page janky' requests!",
+      "🎯 **JANK & PERFORMANCE FIXER** - Specialized alias for detecting and fixing layout shifts, CLS issues, and performance problems. Automatically focuses on performance analysis and jank detection from passive screencast captures.\n\n⏱️ Ranks the Core Web Vitals of the latest navigation worst first: LCP (with the element), INP (with the slowest interaction), CLS, FCP, TTFB and total blocking time from long tasks.\n\n💡 This is an alias for fix_my_app with focusArea='performance', perfect for 'fix my jank', 'why is my page janky' or 'my page is slow' requests!",
       {
         projectName: z
           .string()
@@ -547,7 +553,9 @@ const handler = createMcpHandler(
         params: z
           .record(z.unknown())
           .optional()
-          .describe("Parameters for the action (e.g., {x: 100, y: 200} for click, {url: 'https://...'} for navigate)")
+          .describe(
+            "Parameters for the action (e.g., {x: 100, y: 200} for click, {url: 'https://...'} for navigate, {devices: ['mobile', 'tablet']} or {devices: 'all'} for screenshot)"
+          )
       },
       async (params) => {
         return executeBrowserAction(params)
@@ -610,6 +618,10 @@ const handler = createMcpHandler(
           .describe(
             "Crawl depth: number (1=homepage only, 2=homepage+next level, etc.) or 'all' for exhaustive (default: 1)"
           ),
+        devices: z
+          .union([z.array(z.string()), z.literal("all")])
+          .optional()
+          .describe("Device profiles to screenshot every discovered page with (e.g. ['mobile', 'desktop'] or 'all')"),
         projectName: z.string().optional().describe("Project name (if multiple dev3000 instances are running)")
       },
       async (params) => {
@@ -617,6 +629,139 @@ const handler = createMcpHandler(
       }
     )
 
+    // Accessibility audit tool
+    server.tool(
+      "audit_accessibility",
+      TOOL_DESCRIPTIONS.audit_accessibility,
+      {
+        crawl: z
+          .boolean()
+          .optional()
+          .describe("Audit every page found by crawling from the homepage instead of the current page"),
+        depth: z
+          .union([z.number().int().min(1), z.literal("all")])
+          .optional()
+          .describe("Crawl depth when crawl is true (default: 1)"),
+        projectName: z.string().optional().describe("Project name (if multiple dev3000 instances are running)")
+      },
+      async (params) => {
+        return auditAccessibility(params)
+      }
+    )
+
+    // Visual regression tool
+    server.tool(
+      "visual_regression",
+      TOOL_DESCRIPTIONS.visual_regression,
+      {
+        mode: z
+          .enum(["compare", "update-baseline"])
+          .optional()
+          .describe("'compare' diffs against the baselines (default), 'update-baseline' accepts the current look"),
+        routes: z
+          .array(z.string())
+          .optional()
+          .describe("Paths to screenshot (default: .d3k/visual-regression.json, or the crawled pages)"),
+        depth: z
+          .union([z.number().int().min(1), z.literal("all")])
+          .optional()
+          .describe("Crawl depth used to discover routes when none are configured (default: 1)"),
+        threshold: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe("Per-pixel color difference threshold, 0-1 - higher ignores more anti-aliasing (default: 0.1)"),
+        projectName: z.string().optional().describe("Project name (if multiple dev3000 instances are running)")
+      },
+      async (params) => {
+        return visualRegression(params)
+      }
+    )
+
+    // Playwright test export tool
+    server.tool(
+      "export_playwright_test",
+      TOOL_DESCRIPTIONS.export_playwright_test,
+      {
+        projectName: z.string().optional().describe("Project name (if multiple dev3000 instances are running)"),
+        timeRangeMinutes: z.number().optional().describe("Minutes to export back from now (default: 10)"),
+        startTime: z
+          .string()
+          .optional()
+          .describe("Start of the window as an ISO timestamp (overrides timeRangeMinutes)"),
+        endTime: z.string().optional().describe("End of the window as an ISO timestamp (default: now)"),
+        testName: z.string().optional().describe("Name of the generated test")
+      },
+      async (params) => {
+        return exportPlaywrightTest(params)
+      }
+    )
+
+    // Structured log query tool
+    server.tool(
+      "query_logs",
+      TOOL_DESCRIPTIONS.query_logs,
+      {
+        projectName: z.string().optional().describe("Project name (if multiple dev3000 instances are running)"),
+        source: z.enum(["server", "browser"]).optional().describe("Only events from the server or the browser"),
+        kind: z
+          .enum([
+            "console",
+            "error",
+            "network",
+            "interaction",
+            "navigation",
+            "screenshot",
+            "performance",
+            "accessibility",
+            "server",
+            "system"
+          ])
+          .optional()
+          .describe("Kind of event"),
+        level: z.enum(["error", "warn", "info", "log", "debug"]).optional().describe("Severity level"),
+        url: z.string().optional().describe("Only events whose URL contains this text"),
+        status: z.number().optional().describe("HTTP status of network responses (e.g. 500)"),
+        method: z.string().optional().describe("HTTP method of network requests (e.g. POST)"),
+        requestId: z.string().optional().describe("CDP request id - matches a request and its response"),
+        text: z.string().optional().describe("Only events whose message contains this text (case-insensitive)"),
+        timeRangeMinutes: z.number().optional().describe("Only events from the last N minutes"),
+        limit: z.number().optional().describe("Most recent matches to return (default: 50)")
+      },
+      async (params) => {
+        return queryLogs(params)
+      }
+    )
+
+    // Network HAR export tool
+    server.tool(
+      "export_network_har",
+      TOOL_DESCRIPTIONS.export_network_har,
+      {
+        projectName: z.string().optional().describe("Project name (if multiple dev3000 instances are running)"),
+        url: z.string().optional().describe("Only requests whose URL contains this text"),
+        failedOnly: z.boolean().optional().describe("Only export requests that errored or got a 4xx/5xx response")
+      },
+      async (params) => {
+        return exportNetworkHar(params)
+      }
+    )
+
+    // React render hotspots tool
+    server.tool(
+      "get_render_hotspots",
+      TOOL_DESCRIPTIONS.get_render_hotspots,
+      {
+        projectName: z.string().optional().describe("Project name (if multiple dev3000 instances are running)"),
+        timeRangeMinutes: z.number().optional().describe("Only renders from the last N minutes (default: 10)"),
+        limit: z.number().optional().describe("Triggers and slow renders to list (default: 10)")
+      },
+      async (params) => {
+        return getRenderHotspots(params)
+      }
+    )
+
     // Tool that returns monitoring code for Claude to execute
     // TODO: Commenting out for now - need to figure out the right approach for proactive monitoring
     /*
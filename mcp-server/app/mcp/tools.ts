@@ -1,11 +1,67 @@
+import { parseStackFrames, type StackFrame } from "@dev3000/src/services/parsers/stack-trace"
+import {
+  applyDeviceProfile,
+  clearDeviceProfile,
+  type DeviceProfile,
+  getDevicesPath,
+  loadDeviceProfiles,
+  resolveDeviceProfiles
+} from "@dev3000/src/utils/device-profiles"
+import {
+  buildHar,
+  type CapturedExchange,
+  getNetworkLogPath,
+  isFailedExchange,
+  parseCapturedExchanges
+} from "@dev3000/src/utils/har"
+import { parseLogEntries } from "@dev3000/src/utils/log-entries"
+import {
+  getEventLogPath,
+  getLogEventStacks,
+  type LogEventKind,
+  type LogEventLevel,
+  type LogEventSource,
+  queryLogEvents
+} from "@dev3000/src/utils/log-events"
+import { parseRenderLogLine, SLOW_RENDER_MS, summarizeRenderHotspots } from "@dev3000/src/utils/react-renders"
+import { exportPlaywrightSpec } from "@dev3000/src/utils/replay"
+import {
+  formatWebVitalValue,
+  rankWebVitals,
+  WEB_VITAL_THRESHOLDS,
+  type WebVitalName,
+  type WebVitals
+} from "@dev3000/src/utils/web-vitals"
 import { exec, spawn } from "child_process"
-import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, statSync } from "fs"
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs"
 import { homedir, tmpdir } from "os"
 import { join } from "path"
 import pixelmatch from "pixelmatch"
 import { PNG } from "pngjs"
 import { promisify } from "util"
 import { WebSocket } from "ws"
+import {
+  type A11yPageResult,
+  type A11yViolation,
+  AXE_RUN_EXPRESSION,
+  countByImpact,
+  formatA11yLogLines,
+  getAxeInjectionExpression,
+  sortViolations
+} from "@/lib/accessibility"
+import { appendToSessionLog } from "@/lib/log-files"
+import {
+  CHANGED_PERCENT_THRESHOLD,
+  compareScreenshots,
+  DEFAULT_DEVICES,
+  getScreenshotName,
+  getVisualRegressionConfigPath,
+  getVisualRegressionDir,
+  loadVisualRegressionConfig,
+  type VisualRegressionConfig,
+  type VisualRegressionReport,
+  type VisualRegressionResult
+} from "@/lib/visual-regression"
 
 const execAsync = promisify(exec)
 
@@ -15,7 +71,7 @@ export const TOOL_DESCRIPTIONS = {
     "🔧 **THE ULTIMATE FIND→FIX→VERIFY MACHINE!** This tool doesn't just find bugs - it FIXES them! Pure dev3000 magic that identifies issues, prioritizes them, and creates focused PRs for the worst issue! 🪄\n\n🔥 **INSTANT FIXING SUPERPOWERS:**\n• Detects ALL error types: server crashes, browser errors, build failures, API issues, performance problems\n• **PRIORITIZES errors** using smart scoring (build > server > browser > network > warnings)\n• **Identifies the SINGLE WORST issue** that needs fixing right now\n• **Creates ONE focused PR** per run - no overwhelming multi-issue PRs!\n• Shows EXACT user interactions that triggered each error (clicks, navigation, etc.)\n• Provides EXACT fix code with file locations and line numbers\n• Verifies fixes by replaying the same interactions that caused the error!\n\n🎯 **SMART PRIORITIZATION:**\n• Build errors: 1000+ priority (blocks development)\n• Server errors: 500+ priority (affects functionality)\n• Browser errors: 300+ priority (user-facing issues)\n• Network errors: 200+ priority (intermittent issues)\n• Warnings: 100+ priority (nice to fix)\n• +Modifiers: Multiple occurrences, recency, reproducibility\n\n🚀 **ONE-PR-PER-RUN WORKFLOW:**\n1️⃣ I FIND all issues and their interactions\n2️⃣ I PRIORITIZE using smart scoring algorithm\n3️⃣ I IDENTIFY the single worst issue\n4️⃣ Set createPR=true to CREATE A FOCUSED PR for just that issue\n5️⃣ Fix that ONE issue, then run again for the next worst issue\n\n📍 **INTERACTION-BASED VERIFICATION:**\n• Every error includes the user interactions that led to it\n• Use execute_browser_action to replay these exact interactions\n• Verify your fix works by confirming the error doesn't reoccur\n• Example: Error shows '[INTERACTION] Click at (450,300)' → After fix, use execute_browser_action(action='click', params={x:450, y:300}) to verify\n\n⚡ **3 ACTION MODES:**\n• FIX NOW: 'What's broken RIGHT NOW?' → Find worst issue and optionally create PR\n• FIX REGRESSION: 'What broke during testing?' → Compare before/after and fix worst issue\n• FIX CONTINUOUSLY: 'Fix issues as they appear' → Monitor and fix proactively\n\n💡 **PERFECT FOR:** 'fix my app' or 'debug my app' or 'create pr for worst issue' requests. This tool identifies problems, ranks them by severity, and creates focused single-issue PRs - not giant multi-fix PRs!\n\n🏷️ **ATTRIBUTION REQUIREMENT:** When creating commits or PRs based on dev3000 logs/analysis, ALWAYS include attribution to both Claude Code AND dev3000:\n```\n🤖 Generated with [Claude Code](https://claude.com/claude-code) using [d3k](https://d3k.dev)\n\nCo-Authored-By: Claude <noreply@anthropic.com>\n```",
 
   execute_browser_action:
-    "🌐 **INTELLIGENT BROWSER AUTOMATION** - Smart browser action routing that automatically delegates to chrome-devtools MCP when available for superior automation capabilities.\n\n🎯 **INTELLIGENT DELEGATION:**\n• Screenshots → chrome-devtools MCP (better quality, no conflicts)\n• Navigation → chrome-devtools MCP (more reliable page handling)\n• Clicks → chrome-devtools MCP (precise coordinate-based interaction)\n• JavaScript evaluation → chrome-devtools MCP (enhanced debugging)\n• Scrolling & typing → dev3000 fallback (specialized actions)\n\n⚡ **PROGRESSIVE ENHANCEMENT:**\n• Uses chrome-devtools MCP when available for best results\n• Falls back to dev3000's native implementation when chrome-devtools unavailable\n• Shares the same Chrome instance via CDP URL coordination\n• Eliminates browser conflicts between tools\n\n💡 **PERFECT FOR:** Browser automation that automatically chooses the best tool for each action, ensuring optimal results whether chrome-devtools MCP is available or not.",
+    "🌐 **INTELLIGENT BROWSER AUTOMATION** - Smart browser action routing that automatically delegates to chrome-devtools MCP when available for superior automation capabilities.\n\n🎯 **INTELLIGENT DELEGATION:**\n• Screenshots → chrome-devtools MCP (better quality, no conflicts)\n• Navigation → chrome-devtools MCP (more reliable page handling)\n• Clicks → chrome-devtools MCP (precise coordinate-based interaction)\n• JavaScript evaluation → chrome-devtools MCP (enhanced debugging)\n• Scrolling & typing → dev3000 fallback (specialized actions)\n• Screenshots across devices → dev3000 (action='screenshot', params {devices: ['mobile', 'tablet'] or 'all'}): reloads the current page once per device profile and returns a screenshot of each\n\n⚡ **PROGRESSIVE ENHANCEMENT:**\n• Uses chrome-devtools MCP when available for best results\n• Falls back to dev3000's native implementation when chrome-devtools unavailable\n• Shares the same Chrome instance via CDP URL coordination\n• Eliminates browser conflicts between tools\n\n💡 **PERFECT FOR:** Browser automation that automatically chooses the best tool for each action, ensuring optimal results whether chrome-devtools MCP is available or not.",
 
   analyze_visual_diff:
     "🔍 **VISUAL DIFF ANALYZER** - Analyzes two screenshots to identify and describe visual differences. Returns detailed instructions for Claude to load and compare the images, focusing on what changed that could cause layout shifts.\n\n🎯 **WHAT IT PROVIDES:**\n• Direct instructions to load both images via Read tool\n• Context about what to look for\n• Guidance on identifying layout shift causes\n• Structured format for easy analysis\n\n💡 **PERFECT FOR:** Understanding what visual changes occurred between before/after frames in CLS detection, identifying elements that appeared/moved/resized.",
@@ -27,7 +83,25 @@ export const TOOL_DESCRIPTIONS = {
     "🔄 **DEV SERVER RESTART** - Safely restarts the development server while preserving dev3000's monitoring, logs, and browser connection.\n\n🎯 **SMART RESTART LOGIC:**\n• First tries nextjs-dev MCP restart (if available and user has Next.js canary)\n• Falls back to dev3000's own restart mechanism:\n  - Kills the old server process on the app port\n  - Waits for clean shutdown\n  - Spawns a new server with the same command that was originally used\n  - Keeps dev3000's MCP server, browser monitoring, and screenshot capture running\n• All logging continues seamlessly - no data loss\n• Browser monitoring stays connected - no need to relaunch Chrome\n\n⚡ **WHEN TO USE:**\n• After modifying next.config.js, middleware, or environment variables\n• When you need a clean restart to clear server state\n• After significant code changes that Next.js HMR can't handle\n• When debugging persistent state or memory issues\n\n⚠️ **CRITICAL - DO NOT:**\n• ❌ NEVER manually run kill commands on the dev server like `pkill -f \"next dev\"` or `lsof -ti :3000 | xargs kill`\n• ❌ NEVER manually start the dev server with `npm run dev`, `pnpm dev`, `next dev`, etc.\n• ✅ ALWAYS use this tool for dev server restarts - it preserves all dev3000 infrastructure\n\n⚠️ **IMPORTANT:**\n• AVOID using this unnecessarily - Next.js HMR handles most changes automatically\n• Only restart when truly needed for config changes or state issues\n• The server will be offline for a few seconds during restart\n• Browser may show connection error briefly while server restarts\n\n💡 **PERFECT FOR:** 'restart the dev server', 'clean restart', 'reload the server' - but only when actually needed, not for regular code changes.",
 
   crawl_app:
-    "🕷️ **APP CRAWLER** - Discovers all URLs in your app by crawling links starting from the homepage. Perfect for finding every page before running fixes or tests across your entire site.\n\n🎯 **SMART CRAWLING:**\n• Starts at your app's homepage (localhost)\n• Discovers all unique URLs at specified depth\n• Depth 1 = homepage links only\n• Depth 2 = homepage + links from those pages\n• Depth 'all' = exhaustive crawl until no new links found\n• Only follows same-origin links (stays within your app)\n• Deduplicates URLs automatically\n\n📊 **OUTPUT:**\n• List of all discovered URLs\n• Total count of unique pages\n• Depth reached\n• Ready to use with fix_my_app or other tools\n\n💡 **PERFECT FOR:**\n• 'crawl my app' or 'crawl my shit' - discover all pages\n• 'crawl my app and fix my shit' - find all pages then run fixes\n• Site-wide testing and debugging\n• Verifying all routes work before deployment\n\n⚡ **USAGE:**\n• Default: depth 1 (just homepage links)\n• Specify depth: 'crawl at depth 2' or depth=2\n• Full crawl: 'crawl all pages' or depth='all'"
+    "🕷️ **APP CRAWLER** - Discovers all URLs in your app by crawling links starting from the homepage. Perfect for finding every page before running fixes or tests across your entire site.\n\n🎯 **SMART CRAWLING:**\n• Starts at your app's homepage (localhost)\n• Discovers all unique URLs at specified depth\n• Depth 1 = homepage links only\n• Depth 2 = homepage + links from those pages\n• Depth 'all' = exhaustive crawl until no new links found\n• Only follows same-origin links (stays within your app)\n• Deduplicates URLs automatically\n\n📊 **OUTPUT:**\n• List of all discovered URLs\n• Total count of unique pages\n• Depth reached\n• Ready to use with fix_my_app or other tools\n\n💡 **PERFECT FOR:**\n• 'crawl my app' or 'crawl my shit' - discover all pages\n• 'crawl my app and fix my shit' - find all pages then run fixes\n• Site-wide testing and debugging\n• Verifying all routes work before deployment\n\n⚡ **USAGE:**\n• Default: depth 1 (just homepage links)\n• Specify depth: 'crawl at depth 2' or depth=2\n• Full crawl: 'crawl all pages' or depth='all'\n• Per device: devices=['mobile', 'desktop'] or devices='all' screenshots every discovered page with each device profile (mobile, tablet, desktop and any in .d3k/devices.json)",
+
+  audit_accessibility:
+    "♿ **ACCESSIBILITY AUDIT** - Runs axe-core inside the monitored page and returns every WCAG violation with the rule, its impact, the CSS selectors of the affected elements and their HTML.\n\n🎯 **SCOPE:**\n• Default: the page currently open in d3k's browser\n• crawl=true: every page found by crawling from the homepage (like crawl_app, depth 1 by default)\n\n🔒 **HOW:** axe-core ships with dev3000 and is injected over the Chrome DevTools connection - nothing is loaded from a CDN, so it works offline and with strict Content Security Policies.\n\n📝 **LOGGED:** Violations are also written to the dev3000 log as [A11Y] lines (critical ones as errors), so they show up in the logs viewer and in query_logs(kind='accessibility').\n\n💡 **PERFECT FOR:** 'is my page accessible?', fixing missing alt text, labels, contrast and ARIA issues, and checking a UI change didn't regress accessibility.",
+
+  visual_regression:
+    "🖼️ **VISUAL REGRESSION** - Screenshots a set of routes with device profiles and compares them against stored baselines with pixelmatch. The first run saves the baselines; later runs report the percentage of changed pixels per route and write diff images.\n\n🎯 **ROUTES:**\n• The routes parameter, if given\n• Otherwise the project's .d3k/visual-regression.json ({ \"routes\": [...], \"devices\": [\"desktop\", \"mobile\"] })\n• Otherwise the pages found by crawling from the homepage (like crawl_app, depth 1 by default)\n\n📐 **DEVICES:** the desktop and mobile profiles unless the config file lists others - the built-in mobile, tablet and desktop or any in .d3k/devices.json\n\n⚡ **MODES:**\n• mode='compare' (default): diff against the baselines, saving baselines for new routes\n• mode='update-baseline': accept the current look as the new baseline\n\n📊 **OUTPUT:** Changed-pixel percentage per route and device, plus a link to the /visual-regression page showing before/after/diff side by side.\n\n💡 **PERFECT FOR:** 'did my CSS change break other pages?', checking a refactor didn't change the UI, and reviewing visual changes before committing.",
+
+  export_playwright_test:
+    "🎭 **PLAYWRIGHT TEST EXPORTER** - Turns the browser interactions recorded in a time window of the dev3000 log into a runnable @playwright/test spec. Reproduce a bug in the browser, then export it as a regression test in one step.\n\n🎯 **WHAT YOU GET:**\n• Navigations, clicks, typing, key presses, scrolls, hovers and drags as Playwright steps\n• Locators by id, role + name or form field name, falling back to the recorded CSS selector\n• Assertions that no console error or failed request happened during the test\n• A header listing the errors seen while the session was recorded\n\n⚡ **USAGE:**\n• Default window: the last 10 minutes (timeRangeMinutes)\n• Or pass startTime/endTime (ISO timestamps) to export an exact window\n• Save the returned spec in the project's Playwright test directory\n\n💡 **PERFECT FOR:** 'turn this into a test', 'write a regression test for what I just did', or locking in a fix found with fix_my_app.",
+
+  query_logs:
+    "🔎 **STRUCTURED LOG QUERY** - Filters the dev3000 log by field instead of by text. Every log line is also recorded as a typed event (source, kind, level, url, status, method, requestId), so precise questions get precise answers.\n\n🎯 **EXAMPLES:**\n• All failed API calls: kind='network', level='error'\n• Every response for one endpoint: kind='network', url='/api/users'\n• A request and its response: requestId='1234.56'\n• Browser console errors only: kind='console', level='error'\n• Server errors from one process: source='server', level='error', text='web'\n\n⚡ **KINDS:** console, error (uncaught exceptions), network, interaction, navigation, screenshot, performance (web vitals), accessibility (axe violations), server, system\n\n💡 **PERFECT FOR:** follow-ups after fix_my_app, checking a single endpoint or request, and anything where regex-matching log lines is too fuzzy.",
+
+  get_render_hotspots:
+    "⚛️ **REACT RENDER HOTSPOTS** - Ranks the interactions that trigger the most React re-renders and the components that re-render most each time, from the render data react-scan reports while you use the app. Requires d3k to run with --plugin-react-scan.\n\n🎯 **WHAT YOU GET:**\n• Each trigger (page load, CLICK on button#add, KEY Enter in input#search, ...) with its renders per occurrence\n• The busiest components per trigger, with their render counts and time\n• Single renders slower than a frame (16ms)\n\n📝 **LOGGED:** Render reports are written to the dev3000 log as [REACT] lines (slow renders as warnings), so they also show up in the logs viewer and in query_logs(kind='performance').\n\n⚡ **USAGE:**\n• Interact with the app in the d3k browser, then call this tool\n• Default window: the last 10 minutes (timeRangeMinutes)\n\n💡 **PERFECT FOR:** 'why is my app slow when I type?', finding components that need memoization, and checking a fix reduced re-renders.",
+
+  export_network_har:
+    "🌐 **NETWORK HAR EXPORT** - Writes the requests captured by dev3000 to a HAR 1.2 file and shows the exact payloads of the ones that failed. Requires d3k to run with --capture-network.\n\n🎯 **WHAT YOU GET:**\n• Request and response headers, bodies and timing for every request to the app's own origin\n• A summary of failed requests (network errors and 4xx/5xx) with their request and response bodies\n• A .har file that opens in Chrome DevTools, Firefox or any HAR viewer\n\n🔒 **SAFE BY DEFAULT:** Authorization, cookie and API key headers plus password/token/card fields in JSON and form bodies are redacted. Bodies are capped at 64KB and binary responses are skipped.\n\n⚡ **USAGE:**\n• url: only requests whose URL contains this text (e.g. '/api/checkout')\n• failedOnly: only failing requests\n\n💡 **PERFECT FOR:** API errors found by fix_my_app or query_logs where the status alone doesn't explain what went wrong."
 }
 
 // Types
@@ -37,6 +111,7 @@ export interface Session {
   logFilePath: string
   sessionFile: string
   lastModified: Date
+  dateTimeFormat?: "local" | "utc" // Not recorded by older d3k versions
 }
 
 export interface FixMyAppParams {
@@ -74,6 +149,7 @@ export interface ErrorWithInteractions {
   message: string
   interactions: string[]
   severity: "critical" | "error" | "warning"
+  stack?: StackFrame[] // Frames of the stack trace logged with the error
 }
 
 export interface CodeFix {
@@ -125,7 +201,7 @@ export interface StructuredAnalysisResult {
 
 export interface PrioritizedError {
   error: string
-  category: "build" | "server" | "browser" | "network" | "warning"
+  category: "build" | "server" | "browser" | "budget" | "network" | "warning"
   severity: "critical" | "error" | "warning"
   priorityScore: number
   interactions: string[]
@@ -143,6 +219,7 @@ export interface PrioritizedError {
  * - Build errors: 1000+ (blocks development)
  * - Server errors: 500+ (affects functionality)
  * - Browser errors: 300+ (user-facing issues)
+ * - Performance budget breaches: 300+ (user-facing, logged as CRITICAL)
  * - Network errors: 200+ (intermittent issues)
  * - Warnings: 100+ (nice to fix)
  *
@@ -164,7 +241,7 @@ function calculateErrorPriority(
     score = 1000
   } else if (category === "server") {
     score = 500
-  } else if (category === "browser") {
+  } else if (category === "browser" || category === "budget") {
     score = 300
   } else if (category === "network") {
     score = 200
@@ -217,6 +294,7 @@ function findHighestPriorityError(
     serverErrors: string[]
     browserErrors: string[]
     buildErrors: string[]
+    budgetViolations: string[]
     networkErrors: string[]
     warnings: string[]
   },
@@ -281,6 +359,18 @@ function findHighestPriorityError(
     })
   }
 
+  // Process performance budget breaches
+  for (const error of categorizedErrors.budgetViolations) {
+    const interactions = findInteractions(error)
+    prioritizedErrors.push({
+      error,
+      category: "budget",
+      severity: "critical",
+      priorityScore: calculateErrorPriority(error, "budget", interactions, allErrors),
+      interactions
+    })
+  }
+
   // Process network errors
   for (const error of categorizedErrors.networkErrors) {
     const interactions = findInteractions(error)
@@ -429,6 +519,63 @@ export function getLogPath(projectName?: string): string | null {
   return null
 }
 
+const LOG_ENTRY_START_PATTERN = /^\[(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z|\d{2}:\d{2}:\d{2}\.\d{3})\] /
+const MAX_REPORTED_FRAMES = 5
+
+/**
+ * Split log content into entries, keeping the stack trace lines of an error
+ * together with the line that logged it
+ */
+function splitLogEntries(content: string): string[] {
+  const entries: string[] = []
+  for (const line of content.trim().split("\n")) {
+    if (!line) continue
+    if (entries.length > 0 && !LOG_ENTRY_START_PATTERN.test(line)) {
+      entries[entries.length - 1] += `\n${line}`
+    } else {
+      entries.push(line)
+    }
+  }
+  return entries
+}
+
+// "[timestamp] [SOURCE] message", with the extension's "[TAB-id]" before the source
+const LOG_ENTRY_MESSAGE_PATTERN = /^\[[^\]]*\] (?:\[TAB-[^\]]+\] )?\[[A-Z]+\] ([\s\S]*)$/
+
+/**
+ * Get the stack trace of a log entry as its logger recorded it in the event sidecar
+ * Entries without one there (older logs, lines appended by other tools) are parsed from the text.
+ */
+function getEntryStack(entry: string, stacks: Map<string, StackFrame[]>): StackFrame[] {
+  const message = entry.match(LOG_ENTRY_MESSAGE_PATTERN)?.[1]
+  return (message && stacks.get(message)) || parseStackFrames(entry)
+}
+
+/**
+ * Format a log entry for a report, collapsing its stack trace to the top frames
+ * @param stacks - Stack traces of the log's event sidecar, see getLogEventStacks
+ */
+function formatErrorEntry(entry: string, indent: string, stacks: Map<string, StackFrame[]>): string {
+  const frames = getEntryStack(entry, stacks)
+  if (frames.length === 0) {
+    return entry.split("\n").join(`\n${indent}`)
+  }
+
+  const lines = entry.split("\n").filter((line) => !/^\s/.test(line) && parseStackFrames(line).length === 0)
+  // Python prints the innermost call last, Node and Ruby print it first
+  const innermostLast = entry.includes("Traceback (most recent call last)")
+  const shownFrames = innermostLast ? frames.slice(-MAX_REPORTED_FRAMES) : frames.slice(0, MAX_REPORTED_FRAMES)
+  for (const frame of shownFrames) {
+    let location = [frame.file, frame.line, frame.column].filter((part) => part !== undefined).join(":")
+    if (frame.bundled) location += ` [${frame.bundled}]`
+    lines.push(`    at ${frame.function ? `${frame.function} (${location})` : location}`)
+  }
+  if (frames.length > MAX_REPORTED_FRAMES) {
+    lines.push(`    ... ${frames.length - MAX_REPORTED_FRAMES} more frames`)
+  }
+  return lines.join(`\n${indent}`)
+}
+
 // Main tool implementations
 export async function fixMyApp({
   projectName,
@@ -517,7 +664,11 @@ export async function fixMyApp({
 
   try {
     const content = readFileSync(logPath, "utf-8")
-    const logLines = content.trim().split("\n").filter(Boolean)
+    const logLines = splitLogEntries(content)
+    const eventLogPath = getEventLogPath(logPath)
+    const stacks = existsSync(eventLogPath)
+      ? getLogEventStacks(readFileSync(eventLogPath, "utf-8"))
+      : new Map<string, StackFrame[]>()
 
     if (logLines.length === 0) {
       results.push("📋 Log file is empty. Make sure your app is running and generating logs.")
@@ -649,7 +800,10 @@ export async function fixMyApp({
       buildErrors: actionableErrors.filter(
         (line) => line.includes("Failed to compile") || line.includes("Type error") || line.includes("Build failed")
       ),
+      budgetViolations: actionableErrors.filter((line) => line.includes("[BUDGET] CRITICAL")),
       networkErrors: actionableErrors.filter((line) => {
+        // Budget lines mention sizes and counts that look like status codes
+        if (line.includes("[BUDGET]")) return false
         // Exclude successful status codes
         if (/\b(200|201|204|304)\b/.test(line)) return false
         return line.includes("NETWORK") || line.includes("404") || line.includes("500") || line.includes("timeout")
@@ -713,7 +867,7 @@ export async function fixMyApp({
             results.push(`    ${interaction}`)
           }
         }
-        results.push(`  ❌ ${error}`)
+        results.push(`  ❌ ${formatErrorEntry(error, "     ", stacks)}`)
         results.push("")
       })
       results.push("💡 **TIP:** Increase timeRangeMinutes parameter to analyze these errors")
@@ -735,7 +889,7 @@ export async function fixMyApp({
               results.push(`    ${interaction}`)
             }
           }
-          results.push(`  ❌ ${error}`)
+          results.push(`  ❌ ${formatErrorEntry(error, "     ", stacks)}`)
           results.push("")
         })
       }
@@ -750,7 +904,7 @@ export async function fixMyApp({
               results.push(`    ${interaction}`)
             }
           }
-          results.push(`  ❌ ${error}`)
+          results.push(`  ❌ ${formatErrorEntry(error, "     ", stacks)}`)
           results.push("")
         })
       }
@@ -765,11 +919,20 @@ export async function fixMyApp({
               results.push(`    ${interaction}`)
             }
           }
-          results.push(`  ❌ ${error}`)
+          results.push(`  ❌ ${formatErrorEntry(error, "     ", stacks)}`)
           results.push("")
         })
       }
 
+      if (categorizedErrors.budgetViolations.length > 0) {
+        results.push("📉 **PERFORMANCE BUDGET BREACHES** (.d3k/budgets.json):")
+        categorizedErrors.budgetViolations.slice(-5).forEach((error) => {
+          results.push(`  ❌ ${formatErrorEntry(error, "     ", stacks)}`)
+        })
+        results.push("  💡 Use fix_my_jank to see the web vitals and layout shifts behind these numbers")
+        results.push("")
+      }
+
       if (categorizedErrors.networkErrors.length > 0) {
         results.push("🌐 **NETWORK/API ERRORS:**")
         categorizedErrors.networkErrors.slice(-5).forEach((error) => {
@@ -780,7 +943,7 @@ export async function fixMyApp({
               results.push(`    ${interaction}`)
             }
           }
-          results.push(`  ❌ ${error}`)
+          results.push(`  ❌ ${formatErrorEntry(error, "     ", stacks)}`)
           results.push("")
         })
       }
@@ -899,7 +1062,7 @@ export async function fixMyApp({
         results.push(`⚠️ Severity: ${highestPriorityError.severity.toUpperCase()}`)
         results.push("")
         results.push("❌ **Error:**")
-        results.push(`   ${highestPriorityError.error}`)
+        results.push(`   ${formatErrorEntry(highestPriorityError.error, "   ", stacks)}`)
 
         if (highestPriorityError.interactions.length > 0) {
           results.push("")
@@ -947,6 +1110,53 @@ export async function fixMyApp({
       results.push("   (Advanced: screenshots are also accessible via curl if needed)")
     }
 
+    // Core Web Vitals of the latest navigation (from ScreencastManager's PerformanceObservers)
+    if (focusArea === "performance" || focusArea === "all") {
+      const latest = readLatestWebVitals()
+      if (latest) {
+        const { webVitals } = latest
+        const ranked = rankWebVitals(webVitals, latest.totalCLS)
+
+        if (ranked.length > 0) {
+          results.push("")
+          results.push(`⏱️ **SLOW PAGE DETECTED** - Core Web Vitals, worst first (session ${latest.sessionId}):`)
+          ranked.forEach((metric, index) => {
+            const emoji = metric.rating === "poor" ? "🔴" : "🟡"
+            const goodValue = formatWebVitalValue(metric.name, WEB_VITAL_THRESHOLDS[metric.name][0])
+            results.push(
+              `${emoji} **${index + 1}. ${metric.name} ${formatWebVitalValue(metric.name, metric.value)}** (${metric.rating}, good is ≤ ${goodValue})`
+            )
+
+            if (metric.name === "LCP" && webVitals.lcp) {
+              if (webVitals.lcp.element) results.push(`   Largest element: <${webVitals.lcp.element}>`)
+              if (webVitals.lcp.url) results.push(`   Resource: ${webVitals.lcp.url}`)
+            } else if (metric.name === "INP" && webVitals.inp) {
+              const target = webVitals.inp.target ? ` on <${webVitals.inp.target}>` : ""
+              results.push(
+                `   Slowest interaction: ${webVitals.inp.eventType}${target} (${webVitals.interactionCount} ${webVitals.interactionCount === 1 ? "interaction" : "interactions"} measured)`
+              )
+              results.push(
+                `   Input delay ${webVitals.inp.inputDelay}ms → processing ${webVitals.inp.processingTime}ms → presentation ${webVitals.inp.presentationDelay}ms`
+              )
+            } else if (metric.name === "TBT") {
+              results.push(`   ${webVitals.longTaskCount} long ${webVitals.longTaskCount === 1 ? "task" : "tasks"}:`)
+              webVitals.longTasks.slice(0, 3).forEach((task) => {
+                const script = task.script ? ` - ${task.script}` : ""
+                results.push(`   • ${Math.round(task.duration)}ms at ${Math.round(task.startTime)}ms${script}`)
+              })
+            } else if (metric.name === "CLS") {
+              results.push("   See the layout shift analysis below")
+            }
+
+            results.push(`   💡 ${WEB_VITAL_TIPS[metric.name]}`)
+          })
+        } else if (focusArea === "performance") {
+          results.push("")
+          results.push(`✅ **CORE WEB VITALS**: all good on the latest navigation (session ${latest.sessionId})`)
+        }
+      }
+    }
+
     // Jank/Layout Shift Detection (from ScreencastManager passive captures)
     if (focusArea === "performance" || focusArea === "all") {
       const jankResult = await detectJankFromScreenshots(projectName)
@@ -975,7 +1185,9 @@ export async function fixMyApp({
               ? "Load complete"
               : "View all frames"
         results.push(`📹 **${triggerLabel}**: ${videoUrl}`)
-        results.push(`🎞️ **Session ID**: ${jankResult.sessionId} (${jankResult.totalFrames} frames)`)
+        results.push(
+          `🎞️ **Session ID**: ${jankResult.sessionId} (${jankResult.totalFrames} frames${jankResult.device ? `, ${jankResult.device}` : ""})`
+        )
         results.push("")
 
         jankResult.detections.forEach((jank) => {
@@ -1108,11 +1320,13 @@ export async function fixMyApp({
             ? "browser"
             : categorizedErrors.buildErrors.includes(error)
               ? "build"
-              : categorizedErrors.networkErrors.includes(error)
-                ? "network"
-                : categorizedErrors.warnings.includes(error)
-                  ? "warning"
-                  : "general"
+              : categorizedErrors.budgetViolations.includes(error)
+                ? "budget"
+                : categorizedErrors.networkErrors.includes(error)
+                  ? "network"
+                  : categorizedErrors.warnings.includes(error)
+                    ? "warning"
+                    : "general"
 
         const severity = categorizedErrors.warnings.includes(error)
           ? ("warning" as const)
@@ -1126,12 +1340,15 @@ export async function fixMyApp({
           error.match(/\[(\d{2}:\d{2}:\d{2}\.\d{3})\]/)
         const timestamp = timestampMatch ? timestampMatch[1] : new Date().toISOString()
 
+        const stack = getEntryStack(error, stacks)
+
         return {
           timestamp,
           category,
           message: error,
           interactions,
-          severity
+          severity,
+          stack: stack.length > 0 ? stack : undefined
         }
       })
 
@@ -1784,11 +2001,71 @@ ${availableFunctions}
   }
 }
 
+/**
+ * Screenshot the current page with several device profiles (execute_browser_action's screenshot with devices)
+ */
+async function captureScreenshotsAcrossDevices(
+  devices: unknown
+): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  if (devices !== "all" && !(Array.isArray(devices) && devices.every((device) => typeof device === "string"))) {
+    throw new Error("Screenshot devices must be a list of device profile names or 'all'")
+  }
+
+  const sessions = findActiveSessions()
+  if (sessions.length === 0) {
+    return {
+      content: [
+        { type: "text", text: "❌ No active dev3000 sessions found. Make sure dev3000 is running with a browser!" }
+      ]
+    }
+  }
+
+  const sessionData = JSON.parse(readFileSync(sessions[0].sessionFile, "utf-8"))
+  const cdpUrl = sessionData.cdpUrl?.replace("http://", "ws://")
+  if (!cdpUrl) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "❌ No Chrome DevTools connection found. Browser monitoring must be active to take screenshots."
+        }
+      ]
+    }
+  }
+
+  const { profiles, sessionProfile } = resolveSessionDevices(sessionData, devices)
+  const { ws, sendCommand } = await connectToCDP(cdpUrl)
+  try {
+    await sendCommand("Page.enable")
+    const location = await sendCommand("Runtime.evaluate", { expression: "window.location.href", returnByValue: true })
+    const url: string = location.result?.value
+
+    logToDevFile(`Browser Action: Screenshotting ${url} on ${profiles.map((profile) => profile.name).join(", ")}`)
+    const captures = await captureDeviceScreenshots(sendCommand, profiles, [url], sessionProfile, "screenshot")
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `📸 **SCREENSHOTS ACROSS ${profiles.length} DEVICES**\n\n${formatDeviceScreenshots(captures, profiles, sessionData.mcpPort || "3684")}`
+        }
+      ]
+    }
+  } finally {
+    ws.close()
+  }
+}
+
 export async function executeBrowserAction({
   action,
   params = {}
 }: ExecuteBrowserActionParams): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   try {
+    // Device sweeps need d3k's profiles, which chrome-devtools MCP doesn't know about
+    if (action === "screenshot" && params.devices) {
+      return await captureScreenshotsAcrossDevices(params.devices)
+    }
+
     // 🎯 INTELLIGENT DELEGATION: Check if chrome-devtools MCP can handle this action
     const canDelegate = await canDelegateToChromeDevtools(action)
     if (canDelegate) {
@@ -2557,6 +2834,40 @@ function detectLayoutShiftVsContentChange(
  * Detect jank/layout shifts by comparing screenshots from ScreencastManager
  * Returns array of jank detections with timing and visual impact data
  */
+const WEB_VITAL_TIPS: Record<WebVitalName, string> = {
+  LCP: "Preload the LCP resource, give it fetchpriority='high' and don't lazy-load it; render it on the server",
+  INP: "Split long event handlers, defer non-urgent work (startTransition, setTimeout) and avoid layout thrashing",
+  CLS: "Reserve space for images, embeds and late content; avoid inserting content above what's already shown",
+  FCP: "Remove render-blocking CSS/JS from <head> and inline critical CSS",
+  TTFB: "Look at the server: slow data fetching, missing caching or redirects before the document",
+  TBT: "Break up long tasks, code-split heavy bundles and move expensive work off the main thread"
+}
+
+/**
+ * Read the web vitals of the most recent navigation from the screencast session metadata
+ */
+function readLatestWebVitals(): { sessionId: string; webVitals: WebVitals; totalCLS?: number } | null {
+  const screenshotDir = process.env.SCREENSHOT_DIR || join(tmpdir(), "dev3000-mcp-deps", "public", "screenshots")
+  if (!existsSync(screenshotDir)) return null
+
+  // Only the latest navigation - older sessions describe pages that may have been fixed since
+  const latestFile = readdirSync(screenshotDir)
+    .filter((f) => f.endsWith("-metadata.json"))
+    .sort()
+    .pop()
+  if (!latestFile) return null
+
+  try {
+    const metadata = JSON.parse(readFileSync(join(screenshotDir, latestFile), "utf-8"))
+    if (metadata.webVitals) {
+      return { sessionId: metadata.sessionId, webVitals: metadata.webVitals, totalCLS: metadata.totalCLS }
+    }
+  } catch {
+    // Ignore metadata read errors
+  }
+  return null
+}
+
 async function detectJankFromScreenshots(_projectName?: string): Promise<{
   detections: Array<{
     timestamp: string
@@ -2574,6 +2885,7 @@ async function detectJankFromScreenshots(_projectName?: string): Promise<{
   screenshotDir: string
   realCLS?: { score: number; grade: string }
   captureTrigger?: "navigation" | "load"
+  device?: string // Device profile the page was captured with
 }> {
   const screenshotDir = process.env.SCREENSHOT_DIR || join(tmpdir(), "dev3000-mcp-deps", "public", "screenshots")
 
@@ -2620,12 +2932,14 @@ async function detectJankFromScreenshots(_projectName?: string): Promise<{
       }
     | undefined
   let captureTrigger: "navigation" | "load" | undefined
+  let device: string | undefined
 
   if (existsSync(metadataPath)) {
     try {
       const metadata = JSON.parse(readFileSync(metadataPath, "utf-8"))
       // Capture the trigger type for use in output messages
       captureTrigger = metadata.captureTrigger
+      device = metadata.device
       // Set realCLSData even if there are zero shifts - this tells us Chrome ran and found nothing
       if (metadata.layoutShifts !== undefined) {
         realCLSData = {
@@ -2770,7 +3084,8 @@ async function detectJankFromScreenshots(_projectName?: string): Promise<{
           sessionId: latestSessionId,
           totalFrames: sessionFiles.length,
           screenshotDir,
-          realCLS: { score: 0.05, grade: "good" } // Estimate CLS for hydration shifts
+          realCLS: { score: 0.05, grade: "good" }, // Estimate CLS for hydration shifts
+          device
         }
       }
 
@@ -2780,7 +3095,8 @@ async function detectJankFromScreenshots(_projectName?: string): Promise<{
         sessionId: latestSessionId,
         totalFrames: sessionFiles.length,
         screenshotDir,
-        realCLS: { score: 0, grade: realCLSData.grade }
+        realCLS: { score: 0, grade: realCLSData.grade },
+        device
       }
     }
 
@@ -2857,7 +3173,8 @@ async function detectJankFromScreenshots(_projectName?: string): Promise<{
       sessionId: latestSessionId,
       totalFrames: sessionFiles.length,
       screenshotDir,
-      realCLS: { score: realCLSData.score, grade: realCLSData.grade }
+      realCLS: { score: realCLSData.score, grade: realCLSData.grade },
+      device
     }
   }
 
@@ -2907,7 +3224,8 @@ async function detectJankFromScreenshots(_projectName?: string): Promise<{
     sessionId: latestSessionId,
     totalFrames: sessionFiles.length,
     screenshotDir,
-    captureTrigger
+    captureTrigger,
+    device
   }
 }
 
@@ -3908,14 +4226,216 @@ export async function restartDevServer(params: {
   }
 }
 
+/**
+ * Open a CDP connection with a promise-based command sender
+ */
+async function connectToCDP(cdpUrl: string) {
+  const ws = new WebSocket(cdpUrl)
+  await new Promise((resolve, reject) => {
+    ws.on("open", resolve)
+    ws.on("error", reject)
+    setTimeout(() => reject(new Error("CDP connection timeout")), 5000)
+  })
+
+  let messageId = 2000
+  // biome-ignore lint/suspicious/noExplicitAny: CDP protocol responses are dynamic
+  const sendCommand = (method: string, params: Record<string, unknown> = {}): Promise<any> => {
+    return new Promise((resolve, reject) => {
+      const id = messageId++
+      const message = JSON.stringify({ id, method, params })
+
+      const handler = (data: Buffer) => {
+        const response = JSON.parse(data.toString())
+        if (response.id === id) {
+          ws.off("message", handler)
+          if (response.error) {
+            reject(new Error(response.error.message))
+          } else {
+            resolve(response.result)
+          }
+        }
+      }
+
+      ws.on("message", handler)
+      ws.send(message)
+
+      setTimeout(() => {
+        ws.off("message", handler)
+        reject(new Error("Command timeout"))
+      }, 10000)
+    })
+  }
+
+  return { ws, sendCommand }
+}
+
+/**
+ * Load a session's device profiles and pick the requested ones
+ * @returns The picked profiles and the one d3k was started with (--device), to restore afterwards
+ * @throws If a requested profile does not exist or the project's devices.json is invalid
+ */
+function resolveSessionDevices(
+  sessionData: { cwd?: string; device?: string | null },
+  names: string[] | "all"
+): { profiles: DeviceProfile[]; sessionProfile: DeviceProfile | null } {
+  const available = loadDeviceProfiles(sessionData.cwd ? getDevicesPath(sessionData.cwd) : undefined)
+  const profiles = resolveDeviceProfiles(available, names)
+  const sessionProfile = available.find((profile) => profile.name === sessionData.device) ?? null
+  return { profiles, sessionProfile }
+}
+
+/**
+ * Screenshot pages once per device profile, next to the screenshots d3k takes itself
+ * The browser goes back to the session's own profile afterwards.
+ */
+async function captureDeviceScreenshots(
+  sendCommand: (method: string, params?: Record<string, unknown>) => Promise<{ data?: string }>,
+  profiles: DeviceProfile[],
+  urls: string[],
+  sessionProfile: DeviceProfile | null,
+  label: string
+): Promise<Array<{ device: string; url: string; filename: string }>> {
+  const screenshotDir = process.env.SCREENSHOT_DIR || join(tmpdir(), "dev3000-mcp-deps", "public", "screenshots")
+  mkdirSync(screenshotDir, { recursive: true })
+  const captures: Array<{ device: string; url: string; filename: string }> = []
+
+  try {
+    for (const profile of profiles) {
+      await applyDeviceProfile(sendCommand, profile)
+
+      for (const url of urls) {
+        // Reload even the current page - the user agent and mobile viewport only apply to new documents
+        await sendCommand("Page.navigate", { url })
+        await new Promise((resolve) => setTimeout(resolve, 2000))
+
+        const result = await sendCommand("Page.captureScreenshot", { format: "png" })
+        const timestamp = new Date().toISOString().replace(/[:.]/g, "-")
+        const filename = `${timestamp}-${label}-${getScreenshotName(new URL(url).pathname, profile)}`
+        writeFileSync(join(screenshotDir, filename), Buffer.from(result.data ?? "", "base64"))
+        captures.push({ device: profile.name, url, filename })
+      }
+    }
+  } finally {
+    if (sessionProfile) {
+      await applyDeviceProfile(sendCommand, sessionProfile)
+    } else {
+      await clearDeviceProfile(sendCommand)
+    }
+  }
+
+  return captures
+}
+
+/**
+ * Format device screenshots for tool output, grouped by profile
+ */
+function formatDeviceScreenshots(
+  captures: Array<{ device: string; url: string; filename: string }>,
+  profiles: DeviceProfile[],
+  mcpPort: string
+): string {
+  return profiles
+    .map((profile) => {
+      const lines = captures
+        .filter((capture) => capture.device === profile.name)
+        .map((capture) => `• ${capture.url}\n  http://localhost:${mcpPort}/api/screenshots/${capture.filename}`)
+      return `📱 **${profile.name}** (${profile.width}×${profile.height}@${profile.deviceScaleFactor}x${profile.hasTouch ? ", touch" : ""}):\n${lines.join("\n")}`
+    })
+    .join("\n\n")
+}
+
+/**
+ * Crawl same-origin links from the app's homepage, level by level
+ */
+async function discoverAppUrls(
+  // biome-ignore lint/suspicious/noExplicitAny: CDP protocol responses are dynamic
+  sendCommand: (method: string, params?: Record<string, unknown>) => Promise<any>,
+  baseUrl: string,
+  depth: number | "all"
+): Promise<{ urls: string[]; depthReached: number }> {
+  // Discovered URLs
+  const discovered = new Set<string>([baseUrl])
+  const visited = new Set<string>()
+  const toVisit: string[] = [baseUrl]
+
+  let currentDepth = 0
+  const maxDepth = depth === "all" ? Number.POSITIVE_INFINITY : depth
+
+  while (toVisit.length > 0 && currentDepth <= maxDepth) {
+    const currentLevelUrls = [...toVisit]
+    toVisit.length = 0
+
+    logToDevFile(`Crawl App: Processing depth ${currentDepth} with ${currentLevelUrls.length} URLs`)
+
+    for (const url of currentLevelUrls) {
+      if (visited.has(url)) continue
+      visited.add(url)
+
+      try {
+        // Navigate to URL
+        logToDevFile(`Crawl App: Visiting ${url}`)
+        await sendCommand("Page.navigate", { url })
+
+        // Wait for page load
+        await new Promise((resolve) => setTimeout(resolve, 2000))
+
+        // Extract all links
+        const result = await sendCommand("Runtime.evaluate", {
+          expression: `
+            Array.from(document.querySelectorAll('a[href]')).map(a => {
+              try {
+                const url = new URL(a.href, window.location.href);
+                // Only return same-origin links
+                if (url.origin === window.location.origin) {
+                  // Remove hash and query params for deduplication
+                  return url.origin + url.pathname;
+                }
+              } catch {}
+              return null;
+            }).filter(Boolean)
+          `,
+          returnByValue: true
+        })
+
+        const links = result.result?.value || []
+
+        for (const link of links) {
+          if (!discovered.has(link)) {
+            discovered.add(link)
+            if (currentDepth < maxDepth) {
+              toVisit.push(link)
+            }
+          }
+        }
+
+        logToDevFile(`Crawl App: Found ${links.length} links on ${url}`)
+      } catch (error) {
+        logToDevFile(`Crawl App: Error visiting ${url} - ${error}`)
+      }
+    }
+
+    currentDepth++
+
+    // For "all" mode, stop when no new URLs are found
+    if (depth === "all" && toVisit.length === 0) {
+      break
+    }
+  }
+
+  const urls = Array.from(discovered).sort()
+  const depthReached = depth === "all" ? currentDepth - 1 : Math.min(currentDepth - 1, maxDepth)
+  return { urls, depthReached }
+}
+
 // Crawl app - discover all URLs
 export interface CrawlAppParams {
   depth?: number | "all"
   projectName?: string
+  devices?: string[] | "all" // Device profiles to screenshot every discovered page with
 }
 
 export async function crawlApp(params: CrawlAppParams) {
-  const { depth = 1, projectName } = params
+  const { depth = 1, projectName, devices } = params
 
   try {
     // Find active session
@@ -3952,130 +4472,56 @@ export async function crawlApp(params: CrawlAppParams) {
       }
     }
 
-    logToDevFile(`Crawl App: Starting crawl at depth ${depth} for ${baseUrl}`)
-
-    // Connect to CDP
-    const ws = new WebSocket(cdpUrl)
-    await new Promise((resolve, reject) => {
-      ws.on("open", resolve)
-      ws.on("error", reject)
-      setTimeout(() => reject(new Error("CDP connection timeout")), 5000)
-    })
-
-    let messageId = 2000
-    // biome-ignore lint/suspicious/noExplicitAny: CDP protocol responses are dynamic
-    const sendCommand = (method: string, params: Record<string, unknown> = {}): Promise<any> => {
-      return new Promise((resolve, reject) => {
-        const id = messageId++
-        const message = JSON.stringify({ id, method, params })
-
-        const handler = (data: Buffer) => {
-          const response = JSON.parse(data.toString())
-          if (response.id === id) {
-            ws.off("message", handler)
-            if (response.error) {
-              reject(new Error(response.error.message))
-            } else {
-              resolve(response.result)
-            }
-          }
+    // Check the requested profiles before spending time on the crawl
+    let deviceSweep: ReturnType<typeof resolveSessionDevices> | null = null
+    if (devices) {
+      try {
+        deviceSweep = resolveSessionDevices(sessionData, devices)
+      } catch (error) {
+        return {
+          content: [{ type: "text" as const, text: `❌ ${error instanceof Error ? error.message : String(error)}` }]
         }
+      }
+    }
 
-        ws.on("message", handler)
-        ws.send(message)
+    logToDevFile(`Crawl App: Starting crawl at depth ${depth} for ${baseUrl}`)
 
-        setTimeout(() => {
-          ws.off("message", handler)
-          reject(new Error("Command timeout"))
-        }, 10000)
-      })
-    }
+    // Connect to CDP
+    const { ws, sendCommand } = await connectToCDP(cdpUrl)
 
     // Enable necessary domains
     await sendCommand("Runtime.enable")
     await sendCommand("Page.enable")
 
-    // Discovered URLs
-    const discovered = new Set<string>([baseUrl])
-    const visited = new Set<string>()
-    const toVisit: string[] = [baseUrl]
-
-    let currentDepth = 0
-    const maxDepth = depth === "all" ? Number.POSITIVE_INFINITY : depth
-
-    while (toVisit.length > 0 && currentDepth <= maxDepth) {
-      const currentLevelUrls = [...toVisit]
-      toVisit.length = 0
-
-      logToDevFile(`Crawl App: Processing depth ${currentDepth} with ${currentLevelUrls.length} URLs`)
-
-      for (const url of currentLevelUrls) {
-        if (visited.has(url)) continue
-        visited.add(url)
-
-        try {
-          // Navigate to URL
-          logToDevFile(`Crawl App: Visiting ${url}`)
-          await sendCommand("Page.navigate", { url })
-
-          // Wait for page load
-          await new Promise((resolve) => setTimeout(resolve, 2000))
-
-          // Extract all links
-          const result = await sendCommand("Runtime.evaluate", {
-            expression: `
-              Array.from(document.querySelectorAll('a[href]')).map(a => {
-                try {
-                  const url = new URL(a.href, window.location.href);
-                  // Only return same-origin links
-                  if (url.origin === window.location.origin) {
-                    // Remove hash and query params for deduplication
-                    return url.origin + url.pathname;
-                  }
-                } catch {}
-                return null;
-              }).filter(Boolean)
-            `,
-            returnByValue: true
-          })
-
-          const links = result.result?.value || []
-
-          for (const link of links) {
-            if (!discovered.has(link)) {
-              discovered.add(link)
-              if (currentDepth < maxDepth) {
-                toVisit.push(link)
-              }
-            }
-          }
-
-          logToDevFile(`Crawl App: Found ${links.length} links on ${url}`)
-        } catch (error) {
-          logToDevFile(`Crawl App: Error visiting ${url} - ${error}`)
-        }
-      }
-
-      currentDepth++
-
-      // For "all" mode, stop when no new URLs are found
-      if (depth === "all" && toVisit.length === 0) {
-        break
+    let crawl: Awaited<ReturnType<typeof discoverAppUrls>>
+    let deviceScreenshots = ""
+    try {
+      crawl = await discoverAppUrls(sendCommand, baseUrl, depth)
+      const { urls } = crawl
+
+      if (deviceSweep) {
+        logToDevFile(`Crawl App: Screenshotting ${urls.length} URLs on ${deviceSweep.profiles.length} devices`)
+        const captures = await captureDeviceScreenshots(
+          sendCommand,
+          deviceSweep.profiles,
+          urls,
+          deviceSweep.sessionProfile,
+          "crawl"
+        )
+        deviceScreenshots = `\n\n📸 **SCREENSHOTS PER DEVICE:**\n\n${formatDeviceScreenshots(captures, deviceSweep.profiles, sessionData.mcpPort || "3684")}`
       }
+    } finally {
+      ws.close()
     }
 
-    ws.close()
-
-    const urls = Array.from(discovered).sort()
-    const depthReached = depth === "all" ? currentDepth - 1 : Math.min(currentDepth - 1, maxDepth)
-
+    const { urls, depthReached } = crawl
     logToDevFile(`Crawl App: Complete - discovered ${urls.length} URLs at depth ${depthReached}`)
 
     return {
       content: [
         {
           type: "text" as const,
-          text: `🕷️ **APP CRAWL COMPLETE**\n\n📊 **SUMMARY:**\n• Base URL: ${baseUrl}\n• Depth: ${depthReached}${depth === "all" ? " (exhaustive)" : ""}\n• Total URLs: ${urls.length}\n\n📍 **DISCOVERED URLs:**\n${urls.map((url) => `• ${url}`).join("\n")}\n\n💡 **NEXT STEPS:**\n• Use fix_my_app to check for errors across all pages\n• Use execute_browser_action to test specific pages\n• Verify all routes are working correctly`
+          text: `🕷️ **APP CRAWL COMPLETE**\n\n📊 **SUMMARY:**\n• Base URL: ${baseUrl}\n• Depth: ${depthReached}${depth === "all" ? " (exhaustive)" : ""}\n• Total URLs: ${urls.length}\n\n📍 **DISCOVERED URLs:**\n${urls.map((url) => `• ${url}`).join("\n")}${deviceScreenshots}\n\n💡 **NEXT STEPS:**\n• Use fix_my_app to check for errors across all pages\n• Use execute_browser_action to test specific pages\n• Verify all routes are working correctly`
         }
       ]
     }
@@ -4091,3 +4537,741 @@ export async function crawlApp(params: CrawlAppParams) {
     }
   }
 }
+
+// Audit accessibility with the bundled axe-core
+export interface AuditAccessibilityParams {
+  projectName?: string
+  crawl?: boolean
+  depth?: number | "all"
+}
+
+export async function auditAccessibility(params: AuditAccessibilityParams) {
+  const { projectName, crawl = false, depth = 1 } = params
+
+  try {
+    // Find active session
+    const sessions = findActiveSessions()
+    const session = projectName ? sessions.find((s) => s.projectName === projectName) : sessions[0]
+
+    if (!session) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: projectName
+              ? `❌ No active session found for project "${projectName}". Available projects: ${sessions.map((s) => s.projectName).join(", ") || "none"}`
+              : "❌ No active dev3000 sessions found. Start dev3000 first with `d3k` in your project directory."
+          }
+        ]
+      }
+    }
+
+    const sessionData = JSON.parse(readFileSync(session.sessionFile, "utf-8"))
+    const cdpUrl = sessionData.cdpUrl?.replace("http://", "ws://")
+    const baseUrl = `http://localhost:${sessionData.appPort || "3000"}`
+
+    if (!cdpUrl) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: "❌ No Chrome DevTools connection found. Browser monitoring must be active to audit pages."
+          }
+        ]
+      }
+    }
+
+    const { ws, sendCommand } = await connectToCDP(cdpUrl)
+    const results: A11yPageResult[] = []
+
+    // Inject axe (a new document drops it) and audit the page that is loaded
+    const auditCurrentPage = async (url: string) => {
+      try {
+        await sendCommand("Runtime.evaluate", { expression: getAxeInjectionExpression(), returnByValue: true })
+        const audit = await sendCommand("Runtime.evaluate", {
+          expression: AXE_RUN_EXPRESSION,
+          awaitPromise: true,
+          returnByValue: true
+        })
+        if (audit.exceptionDetails) {
+          throw new Error(audit.exceptionDetails.exception?.description || audit.exceptionDetails.text)
+        }
+        results.push({ url, violations: audit.result.value as A11yViolation[] })
+      } catch (error) {
+        results.push({ url, violations: [], error: error instanceof Error ? error.message : String(error) })
+      }
+    }
+
+    try {
+      await sendCommand("Runtime.enable")
+      await sendCommand("Page.enable")
+
+      const location = await sendCommand("Runtime.evaluate", {
+        expression: "window.location.href",
+        returnByValue: true
+      })
+      const currentUrl: string = location.result?.value || baseUrl
+
+      if (crawl) {
+        const { urls } = await discoverAppUrls(sendCommand, baseUrl, depth)
+        logToDevFile(`Accessibility Audit: Auditing ${urls.length} crawled URLs`)
+        for (const url of urls) {
+          await sendCommand("Page.navigate", { url })
+          await new Promise((resolve) => setTimeout(resolve, 2000))
+          await auditCurrentPage(url)
+        }
+        await sendCommand("Page.navigate", { url: currentUrl })
+      } else {
+        logToDevFile(`Accessibility Audit: Auditing ${currentUrl}`)
+        await auditCurrentPage(currentUrl)
+      }
+    } finally {
+      ws.close()
+    }
+
+    appendToSessionLog(session.logFilePath, results.flatMap(formatA11yLogLines), {}, undefined, session.dateTimeFormat)
+
+    const counts = countByImpact(results)
+    const total = counts.critical + counts.serious + counts.moderate + counts.minor
+    const lines = [
+      `♿ **ACCESSIBILITY AUDIT COMPLETE** - ${results.length} ${results.length === 1 ? "page" : "pages"}, ${total} ${total === 1 ? "violation" : "violations"}`,
+      `• 🔴 Critical: ${counts.critical} • 🟠 Serious: ${counts.serious} • 🟡 Moderate: ${counts.moderate} • ⚪ Minor: ${counts.minor}`
+    ]
+    const impactEmoji = { critical: "🔴", serious: "🟠", moderate: "🟡", minor: "⚪" }
+
+    for (const result of results) {
+      lines.push("")
+      lines.push(`📄 **${result.url}**`)
+      if (result.error) {
+        lines.push(`❌ Audit failed: ${result.error}`)
+        continue
+      }
+      if (result.violations.length === 0) {
+        lines.push("✅ No violations")
+        continue
+      }
+      for (const violation of sortViolations(result.violations)) {
+        lines.push(
+          `${impactEmoji[violation.impact]} **${violation.impact.toUpperCase()}** ${violation.id}: ${violation.help}`
+        )
+        lines.push(`   ${violation.helpUrl}`)
+        for (const node of violation.nodes.slice(0, 5)) {
+          lines.push(`   • \`${node.selector}\``)
+          lines.push(`     ${node.html}`)
+        }
+        if (violation.nodes.length > 5) {
+          lines.push(`   • ... and ${violation.nodes.length - 5} more elements`)
+        }
+      }
+    }
+
+    lines.push("")
+    lines.push("📝 Logged as [A11Y] entries - filter them in the logs viewer or with query_logs(kind='accessibility')")
+    if (total > 0) {
+      lines.push("💡 Fix critical and serious violations first, then re-run audit_accessibility to confirm")
+    }
+
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] }
+  } catch (error) {
+    logToDevFile(`Accessibility Audit: Error - ${error}`)
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **ACCESSIBILITY AUDIT FAILED**\n\n${error instanceof Error ? error.message : String(error)}`
+        }
+      ]
+    }
+  }
+}
+
+// Visual regression - compare routes against stored baselines
+export interface VisualRegressionParams {
+  projectName?: string
+  mode?: "compare" | "update-baseline"
+  routes?: string[]
+  depth?: number | "all"
+  threshold?: number
+}
+
+export async function visualRegression(params: VisualRegressionParams) {
+  const { projectName, mode = "compare", depth = 1, threshold = 0.1 } = params
+
+  try {
+    // Find active session
+    const sessions = findActiveSessions()
+    const session = projectName ? sessions.find((s) => s.projectName === projectName) : sessions[0]
+
+    if (!session) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: projectName
+              ? `❌ No active session found for project "${projectName}". Available projects: ${sessions.map((s) => s.projectName).join(", ") || "none"}`
+              : "❌ No active dev3000 sessions found. Start dev3000 first with `d3k` in your project directory."
+          }
+        ]
+      }
+    }
+
+    const sessionData = JSON.parse(readFileSync(session.sessionFile, "utf-8"))
+    const cdpUrl = sessionData.cdpUrl?.replace("http://", "ws://")
+    const baseUrl = `http://localhost:${sessionData.appPort || "3000"}`
+    const mcpPort = sessionData.mcpPort || "3684"
+
+    if (!cdpUrl) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: "❌ No Chrome DevTools connection found. Browser monitoring must be active to take screenshots."
+          }
+        ]
+      }
+    }
+
+    let config: VisualRegressionConfig | null = null
+    if (sessionData.cwd) {
+      const configPath = getVisualRegressionConfigPath(sessionData.cwd)
+      try {
+        config = loadVisualRegressionConfig(configPath)
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `❌ Invalid ${configPath}: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ]
+        }
+      }
+    }
+
+    let devices: ReturnType<typeof resolveSessionDevices>
+    try {
+      devices = resolveSessionDevices(sessionData, config?.devices ?? DEFAULT_DEVICES)
+    } catch (error) {
+      return {
+        content: [{ type: "text" as const, text: `❌ ${error instanceof Error ? error.message : String(error)}` }]
+      }
+    }
+    const { profiles, sessionProfile } = devices
+
+    const dir = getVisualRegressionDir(session.projectName)
+    const baselineDir = join(dir, "baseline")
+    const latestDir = join(dir, "latest")
+    mkdirSync(baselineDir, { recursive: true })
+    rmSync(latestDir, { recursive: true, force: true })
+    mkdirSync(latestDir, { recursive: true })
+
+    const { ws, sendCommand } = await connectToCDP(cdpUrl)
+    const results: VisualRegressionResult[] = []
+    let routes = params.routes ?? config?.routes
+    const routeSource = params.routes
+      ? "routes parameter"
+      : config?.routes
+        ? ".d3k/visual-regression.json"
+        : `crawl at depth ${depth}`
+
+    try {
+      await sendCommand("Runtime.enable")
+      await sendCommand("Page.enable")
+
+      // Put the browser back where the user left it afterwards
+      const location = await sendCommand("Runtime.evaluate", {
+        expression: "window.location.href",
+        returnByValue: true
+      })
+      const originalUrl: string | undefined = location.result?.value
+
+      if (!routes) {
+        const { urls } = await discoverAppUrls(sendCommand, baseUrl, depth)
+        routes = urls.map((url) => new URL(url).pathname)
+      }
+
+      logToDevFile(`Visual Regression: ${mode} of ${routes.length} routes with ${profiles.length} devices`)
+
+      try {
+        for (const profile of profiles) {
+          await applyDeviceProfile(sendCommand, profile)
+          const viewport = { name: profile.name, width: profile.width, height: profile.height }
+
+          for (const route of routes) {
+            const name = getScreenshotName(route, viewport)
+            const baselinePath = join(baselineDir, name)
+
+            try {
+              await sendCommand("Page.navigate", { url: new URL(route, baseUrl).href })
+
+              // Wait for page load, then for web fonts - a late font swap shows up as a change
+              await new Promise((resolve) => setTimeout(resolve, 2000))
+              await sendCommand("Runtime.evaluate", {
+                expression: "document.fonts.ready.then(() => true)",
+                awaitPromise: true
+              })
+
+              const screenshot = Buffer.from(
+                (await sendCommand("Page.captureScreenshot", { format: "png" })).data,
+                "base64"
+              )
+
+              if (mode === "update-baseline" || !existsSync(baselinePath)) {
+                writeFileSync(baselinePath, screenshot)
+                results.push({ route, viewport, status: "baseline-created", baseline: `baseline/${name}` })
+                continue
+              }
+
+              const diffName = name.replace(/\.png$/, ".diff.png")
+              const comparison = compareScreenshots(readFileSync(baselinePath), screenshot, threshold)
+              writeFileSync(join(latestDir, name), screenshot)
+              writeFileSync(join(latestDir, diffName), comparison.diff)
+              results.push({
+                route,
+                viewport,
+                status: comparison.changedPercent > CHANGED_PERCENT_THRESHOLD ? "changed" : "unchanged",
+                changedPercent: comparison.changedPercent,
+                baseline: `baseline/${name}`,
+                current: `latest/${name}`,
+                diff: `latest/${diffName}`
+              })
+            } catch (error) {
+              logToDevFile(`Visual Regression: Error on ${route} (${viewport.name}) - ${error}`)
+              results.push({
+                route,
+                viewport,
+                status: "error",
+                error: error instanceof Error ? error.message : String(error)
+              })
+            }
+          }
+        }
+      } finally {
+        // Back to the session's own --device, even when a screenshot failed
+        if (sessionProfile) {
+          await applyDeviceProfile(sendCommand, sessionProfile)
+        } else {
+          await clearDeviceProfile(sendCommand)
+        }
+      }
+
+      if (originalUrl) {
+        await sendCommand("Page.navigate", { url: originalUrl })
+      }
+    } finally {
+      ws.close()
+    }
+
+    const report: VisualRegressionReport = {
+      projectName: session.projectName,
+      baseUrl,
+      runAt: new Date().toISOString(),
+      results
+    }
+    writeFileSync(join(latestDir, "report.json"), JSON.stringify(report, null, 2))
+
+    const changed = results.filter((result) => result.status === "changed")
+    const lines = [
+      `🖼️ **VISUAL REGRESSION ${mode === "update-baseline" ? "BASELINES UPDATED" : "COMPLETE"}**`,
+      "",
+      `• ${results.length} screenshots: ${routes.length} routes × ${profiles.length} devices (${profiles.map((p) => `${p.name} ${p.width}×${p.height}@${p.deviceScaleFactor}x`).join(", ")})`,
+      `• Routes from: ${routeSource}`,
+      `• Changed: ${changed.length}`,
+      ""
+    ]
+
+    // Biggest changes first, then errors, new baselines and unchanged routes
+    const order = { changed: 0, error: 1, "baseline-created": 2, unchanged: 3 }
+    const sorted = [...results].sort(
+      (a, b) => order[a.status] - order[b.status] || (b.changedPercent ?? 0) - (a.changedPercent ?? 0)
+    )
+    for (const result of sorted) {
+      const label = `${result.route} @ ${result.viewport.name}`
+      if (result.status === "changed") {
+        lines.push(`🔴 ${label} - ${result.changedPercent?.toFixed(2)}% of pixels changed`)
+        lines.push(`   Diff: ${join(dir, result.diff ?? "")}`)
+      } else if (result.status === "unchanged") {
+        lines.push(`🟢 ${label} - unchanged (${result.changedPercent?.toFixed(2)}%)`)
+      } else if (result.status === "baseline-created") {
+        lines.push(`🆕 ${label} - baseline saved`)
+      } else {
+        lines.push(`❌ ${label} - ${result.error}`)
+      }
+    }
+
+    lines.push("")
+    lines.push(
+      `👀 **Before/after/diff side by side:** http://localhost:${mcpPort}/visual-regression?project=${encodeURIComponent(session.projectName)}`
+    )
+    if (changed.length > 0) {
+      lines.push("💡 If these changes are intended, accept them with visual_regression(mode='update-baseline')")
+    }
+
+    return { content: [{ type: "text" as const, text: lines.join("\n") }] }
+  } catch (error) {
+    logToDevFile(`Visual Regression: Error - ${error}`)
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: `❌ **VISUAL REGRESSION FAILED**\n\n${error instanceof Error ? error.message : String(error)}`
+        }
+      ]
+    }
+  }
+}
+
+// Export recorded interactions as a Playwright test
+export interface ExportPlaywrightTestParams {
+  projectName?: string
+  timeRangeMinutes?: number
+  startTime?: string
+  endTime?: string
+  testName?: string
+}
+
+export async function exportPlaywrightTest(
+  params: ExportPlaywrightTestParams
+): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const { projectName, timeRangeMinutes = 10, startTime, endTime, testName } = params
+
+  const logPath = getLogPath(projectName)
+  if (!logPath) {
+    const sessions = findActiveSessions()
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            sessions.length === 0
+              ? "❌ No active dev3000 sessions found. Make sure dev3000 is running!"
+              : `🔍 Multiple dev3000 sessions detected. Please specify projectName:\n${sessions.map((s) => `• ${s.projectName}`).join("\n")}`
+        }
+      ]
+    }
+  }
+
+  const since = startTime ? new Date(startTime) : new Date(Date.now() - timeRangeMinutes * 60 * 1000)
+  const until = endTime ? new Date(endTime) : undefined
+  if (Number.isNaN(since.getTime()) || (until && Number.isNaN(until.getTime()))) {
+    return {
+      content: [{ type: "text", text: "❌ Invalid startTime/endTime - use ISO timestamps (e.g. 2025-10-01T10:00:00Z)" }]
+    }
+  }
+
+  try {
+    const result = exportPlaywrightSpec(parseLogEntries(readFileSync(logPath, "utf-8"), statSync(logPath).mtime), {
+      since,
+      until,
+      testName
+    })
+    if (!result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `📋 No browser interactions found since ${since.toISOString()}${until ? ` until ${until.toISOString()}` : ""}.\n\n💡 Reproduce the flow in the d3k browser first, or widen timeRangeMinutes.`
+          }
+        ]
+      }
+    }
+
+    logToDevFile(`Export Playwright Test: ${result.actionCount} steps from ${result.startTime} to ${result.endTime}`)
+
+    const notes = [
+      "🎭 **PLAYWRIGHT TEST EXPORTED**",
+      "",
+      `• Window: ${result.startTime} → ${result.endTime}`,
+      `• Steps: ${result.actionCount}`,
+      result.errors.length > 0
+        ? `• ⚠️ ${result.errors.length} error(s) were seen while recording - the test fails until they're fixed`
+        : "• No errors were seen while recording",
+      "",
+      "💡 Save this as a .spec.ts file in the project's Playwright test directory and review the locators.",
+      "",
+      "```ts",
+      result.spec.trimEnd(),
+      "```"
+    ]
+    return { content: [{ type: "text", text: notes.join("\n") }] }
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Failed to export Playwright test: ${error instanceof Error ? error.message : String(error)}`
+        }
+      ]
+    }
+  }
+}
+
+export interface QueryLogsParams {
+  projectName?: string
+  source?: LogEventSource
+  kind?: LogEventKind
+  level?: LogEventLevel
+  url?: string
+  status?: number
+  method?: string
+  requestId?: string
+  text?: string
+  timeRangeMinutes?: number
+  limit?: number
+}
+
+export async function queryLogs(params: QueryLogsParams): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const { projectName, timeRangeMinutes, limit = 50, ...filters } = params
+
+  const logPath = getLogPath(projectName)
+  if (!logPath) {
+    const sessions = findActiveSessions()
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            sessions.length === 0
+              ? "❌ No active dev3000 sessions found. Make sure dev3000 is running!"
+              : `🔍 Multiple dev3000 sessions detected. Please specify projectName:\n${sessions.map((s) => `• ${s.projectName}`).join("\n")}`
+        }
+      ]
+    }
+  }
+
+  const eventLogPath = getEventLogPath(logPath)
+  if (!existsSync(eventLogPath)) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ No structured event log found at ${eventLogPath}. It is written by dev3000 sessions started with this version - restart d3k to enable it.`
+        }
+      ]
+    }
+  }
+
+  try {
+    const since = timeRangeMinutes ? new Date(Date.now() - timeRangeMinutes * 60 * 1000) : undefined
+    const { events, total } = queryLogEvents(readFileSync(eventLogPath, "utf-8"), { ...filters, since, limit })
+
+    const activeFilters = Object.entries({ ...filters, timeRangeMinutes })
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${value}`)
+    const header = `🔎 ${total} matching event(s)${activeFilters.length > 0 ? ` for ${activeFilters.join(", ")}` : ""}${total > events.length ? ` - showing the last ${events.length}` : ""}`
+
+    if (events.length === 0) {
+      return { content: [{ type: "text", text: `${header}\n\n💡 Loosen the filters or increase timeRangeMinutes.` }] }
+    }
+
+    // One JSON object per line keeps the output compact and machine-readable
+    return {
+      content: [{ type: "text", text: `${header}\n\n${events.map((event) => JSON.stringify(event)).join("\n")}` }]
+    }
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Failed to query logs: ${error instanceof Error ? error.message : String(error)}`
+        }
+      ]
+    }
+  }
+}
+
+export interface GetRenderHotspotsParams {
+  projectName?: string
+  timeRangeMinutes?: number
+  limit?: number
+}
+
+export async function getRenderHotspots(
+  params: GetRenderHotspotsParams
+): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const { projectName, timeRangeMinutes = 10, limit = 10 } = params
+
+  const logPath = getLogPath(projectName)
+  if (!logPath) {
+    const sessions = findActiveSessions()
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            sessions.length === 0
+              ? "❌ No active dev3000 sessions found. Make sure dev3000 is running!"
+              : `🔍 Multiple dev3000 sessions detected. Please specify projectName:\n${sessions.map((s) => `• ${s.projectName}`).join("\n")}`
+        }
+      ]
+    }
+  }
+
+  const eventLogPath = getEventLogPath(logPath)
+  if (!existsSync(eventLogPath)) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ No structured event log found at ${eventLogPath}. It is written by dev3000 sessions started with this version - restart d3k to enable it.`
+        }
+      ]
+    }
+  }
+
+  try {
+    const since = new Date(Date.now() - timeRangeMinutes * 60 * 1000)
+    const { events } = queryLogEvents(readFileSync(eventLogPath, "utf-8"), {
+      kind: "performance",
+      text: "[REACT]",
+      since,
+      limit: Number.MAX_SAFE_INTEGER
+    })
+    const lines = events.flatMap((event) => parseRenderLogLine(event.message) ?? [])
+
+    if (lines.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `📋 No React render data in the last ${timeRangeMinutes} minutes.\n\n💡 Render tracking needs d3k started with --plugin-react-scan. Interact with the app in the d3k browser, then try again.`
+          }
+        ]
+      }
+    }
+
+    const hotspots = summarizeRenderHotspots(lines)
+    const slowRenders = lines.filter((line) => line.slow).sort((a, b) => b.components[0].time - a.components[0].time)
+    const formatCount = (count: number) => (Number.isInteger(count) ? String(count) : count.toFixed(1))
+
+    const output = [
+      `⚛️ **RENDER HOTSPOTS** - last ${timeRangeMinutes} minutes, ${hotspots.length} ${hotspots.length === 1 ? "trigger" : "triggers"}`,
+      ""
+    ]
+    for (const hotspot of hotspots.slice(0, limit)) {
+      output.push(
+        `**${hotspot.trigger}** - ${formatCount(hotspot.rendersPerOccurrence)} renders each time (seen ${hotspot.occurrences}×)`
+      )
+      for (const component of hotspot.components.slice(0, 5)) {
+        const time = component.time > 0 ? `, ${component.time.toFixed(1)}ms total` : ""
+        output.push(`   • ${component.name} ×${formatCount(component.rendersPerOccurrence)}${time}`)
+      }
+      output.push("")
+    }
+
+    if (slowRenders.length > 0) {
+      output.push(`🐢 **SLOW RENDERS** (over ${SLOW_RENDER_MS}ms)`)
+      for (const line of slowRenders.slice(0, limit)) {
+        output.push(
+          `   • ${line.components[0].name} took ${line.components[0].time.toFixed(1)}ms after ${line.trigger}`
+        )
+      }
+      output.push("")
+    }
+
+    output.push(
+      "💡 Components rendering many times per interaction usually need memoization (React.memo, useMemo, useCallback) or state moved closer to where it is used. Use find_component_source to locate them."
+    )
+    return { content: [{ type: "text", text: output.join("\n") }] }
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Failed to read render data: ${error instanceof Error ? error.message : String(error)}`
+        }
+      ]
+    }
+  }
+}
+
+export interface ExportNetworkHarParams {
+  projectName?: string
+  url?: string
+  failedOnly?: boolean
+}
+
+// Payload shown per failing request - the full body is in the HAR file
+const HAR_SUMMARY_BODY_CHARS = 500
+
+function summarizeBody(body: string | undefined): string {
+  if (body === undefined || body === "") return "(empty)"
+  return body.length > HAR_SUMMARY_BODY_CHARS ? `${body.slice(0, HAR_SUMMARY_BODY_CHARS)}...` : body
+}
+
+function summarizeFailedExchange(exchange: CapturedExchange): string {
+  const status = exchange.error
+    ? `FAILED (${exchange.error})`
+    : `${exchange.response.status} ${exchange.response.statusText}`
+  const lines = [`• ${exchange.request.method} ${exchange.request.url} → ${status} (${exchange.time}ms)`]
+  if (exchange.request.body !== undefined) {
+    lines.push(`  Request body: ${summarizeBody(exchange.request.body)}`)
+  }
+  if (!exchange.error) {
+    lines.push(`  Response body: ${exchange.response.bodyOmitted || summarizeBody(exchange.response.body)}`)
+  }
+  return lines.join("\n")
+}
+
+export async function exportNetworkHar(
+  params: ExportNetworkHarParams
+): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  const { projectName, url, failedOnly = false } = params
+
+  const logPath = getLogPath(projectName)
+  if (!logPath) {
+    const sessions = findActiveSessions()
+    return {
+      content: [
+        {
+          type: "text",
+          text:
+            sessions.length === 0
+              ? "❌ No active dev3000 sessions found. Make sure dev3000 is running!"
+              : `🔍 Multiple dev3000 sessions detected. Please specify projectName:\n${sessions.map((s) => `• ${s.projectName}`).join("\n")}`
+        }
+      ]
+    }
+  }
+
+  const networkLogPath = getNetworkLogPath(logPath)
+  if (!existsSync(networkLogPath)) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "❌ No network capture found for this session. Restart d3k with --capture-network to record request and response details."
+        }
+      ]
+    }
+  }
+
+  try {
+    const exchanges = parseCapturedExchanges(readFileSync(networkLogPath, "utf-8")).filter(
+      (exchange) => (!url || exchange.request.url.includes(url)) && (!failedOnly || isFailedExchange(exchange))
+    )
+    const harPath = `${logPath.replace(/\.log$/, "")}.har`
+    writeFileSync(harPath, JSON.stringify(buildHar(exchanges, process.env.DEV3000_VERSION), null, 2))
+
+    const failed = exchanges.filter(isFailedExchange)
+    const notes = [`🌐 Exported ${exchanges.length} request(s) to ${harPath}`]
+    if (failed.length === 0) {
+      notes.push("", "✅ No failed requests captured.")
+    } else {
+      notes.push("", `❌ ${failed.length} failed request(s):`, ...failed.slice(-10).map(summarizeFailedExchange))
+      if (failed.length > 10) {
+        notes.push(`... and ${failed.length - 10} more - see the HAR file`)
+      }
+    }
+    return { content: [{ type: "text", text: notes.join("\n") }] }
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `❌ Failed to export network HAR: ${error instanceof Error ? error.message : String(error)}`
+        }
+      ]
+    }
+  }
+}
@@ -180,6 +180,14 @@ function _VideoPlayerContent({ params }: { params: Promise<{ session: string }>
             Frame {currentFrame + 1} / {frames.length} ({frameMs}ms)
           </span>
 
+          <a
+            href={`/api/video/${session}?download=1`}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded"
+            title="MP4 with layout shifts and timeline burned in, for PRs and bug reports"
+          >
+            Download MP4
+          </a>
+
           <label className="flex items-center gap-2">
             Speed:
             <input
@@ -0,0 +1,126 @@
+import { extractProjectNameFromLogFilename } from "@dev3000/src/utils/log-filename"
+import { existsSync, readFileSync } from "fs"
+import Image from "next/image"
+import { basename, join } from "path"
+import { Suspense } from "react"
+import {
+  getVisualRegressionDir,
+  type VisualRegressionReport,
+  type VisualRegressionResult
+} from "@/lib/visual-regression"
+
+interface PageProps {
+  searchParams: Promise<{ project?: string }>
+}
+
+function getProjectName(project?: string): string | null {
+  if (project) return project
+  const currentLogPath = process.env.LOG_FILE_PATH
+  return currentLogPath ? extractProjectNameFromLogFilename(basename(currentLogPath)) : null
+}
+
+function getReport(projectName: string): VisualRegressionReport | null {
+  if (projectName.includes("..") || projectName.includes("/")) return null
+  const reportPath = join(getVisualRegressionDir(projectName), "latest", "report.json")
+  if (!existsSync(reportPath)) return null
+  try {
+    return JSON.parse(readFileSync(reportPath, "utf-8")) as VisualRegressionReport
+  } catch {
+    return null
+  }
+}
+
+const STATUS_LABELS: Record<VisualRegressionResult["status"], string> = {
+  changed: "🔴 Changed",
+  unchanged: "🟢 Unchanged",
+  "baseline-created": "🆕 Baseline saved",
+  error: "❌ Error"
+}
+
+function Screenshot({ projectName, file, label }: { projectName: string; file?: string; label: string }) {
+  if (!file) return null
+  const src = `/api/visual-regression/image?project=${encodeURIComponent(projectName)}&file=${encodeURIComponent(file)}`
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="text-xs font-medium text-muted-foreground mb-1">{label}</div>
+      <a href={src} target="_blank" rel="noopener noreferrer">
+        <Image
+          src={src}
+          alt={label}
+          width={480}
+          height={300}
+          className="w-full h-auto border rounded shadow-sm"
+          style={{ objectFit: "contain" }}
+          unoptimized
+        />
+      </a>
+    </div>
+  )
+}
+
+// Reads the latest report from the filesystem, so render it dynamically inside Suspense
+async function VisualRegressionContent({ searchParams }: PageProps) {
+  const params = await searchParams
+  const projectName = getProjectName(params.project)
+  const report = projectName ? getReport(projectName) : null
+
+  if (!projectName || !report) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-muted-foreground text-lg">🖼️ No visual regression run yet</div>
+        <div className="text-muted-foreground text-sm mt-2">
+          Ask your agent to run the visual_regression tool to capture baselines.
+        </div>
+      </div>
+    )
+  }
+
+  // Changed routes first, biggest change on top
+  const order = { changed: 0, error: 1, "baseline-created": 2, unchanged: 3 }
+  const results = [...report.results].sort(
+    (a, b) => order[a.status] - order[b.status] || (b.changedPercent ?? 0) - (a.changedPercent ?? 0)
+  )
+  const changedCount = results.filter((result) => result.status === "changed").length
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Visual regression - {report.projectName}</h1>
+        <div className="text-sm text-muted-foreground mt-1">
+          {report.baseUrl} · {new Date(report.runAt).toLocaleString()} · {changedCount} of {results.length} changed
+        </div>
+      </div>
+
+      {results.map((result) => (
+        <div key={`${result.route}@${result.viewport.name}`} className="border border-border rounded-lg p-4 space-y-3">
+          <div className="flex items-baseline gap-3">
+            <span className="font-mono text-sm text-foreground">{result.route}</span>
+            <span className="text-xs text-muted-foreground">
+              {result.viewport.name} {result.viewport.width}×{result.viewport.height}
+            </span>
+            <span className="text-sm ml-auto">
+              {STATUS_LABELS[result.status]}
+              {result.changedPercent !== undefined && ` · ${result.changedPercent.toFixed(2)}% of pixels`}
+            </span>
+          </div>
+          {result.error && <div className="text-sm text-red-600 font-mono">{result.error}</div>}
+          <div className="flex gap-4">
+            <Screenshot projectName={report.projectName} file={result.baseline} label="Before (baseline)" />
+            <Screenshot projectName={report.projectName} file={result.current} label="After" />
+            <Screenshot projectName={report.projectName} file={result.diff} label="Diff" />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function VisualRegressionPage({ searchParams }: PageProps) {
+  return (
+    <div className="max-w-7xl mx-auto p-8">
+      <Suspense fallback={<div className="p-8 text-center">Loading visual regression report...</div>}>
+        <VisualRegressionContent searchParams={searchParams} />
+      </Suspense>
+    </div>
+  )
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import {
+  type A11yViolation,
+  countByImpact,
+  formatA11yLogLines,
+  getAxeInjectionExpression,
+  sortViolations
+} from "./accessibility"
+
+function violation(overrides: Partial<A11yViolation> = {}): A11yViolation {
+  return {
+    id: "color-contrast",
+    impact: "serious",
+    help: "Elements must meet minimum color contrast ratio thresholds",
+    helpUrl: "https://dequeuniversity.com/rules/axe/4.10/color-contrast",
+    nodes: [{ selector: "button.cta", html: '<button class="cta">Buy</button>' }],
+    ...overrides
+  }
+}
+
+describe("getAxeInjectionExpression", () => {
+  it("should inline the bundled axe-core instead of loading it from a CDN", () => {
+    const expression = getAxeInjectionExpression()
+    expect(expression).toContain("if (!window.axe)")
+    expect(expression).toContain("function axeFunction")
+    expect(expression.length).toBeGreaterThan(100_000)
+  })
+})
+
+describe("sortViolations", () => {
+  it("should put the most severe and widespread violations first", () => {
+    const sorted = sortViolations([
+      violation({ id: "region", impact: "moderate" }),
+      violation({ id: "image-alt", impact: "critical" }),
+      violation({ id: "link-name", nodes: [] }),
+      violation()
+    ])
+    expect(sorted.map((v) => v.id)).toEqual(["image-alt", "color-contrast", "link-name", "region"])
+  })
+})
+
+describe("formatA11yLogLines", () => {
+  it("should log one line per rule with its first selectors", () => {
+    const nodes = ["a.one", "a.two", "a.three", "a.four"].map((selector) => ({ selector, html: "<a></a>" }))
+    expect(
+      formatA11yLogLines({
+        url: "http://localhost:3000/pricing",
+        violations: [
+          violation(),
+          violation({ id: "link-name", impact: "critical", help: "Links must have discernible text", nodes })
+        ]
+      })
+    ).toEqual([
+      "[A11Y] CRITICAL: link-name on /pricing - Links must have discernible text (4 elements: a.one, a.two, a.three, +1 more)",
+      "[A11Y] SERIOUS: color-contrast on /pricing - Elements must meet minimum color contrast ratio thresholds (1 element: button.cta)"
+    ])
+  })
+
+  it("should log passing pages and failed audits", () => {
+    expect(formatA11yLogLines({ url: "http://localhost:3000/", violations: [] })).toEqual([
+      "[A11Y] / passed (no violations)"
+    ])
+    expect(formatA11yLogLines({ url: "http://localhost:3000/", violations: [], error: "timeout" })).toEqual([
+      "[A11Y] Audit of / failed: timeout"
+    ])
+  })
+})
+
+describe("countByImpact", () => {
+  it("should count violations across pages", () => {
+    expect(
+      countByImpact([
+        { url: "http://localhost:3000/", violations: [violation(), violation({ impact: "minor" })] },
+        { url: "http://localhost:3000/about", violations: [violation()] }
+      ])
+    ).toEqual({ critical: 0, serious: 2, moderate: 0, minor: 1 })
+  })
+})
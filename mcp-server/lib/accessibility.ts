@@ -0,0 +1,105 @@
+import axe from "axe-core"
+
+/**
+ * Accessibility audits with axe-core
+ *
+ * The bundled axe-core is injected into the monitored page over CDP (never from a
+ * CDN, so audits work offline and under strict CSPs), run there, and its violations
+ * are reduced to what an agent needs to fix them: rule, impact, selectors and HTML.
+ */
+
+export type A11yImpact = "minor" | "moderate" | "serious" | "critical"
+
+export interface A11yNode {
+  selector: string
+  html: string // Outer HTML snippet, as truncated by axe
+  failureSummary?: string
+}
+
+export interface A11yViolation {
+  id: string // axe rule id, e.g. "color-contrast"
+  impact: A11yImpact
+  help: string
+  helpUrl: string
+  nodes: A11yNode[]
+}
+
+export interface A11yPageResult {
+  url: string
+  violations: A11yViolation[]
+  error?: string
+}
+
+const IMPACT_ORDER: A11yImpact[] = ["critical", "serious", "moderate", "minor"]
+
+// Selectors listed per violation in a log line - the tool output has all of them
+const LOGGED_SELECTORS = 3
+
+/**
+ * Expression that loads the bundled axe-core into the page, once per document
+ */
+export function getAxeInjectionExpression(): string {
+  return `(() => { if (!window.axe) { ${axe.source} } return typeof window.axe !== "undefined" })()`
+}
+
+/**
+ * Expression that audits the page and returns its A11yViolation list
+ * Frames and shadow roots give nested targets, which are joined into one readable selector.
+ */
+export const AXE_RUN_EXPRESSION = `
+  window.axe.run(document, { resultTypes: ["violations"] }).then((results) =>
+    results.violations.map((violation) => ({
+      id: violation.id,
+      impact: violation.impact || "minor",
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+      nodes: violation.nodes.map((node) => ({
+        selector: node.target.map((part) => (Array.isArray(part) ? part.join(" >>> ") : part)).join(" >>> "),
+        html: node.html,
+        failureSummary: node.failureSummary
+      }))
+    }))
+  )
+`
+
+/**
+ * Sort violations by impact, most severe first, then by the number of affected elements
+ */
+export function sortViolations(violations: A11yViolation[]): A11yViolation[] {
+  return [...violations].sort(
+    (a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || b.nodes.length - a.nodes.length
+  )
+}
+
+/**
+ * Build the [A11Y] lines logged for an audited page, one per violated rule
+ */
+export function formatA11yLogLines(result: A11yPageResult): string[] {
+  const path = new URL(result.url).pathname
+  if (result.error) {
+    return [`[A11Y] Audit of ${path} failed: ${result.error}`]
+  }
+  if (result.violations.length === 0) {
+    return [`[A11Y] ${path} passed (no violations)`]
+  }
+
+  return sortViolations(result.violations).map((violation) => {
+    const selectors = violation.nodes.slice(0, LOGGED_SELECTORS).map((node) => node.selector)
+    const more = violation.nodes.length > LOGGED_SELECTORS ? `, +${violation.nodes.length - LOGGED_SELECTORS} more` : ""
+    const count = `${violation.nodes.length} ${violation.nodes.length === 1 ? "element" : "elements"}`
+    return `[A11Y] ${violation.impact.toUpperCase()}: ${violation.id} on ${path} - ${violation.help} (${count}: ${selectors.join(", ")}${more})`
+  })
+}
+
+/**
+ * Count violations per impact across audited pages
+ */
+export function countByImpact(results: A11yPageResult[]): Record<A11yImpact, number> {
+  const counts: Record<A11yImpact, number> = { critical: 0, serious: 0, moderate: 0, minor: 0 }
+  for (const result of results) {
+    for (const violation of result.violations) {
+      counts[violation.impact]++
+    }
+  }
+  return counts
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest"
+import { type ApiRequestInfo, checkApiAccess, isPagePath } from "./api-access"
+
+function request(overrides: Partial<ApiRequestInfo> = {}): ApiRequestInfo {
+  return {
+    method: "GET",
+    pathname: "/api/logs/tail",
+    host: "localhost:3684",
+    origin: null,
+    secFetchSite: null,
+    authorization: null,
+    tokenCookie: null,
+    tokenParam: null,
+    ...overrides
+  }
+}
+
+describe("checkApiAccess", () => {
+  const open = { allowedOrigins: [] }
+  const withToken = { allowedOrigins: [], token: "secret" }
+
+  it("should reject hosts other than this machine", () => {
+    expect(checkApiAccess(request(), open)).toEqual({ allowed: true, corsOrigin: null })
+    expect(checkApiAccess(request({ host: "[::1]:3684" }), open).allowed).toBe(true)
+    expect(checkApiAccess(request({ host: "rebind.example.com:3684" }), open)).toMatchObject({ status: 403 })
+  })
+
+  it("should only allow its own origin, the d3k extension and configured origins", () => {
+    const extension = "chrome-extension://fjpigoneifbjkbnkamlhljdchajhngmc"
+    expect(checkApiAccess(request({ origin: "http://localhost:3684" }), open)).toEqual({
+      allowed: true,
+      corsOrigin: null
+    })
+    expect(checkApiAccess(request({ origin: extension }), open)).toEqual({ allowed: true, corsOrigin: extension })
+    expect(checkApiAccess(request({ origin: "chrome-extension://abcdef" }), open)).toMatchObject({ status: 403 })
+    expect(checkApiAccess(request({ origin: "moz-extension://abcdef" }), open)).toMatchObject({ status: 403 })
+    expect(
+      checkApiAccess(request({ origin: "chrome-extension://abcdef" }), {
+        allowedOrigins: ["chrome-extension://abcdef"]
+      })
+    ).toEqual({ allowed: true, corsOrigin: "chrome-extension://abcdef" })
+    expect(checkApiAccess(request({ origin: "http://localhost:3000" }), open)).toMatchObject({ status: 403 })
+    expect(checkApiAccess(request({ origin: "null" }), open)).toMatchObject({ status: 403 })
+    expect(
+      checkApiAccess(request({ origin: "http://localhost:3000" }), { allowedOrigins: ["http://localhost:3000"] })
+    ).toEqual({ allowed: true, corsOrigin: "http://localhost:3000" })
+  })
+
+  it("should require the token except on public paths and preflights", () => {
+    expect(checkApiAccess(request(), withToken)).toMatchObject({ status: 401 })
+    expect(checkApiAccess(request({ authorization: "Bearer wrong" }), withToken)).toMatchObject({ status: 401 })
+    expect(checkApiAccess(request({ authorization: "Bearer secret" }), withToken).allowed).toBe(true)
+    expect(checkApiAccess(request({ method: "OPTIONS" }), withToken).allowed).toBe(true)
+    expect(checkApiAccess(request({ pathname: "/api/react-scan", secFetchSite: "same-site" }), withToken).allowed).toBe(
+      true
+    )
+    expect(checkApiAccess(request({ pathname: "/api/session" }), withToken).allowed).toBe(true)
+    expect(checkApiAccess(request({ pathname: "/logs" }), withToken)).toMatchObject({ status: 401 })
+  })
+
+  it("should let the links d3k prints open a page and hand out the cookie", () => {
+    expect(checkApiAccess(request({ pathname: "/logs", tokenParam: "secret" }), withToken)).toEqual({
+      allowed: true,
+      corsOrigin: null,
+      setTokenCookie: true
+    })
+    expect(checkApiAccess(request({ pathname: "/logs", tokenParam: "wrong" }), withToken)).toMatchObject({
+      status: 401
+    })
+    // The API takes the header or the cookie, never a token in the URL
+    expect(checkApiAccess(request({ tokenParam: "secret" }), withToken)).toMatchObject({ status: 401 })
+    expect(
+      checkApiAccess(request({ pathname: "/logs", secFetchSite: "none", tokenCookie: "secret" }), withToken)
+    ).toEqual({ allowed: true, corsOrigin: null })
+  })
+
+  it("should only take the token cookie with requests of the d3k pages and opened links", () => {
+    // Anything can claim to be a browser - the headers alone are not enough
+    expect(checkApiAccess(request({ secFetchSite: "same-origin" }), withToken)).toMatchObject({ status: 401 })
+    expect(checkApiAccess(request({ secFetchSite: "none" }), withToken)).toMatchObject({ status: 401 })
+    expect(checkApiAccess(request({ secFetchSite: "same-origin", tokenCookie: "wrong" }), withToken)).toMatchObject({
+      status: 401
+    })
+    expect(checkApiAccess(request({ secFetchSite: "same-origin", tokenCookie: "secret" }), withToken).allowed).toBe(
+      true
+    )
+    expect(checkApiAccess(request({ secFetchSite: "none", tokenCookie: "secret" }), withToken).allowed).toBe(true)
+    // The monitored app on another localhost port is same-site, so the cookie comes along
+    expect(checkApiAccess(request({ secFetchSite: "same-site", tokenCookie: "secret" }), withToken)).toMatchObject({
+      status: 401
+    })
+  })
+
+  it("should tell the d3k pages from the API", () => {
+    expect(isPagePath("/")).toBe(true)
+    expect(isPagePath("/logs")).toBe(true)
+    expect(isPagePath("/api/logs/tail")).toBe(false)
+    expect(isPagePath("/mcp")).toBe(false)
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Access control for the API routes and the MCP endpoint
+ *
+ * Any page open in the browser can send requests to localhost, so requests are only
+ * served when:
+ * - the Host header names this machine, which stops DNS rebinding
+ * - the Origin header, when sent, is the server itself, the d3k Chrome extension or an
+ *   origin allowed with --allowed-origins
+ * - with --api-token, requests carry the session's bearer token. The links d3k prints and
+ *   opens add it as ?token= to a d3k page, which then hands the browser an HttpOnly,
+ *   SameSite=Strict cookie. The cookie is accepted on the pages, the requests they make
+ *   and the links the user opens in that browser.
+ */
+
+export interface ApiAccessConfig {
+  allowedOrigins: string[] // In addition to the server's own origin and the d3k extension
+  token?: string
+}
+
+export interface ApiRequestInfo {
+  method: string
+  pathname: string
+  host: string | null
+  origin: string | null
+  secFetchSite: string | null
+  authorization: string | null
+  tokenCookie: string | null // Value of the API_TOKEN_COOKIE cookie
+  tokenParam: string | null // The ?token= of a page link
+}
+
+export type ApiAccessDecision =
+  // corsOrigin is set for allowed cross-origin requests, setTokenCookie when a page link brought the token
+  | { allowed: true; corsOrigin: string | null; setTokenCookie?: boolean }
+  | { allowed: false; status: 401 | 403; error: string }
+
+export const API_TOKEN_COOKIE = "d3k_api_token"
+
+const LOOPBACK_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"])
+// The d3k Chrome extension - its manifest key pins the ID, unpacked installs included
+const EXTENSION_ORIGINS = new Set(["chrome-extension://fjpigoneifbjkbnkamlhljdchajhngmc"])
+
+// Served without the token: react-scan is loaded by the monitored app with a script tag, and the
+// Chrome extension probes /api/session to find instances before it knows which token to send
+const PUBLIC_PATHS = new Set(["/api/react-scan", "/api/session"])
+
+/**
+ * Read the access configuration d3k passes to the MCP server
+ */
+export function getApiAccessConfig(): ApiAccessConfig {
+  return {
+    allowedOrigins: (process.env.D3K_ALLOWED_ORIGINS || "")
+      .split(",")
+      .map((origin) => origin.trim().replace(/\/$/, ""))
+      .filter(Boolean),
+    token: process.env.D3K_API_TOKEN || undefined
+  }
+}
+
+/**
+ * Check whether a path is one of the d3k pages rather than the API or the MCP endpoint
+ * Pages take the token from a ?token= link, and hand it to the browser in the token cookie.
+ */
+export function isPagePath(pathname: string): boolean {
+  return !pathname.startsWith("/api/") && pathname !== "/mcp"
+}
+
+function getHostname(host: string): string {
+  return host.startsWith("[") ? host.slice(0, host.indexOf("]") + 1) : host.split(":")[0]
+}
+
+function isAllowedOrigin(origin: string, host: string, config: ApiAccessConfig): boolean {
+  if (config.allowedOrigins.includes(origin) || EXTENSION_ORIGINS.has(origin)) return true
+  try {
+    return new URL(origin).host === host
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Decide whether a request may be served
+ */
+export function checkApiAccess(request: ApiRequestInfo, config: ApiAccessConfig): ApiAccessDecision {
+  const host = request.host?.toLowerCase() ?? ""
+  const hostname = getHostname(host)
+  const allowedHostnames = config.allowedOrigins.flatMap((origin) => {
+    try {
+      return [new URL(origin).hostname]
+    } catch {
+      return []
+    }
+  })
+  if (!LOOPBACK_HOSTNAMES.has(hostname) && !allowedHostnames.includes(hostname)) {
+    return { allowed: false, status: 403, error: `Host ${request.host ?? "(none)"} is not allowed` }
+  }
+
+  const origin = request.origin && request.origin !== "null" ? request.origin : null
+  if (request.origin && (!origin || !isAllowedOrigin(origin, host, config))) {
+    return { allowed: false, status: 403, error: `Origin ${request.origin} is not allowed` }
+  }
+  const corsOrigin = origin && new URL(origin).host !== host ? origin : null
+
+  // Preflight requests never carry credentials, the request they announce is checked
+  if (!config.token || request.method === "OPTIONS" || PUBLIC_PATHS.has(request.pathname)) {
+    return { allowed: true, corsOrigin }
+  }
+
+  // Only the links d3k prints and opens know the token, so its presence proves the same as the header
+  if (isPagePath(request.pathname) && request.tokenParam === config.token) {
+    return { allowed: true, corsOrigin, setTokenCookie: true }
+  }
+
+  // The logs viewer and links the user opens (screenshot URLs from MCP tools) can't send the header,
+  // the browser sends the cookie a d3k page set instead - but never along with other sites' requests
+  const fromBrowser = request.secFetchSite === "same-origin" || request.secFetchSite === "none"
+  if (fromBrowser && request.tokenCookie === config.token) {
+    return { allowed: true, corsOrigin }
+  }
+
+  if (request.authorization !== `Bearer ${config.token}`) {
+    const error = isPagePath(request.pathname)
+      ? "Open the link d3k printed, or add ?token= with the apiToken of ~/.d3k/<project>.json"
+      : "A valid bearer token is required, see ~/.d3k/<project>.json"
+    return { allowed: false, status: 401, error }
+  }
+  return { allowed: true, corsOrigin }
+}
@@ -23,6 +23,10 @@ export const LOG_COLORS = {
   REPLAY: "#9370DB", // Purple
   NAVIGATION: "#DDA0DD", // Plum (same as DOM)
   INTERACTION: "#DDA0DD", // Plum (same as DOM)
+  PERF: "#87CEEB", // Sky blue (same as INFO)
+  BUDGET: "#FF6B6B", // Red (same as ERROR)
+  A11Y: "#FFA500", // Orange (same as WARNING)
+  REACT: "#61DAFB", // React cyan
   DEFAULT: "#A0A0A0" // Dark gray
 } as const
 
@@ -36,7 +40,8 @@ export function getTextColor(bgColor: string): string {
     LOG_COLORS.CDP,
     LOG_COLORS.CHROME,
     LOG_COLORS.NAVIGATION,
-    LOG_COLORS.INTERACTION
+    LOG_COLORS.INTERACTION,
+    LOG_COLORS.REACT
   ]
   return lightColors.includes(bgColor) ? "#000" : "#FFF"
 }
@@ -56,5 +61,9 @@ export const TYPE_COLOR_MAP = {
   CRASH: "CRASH",
   REPLAY: "REPLAY",
   NAVIGATION: "NAVIGATION",
-  INTERACTION: "INTERACTION"
+  INTERACTION: "INTERACTION",
+  PERF: "PERF",
+  BUDGET: "BUDGET",
+  A11Y: "A11Y",
+  REACT: "REACT"
 } as const
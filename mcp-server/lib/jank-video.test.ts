@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { drawBox, drawTimeline, encodeJankVideo, type RgbaImage, resampleFrames } from "./jank-video"
+
+function blankImage(width: number, height: number): RgbaImage {
+  return { width, height, data: new Uint8Array(width * height * 4).fill(255) }
+}
+
+function pixel(image: RgbaImage, x: number, y: number): number[] {
+  const index = (y * image.width + x) * 4
+  return [...image.data.subarray(index, index + 3)]
+}
+
+describe("resampleFrames", () => {
+  it("should hold each frame until the next one arrives", () => {
+    expect(resampleFrames([0, 150, 160, 420], 10)).toEqual([0, 0, 2, 2, 2])
+  })
+
+  it("should handle a single frame", () => {
+    expect(resampleFrames([1200], 10)).toEqual([0])
+    expect(resampleFrames([], 10)).toEqual([])
+  })
+})
+
+describe("overlays", () => {
+  it("should outline the layout shift box", () => {
+    const image = blankImage(100, 100)
+    drawBox(image, { x: 10, y: 10, width: 50, height: 30 })
+
+    expect(pixel(image, 10, 10)).toEqual([239, 68, 68])
+    expect(pixel(image, 59, 39)).toEqual([239, 68, 68])
+    expect(pixel(image, 30, 25)).toEqual([255, 255, 255]) // Inside stays untouched
+  })
+
+  it("should draw progress and shift ticks along the bottom", () => {
+    const image = blankImage(100, 100)
+    drawTimeline(image, 0.5, [0.8])
+
+    expect(pixel(image, 10, 99)).toEqual([37, 99, 235]) // Played
+    expect(pixel(image, 70, 99)).toEqual([31, 41, 55]) // Not played yet
+    expect(pixel(image, 79, 90)).toEqual([239, 68, 68]) // Tick above the bar
+    expect(pixel(image, 10, 50)).toEqual([255, 255, 255])
+  })
+})
+
+describe("encodeJankVideo", () => {
+  it("should encode frames into an MP4", async () => {
+    const frames = [0, 100, 250].map((timestamp) => ({ timestamp, load: () => blankImage(65, 48) }))
+    const video = await encodeJankVideo(frames, [
+      { timestamp: 100, boundingBox: { x: 4, y: 4, width: 20, height: 10 }, clsScore: 0.12 }
+    ])
+
+    expect(video.subarray(4, 8).toString()).toBe("ftyp")
+  })
+})
@@ -0,0 +1,166 @@
+import HME from "h264-mp4-encoder"
+import type { ClsMarker } from "@/types"
+
+/**
+ * An RGBA image, as decoded by pngjs
+ */
+export interface RgbaImage {
+  width: number
+  height: number
+  data: Uint8Array
+}
+
+export interface JankVideoFrame {
+  timestamp: number // ms since the capture started, from the "-jank-<ms>ms.png" file name
+  load: () => RgbaImage // Frames are decoded one at a time - a 1080p frame is 8MB of RGBA
+}
+
+type Rgb = [number, number, number]
+
+export const JANK_VIDEO_FPS = 10
+
+// How long a layout shift box stays on screen - a single 100ms frame is easy to miss
+const SHIFT_HIGHLIGHT_MS = 500
+
+const SHIFT_COLOR: Rgb = [239, 68, 68] // Tailwind red-500, as in the /video player
+const TIMELINE_BACKGROUND: Rgb = [31, 41, 55]
+const TIMELINE_PROGRESS: Rgb = [37, 99, 235]
+
+function fillRect(image: RgbaImage, x: number, y: number, width: number, height: number, color: Rgb): void {
+  const x0 = Math.max(0, Math.round(x))
+  const y0 = Math.max(0, Math.round(y))
+  const x1 = Math.min(image.width, Math.round(x + width))
+  const y1 = Math.min(image.height, Math.round(y + height))
+  for (let row = y0; row < y1; row++) {
+    for (let column = x0; column < x1; column++) {
+      const index = (row * image.width + column) * 4
+      image.data[index] = color[0]
+      image.data[index + 1] = color[1]
+      image.data[index + 2] = color[2]
+      image.data[index + 3] = 255
+    }
+  }
+}
+
+/**
+ * Draw the outline of a layout shift bounding box
+ */
+export function drawBox(image: RgbaImage, box: NonNullable<ClsMarker["boundingBox"]>, color: Rgb = SHIFT_COLOR): void {
+  const thickness = Math.max(2, Math.round(image.width / 400))
+  fillRect(image, box.x, box.y, box.width, thickness, color)
+  fillRect(image, box.x, box.y + box.height - thickness, box.width, thickness, color)
+  fillRect(image, box.x, box.y, thickness, box.height, color)
+  fillRect(image, box.x + box.width - thickness, box.y, thickness, box.height, color)
+}
+
+/**
+ * Draw a timeline along the bottom edge: playback progress plus a tick per layout shift
+ * @param progress Position of the frame in the capture (0..1)
+ * @param markerPositions Positions of the layout shifts (0..1)
+ */
+export function drawTimeline(image: RgbaImage, progress: number, markerPositions: number[]): void {
+  const barHeight = Math.max(6, Math.round(image.height / 90))
+  const tickWidth = Math.max(2, Math.round(image.width / 500))
+  const top = image.height - barHeight
+
+  fillRect(image, 0, top, image.width, barHeight, TIMELINE_BACKGROUND)
+  fillRect(image, 0, top, image.width * Math.min(1, Math.max(0, progress)), barHeight, TIMELINE_PROGRESS)
+  for (const position of markerPositions) {
+    // Ticks stick out above the bar so they stay visible once the progress passes them
+    fillRect(image, position * (image.width - tickWidth), top - barHeight, tickWidth, barHeight * 2, SHIFT_COLOR)
+  }
+}
+
+/**
+ * Pick the source frame shown at each tick of a constant frame rate video
+ * Screencast frames only arrive when the page repaints, so a frame is held until the next one.
+ * @returns The frame index for every output frame
+ */
+export function resampleFrames(timestamps: number[], fps: number): number[] {
+  if (timestamps.length === 0) return []
+
+  const start = timestamps[0]
+  const duration = timestamps[timestamps.length - 1] - start
+  const frameCount = Math.floor((duration * fps) / 1000) + 1
+  const indexes: number[] = []
+  let current = 0
+  for (let i = 0; i < frameCount; i++) {
+    const time = start + (i * 1000) / fps
+    while (current + 1 < timestamps.length && timestamps[current + 1] <= time) {
+      current++
+    }
+    indexes.push(current)
+  }
+  return indexes
+}
+
+/**
+ * Encode jank screencast frames into an H.264 MP4 with the layout shifts burned in
+ * Frames must be sorted by timestamp. Frames with another size than the first one are skipped.
+ */
+export async function encodeJankVideo(
+  frames: JankVideoFrame[],
+  markers: ClsMarker[],
+  fps: number = JANK_VIDEO_FPS
+): Promise<Buffer> {
+  if (frames.length === 0) {
+    throw new Error("No frames to encode")
+  }
+
+  const first = frames[0].load()
+  // H.264 needs even dimensions - drop the last row/column when needed
+  const width = first.width - (first.width % 2)
+  const height = first.height - (first.height % 2)
+
+  const start = frames[0].timestamp
+  const duration = Math.max(1, frames[frames.length - 1].timestamp - start)
+  const markerPositions = markers.map((marker) => (marker.timestamp - start) / duration)
+
+  const encoder = await HME.createH264MP4Encoder()
+  try {
+    encoder.width = width
+    encoder.height = height
+    encoder.frameRate = fps
+    encoder.speed = 10 // Fastest - the frames are mostly static UI
+    encoder.initialize()
+
+    const output = new Uint8Array(width * height * 4)
+    let loadedIndex = 0
+    let loaded = first
+    const indexes = resampleFrames(
+      frames.map((frame) => frame.timestamp),
+      fps
+    )
+
+    for (const [outputIndex, frameIndex] of indexes.entries()) {
+      if (frameIndex !== loadedIndex) {
+        const image = frames[frameIndex].load()
+        loaded = image.width === first.width && image.height === first.height ? image : loaded
+        loadedIndex = frameIndex
+      }
+
+      for (let row = 0; row < height; row++) {
+        const offset = row * loaded.width * 4
+        output.set(loaded.data.subarray(offset, offset + width * 4), row * width * 4)
+      }
+      const frame: RgbaImage = { width, height, data: output }
+
+      const time = start + (outputIndex * 1000) / fps
+      for (const marker of markers) {
+        if (marker.boundingBox && time >= marker.timestamp && time < marker.timestamp + SHIFT_HIGHLIGHT_MS) {
+          drawBox(frame, marker.boundingBox)
+        }
+      }
+      drawTimeline(frame, (time - start) / duration, markerPositions)
+
+      encoder.addFrameRgba(output)
+    }
+
+    encoder.finalize()
+    const video = Buffer.from(encoder.FS.readFile(encoder.outputFilename))
+    encoder.FS.unlink(encoder.outputFilename)
+    return video
+  } finally {
+    encoder.delete()
+  }
+}
@@ -0,0 +1,99 @@
+import { createLogEvent, getEventLogPath, type LogEventFields } from "@dev3000/src/utils/log-events"
+import { extractProjectNameFromLogFilename, logFilenameMatchesProject } from "@dev3000/src/utils/log-filename"
+import { formatTimestamp } from "@dev3000/src/utils/timestamp"
+import { appendFileSync, existsSync, readdirSync, statSync } from "fs"
+import { basename, dirname, join } from "path"
+import type { LogFile, LogListResponse } from "@/types"
+
+/**
+ * Path of the log d3k is writing to
+ */
+export function getCurrentLogPath(): string {
+  return process.env.LOG_FILE_PATH || "./ai-dev-tools/consolidated.log"
+}
+
+/**
+ * Timestamp format of the log d3k is writing to, as set with --date-time
+ */
+export function getDateTimeFormat(): "local" | "utc" {
+  return process.env.D3K_DATE_TIME_FORMAT === "utc" ? "utc" : "local"
+}
+
+/**
+ * List the logs of the current project, most recent first
+ * @returns The list, empty when the current log doesn't exist
+ */
+export function listLogFiles(): LogListResponse {
+  const currentLogPath = getCurrentLogPath()
+  const currentLogName = basename(currentLogPath)
+  const projectName = extractProjectNameFromLogFilename(currentLogName) || "unknown"
+
+  if (!existsSync(currentLogPath)) {
+    return { files: [], currentFile: currentLogPath, projectName }
+  }
+
+  const logDir = dirname(currentLogPath)
+  const files: LogFile[] = readdirSync(logDir)
+    .filter((file) => logFilenameMatchesProject(file, projectName))
+    .map((file) => {
+      const filePath = join(logDir, file)
+      const stats = statSync(filePath)
+
+      const timestampMatch = file.match(/(\d{4}-\d{2}-\d{2}T[\d-]+Z)/)
+      const timestamp = timestampMatch ? timestampMatch[1].replace(/-/g, ":") : ""
+
+      return {
+        name: file,
+        path: filePath,
+        timestamp,
+        size: stats.size,
+        mtime: stats.mtime,
+        isCurrent: file === currentLogName
+      }
+    })
+    .sort((a, b) => b.mtime.getTime() - a.mtime.getTime()) // Most recent first
+    .map((file) => ({
+      ...file,
+      mtime: file.mtime.toISOString() // Convert to string after sorting
+    }))
+
+  return { files, currentFile: currentLogPath, projectName }
+}
+
+/**
+ * Resolve a log ID from /api/logs/list to its path
+ *
+ * Routes never take a path from the request: an ID only resolves when it names one of the
+ * listed logs, so requests can't reach files outside the project's logs.
+ *
+ * @param logId - The name of a listed log, or empty for the current log
+ * @returns The path, or null for an unknown ID
+ */
+export function resolveLogPath(logId: string | null | undefined): string | null {
+  if (!logId) return getCurrentLogPath()
+  return listLogFiles().files.find((file) => file.name === logId)?.path ?? null
+}
+
+/**
+ * Write lines into a session's consolidated log (and its event sidecar) from the MCP server
+ *
+ * @param fields - Event fields known better than what the messages' tags tell, applied to every message
+ * @param tabIdentifier - The Chrome extension's tab, written before the source like the extension always did
+ * @param dateTimeFormat - The session's --date-time, defaulting to the one of the d3k that started this server
+ */
+export function appendToSessionLog(
+  logFilePath: string,
+  messages: string[],
+  fields: LogEventFields = {},
+  tabIdentifier?: string,
+  dateTimeFormat: "local" | "utc" = getDateTimeFormat()
+): void {
+  if (!existsSync(logFilePath)) return
+
+  const tab = tabIdentifier ? ` [TAB-${tabIdentifier}]` : ""
+  for (const message of messages) {
+    const now = new Date()
+    appendFileSync(logFilePath, `[${formatTimestamp(now, dateTimeFormat)}]${tab} [BROWSER] ${message}\n`)
+    appendFileSync(getEventLogPath(logFilePath), `${JSON.stringify(createLogEvent("browser", message, fields, now))}\n`)
+  }
+}
@@ -0,0 +1,71 @@
+import { appendFileSync, mkdtempSync, renameSync, rmSync, statSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { formatLogPosition, IncrementalLogReader, parseLogPosition } from "./log-reader"
+
+describe("IncrementalLogReader", () => {
+  let dir: string
+  let logPath: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "d3k-log-reader-"))
+    logPath = join(dir, "app.log")
+    writeFileSync(logPath, "[10:00:00.000] [SERVER] ready\n")
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should read only complete lines and keep byte offsets across multibyte characters", () => {
+    const reader = new IncrementalLogReader(logPath)
+    expect(reader.read().map((chunk) => chunk.text)).toEqual(["[10:00:00.000] [SERVER] ready\n"])
+
+    appendFileSync(logPath, "[10:00:01.000] [BROWSER] [CONSOLE LOG] héllo ✓\n[10:00:02")
+    expect(reader.read().map((chunk) => chunk.text)).toEqual(["[10:00:01.000] [BROWSER] [CONSOLE LOG] héllo ✓\n"])
+
+    appendFileSync(logPath, ".000] [SERVER] done\n")
+    expect(reader.read().map((chunk) => chunk.text)).toEqual(["[10:00:02.000] [SERVER] done\n"])
+    expect(reader.read()).toEqual([])
+    expect(reader.getPosition().offset).toBe(statSync(logPath).size)
+  })
+
+  it("should split a backlog into chunks at line boundaries", () => {
+    appendFileSync(
+      logPath,
+      "[10:00:01.000] [SERVER] a much longer line than the chunk size\n[10:00:02.000] [SERVER] x\n"
+    )
+    const chunks = new IncrementalLogReader(logPath).read(40)
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "[10:00:00.000] [SERVER] ready\n",
+      "[10:00:01.000] [SERVER] a much longer line than the chunk size\n",
+      "[10:00:02.000] [SERVER] x\n"
+    ])
+  })
+
+  it("should start over after rotation and truncation", () => {
+    const reader = new IncrementalLogReader(logPath)
+    reader.read()
+
+    renameSync(logPath, join(dir, "app-archived.log"))
+    writeFileSync(logPath, "[10:00:05.000] [SERVER] fresh\n")
+    expect(reader.read()).toEqual([
+      expect.objectContaining({ text: "[10:00:05.000] [SERVER] fresh\n", reset: "rotated" })
+    ])
+
+    writeFileSync(logPath, "")
+    expect(reader.read()).toEqual([expect.objectContaining({ text: "", reset: "truncated" })])
+  })
+
+  it("should resume from an event id", () => {
+    const first = new IncrementalLogReader(logPath)
+    const [chunk] = first.read()
+    appendFileSync(logPath, "[10:00:01.000] [SERVER] after reconnect\n")
+
+    const resumed = new IncrementalLogReader(logPath, parseLogPosition(formatLogPosition(chunk.position)))
+    expect(resumed.read().map((next) => next.text)).toEqual(["[10:00:01.000] [SERVER] after reconnect\n"])
+    expect(parseLogPosition("not-an-id")).toBeNull()
+  })
+})
@@ -0,0 +1,114 @@
+import { closeSync, openSync, readSync, statSync } from "fs"
+
+/**
+ * Position of a reader in a log file, sent as the SSE event id so clients can resume
+ */
+export interface LogPosition {
+  inode: number
+  offset: number // Bytes, always just after a newline
+}
+
+export interface LogChunk {
+  text: string
+  position: LogPosition
+  reset?: "rotated" | "truncated" // The file was replaced or shrank, text starts at its beginning
+}
+
+// Largest chunk sent in a single event, so a long backlog streams in pieces instead of one huge message
+export const MAX_LOG_CHUNK_BYTES = 1024 * 1024
+
+const NEWLINE = 0x0a
+
+/**
+ * Format a position as an SSE event id
+ */
+export function formatLogPosition(position: LogPosition): string {
+  return `${position.inode}:${position.offset}`
+}
+
+/**
+ * Parse an SSE event id back into a position
+ * @returns The position, or null for a missing or malformed id
+ */
+export function parseLogPosition(id: string | null | undefined): LogPosition | null {
+  const match = id?.match(/^(\d+):(\d+)$/)
+  return match ? { inode: Number(match[1]), offset: Number(match[2]) } : null
+}
+
+/**
+ * Reads a growing log file from its last byte offset
+ *
+ * Only complete lines are returned, so a chunk never ends inside a line or a multibyte
+ * character - the rest is read again once its newline is written. A file with a new
+ * inode (rotation) or smaller than the offset (truncation) is read from the start.
+ */
+export class IncrementalLogReader {
+  private path: string
+  private position: LogPosition
+
+  /**
+   * @param start Position to resume from, ignored when the file was rotated or truncated since
+   */
+  constructor(path: string, start?: LogPosition | null) {
+    this.path = path
+    this.position = start ?? { inode: statSync(path).ino, offset: 0 }
+  }
+
+  getPosition(): LogPosition {
+    return { ...this.position }
+  }
+
+  /**
+   * Read the complete lines written since the last call
+   * @returns Chunks of at most maxBytes, unless a single line is longer; empty when nothing new was written
+   */
+  read(maxBytes: number = MAX_LOG_CHUNK_BYTES): LogChunk[] {
+    const stats = statSync(this.path)
+    let reset: LogChunk["reset"]
+    if (stats.ino !== this.position.inode) {
+      reset = "rotated"
+    } else if (stats.size < this.position.offset) {
+      reset = "truncated"
+    }
+    if (reset) {
+      this.position = { inode: stats.ino, offset: 0 }
+    }
+
+    const chunks: LogChunk[] = []
+    const fd = openSync(this.path, "r")
+    try {
+      let text = this.readLines(fd, stats.size, maxBytes)
+      while (text !== null) {
+        chunks.push({ text, position: this.getPosition(), ...(reset && chunks.length === 0 ? { reset } : {}) })
+        text = this.readLines(fd, stats.size, maxBytes)
+      }
+    } finally {
+      closeSync(fd)
+    }
+
+    // A reset with nothing written yet still has to reach the client
+    if (reset && chunks.length === 0) {
+      chunks.push({ text: "", position: this.getPosition(), reset })
+    }
+    return chunks
+  }
+
+  // Read up to the last newline within maxBytes (or the first one beyond it) and advance past it
+  private readLines(fd: number, size: number, maxBytes: number): string | null {
+    let length = Math.min(maxBytes, size - this.position.offset)
+    while (length > 0) {
+      const buffer = Buffer.alloc(length)
+      const bytesRead = readSync(fd, buffer, 0, length, this.position.offset)
+      const end = buffer.subarray(0, bytesRead).lastIndexOf(NEWLINE)
+      if (end !== -1) {
+        this.position = { ...this.position, offset: this.position.offset + end + 1 }
+        return buffer.toString("utf8", 0, end + 1)
+      }
+
+      // No newline yet: stop at the end of the file, otherwise widen the read for an overlong line
+      if (this.position.offset + bytesRead >= size || bytesRead < length) return null
+      length = Math.min(length * 2, size - this.position.offset)
+    }
+    return null
+  }
+}
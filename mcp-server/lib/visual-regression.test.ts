@@ -0,0 +1,72 @@
+import { mkdtempSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { PNG } from "pngjs"
+import { describe, expect, it } from "vitest"
+import { compareScreenshots, getScreenshotName, loadVisualRegressionConfig } from "./visual-regression"
+
+function solidPng(width: number, height: number, paint?: (x: number, y: number) => boolean): Buffer {
+  const image = new PNG({ width, height })
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = (y * width + x) * 4
+      const value = paint?.(x, y) ? 0 : 255
+      image.data[index] = value
+      image.data[index + 1] = value
+      image.data[index + 2] = value
+      image.data[index + 3] = 255
+    }
+  }
+  return PNG.sync.write(image)
+}
+
+describe("getScreenshotName", () => {
+  it("should turn routes into file names per viewport", () => {
+    const desktop = { name: "desktop", width: 1440, height: 900 }
+    const mobile = { name: "mobile", width: 390, height: 844 }
+    expect(getScreenshotName("/", desktop)).toBe("index@desktop.png")
+    expect(getScreenshotName("/blog/hello-world/", mobile)).toBe("blog_hello-world@mobile.png")
+    expect(getScreenshotName("/search?q=a b", desktop)).toBe("search_q_a_b@desktop.png")
+  })
+})
+
+describe("compareScreenshots", () => {
+  it("should report identical screenshots as unchanged", () => {
+    const result = compareScreenshots(solidPng(20, 10), solidPng(20, 10))
+    expect(result.changedPixels).toBe(0)
+    expect(result.changedPercent).toBe(0)
+  })
+
+  it("should count the changed pixels and draw them in the diff", () => {
+    const result = compareScreenshots(
+      solidPng(20, 10),
+      solidPng(20, 10, (x) => x < 5)
+    )
+    expect(result.changedPixels).toBe(50)
+    expect(result.changedPercent).toBe(25)
+
+    const diff = PNG.sync.read(result.diff)
+    expect([...diff.data.subarray(0, 3)]).toEqual([255, 0, 0])
+  })
+
+  it("should count the area only one screenshot covers as changed", () => {
+    const result = compareScreenshots(solidPng(20, 10), solidPng(20, 20))
+    expect(result.totalPixels).toBe(400)
+    expect(result.changedPercent).toBe(50)
+  })
+})
+
+describe("loadVisualRegressionConfig", () => {
+  it("should validate routes and devices", () => {
+    const dir = mkdtempSync(join(tmpdir(), "d3k-visual-"))
+    const configPath = join(dir, "visual-regression.json")
+
+    expect(loadVisualRegressionConfig(configPath)).toBeNull()
+
+    writeFileSync(configPath, JSON.stringify({ routes: ["/", "/pricing"] }))
+    expect(loadVisualRegressionConfig(configPath)).toEqual({ routes: ["/", "/pricing"] })
+
+    writeFileSync(configPath, JSON.stringify({ devices: [{ name: "tablet", width: 820, height: 1180 }] }))
+    expect(() => loadVisualRegressionConfig(configPath)).toThrow(/devices/)
+  })
+})
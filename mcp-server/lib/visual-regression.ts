@@ -0,0 +1,130 @@
+import { existsSync, readFileSync } from "fs"
+import { homedir } from "os"
+import { join } from "path"
+import pixelmatch from "pixelmatch"
+import { PNG } from "pngjs"
+
+/**
+ * Visual regression baselines
+ *
+ * Screenshots of a set of routes are stored per project and device profile in
+ * ~/.d3k/visual-regression/<project>/baseline. Later runs write the current
+ * screenshots and pixelmatch diffs to .../latest, with a report.json that the
+ * /visual-regression page renders.
+ */
+
+// The device profile a screenshot was taken with, as the report shows it
+export interface Viewport {
+  name: string
+  width: number
+  height: number
+}
+
+export interface VisualRegressionConfig {
+  routes?: string[]
+  devices?: string[] // Device profile names, the built-in ones and those of .d3k/devices.json
+}
+
+export type VisualRegressionStatus = "baseline-created" | "unchanged" | "changed" | "error"
+
+export interface VisualRegressionResult {
+  route: string
+  viewport: Viewport
+  status: VisualRegressionStatus
+  changedPercent?: number
+  baseline?: string // File names, relative to the project's visual regression directory
+  current?: string
+  diff?: string
+  error?: string
+}
+
+export interface VisualRegressionReport {
+  projectName: string
+  baseUrl: string
+  runAt: string
+  results: VisualRegressionResult[]
+}
+
+export interface ScreenshotComparison {
+  diff: Buffer // PNG
+  changedPixels: number
+  totalPixels: number
+  changedPercent: number
+}
+
+export const DEFAULT_DEVICES = ["desktop", "mobile"]
+
+// Routes above this share of changed pixels are reported as changed - anti-aliasing noise stays below it
+export const CHANGED_PERCENT_THRESHOLD = 0.1
+
+/**
+ * Get the directory holding the baselines and the latest run of a project
+ */
+export function getVisualRegressionDir(projectName: string): string {
+  return join(homedir(), ".d3k", "visual-regression", projectName)
+}
+
+/**
+ * Get the path of the optional route/device list of a project
+ */
+export function getVisualRegressionConfigPath(projectDir: string): string {
+  return join(projectDir, ".d3k", "visual-regression.json")
+}
+
+/**
+ * Load the route/device list of a project, or null if it has none
+ * @throws If the file exists but is invalid
+ */
+export function loadVisualRegressionConfig(configPath: string): VisualRegressionConfig | null {
+  if (!existsSync(configPath)) return null
+
+  const config = JSON.parse(readFileSync(configPath, "utf-8")) as VisualRegressionConfig
+  if (config.routes && !(Array.isArray(config.routes) && config.routes.every((route) => typeof route === "string"))) {
+    throw new Error('"routes" must be a list of paths')
+  }
+  if (config.devices && !(Array.isArray(config.devices) && config.devices.every((name) => typeof name === "string"))) {
+    throw new Error('"devices" must be a list of device profile names')
+  }
+  return config
+}
+
+function slugify(value: string): string {
+  return value.replace(/[^a-zA-Z0-9-]+/g, "_").replace(/^_+|_+$/g, "")
+}
+
+/**
+ * Turn a route into a file name: "/" -> "index@desktop.png", "/blog/hello-world" -> "blog_hello-world@desktop.png"
+ */
+export function getScreenshotName(route: string, viewport: Viewport): string {
+  return `${slugify(route) || "index"}@${slugify(viewport.name)}.png`
+}
+
+/**
+ * Diff two PNG screenshots
+ * Images of different sizes are compared on the larger canvas, so the area only one of them covers counts as changed.
+ * @param threshold pixelmatch color threshold (0..1) - higher ignores more anti-aliasing and color noise
+ */
+export function compareScreenshots(baseline: Buffer, current: Buffer, threshold = 0.1): ScreenshotComparison {
+  const before = PNG.sync.read(baseline)
+  const after = PNG.sync.read(current)
+  const width = Math.max(before.width, after.width)
+  const height = Math.max(before.height, after.height)
+
+  const resize = (image: PNG): PNG => {
+    if (image.width === width && image.height === height) return image
+    const canvas = new PNG({ width, height })
+    PNG.bitblt(image, canvas, 0, 0, image.width, image.height, 0, 0)
+    return canvas
+  }
+
+  const diff = new PNG({ width, height })
+  const changedPixels = pixelmatch(resize(before).data, resize(after).data, diff.data, width, height, { threshold })
+  const totalPixels = width * height
+
+  return {
+    diff: PNG.sync.write(diff),
+    changedPixels,
+    totalPixels,
+    changedPercent: (changedPixels / totalPixels) * 100
+  }
+}
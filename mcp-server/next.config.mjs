@@ -16,6 +16,10 @@ const nextConfig = {
   turbopack: {
     root: path.join(__dirname, "..")
   },
+  // The H.264 encoder is an Emscripten build with inlined WASM - load it from node_modules as is.
+  // axe-core injects its own source (axe.source) into pages, which must not be rebundled.
+  // react-scan's browser build is read from its package directory by /api/react-scan.
+  serverExternalPackages: ["h264-mp4-encoder", "axe-core", "react-scan"],
   // Disable image optimization to avoid sharp dependency issues
   images: {
     unoptimized: true
@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { API_TOKEN_COOKIE, checkApiAccess, getApiAccessConfig } from "@/lib/api-access"
+
+export function proxy(request: NextRequest) {
+  const accessConfig = getApiAccessConfig()
+  const decision = checkApiAccess(
+    {
+      method: request.method,
+      pathname: request.nextUrl.pathname,
+      host: request.headers.get("host"),
+      origin: request.headers.get("origin"),
+      secFetchSite: request.headers.get("sec-fetch-site"),
+      authorization: request.headers.get("authorization"),
+      tokenCookie: request.cookies.get(API_TOKEN_COOKIE)?.value ?? null,
+      tokenParam: request.nextUrl.searchParams.get("token")
+    },
+    accessConfig
+  )
+
+  if (!decision.allowed) {
+    return NextResponse.json({ error: decision.error }, { status: decision.status })
+  }
+
+  const corsHeaders: Record<string, string> = decision.corsOrigin
+    ? {
+        "Access-Control-Allow-Origin": decision.corsOrigin,
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, Authorization, Last-Event-ID",
+        Vary: "Origin"
+      }
+    : {}
+
+  if (request.method === "OPTIONS") {
+    return new NextResponse(null, { status: 204, headers: corsHeaders })
+  }
+
+  const response = NextResponse.next()
+  for (const [name, value] of Object.entries(corsHeaders)) {
+    response.headers.set(name, value)
+  }
+  // The page and its API requests authenticate with this cookie from now on, see lib/api-access.ts
+  if (decision.setTokenCookie && accessConfig.token) {
+    response.cookies.set(API_TOKEN_COOKIE, accessConfig.token, { httpOnly: true, sameSite: "strict", path: "/" })
+  }
+  return response
+}
+
+export const config = {
+  matcher: ["/", "/logs", "/video/:path*", "/visual-regression", "/api/:path*", "/mcp"]
+}
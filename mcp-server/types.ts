@@ -1,19 +1,48 @@
 // Shared types for the MCP server and client components
 
-export interface LogEntry {
-  timestamp: string
-  source: string
-  message: string
-  screenshot?: string
-  screencast?: string
-  original: string
-  tabIdentifier?: string
-  userAgent?: string
+import type { LogEvent, LogEventFields } from "@dev3000/src/utils/log-events"
+import type { LayoutShift } from "@dev3000/src/utils/performance-observers"
+import type { ReplayEvent, ReplayProgress, ReplayResult } from "@dev3000/src/utils/replay"
+import type { RawWebVitals } from "@dev3000/src/utils/web-vitals"
+
+export type { LogEntry } from "@dev3000/src/utils/log-entries"
+
+/**
+ * A browser request reconstructed from the [NETWORK] lines of the log
+ */
+export interface NetworkRequest {
+  id: string
+  timestamp: string // When the request was sent (or answered, when the request line is missing)
+  method?: string
+  url: string
+  status?: number // Undefined while no response was logged
+  statusText?: string
+  resourceType?: string // CDP resource type (Fetch, XHR, Document, ...)
+  mimeType?: string
+  durationMs?: number // Time until the response headers arrived
+  sizeBytes?: number
+  entryIndex: number // Index of the response (or request) line in the parsed log entries
+}
+
+/**
+ * A layout shift found by /api/jank/[session], in screenshot pixels
+ */
+export interface ClsMarker {
+  timestamp: number // ms since the capture started
+  boundingBox: { x: number; y: number; width: number; height: number } | null
+  clsScore?: number
+  element?: string
 }
 
 export interface LogsApiResponse {
   logs: string
   total: number
+  lastModified: string // Dates the local timestamps of the lines
+}
+
+export interface LogEventsApiResponse {
+  events: LogEvent[]
+  total: number // Matches before the limit was applied
 }
 
 export interface LogsApiError {
@@ -30,7 +59,7 @@ export interface StreamLogData {
 }
 
 export interface LogFile {
-  name: string
+  name: string // Also the log's ID in the logId parameter of /api/logs requests
   path: string
   timestamp: string
   size: number
@@ -47,3 +76,63 @@ export interface LogListResponse {
 export interface LogListError {
   error: string
 }
+
+export interface LogAppendRequest {
+  message?: string // Browser message, written with d3k's timestamp and [BROWSER] tag
+  fields?: LogEventFields // Event fields of the message
+  tabIdentifier?: string // Chrome extension tab the message comes from, e.g. "1.0"
+  entry?: string // Complete line, as sent by older versions of the Chrome extension
+  source?: string
+}
+
+export interface PerformanceLogRequest {
+  layoutShifts?: LayoutShift[] // Shifts not reported yet
+  webVitals?: RawWebVitals
+  includeLoadMetrics?: boolean // False when reporting a page being left, for its final INP
+  tabIdentifier?: string
+}
+
+export interface PerformanceLogResponse {
+  lines: string[] // The lines written, for the extension's own log buffer
+}
+
+export interface ScreenshotUploadRequest {
+  event: string // What triggered the screenshot, e.g. "network-idle", part of its filename
+  data: string // Base64 PNG
+  tabIdentifier?: string
+}
+
+export interface ScreenshotUploadResponse {
+  filename: string
+}
+
+export interface PageScriptsApiResponse {
+  interactionTracker: string
+  takeInteractions: string // Expression returning and clearing the buffered interactions
+  performanceObservers: string
+}
+
+export interface SessionApiResponse {
+  projectName: string
+  appPort: number | null // Port of the monitored app, which the Chrome extension routes tabs by
+  mcpPort: number
+  version: string | null
+}
+
+export interface ReplayParseResponse {
+  events: ReplayEvent[]
+  interactionCount: number
+  durationMs: number
+}
+
+export interface ReplayExecuteRequest {
+  action: "execute"
+  events?: ReplayEvent[] // Defaults to every replayable event in the current log
+  speed?: number
+}
+
+export type ReplayStreamMessage =
+  | { type: "start"; total: number }
+  | ({ type: "progress" } & ReplayProgress)
+  | ({ type: "complete"; success: boolean } & ReplayResult)
+  | { type: "error"; error: string }
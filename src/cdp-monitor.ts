@@ -4,7 +4,23 @@ import { tmpdir } from "os"
 import { dirname, join } from "path"
 import { fileURLToPath } from "url"
 import { WebSocket } from "ws"
+import { NetworkCapture } from "./network-capture.js"
+import type { StackFrame } from "./services/parsers/stack-trace.js"
+import {
+  applyDeviceProfile,
+  type DeviceProfile,
+  describeViewport,
+  loadDeviceProfiles,
+  MEASURE_VIEWPORT_EXPRESSION,
+  type MeasuredViewport,
+  resolveDeviceProfiles
+} from "./utils/device-profiles.js"
+import { buildInteractionTrackingScript, TAKE_INTERACTIONS_EXPRESSION } from "./utils/interaction-tracker.js"
+import type { LogEventFields, LogEventLevel } from "./utils/log-events.js"
 import { LogLevel, type Logger as StructuredLogger } from "./utils/logger.js"
+import { formatRenderLog, type RenderGroup, SLOW_RENDER_MS } from "./utils/react-renders.js"
+import { describeReplayEvent, executeReplayEvent, type ReplayEvent } from "./utils/replay.js"
+import { SourceMapResolver } from "./utils/source-map.js"
 
 export interface CDPEvent {
   method: string
@@ -13,6 +29,19 @@ export interface CDPEvent {
   sessionId?: string
 }
 
+// Location of an exception or one of its stack frames (0-based, as reported by CDP)
+interface ExceptionCallFrame {
+  functionName?: string
+  url: string
+  lineNumber: number
+  columnNumber: number
+}
+
+// Frames logged per exception - enough to reach app code past framework internals
+const MAX_EXCEPTION_FRAMES = 10
+// How long an exception waits for its source maps before it's logged with the bundled frames
+const SOURCE_MAP_WAIT_MS = 1000
+
 export interface CDPConnection {
   ws: WebSocket
   sessionId: string | null
@@ -26,7 +55,7 @@ export class CDPMonitor {
   private eventHandlers = new Map<string, (event: CDPEvent) => void>()
   private profileDir: string
   private screenshotDir: string
-  private fileLogger: (source: string, message: string) => void // File logging callback
+  private fileLogger: (source: string, message: string, fields?: LogEventFields) => void // File logging callback
   private logger: StructuredLogger // Structured console logger
   private browserPath?: string
   private isShuttingDown = false
@@ -40,16 +69,24 @@ export class CDPMonitor {
   private onWindowClosedCallback: (() => void) | null = null // Callback for when window is manually closed
   private appServerPort?: string // Port of the user's app server to monitor
   private mcpServerPort?: string // Port of dev3000's MCP server to ignore
+  private sourceMaps = new SourceMapResolver() // Maps bundled exception frames back to original files
+  private networkCapturePath?: string // Network sidecar for full request/response capture (opt-in)
+  private networkCapture: NetworkCapture | null = null
+  private deviceProfiles: DeviceProfile[] // Built-in profiles plus the project's .d3k/devices.json
+  private device?: string // Profile emulated in the monitored page, if any
 
   constructor(
     profileDir: string,
     screenshotDir: string,
-    fileLogger: (source: string, message: string) => void,
+    fileLogger: (source: string, message: string, fields?: LogEventFields) => void,
     structuredLogger: StructuredLogger,
     browserPath?: string,
     pluginReactScan: boolean = false,
     appServerPort?: string,
-    mcpServerPort?: string
+    mcpServerPort?: string,
+    networkCapturePath?: string,
+    devicesPath?: string,
+    device?: string
   ) {
     this.profileDir = profileDir
     this.screenshotDir = screenshotDir
@@ -59,6 +96,9 @@ export class CDPMonitor {
     this.logger = structuredLogger.child("cdp")
     this.browserPath = browserPath
     this.pluginReactScan = pluginReactScan
+    this.networkCapturePath = networkCapturePath
+    this.deviceProfiles = loadDeviceProfiles(devicesPath)
+    this.device = device
   }
 
   private debugLog(message: string) {
@@ -988,6 +1028,37 @@ export class CDPMonitor {
     await this.sendCDPCommand("Runtime.setAsyncCallStackDepth", {
       maxDepth: 32
     })
+
+    // The Debugger domain reports the source map of every parsed script. Never let
+    // it pause the page - d3k only watches.
+    try {
+      await this.sendCDPCommand("Debugger.enable")
+      await this.sendCDPCommand("Debugger.setSkipAllPauses", { skip: true })
+    } catch (error) {
+      this.debugLog(`Failed to enable Debugger domain, exception frames will use bundled locations: ${error}`)
+    }
+
+    if (this.networkCapturePath && !this.networkCapture) {
+      this.networkCapture = new NetworkCapture(
+        this.networkCapturePath,
+        (method, params) => this.sendCDPCommand(method, params),
+        (message) => this.debugLog(message)
+      )
+      this.fileLogger("browser", "[CDP] Capturing full network exchanges for HAR export")
+    }
+
+    if (this.device) {
+      const [profile] = resolveDeviceProfiles(this.deviceProfiles, [this.device])
+      try {
+        await applyDeviceProfile((method, params) => this.sendCDPCommand(method, params), profile)
+        this.fileLogger(
+          "browser",
+          `[CDP] Emulating ${profile.name} (${profile.width}x${profile.height}@${profile.deviceScaleFactor}x${profile.hasTouch ? ", touch" : ""})`
+        )
+      } catch (error) {
+        this.fileLogger("browser", `[CDP] Failed to emulate ${profile.name}: ${error}`)
+      }
+    }
     this.debugLog("CDP domains enabled successfully")
   }
 
@@ -1059,6 +1130,16 @@ export class CDPMonitor {
                 ? "DEBUG"
                 : "LOG"
       let logMsg = `[${typeTag}] ${values}`
+      const level: LogEventLevel =
+        type === "error" || type === "assert"
+          ? "error"
+          : type === "warn"
+            ? "warn"
+            : type === "info"
+              ? "info"
+              : type === "debug"
+                ? "debug"
+                : "log"
 
       // Add stack trace for errors
       if (stackTrace && (type === "error" || type === "assert")) {
@@ -1071,7 +1152,16 @@ export class CDPMonitor {
           .join(" -> ")}`
       }
 
-      this.fileLogger("browser", logMsg)
+      this.fileLogger("browser", logMsg, { kind: "console", level })
+    })
+
+    // Source maps of parsed scripts, for resolving exception frames - a script parsed
+    // again drops the map cached for it
+    this.onCDPEvent("Debugger.scriptParsed", (event) => {
+      const { url, sourceMapURL } = event.params as { url?: string; sourceMapURL?: string }
+      if (url) {
+        this.sourceMaps.registerScript(url, sourceMapURL)
+      }
     })
 
     // Runtime exceptions with full stack traces
@@ -1083,31 +1173,21 @@ export class CDPMonitor {
           lineNumber: number
           columnNumber: number
           url?: string
+          exception?: { description?: string }
           stackTrace?: {
-            callFrames: Array<{
-              functionName?: string
-              url: string
-              lineNumber: number
-            }>
+            callFrames: ExceptionCallFrame[]
           }
         }
       }
-      const { text, lineNumber, columnNumber, url, stackTrace } = params.exceptionDetails
+      const { text, lineNumber, columnNumber, url, exception, stackTrace } = params.exceptionDetails
 
-      let errorMsg = `[ERROR] ${text}`
-      if (url) errorMsg += ` at ${url}:${lineNumber}:${columnNumber}`
-
-      if (stackTrace) {
-        errorMsg += `\n[STACK] ${stackTrace.callFrames
-          .slice(0, 5)
-          .map(
-            (frame: { functionName?: string; url: string; lineNumber: number }) =>
-              `${frame.functionName || "anonymous"}@${frame.url}:${frame.lineNumber}`
-          )
-          .join(" -> ")}`
-      }
+      // Uncaught errors carry the message in the exception, text is just "Uncaught"
+      const description = exception?.description?.split("\n")[0]
+      const message = description && !text.includes(description) ? `${text} ${description}` : text
 
-      this.fileLogger("browser", errorMsg)
+      this.logException(message, { url: url || "", lineNumber, columnNumber }, stackTrace?.callFrames || []).catch(
+        (error) => this.debugLog(`Failed to log exception: ${error}`)
+      )
 
       // Take screenshot immediately on errors (no delay needed)
       this.takeScreenshot("error")
@@ -1132,50 +1212,8 @@ export class CDPMonitor {
 
       // Only log if it's an error/warning or if we're not already capturing it via Runtime
       if (level === "error" || level === "warning") {
-        this.fileLogger("browser", logMsg)
-      }
-    })
-
-    // Network requests with full details
-    this.onCDPEvent("Network.requestWillBeSent", (event) => {
-      const params = event.params as {
-        request: {
-          url: string
-          method: string
-          headers?: Record<string, string>
-          postData?: string
-        }
-        type?: string
-        initiator?: { type: string }
-      }
-      const { url, method, headers, postData } = params.request
-      const { type, initiator } = params
-
-      // Skip requests to dev3000's MCP server
-      if (!this.shouldMonitorUrl(url)) {
-        return
+        this.fileLogger("browser", logMsg, { kind: "console", level: level === "error" ? "error" : "warn", url })
       }
-
-      let logMsg = `[NETWORK] ${method} ${url}`
-      if (type) logMsg += ` (${type})`
-      if (initiator?.type) logMsg += ` initiated by ${initiator.type}`
-
-      // Log important headers
-      const importantHeaders = ["content-type", "authorization", "cookie"]
-      const headerInfo = importantHeaders
-        .filter((h) => headers?.[h])
-        .map((h) => {
-          const maxLength = h === "authorization" ? 10 : 50
-          return `${h}: ${headers?.[h]?.slice(0, maxLength) || ""}${
-            (headers?.[h]?.length || 0) > maxLength ? "..." : ""
-          }`
-        })
-        .join(", ")
-
-      if (headerInfo) logMsg += ` [${headerInfo}]`
-      if (postData) logMsg += ` body: ${postData.slice(0, 100)}${postData.length > 100 ? "..." : ""}`
-
-      this.fileLogger("browser", logMsg)
     })
 
     // Network responses with full details
@@ -1186,30 +1224,45 @@ export class CDPMonitor {
           status: number
           statusText: string
           mimeType?: string
+          headers?: Record<string, string>
           timing?: { receiveHeadersEnd: number; requestTime: number }
         }
+        requestId?: string
         type?: string
       }
-      const { url, status, statusText, mimeType } = params.response
-      const { type } = params
+      const { url, status, statusText, mimeType, headers } = params.response
+      const { requestId, type } = params
 
       // Skip responses from dev3000's MCP server
       if (!this.shouldMonitorUrl(url)) {
         return
       }
 
+      this.networkCapture?.onResponseReceived(event.params)
+
       let logMsg = `[NETWORK] ${status} ${statusText} ${url}`
       if (type) logMsg += ` (${type})`
       if (mimeType) logMsg += ` [${mimeType}]`
 
-      // Add timing info if available
+      // Add timing info if available - receiveHeadersEnd is in ms relative to requestTime
       const timing = params.response.timing
       if (timing) {
-        const totalTime = Math.round(timing.receiveHeadersEnd - timing.requestTime)
+        const totalTime = Math.round(timing.receiveHeadersEnd)
         if (totalTime > 0) logMsg += ` (${totalTime}ms)`
       }
 
-      this.fileLogger("browser", logMsg)
+      // Response size, when the server announces it
+      const contentLength = Number(headers?.["content-length"] ?? headers?.["Content-Length"])
+      if (contentLength >= 0 && Number.isFinite(contentLength)) logMsg += ` (${contentLength} bytes)`
+      if (requestId) logMsg += ` (id ${requestId})`
+
+      this.fileLogger("browser", logMsg, {
+        kind: "network",
+        level: status >= 400 ? "error" : undefined,
+        url,
+        status,
+        requestId
+      })
     })
 
     // Page navigation with full context
@@ -1220,6 +1273,9 @@ export class CDPMonitor {
       const { frame } = params
       if (frame?.parentId) return // Only log main frame navigation
 
+      // The new page parses its scripts again, the maps cached for the old one may be stale
+      this.sourceMaps.clear()
+
       const url = frame?.url || "unknown"
 
       // Skip navigation to dev3000's MCP server
@@ -1227,7 +1283,7 @@ export class CDPMonitor {
         return
       }
 
-      this.fileLogger("browser", `[NAVIGATION] ${url}`)
+      this.fileLogger("browser", `[NAVIGATION] ${url}`, { kind: "navigation", url })
 
       // Don't take a screenshot here - wait for page load
     })
@@ -1248,22 +1304,36 @@ export class CDPMonitor {
     })
 
     // Network activity tracking for better screenshot timing
-    this.onCDPEvent("Network.requestWillBeSent", (_event) => {
+    this.onCDPEvent("Network.requestWillBeSent", (event) => {
       this.pendingRequests++
       if (this.networkIdleTimer) {
         clearTimeout(this.networkIdleTimer)
         this.networkIdleTimer = null
       }
+
+      // Skip requests to dev3000's MCP server
+      const url = (event.params as { request?: { url?: string } }).request?.url
+      if (!url || !this.shouldMonitorUrl(url)) {
+        return
+      }
+
+      this.logNetworkRequest(event)
+      this.networkCapture?.onRequestWillBeSent(event.params)
     })
 
-    this.onCDPEvent("Network.loadingFinished", (_event) => {
+    this.onCDPEvent("Network.loadingFinished", (event) => {
       this.pendingRequests--
       this.scheduleNetworkIdleScreenshot()
+      // Only requests captured in requestWillBeSent are tracked, so no URL filtering here
+      this.networkCapture?.onLoadingFinished(event.params).catch((error) => {
+        this.debugLog(`Network capture failed: ${error}`)
+      })
     })
 
-    this.onCDPEvent("Network.loadingFailed", (_event) => {
+    this.onCDPEvent("Network.loadingFailed", (event) => {
       this.pendingRequests--
       this.scheduleNetworkIdleScreenshot()
+      this.networkCapture?.onLoadingFailed(event.params)
     })
 
     // DOM mutations for interaction context
@@ -1276,20 +1346,8 @@ export class CDPMonitor {
     // We need to rely on JavaScript injection for user input capture since CDP doesn't have
     // direct "user input monitoring" events - it's designed for automation, not monitoring
 
-    // Performance metrics - disabled to reduce log noise
-    // this.onCDPEvent('Performance.metrics', (event) => {
-    //   const metrics = event.params.metrics;
-    //   const importantMetrics = metrics.filter((m: any) =>
-    //     ['JSHeapUsedSize', 'JSHeapTotalSize', 'Nodes', 'Documents'].includes(m.name)
-    //   );
-    //
-    //   if (importantMetrics.length > 0) {
-    //     const metricsStr = importantMetrics
-    //       .map((m: any) => `${m.name}:${Math.round(m.value)}`)
-    //       .join(' ');
-    //     this.logger('browser', `[PERFORMANCE] ${metricsStr}`);
-    //   }
-    // });
+    // Performance: web vitals (LCP, INP, FCP, TTFB, long tasks) are measured per navigation by
+    // ScreencastManager's PerformanceObservers and logged as [PERF] lines
 
     // Target events - handle window/tab destruction
     this.onCDPEvent("Target.targetDestroyed", (event) => {
@@ -1306,6 +1364,101 @@ export class CDPMonitor {
     })
   }
 
+  /**
+   * Log an exception with its frames resolved through the dev server's source maps
+   * Resolved frames keep the bundled location, e.g.
+   *     at Page (app/page.tsx:42:7) [http://localhost:3000/_next/static/chunks/app/page.js:1:4033]
+   * Maps the dev server is slow to serve are given up on after SOURCE_MAP_WAIT_MS, and the
+   * exception is logged with the bundled frames. The frames also go to the event sidecar.
+   */
+  private async logException(message: string, location: ExceptionCallFrame, callFrames: ExceptionCallFrame[]) {
+    const frames = callFrames.slice(0, MAX_EXCEPTION_FRAMES)
+    // CDP positions are 0-based, editors and stack traces are 1-based
+    const bundled = (frame: ExceptionCallFrame) => `${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1}`
+
+    const toStackFrame = (frame: ExceptionCallFrame): StackFrame => ({
+      file: frame.url,
+      line: frame.lineNumber + 1,
+      column: frame.columnNumber + 1,
+      function: frame.functionName || undefined
+    })
+    const position = (frame: StackFrame) =>
+      `${frame.file}:${frame.line}:${frame.column}${frame.bundled ? ` [${frame.bundled}]` : ""}`
+
+    const allFrames = [location, ...frames]
+    const resolving = Promise.all(
+      allFrames.map(async (frame): Promise<StackFrame> => {
+        const original = frame.url
+          ? await this.sourceMaps.resolve(frame.url, frame.lineNumber, frame.columnNumber)
+          : null
+        return original
+          ? {
+              ...toStackFrame(frame),
+              file: original.source,
+              line: original.line,
+              column: original.column,
+              bundled: bundled(frame)
+            }
+          : toStackFrame(frame)
+      })
+    )
+    let timer: NodeJS.Timeout | undefined
+    const timedOut = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), SOURCE_MAP_WAIT_MS)
+    })
+    const [where, ...stack] = (await Promise.race([resolving, timedOut])) ?? allFrames.map(toStackFrame)
+    clearTimeout(timer)
+
+    let text = `[ERROR] ${message}`
+    if (location.url) text += ` at ${position(where)}`
+    for (const frame of stack) {
+      text += frame.function ? `\n    at ${frame.function} (${position(frame)})` : `\n    at ${position(frame)}`
+    }
+    this.fileLogger("browser", text, {
+      kind: "error",
+      level: "error",
+      url: location.url || undefined,
+      stack: stack.length > 0 ? stack : undefined
+    })
+  }
+
+  // Network requests with full details - called by the request tracking handler, as each CDP event has one handler
+  private logNetworkRequest(event: CDPEvent): void {
+    const params = event.params as {
+      request: {
+        url: string
+        method: string
+        headers?: Record<string, string>
+        postData?: string
+      }
+      requestId?: string
+      type?: string
+      initiator?: { type: string }
+    }
+    const { url, method, headers, postData } = params.request
+    const { requestId, type, initiator } = params
+
+    let logMsg = `[NETWORK] ${method} ${url}`
+    if (type) logMsg += ` (${type})`
+    if (initiator?.type) logMsg += ` initiated by ${initiator.type}`
+    if (requestId) logMsg += ` (id ${requestId})` // Pairs the request with its response in the logs viewer
+
+    // Log important headers
+    const importantHeaders = ["content-type", "authorization", "cookie"]
+    const headerInfo = importantHeaders
+      .filter((h) => headers?.[h])
+      .map((h) => {
+        const maxLength = h === "authorization" ? 10 : 50
+        return `${h}: ${headers?.[h]?.slice(0, maxLength) || ""}${(headers?.[h]?.length || 0) > maxLength ? "..." : ""}`
+      })
+      .join(", ")
+
+    if (headerInfo) logMsg += ` [${headerInfo}]`
+    if (postData) logMsg += ` body: ${postData.slice(0, 100)}${postData.length > 100 ? "..." : ""}`
+
+    this.fileLogger("browser", logMsg, { kind: "network", url, method, requestId })
+  }
+
   private onCDPEvent(method: string, handler: (event: CDPEvent) => void): void {
     this.eventHandlers.set(method, handler)
   }
@@ -1325,6 +1478,35 @@ export class CDPMonitor {
     }
   }
 
+  /**
+   * Take a screenshot on request, bypassing the throttling of automatic screenshots
+   * @returns The screenshot filename, or null when capturing failed
+   */
+  async captureScreenshot(): Promise<string | null> {
+    if (!this.connection) {
+      throw new Error("No CDP connection available")
+    }
+    return this.takeScreenshot("manual")
+  }
+
+  /**
+   * Open a URL in a new tab of the monitored browser, leaving the app tab in place
+   */
+  async openUrl(url: string): Promise<void> {
+    if (!this.connection) {
+      throw new Error("No CDP connection available")
+    }
+
+    const result = (await this.sendCDPCommand("Runtime.evaluate", {
+      expression: `!!window.open(${JSON.stringify(url)}, "_blank")`,
+      returnByValue: true,
+      userGesture: true
+    })) as { result?: { value?: boolean } }
+    if (!result.result?.value) {
+      throw new Error("The browser blocked the new tab")
+    }
+  }
+
   async navigateToApp(port: string): Promise<void> {
     if (!this.connection) {
       throw new Error("No CDP connection available")
@@ -1428,198 +1610,14 @@ export class CDPMonitor {
 
       this.debugLog("About to inject tracking script...")
       // Full interaction tracking script with element details for replay
-      const trackingScript = `
-        try {
-          if (!window.__dev3000_cdp_tracking) {
-            window.__dev3000_cdp_tracking = true;
-            
-            ${
-              this.pluginReactScan
-                ? `
-            // Inject react-scan for React performance monitoring
-            if (!window.__REACT_SCAN_INJECTED__) {
-              const script = document.createElement('script');
-              script.src = 'https://unpkg.com/react-scan@latest/dist/auto.global.js';
-              script.onload = () => {
-                console.debug('[DEV3000] react-scan loaded successfully');
-                window.__REACT_SCAN_INJECTED__ = true;
-                
-                // Optional: Configure react-scan
-                if (window.ReactScan && window.ReactScan.configure) {
-                  window.ReactScan.configure({
-                    // Add any configuration options here
-                    playSound: false,
-                    showToolbar: true
-                  });
-                }
-              };
-              script.onerror = (err) => {
-                console.debug('[DEV3000] Failed to load react-scan:', err);
-              };
-              document.head.appendChild(script);
-            }
-            `
-                : ""
+      const trackingScript = buildInteractionTrackingScript(
+        this.pluginReactScan
+          ? {
+              scriptUrl: `http://localhost:${this.mcpServerPort || "3684"}/api/react-scan`,
+              slowRenderMs: SLOW_RENDER_MS
             }
-            
-            // Helper function to generate CSS selector for element
-            function getElementSelector(el) {
-              if (!el || el === document) return 'document';
-              
-              // Try ID first (most reliable)
-              if (el.id) return '#' + el.id;
-              
-              // Build path with tag + classes
-              let selector = el.tagName.toLowerCase();
-              if (el.className && typeof el.className === 'string') {
-                let classes = el.className.trim().split(/\\\\s+/).filter(c => c.length > 0);
-                if (classes.length > 0) selector += '.' + classes.join('.');
-              }
-              
-              // Add nth-child if needed to make unique
-              if (el.parentNode) {
-                let siblings = Array.from(el.parentNode.children).filter(child => 
-                  child.tagName === el.tagName && 
-                  child.className === el.className
-                );
-                if (siblings.length > 1) {
-                  let index = siblings.indexOf(el) + 1;
-                  selector += ':nth-child(' + index + ')';
-                }
-              }
-              
-              return selector;
-            }
-            
-            // Helper to get element details for replay
-            function getElementDetails(el) {
-              let details = {
-                selector: getElementSelector(el),
-                tag: el.tagName.toLowerCase(),
-                text: el.textContent ? el.textContent.trim().substring(0, 50) : '',
-                id: el.id || '',
-                className: el.className || '',
-                name: el.name || '',
-                type: el.type || '',
-                value: el.value || ''
-              };
-              return JSON.stringify(details);
-            }
-            
-            // Scroll coalescing variables  
-            let scrollTimeout = null;
-            let lastScrollX = 0;
-            let lastScrollY = 0;
-            let scrollStartX = 0;
-            let scrollStartY = 0;
-            let scrollTarget = 'document';
-            
-            // Add click tracking with element details
-            document.addEventListener('click', function(e) {
-              let details = getElementDetails(e.target);
-              // Send interaction data via custom event instead of console.log to avoid user visibility
-              window.dispatchEvent(new CustomEvent('dev3000-interaction', {
-                detail: { type: 'CLICK', x: e.clientX, y: e.clientY, element: details }
-              }));
-            });
-            
-            // Add key tracking with element details
-            document.addEventListener('keydown', function(e) {
-              let details = getElementDetails(e.target);
-              // Send interaction data via custom event instead of console.log to avoid user visibility
-              window.dispatchEvent(new CustomEvent('dev3000-interaction', {
-                detail: { type: 'KEY', key: e.key, element: details }
-              }));
-            });
-            
-            // Add coalesced scroll tracking with capture to catch all scroll events
-            document.addEventListener('scroll', function(e) {
-              let target = e.target === document ? 'document' : getElementSelector(e.target);
-              let currentScrollX, currentScrollY;
-              
-              // Get scroll position from the actual scrolling element
-              if (e.target === document) {
-                currentScrollX = window.scrollX;
-                currentScrollY = window.scrollY;
-              } else {
-                currentScrollX = e.target.scrollLeft;
-                currentScrollY = e.target.scrollTop;
-              }
-              
-              // If this is the first scroll event or different target, reset
-              if (scrollTimeout === null || scrollTarget !== target) {
-                scrollStartX = currentScrollX;
-                scrollStartY = currentScrollY;
-                scrollTarget = target;
-              } else {
-                clearTimeout(scrollTimeout);
-              }
-              
-              // Update current position
-              lastScrollX = currentScrollX;
-              lastScrollY = currentScrollY;
-              
-              // Set timeout to log scroll after 300ms of no scrolling (scroll settled)
-              scrollTimeout = setTimeout(function() {
-                // Only log if there was actual movement (threshold of 5 pixels)
-                let deltaX = Math.abs(lastScrollX - scrollStartX);
-                let deltaY = Math.abs(lastScrollY - scrollStartY);
-                
-                if (deltaX > 5 || deltaY > 5) {
-                  // Send interaction data via custom event instead of console.log to avoid user visibility
-                  window.dispatchEvent(new CustomEvent('dev3000-interaction', {
-                    detail: { type: 'SCROLL', from: { x: scrollStartX, y: scrollStartY }, to: { x: lastScrollX, y: lastScrollY }, target: target }
-                  }));
-                  window.dispatchEvent(new CustomEvent('dev3000-interaction', {
-                    detail: { type: 'SCROLL_SETTLED', x: lastScrollX, y: lastScrollY }
-                  }));
-                }
-                scrollTimeout = null;
-              }, 300);
-            }, true); // Use capture: true to catch scroll events on all elements
-            
-            // Listen for our custom interaction events and store them for CDP polling
-            window.__dev3000_interactions = [];
-            
-            window.addEventListener('dev3000-interaction', function(e) {
-              const detail = e.detail;
-              let message = '';
-              
-              switch(detail.type) {
-                case 'CLICK':
-                  message = 'CLICK at ' + detail.x + ',' + detail.y + ' on ' + detail.element;
-                  break;
-                case 'KEY':
-                  message = 'KEY ' + detail.key + ' in ' + detail.element;
-                  break;
-                case 'SCROLL':
-                  message = 'SCROLL from ' + detail.from.x + ',' + detail.from.y + ' to ' + detail.to.x + ',' + detail.to.y + ' in ' + detail.target;
-                  break;
-                case 'SCROLL_SETTLED':
-                  message = 'SCROLL_SETTLED at ' + detail.x + ',' + detail.y;
-                  break;
-              }
-              
-              if (message) {
-                // Store interaction in array for CDP to poll, don't log to console
-                window.__dev3000_interactions.push({
-                  timestamp: Date.now(),
-                  message: message
-                });
-                
-                // Keep only last 100 interactions to avoid memory issues
-                if (window.__dev3000_interactions.length > 100) {
-                  window.__dev3000_interactions = window.__dev3000_interactions.slice(-100);
-                }
-              }
-            });
-            
-            console.debug('CDP tracking initialized');
-          }
-        } catch (err) {
-          console.debug('[DEV3000_INTERACTION] ERROR: ' + err.message);
-        }
-      `
+          : undefined
+      )
 
       this.debugLog("About to inject tracking script...")
 
@@ -1667,16 +1665,7 @@ export class CDPMonitor {
 
       try {
         const result = (await this.sendCDPCommand("Runtime.evaluate", {
-          expression: `
-            (() => {
-              if (window.__dev3000_interactions && window.__dev3000_interactions.length > 0) {
-                const interactions = [...window.__dev3000_interactions];
-                window.__dev3000_interactions = []; // Clear the array
-                return interactions;
-              }
-              return [];
-            })()
-          `,
+          expression: TAKE_INTERACTIONS_EXPRESSION,
           returnByValue: true
         })) as {
           result?: { value?: Array<{ timestamp: number; message: string }> }
@@ -1692,6 +1681,10 @@ export class CDPMonitor {
             this.takeScreenshot("scroll-settled")
           }
         }
+
+        if (this.pluginReactScan) {
+          await this.pollReactRenders()
+        }
       } catch (error) {
         this.debugLog(`Failed to poll interactions: ${error}`)
       }
@@ -1708,6 +1701,28 @@ export class CDPMonitor {
     }, 1000)
   }
 
+  private async pollReactRenders(): Promise<void> {
+    // Take the render groups react-scan reported, except one still receiving renders
+    const result = (await this.sendCDPCommand("Runtime.evaluate", {
+      expression: `
+        (() => {
+          const buffer = window.__dev3000_react_renders || [];
+          const now = Date.now();
+          const settled = buffer.filter((group, i) => i < buffer.length - 1 || now - group.lastRender > 1000);
+          window.__dev3000_react_renders = buffer.filter((group) => !settled.includes(group));
+          return settled;
+        })()
+      `,
+      returnByValue: true
+    })) as { result?: { value?: RenderGroup[] } }
+
+    for (const group of result.result?.value || []) {
+      for (const line of formatRenderLog(group)) {
+        this.fileLogger("browser", line)
+      }
+    }
+  }
+
   private scheduleNetworkIdleScreenshot(): void {
     // Only schedule if we have 0 pending requests
     if (this.pendingRequests === 0) {
@@ -1730,7 +1745,7 @@ export class CDPMonitor {
       const timeSinceLastScreenshot = now - this.lastScreenshotTime
 
       // Special cases that should always take screenshots
-      const priorityEvents = ["error", "crash"]
+      const priorityEvents = ["error", "crash", "manual"]
 
       // If not a priority event and we took a screenshot recently, skip it
       if (!priorityEvents.includes(event) && timeSinceLastScreenshot < this.minScreenshotInterval) {
@@ -1756,8 +1771,13 @@ export class CDPMonitor {
       const buffer = Buffer.from(resultWithData.data, "base64")
       writeFileSync(screenshotPath, buffer)
 
-      // Log screenshot filename (UI will construct the full URL)
-      this.fileLogger("browser", `[SCREENSHOT] ${filename}`)
+      // Log screenshot filename (UI will construct the full URL) and the device it was taken for
+      const device = await this.getCurrentDevice()
+      this.fileLogger("browser", `[SCREENSHOT] ${filename}${device ? ` (device: ${device})` : ""}`, {
+        kind: "screenshot",
+        url: `/api/screenshots/${filename}`,
+        device
+      })
 
       return filename
     } catch (error) {
@@ -1766,66 +1786,51 @@ export class CDPMonitor {
     }
   }
 
-  // Enhanced replay functionality using CDP
-  async executeInteraction(interaction: {
-    type: string
-    coordinates?: { x: number; y: number }
-    key?: string
-    code?: string
-    modifiers?: Record<string, unknown>
-    to?: { x: number; y: number }
-    from?: { x: number; y: number }
-  }): Promise<void> {
+  /**
+   * Name the device the page is currently rendered for
+   * Measured in the page rather than taken from --device, since MCP tools sweep other profiles on the same tab.
+   */
+  private async getCurrentDevice(): Promise<string | undefined> {
+    try {
+      const result = (await this.sendCDPCommand("Runtime.evaluate", {
+        expression: MEASURE_VIEWPORT_EXPRESSION,
+        returnByValue: true
+      })) as { result?: { value?: MeasuredViewport } }
+      return result.result?.value ? describeViewport(this.deviceProfiles, result.result.value) : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Replay a recorded interaction through CDP
+   *
+   * The target element is resolved by id, selector or text in the current page and
+   * scrolled into view before dispatching, so replays keep working after the layout
+   * changed. Recorded coordinates are only used when resolution fails.
+   */
+  async executeInteraction(interaction: ReplayEvent): Promise<boolean> {
     if (!this.connection) {
       throw new Error("No CDP connection available")
     }
 
     try {
-      switch (interaction.type) {
-        case "CLICK":
-          if (!interaction.coordinates) break
-          await this.sendCDPCommand("Input.dispatchMouseEvent", {
-            type: "mousePressed",
-            x: interaction.coordinates.x,
-            y: interaction.coordinates.y,
-            button: "left",
-            clickCount: 1
-          })
-
-          await this.sendCDPCommand("Input.dispatchMouseEvent", {
-            type: "mouseReleased",
-            x: interaction.coordinates.x,
-            y: interaction.coordinates.y,
-            button: "left",
-            clickCount: 1
-          })
-          break
-
-        case "KEYDOWN":
-          await this.sendCDPCommand("Input.dispatchKeyEvent", {
-            type: "keyDown",
-            key: interaction.key,
-            code: interaction.code,
-            ...interaction.modifiers
-          })
-          break
-
-        case "SCROLL":
-          if (!interaction.to || !interaction.from) break
-          await this.sendCDPCommand("Input.dispatchMouseEvent", {
-            type: "mouseWheel",
-            x: interaction.to.x,
-            y: interaction.to.y,
-            deltaX: interaction.to.x - interaction.from.x,
-            deltaY: interaction.to.y - interaction.from.y
-          })
-          break
-
-        default:
-          this.fileLogger("browser", `[REPLAY] Unknown interaction type: ${interaction.type}`)
+      const { dispatched, resolvedBy } = await executeReplayEvent(
+        (method, params) => this.sendCDPCommand(method, params),
+        interaction
+      )
+      const description = describeReplayEvent(interaction)
+      if (!dispatched) {
+        this.debugLog(`Replay skipped ${description}`)
+      } else if (resolvedBy === "coordinates") {
+        this.fileLogger("browser", `[REPLAY] ${description} (element not found, used recorded coordinates)`)
+      } else {
+        this.fileLogger("browser", `[REPLAY] ${description}${resolvedBy ? ` (resolved by ${resolvedBy})` : ""}`)
       }
+      return dispatched
     } catch (error) {
       this.fileLogger("browser", `[REPLAY] Failed to execute ${interaction.type}: ${error}`)
+      return false
     }
   }
 
@@ -3,17 +3,26 @@
 import { execSync, spawn } from "node:child_process"
 import chalk from "chalk"
 import { Command } from "commander"
-import { existsSync, readFileSync } from "fs"
+import { closeSync, existsSync, openSync, readdirSync, readFileSync, readSync, statSync, writeFileSync } from "fs"
 import { homedir, tmpdir } from "os"
 import { detect } from "package-manager-detector"
 import { dirname, join } from "path"
+import { StringDecoder } from "string_decoder"
 import { fileURLToPath } from "url"
 import { createPersistentLogFile, startDevEnvironment } from "./dev-environment.js"
+import { getDevicesPath, loadDeviceProfiles, resolveDeviceProfiles } from "./utils/device-profiles.js"
+import { type LogEntry, LogEntryStream, parseLogEntries } from "./utils/log-entries.js"
+import { getLogEntryLevel, type LogEntryFilter, matchesLogEntryFilter } from "./utils/log-entry-filter.js"
+import { LOG_EVENT_LEVELS, type LogEventLevel } from "./utils/log-events.js"
+import { extractProjectNameFromLogFilename } from "./utils/log-filename.js"
+import { resolveRetentionPolicy } from "./utils/log-retention.js"
+import { isCompressedLog, readLogFile } from "./utils/log-rotation.js"
 import { getProjectName } from "./utils/project-name.js"
+import { exportPlaywrightSpec, parseTimeBound } from "./utils/replay.js"
 
 interface ProjectConfig {
   type: "node" | "python" | "rails"
-  framework?: "nextjs" | "svelte" | "other" // For node projects
+  framework?: "nextjs" | "svelte" | "remix" | "vite" | "other" // For node projects
   packageManager?: string // Only for node projects
   pythonCommand?: string // Only for python projects
   defaultScript: string
@@ -75,7 +84,7 @@ async function detectProjectType(debug = false): Promise<ProjectConfig> {
   const detected = await detect()
 
   // Helper to detect framework for Node.js projects
-  const detectFramework = (): "nextjs" | "svelte" | "other" => {
+  const detectFramework = (): "nextjs" | "svelte" | "remix" | "vite" | "other" => {
     // Check for Next.js
     const nextConfigFiles = ["next.config.js", "next.config.ts", "next.config.mjs", "next.config.cjs"]
     if (nextConfigFiles.some((file) => existsSync(file))) {
@@ -93,7 +102,7 @@ async function detectProjectType(debug = false): Promise<ProjectConfig> {
       return "svelte"
     }
 
-    // Check package.json for svelte dependency
+    // Check package.json for svelte, remix or vite dependencies
     try {
       if (existsSync("package.json")) {
         const packageJson = JSON.parse(readFileSync("package.json", "utf-8"))
@@ -104,6 +113,21 @@ async function detectProjectType(debug = false): Promise<ProjectConfig> {
           }
           return "svelte"
         }
+
+        // Remix runs on Vite too, so check it first
+        if (deps["@remix-run/dev"] || deps["@remix-run/react"]) {
+          if (debug) {
+            console.log(`[DEBUG] Remix framework detected (package.json dependency)`)
+          }
+          return "remix"
+        }
+
+        if (deps.vite) {
+          if (debug) {
+            console.log(`[DEBUG] Vite framework detected (package.json dependency)`)
+          }
+          return "vite"
+        }
       }
     } catch {
       // Ignore parse errors
@@ -169,6 +193,76 @@ function getVersion(): string {
   }
 }
 
+// Find the log file of the current project - the running session's, or the most recent one
+function findProjectLogFile(projectName: string = getProjectName()): string | null {
+  try {
+    const sessionFile = join(homedir(), ".d3k", `${projectName}.json`)
+    if (existsSync(sessionFile)) {
+      const session = JSON.parse(readFileSync(sessionFile, "utf8"))
+      if (session.logFilePath && existsSync(session.logFilePath)) {
+        return session.logFilePath
+      }
+    }
+  } catch {
+    // Fall back to the log directory
+  }
+
+  const logDir = join(homedir(), ".d3k", "logs")
+  if (!existsSync(logDir)) {
+    return null
+  }
+  // Rotated archives are named after the rotation time, so the last written file is the session's
+  const logFiles = readdirSync(logDir)
+    .filter((file) => extractProjectNameFromLogFilename(file) === projectName)
+    .map((file) => ({ path: join(logDir, file), mtime: statSync(join(logDir, file)).mtimeMs }))
+    .sort((a, b) => a.mtime - b.mtime)
+  return logFiles.length > 0 ? logFiles[logFiles.length - 1].path : null
+}
+
+function printLogEntry(entry: LogEntry): void {
+  const level = getLogEntryLevel(entry)
+  const color = level === "error" ? chalk.red : level === "warn" ? chalk.yellow : (text: string) => text
+  console.log(color(entry.original))
+}
+
+/**
+ * Print the entries appended to a log file from an offset on, until the process is stopped
+ * A file that shrinks was rotated or truncated, so reading starts over from its beginning.
+ */
+function followLogFile(logFile: string, offset: number, filter: LogEntryFilter): void {
+  const stream = new LogEntryStream()
+  const decoder = new StringDecoder("utf8")
+  let position = offset
+
+  setInterval(() => {
+    let size: number
+    try {
+      size = statSync(logFile).size
+    } catch {
+      return // Mid-rotation
+    }
+    if (size < position) position = 0
+
+    // Nothing new - release the entry held back for continuation lines
+    const entries = size === position ? stream.flush() : []
+    if (size > position) {
+      const chunk = Buffer.alloc(size - position)
+      const fd = openSync(logFile, "r")
+      try {
+        readSync(fd, chunk, 0, chunk.length, position)
+      } finally {
+        closeSync(fd)
+      }
+      position = size
+      entries.push(...stream.push(decoder.write(chunk)))
+    }
+
+    for (const entry of entries) {
+      if (matchesLogEntryFilter(entry, filter)) printLogEntry(entry)
+    }
+  }, 250)
+}
+
 // Check if installed globally before proceeding
 function checkGlobalInstall() {
   const currentFile = fileURLToPath(import.meta.url)
@@ -246,7 +340,29 @@ program
     "local"
   )
   .option("--plugin-react-scan", "Enable react-scan performance monitoring for React applications")
+  .option(
+    "--capture-network",
+    "Capture request/response headers, timing and bodies of app requests for HAR export (secrets are redacted)"
+  )
+  .option(
+    "--device <name>",
+    "Emulate a device profile in the browser: mobile, tablet, desktop or one from .d3k/devices.json"
+  )
   .option("--no-chrome-devtools-mcp", "Disable chrome-devtools MCP integration (enabled by default)")
+  .option("--log-max-size <mb>", "Rotate the log once it grows past this size in MB (0 to never rotate)", "50")
+  .option("--log-retention <count>", "Archived logs to keep per project (0 for no limit)", "10")
+  .option("--log-max-age <days>", "Delete archived logs older than this many days (0 for no limit)", "14")
+  .option("--no-log-compression", "Keep archived logs uncompressed instead of gzipping them")
+  .option("--screenshot-retention <count>", "Screenshots to keep (0 for no limit)", "1000")
+  .option("--screenshot-max-age <days>", "Delete screenshots older than this many days (0 for no limit)", "7")
+  .option(
+    "--api-token",
+    "Require a per-session bearer token for API and MCP requests and the pages (see ~/.d3k/<project>.json)"
+  )
+  .option(
+    "--allowed-origins <origins>",
+    "Comma-separated origins allowed to call the MCP server and its API, besides its own and the d3k Chrome extension"
+  )
   .option("--kill-mcp", "Kill the MCP server on port 3684 and exit")
   .action(async (options) => {
     // Handle --kill-mcp option
@@ -323,6 +439,24 @@ program
       }
     }
 
+    let retention: ReturnType<typeof resolveRetentionPolicy>
+    try {
+      retention = resolveRetentionPolicy(options)
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`))
+      process.exit(1)
+    }
+
+    // Fail fast on unknown or malformed device profiles instead of once Chrome is up
+    if (options.device) {
+      try {
+        resolveDeviceProfiles(loadDeviceProfiles(getDevicesPath(process.cwd())), [options.device])
+      } catch (error) {
+        console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`))
+        process.exit(1)
+      }
+    }
+
     if (options.debug) {
       console.log(`[DEBUG] Project type: ${projectConfig.type}`)
       console.log(`[DEBUG] Port: ${port} (${options.port ? "explicit" : "auto-detected"})`)
@@ -347,6 +481,7 @@ program
         port,
         portMcp: options.portMcp,
         defaultPort: projectConfig.defaultPort,
+        projectType: projectConfig.type,
         framework: projectConfig.framework,
         userSetPort,
         userSetMcpPort,
@@ -360,7 +495,12 @@ program
         tui: options.noTui !== true && !options.debug, // TUI is default unless --no-tui or --debug is specified
         dateTimeFormat: options.dateTime || "local",
         pluginReactScan: options.pluginReactScan || false,
-        chromeDevtoolsMcp: options.chromeDevtoolsMcp !== false // Default to true unless explicitly disabled
+        captureNetwork: options.captureNetwork || false,
+        device: options.device,
+        chromeDevtoolsMcp: options.chromeDevtoolsMcp !== false, // Default to true unless explicitly disabled
+        retention,
+        apiToken: options.apiToken || false,
+        allowedOrigins: options.allowedOrigins
       })
     } catch (error) {
       console.error(chalk.red("❌ Failed to start development environment:"), error)
@@ -368,4 +508,118 @@ program
     }
   })
 
+program
+  .command("export-playwright")
+  .description("Export recorded browser interactions as a Playwright test")
+  .option("--since <time>", "Start of the window: duration (e.g. 10m, 1h), ISO timestamp or HH:MM", "10m")
+  .option("--until <time>", "End of the window (default: now)")
+  .option("-o, --output <file>", "Write the spec to a file instead of stdout")
+  .option("-n, --name <name>", "Name of the generated test")
+  .option("--log <path>", "Log file to read (default: the current project's latest log)")
+  .action((options) => {
+    const since = parseTimeBound(options.since)
+    const until = options.until ? parseTimeBound(options.until) : undefined
+    if (!since || until === null) {
+      console.error(chalk.red(`❌ Invalid time: ${!since ? options.since : options.until}`))
+      process.exit(1)
+    }
+
+    const logFile = options.log || findProjectLogFile()
+    if (!logFile || !existsSync(logFile)) {
+      console.error(chalk.red(`❌ No log file found for ${getProjectName()}. Run d3k first or pass --log.`))
+      process.exit(1)
+    }
+
+    const result = exportPlaywrightSpec(parseLogEntries(readLogFile(logFile), statSync(logFile).mtime), {
+      since,
+      until,
+      testName: options.name
+    })
+    if (!result) {
+      console.error(chalk.yellow(`⚠️ No browser interactions found in ${logFile} for that time window.`))
+      process.exit(1)
+    }
+
+    if (!options.output) {
+      process.stdout.write(result.spec)
+      return
+    }
+
+    writeFileSync(options.output, result.spec)
+    console.log(chalk.green(`✅ Wrote ${result.actionCount} steps to ${options.output}`))
+    if (result.errors.length > 0) {
+      console.log(
+        chalk.yellow(
+          `   ${result.errors.length} error(s) were seen while recording - the test fails until they're fixed.`
+        )
+      )
+    }
+    console.log(chalk.gray(`   Run it with: playwright test ${options.output}`))
+  })
+
+program
+  .command("logs")
+  .description("Show the log of a running d3k session (or an archived log) without starting anything")
+  .option("--source <source>", "Only entries from the browser or the server")
+  .option("--grep <pattern>", "Only entries whose message matches this regular expression (case-insensitive)")
+  .option("--since <time>", "Only entries from this time on: duration (e.g. 5m, 1h), ISO timestamp or HH:MM")
+  .option("--level <level>", "Only entries at this level or more severe: error, warn, info, log or debug")
+  .option("-n, --lines <count>", "Number of matching entries to show before following", "100")
+  .option("-f, --follow", "Keep printing new entries as they are written")
+  .option("--project <name>", "Project whose session to attach to (default: the current directory's)")
+  .option("--log <path>", "Log file to read instead of the session's, e.g. an archived one")
+  .action((options) => {
+    if (options.source && options.source !== "browser" && options.source !== "server") {
+      console.error(chalk.red(`❌ Invalid source: ${options.source} (expected browser or server)`))
+      process.exit(1)
+    }
+    if (options.level && !LOG_EVENT_LEVELS.includes(options.level)) {
+      console.error(chalk.red(`❌ Invalid level: ${options.level} (expected ${LOG_EVENT_LEVELS.join(", ")})`))
+      process.exit(1)
+    }
+    const lines = Number(options.lines)
+    if (!Number.isInteger(lines) || lines < 0) {
+      console.error(chalk.red(`❌ Invalid line count: ${options.lines}`))
+      process.exit(1)
+    }
+    const since = options.since ? parseTimeBound(options.since) : undefined
+    if (since === null) {
+      console.error(chalk.red(`❌ Invalid time: ${options.since}`))
+      process.exit(1)
+    }
+    let grep: RegExp | undefined
+    try {
+      grep = options.grep ? new RegExp(options.grep, "i") : undefined
+    } catch {
+      console.error(chalk.red(`❌ Invalid pattern: ${options.grep}`))
+      process.exit(1)
+    }
+
+    const projectName = options.project || getProjectName()
+    const logFile = options.log || findProjectLogFile(projectName)
+    if (!logFile || !existsSync(logFile)) {
+      console.error(chalk.red(`❌ No log file found for ${projectName}. Run d3k first or pass --log.`))
+      process.exit(1)
+    }
+
+    const filter: LogEntryFilter = {
+      source: options.source,
+      grep,
+      since,
+      level: options.level as LogEventLevel | undefined
+    }
+    const content = readLogFile(logFile)
+    const matches = parseLogEntries(content, statSync(logFile).mtime).filter((entry) =>
+      matchesLogEntryFilter(entry, filter)
+    )
+    for (const entry of lines > 0 ? matches.slice(-lines) : []) {
+      printLogEntry(entry)
+    }
+
+    // Archives are complete, only the session's log grows
+    if (options.follow && !isCompressedLog(logFile)) {
+      followLogFile(logFile, Buffer.byteLength(content), filter)
+    }
+  })
+
 program.parse()
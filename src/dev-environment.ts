@@ -14,17 +14,38 @@ import {
   writeFileSync
 } from "fs"
 import { type ChildProcess, execSync, spawn } from "node:child_process"
+import { randomBytes } from "node:crypto"
 import ora from "ora"
 import { homedir, tmpdir } from "os"
-import { dirname, join } from "path"
+import { basename, dirname, join } from "path"
 import { fileURLToPath } from "url"
 import { CDPMonitor } from "./cdp-monitor.js"
 import { ScreencastManager } from "./screencast-manager.js"
-import { type LogEntry, NextJsErrorDetector, OutputProcessor, StandardLogParser } from "./services/parsers/index.js"
+import {
+  createErrorDetector,
+  createLogFormatParser,
+  detectLogFormat,
+  type LogEntry,
+  OutputProcessor
+} from "./services/parsers/index.js"
 import { DevTUI } from "./tui-interface.js"
+import { getBudgetsPath } from "./utils/budgets.js"
+import { copyToClipboard } from "./utils/clipboard.js"
+import { getDevicesPath } from "./utils/device-profiles.js"
+import { getNetworkLogPath } from "./utils/har.js"
+import { createLogEvent, getEventLogPath, type LogEventFields } from "./utils/log-events.js"
 import { LogLevel, Logger as StructuredLogger } from "./utils/logger.js"
+import { getRotatedLogFilename } from "./utils/log-filename.js"
+import {
+  applyLogRetention,
+  DEFAULT_RETENTION_POLICY,
+  pruneScreenshots,
+  type RetentionPolicy
+} from "./utils/log-retention.js"
+import { rotateLogFile } from "./utils/log-rotation.js"
 import { getProjectDisplayName, getProjectName } from "./utils/project-name.js"
 import { formatTimestamp } from "./utils/timestamp.js"
+import type { TUIActions } from "./utils/tui-commands.js"
 
 // MCP names
 const MCP_NAMES = {
@@ -45,43 +66,81 @@ interface DevEnvironmentOptions {
   commandName: string
   browser?: string
   defaultPort?: string // Default port from project type detection
-  framework?: "nextjs" | "svelte" | "other" // Framework type from project detection
+  projectType?: "node" | "python" | "rails" // Project type from project detection
+  framework?: "nextjs" | "svelte" | "remix" | "vite" | "other" // Framework type from project detection
   userSetPort?: boolean // Whether user explicitly set the port
   userSetMcpPort?: boolean // Whether user explicitly set the MCP port
   tail?: boolean // Whether to tail the log file to terminal
   tui?: boolean // Whether to use TUI mode (default true)
   dateTimeFormat?: "local" | "utc" // Timestamp format option
   pluginReactScan?: boolean // Whether to enable react-scan performance monitoring
+  captureNetwork?: boolean // Whether to capture full network exchanges for HAR export
+  device?: string // Device profile to emulate in the monitored browser
   chromeDevtoolsMcp?: boolean // Whether to enable chrome-devtools MCP integration
+  retention?: RetentionPolicy // Log rotation and retention, screenshot garbage collection
+  apiToken?: boolean // Whether API and MCP requests need the session's bearer token
+  allowedOrigins?: string // Comma-separated origins allowed to call the MCP server besides its own
 }
 
 class FileLogger {
   private logFile: string
+  private eventLogFile: string // JSONL sidecar with the same lines as structured events
   private tail: boolean
   private dateTimeFormat: "local" | "utc"
-
-  constructor(logFile: string, tail: boolean = false, dateTimeFormat: "local" | "utc" = "local") {
+  private retention: RetentionPolicy
+  private writesSinceSizeCheck = 0
+
+  constructor(
+    logFile: string,
+    tail: boolean = false,
+    dateTimeFormat: "local" | "utc" = "local",
+    retention: RetentionPolicy = DEFAULT_RETENTION_POLICY
+  ) {
     this.logFile = logFile
+    this.eventLogFile = getEventLogPath(logFile)
     this.tail = tail
     this.dateTimeFormat = dateTimeFormat
+    this.retention = retention
     // Ensure directory exists
     const logDir = dirname(logFile)
     if (!existsSync(logDir)) {
       mkdirSync(logDir, { recursive: true })
     }
-    // Clear log file
+    // Clear log files
     writeFileSync(this.logFile, "")
+    writeFileSync(this.eventLogFile, "")
   }
 
-  log(source: "server" | "browser", message: string) {
-    const timestamp = formatTimestamp(new Date(), this.dateTimeFormat)
+  log(source: "server" | "browser", message: string, fields?: LogEventFields) {
+    const now = new Date()
+    const timestamp = formatTimestamp(now, this.dateTimeFormat)
     const logEntry = `[${timestamp}] [${source.toUpperCase()}] ${message}\n`
     appendFileSync(this.logFile, logEntry)
+    appendFileSync(this.eventLogFile, `${JSON.stringify(createLogEvent(source, message, fields, now))}\n`)
 
     // If tail is enabled, also output to console
     if (this.tail) {
       process.stdout.write(logEntry)
     }
+
+    this.rotateIfTooLarge()
+  }
+
+  // The MCP server and the extension append to the log too, so its size is checked on disk every 100 writes
+  private rotateIfTooLarge() {
+    if (!this.retention.maxLogSizeBytes || ++this.writesSinceSizeCheck < 100) return
+    this.writesSinceSizeCheck = 0
+
+    try {
+      if (statSync(this.logFile).size < this.retention.maxLogSizeBytes) return
+      const archivedLogPath = rotateLogFile(this.logFile, getRotatedLogFilename(basename(this.logFile)))
+      this.log("server", `Log rotated, earlier entries are in ${archivedLogPath}`)
+      applyLogRetention(this.logFile, this.retention).catch(() => {
+        // Retention is best effort, the next rotation tries again
+      })
+    } catch {
+      // Keep logging to the current file
+    }
   }
 }
 
@@ -220,16 +279,40 @@ async function isChromeDevtoolsMcpSupported(): Promise<boolean> {
   }
 }
 
+/**
+ * Get the MCP config snippet pointing an MCP client at this dev3000 instance
+ */
+function getMcpConfigSnippet(mcpPort: string, apiToken?: string): string {
+  const config = {
+    mcpServers: {
+      [MCP_NAMES.DEV3000]: {
+        type: "http",
+        url: `http://localhost:${mcpPort}/mcp`,
+        ...(apiToken ? { headers: { Authorization: `Bearer ${apiToken}` } } : {})
+      }
+    }
+  }
+  return JSON.stringify(config, null, 2)
+}
+
 /**
  * Ensure MCP server configurations are added to project's .mcp.json (Claude Code)
  */
-async function ensureMcpServers(mcpPort: string, _appPort: string, _enableChromeDevtools: boolean): Promise<void> {
+async function ensureMcpServers(
+  mcpPort: string,
+  _appPort: string,
+  _enableChromeDevtools: boolean,
+  apiToken?: string
+): Promise<void> {
   try {
     const settingsPath = join(process.cwd(), ".mcp.json")
 
     // Read or create settings
     let settings: {
-      mcpServers?: Record<string, { type?: string; url?: string; command?: string; args?: string[] }>
+      mcpServers?: Record<
+        string,
+        { type?: string; url?: string; command?: string; args?: string[]; headers?: Record<string, string> }
+      >
       [key: string]: unknown
     }
     if (existsSync(settingsPath)) {
@@ -258,6 +341,13 @@ async function ensureMcpServers(mcpPort: string, _appPort: string, _enableChrome
       added = true
     }
 
+    // With --api-token the client has to send this session's token
+    const dev3000Server = settings.mcpServers[MCP_NAMES.DEV3000]
+    if (apiToken && dev3000Server.headers?.Authorization !== `Bearer ${apiToken}`) {
+      dev3000Server.headers = { ...dev3000Server.headers, Authorization: `Bearer ${apiToken}` }
+      added = true
+    }
+
     // REMOVED: No longer auto-configure chrome-devtools and nextjs-dev
     // dev3000 MCP server now orchestrates these internally via the gateway pattern
 
@@ -276,7 +366,8 @@ async function ensureMcpServers(mcpPort: string, _appPort: string, _enableChrome
 async function ensureCursorMcpServers(
   mcpPort: string,
   _appPort: string,
-  _enableChromeDevtools: boolean
+  _enableChromeDevtools: boolean,
+  apiToken?: string
 ): Promise<void> {
   try {
     const cursorDir = join(process.cwd(), ".cursor")
@@ -289,7 +380,10 @@ async function ensureCursorMcpServers(
 
     // Read or create settings
     let settings: {
-      mcpServers?: Record<string, { type?: string; url?: string; command?: string; args?: string[] }>
+      mcpServers?: Record<
+        string,
+        { type?: string; url?: string; command?: string; args?: string[]; headers?: Record<string, string> }
+      >
       [key: string]: unknown
     }
     if (existsSync(settingsPath)) {
@@ -317,6 +411,13 @@ async function ensureCursorMcpServers(
       added = true
     }
 
+    // With --api-token the client has to send this session's token
+    const dev3000Server = settings.mcpServers[MCP_NAMES.DEV3000]
+    if (apiToken && dev3000Server.headers?.Authorization !== `Bearer ${apiToken}`) {
+      dev3000Server.headers = { ...dev3000Server.headers, Authorization: `Bearer ${apiToken}` }
+      added = true
+    }
+
     // REMOVED: No longer auto-configure chrome-devtools and nextjs-dev
     // dev3000 MCP server now orchestrates these internally via the gateway pattern
 
@@ -336,7 +437,8 @@ async function ensureCursorMcpServers(
 async function ensureOpenCodeMcpServers(
   mcpPort: string,
   _appPort: string,
-  _enableChromeDevtools: boolean
+  _enableChromeDevtools: boolean,
+  apiToken?: string
 ): Promise<void> {
   try {
     const settingsPath = join(process.cwd(), "opencode.json")
@@ -349,6 +451,7 @@ async function ensureOpenCodeMcpServers(
           type?: "remote"
           url?: string
           enabled?: boolean
+          headers?: Record<string, string>
         }
       >
       [key: string]: unknown
@@ -379,6 +482,13 @@ async function ensureOpenCodeMcpServers(
       added = true
     }
 
+    // With --api-token the client has to send this session's token
+    const dev3000Server = settings.mcp[MCP_NAMES.DEV3000]
+    if (apiToken && dev3000Server.headers?.Authorization !== `Bearer ${apiToken}`) {
+      dev3000Server.headers = { ...dev3000Server.headers, Authorization: `Bearer ${apiToken}` }
+      added = true
+    }
+
     // REMOVED: No longer auto-configure chrome-devtools and nextjs-dev
     // dev3000 MCP server now orchestrates these internally via the gateway pattern
 
@@ -424,7 +534,10 @@ function writeSessionInfo(
   cdpUrl?: string | null,
   chromePids?: number[],
   serverCommand?: string,
-  framework?: "nextjs" | "svelte" | "other"
+  framework?: "nextjs" | "svelte" | "remix" | "vite" | "other",
+  device?: string,
+  apiToken?: string,
+  dateTimeFormat?: "local" | "utc"
 ): void {
   const sessionDir = join(homedir(), ".d3k")
 
@@ -446,12 +559,16 @@ function writeSessionInfo(
       cwd: process.cwd(),
       chromePids: chromePids || [],
       serverCommand: serverCommand || null,
-      framework: framework || null
+      framework: framework || null,
+      device: device || null, // MCP tools restore this profile after sweeping others
+      apiToken: apiToken || null, // Bearer token MCP clients and the extension send with --api-token
+      dateTimeFormat: dateTimeFormat || "local" // Timestamps of the lines the MCP server adds to the log
     }
 
     // Write session file - use project name as filename for easy lookup
+    // Only the user may read it, since it can hold the API token
     const sessionFile = join(sessionDir, `${projectName}.json`)
-    writeFileSync(sessionFile, JSON.stringify(sessionInfo, null, 2))
+    writeFileSync(sessionFile, JSON.stringify(sessionInfo, null, 2), { mode: 0o600 })
   } catch (error) {
     // Non-fatal - just log a warning
     console.warn(chalk.yellow(`⚠️ Could not write session info: ${error}`))
@@ -482,43 +599,12 @@ function createLogFileInDir(baseDir: string, projectName: string): string {
   const logFileName = `${projectName}-${timestamp}.log`
   const logFilePath = join(baseDir, logFileName)
 
-  // Prune old logs for this project (keep only 10 most recent)
-  pruneOldLogs(baseDir, projectName)
-
   // Create the log file
   writeFileSync(logFilePath, "")
 
   return logFilePath
 }
 
-function pruneOldLogs(baseDir: string, projectName: string): void {
-  try {
-    // Find all log files for this project
-    const files = readdirSync(baseDir)
-      .filter((file) => file.startsWith(`${projectName}-`) && file.endsWith(".log"))
-      .map((file) => ({
-        name: file,
-        path: join(baseDir, file),
-        mtime: statSync(join(baseDir, file)).mtime
-      }))
-      .sort((a, b) => b.mtime.getTime() - a.mtime.getTime()) // Most recent first
-
-    // Keep only the 10 most recent, delete the rest
-    if (files.length >= 10) {
-      const filesToDelete = files.slice(9) // Keep first 9, delete the rest
-      for (const file of filesToDelete) {
-        try {
-          unlinkSync(file.path)
-        } catch (_error) {
-          // Silently ignore deletion errors
-        }
-      }
-    }
-  } catch (error) {
-    console.warn(chalk.yellow(`⚠️ Could not prune logs: ${error}`))
-  }
-}
-
 export class DevEnvironment {
   private serverProcess: ChildProcess | null = null
   private mcpServerProcess: ChildProcess | null = null
@@ -535,6 +621,7 @@ export class DevEnvironment {
   private spinner: ReturnType<typeof ora>
   private version: string
   private isShuttingDown: boolean = false
+  private isRestartingServer: boolean = false
   private serverStartTime: number | null = null
   private healthCheckTimer: NodeJS.Timeout | null = null
   private tui: DevTUI | null = null
@@ -543,6 +630,7 @@ export class DevEnvironment {
   private chromeDevtoolsSupported: boolean = false
   private portDetected: boolean = false
   private preflightIssues: string[] = []
+  private apiToken: string | undefined // Bearer token for API and MCP requests, with --api-token
 
   constructor(options: DevEnvironmentOptions) {
     // Handle portMcp vs mcpPort naming
@@ -550,12 +638,23 @@ export class DevEnvironment {
       ...options,
       mcpPort: options.portMcp || options.mcpPort || "3684"
     }
-    this.fileLogger = new FileLogger(options.logFile, options.tail || false, options.dateTimeFormat || "local")
+    this.apiToken = options.apiToken ? randomBytes(32).toString("hex") : undefined
+    this.fileLogger = new FileLogger(
+      options.logFile,
+      options.tail || false,
+      options.dateTimeFormat || "local",
+      options.retention
+    )
     this.structuredLogger = new StructuredLogger({
       level: options.debug ? LogLevel.DEBUG : LogLevel.INFO,
       prefix: "dev3000"
     })
-    this.outputProcessor = new OutputProcessor(new StandardLogParser(), new NextJsErrorDetector())
+    // Multiplexed output (foreman, turbo, ...) gets per-process prefixes parsed
+    const logFormat = detectLogFormat(options.serverCommand)
+    this.outputProcessor = new OutputProcessor(
+      createLogFormatParser(logFormat),
+      createErrorDetector(options.projectType, options.framework)
+    )
 
     // Set up MCP server public directory for web-accessible screenshots
     const currentFile = fileURLToPath(import.meta.url)
@@ -865,7 +964,8 @@ export class DevEnvironment {
         commandName: this.options.commandName,
         serversOnly: this.options.serversOnly,
         version: this.version,
-        projectName: projectDisplayName
+        projectName: projectDisplayName,
+        actions: this.getTUIActions()
       })
 
       await this.tui.start()
@@ -909,6 +1009,7 @@ export class DevEnvironment {
       // Start MCP server
       await this.tui.updateStatus(`Starting ${this.options.commandName} MCP server...`)
       await this.startMcpServer()
+      this.applyRetention()
 
       // Wait for servers to be ready
       await this.tui.updateStatus("Waiting for your app server...")
@@ -948,9 +1049,24 @@ export class DevEnvironment {
 
         // Ensure MCP server configurations in project settings files (instant, local)
         // Framework-specific MCPs (Next.js, Svelte) are now configured dynamically by the MCP orchestrator
-        await ensureMcpServers(this.options.mcpPort || "3684", this.options.port, this.chromeDevtoolsSupported)
-        await ensureCursorMcpServers(this.options.mcpPort || "3684", this.options.port, this.chromeDevtoolsSupported)
-        await ensureOpenCodeMcpServers(this.options.mcpPort || "3684", this.options.port, this.chromeDevtoolsSupported)
+        await ensureMcpServers(
+          this.options.mcpPort || "3684",
+          this.options.port,
+          this.chromeDevtoolsSupported,
+          this.apiToken
+        )
+        await ensureCursorMcpServers(
+          this.options.mcpPort || "3684",
+          this.options.port,
+          this.chromeDevtoolsSupported,
+          this.apiToken
+        )
+        await ensureOpenCodeMcpServers(
+          this.options.mcpPort || "3684",
+          this.options.port,
+          this.chromeDevtoolsSupported,
+          this.apiToken
+        )
 
         this.logD3K(`AI CLI Integration: Configured MCP servers in .mcp.json, .cursor/mcp.json, and opencode.json`)
       }
@@ -982,7 +1098,10 @@ export class DevEnvironment {
         cdpUrl,
         chromePids,
         this.options.serverCommand,
-        this.options.framework
+        this.options.framework,
+        this.options.device,
+        this.apiToken,
+        this.options.dateTimeFormat
       )
 
       // Clear status - ready!
@@ -1015,6 +1134,7 @@ export class DevEnvironment {
       // Start MCP server
       this.spinner.text = `Starting ${this.options.commandName} MCP server...`
       await this.startMcpServer()
+      this.applyRetention()
 
       // Wait for servers to be ready
       this.spinner.text = "Waiting for your app server..."
@@ -1051,9 +1171,24 @@ export class DevEnvironment {
 
         // Ensure MCP server configurations in project settings files (instant, local)
         // Framework-specific MCPs (Next.js, Svelte) are now configured dynamically by the MCP orchestrator
-        await ensureMcpServers(this.options.mcpPort || "3684", this.options.port, this.chromeDevtoolsSupported)
-        await ensureCursorMcpServers(this.options.mcpPort || "3684", this.options.port, this.chromeDevtoolsSupported)
-        await ensureOpenCodeMcpServers(this.options.mcpPort || "3684", this.options.port, this.chromeDevtoolsSupported)
+        await ensureMcpServers(
+          this.options.mcpPort || "3684",
+          this.options.port,
+          this.chromeDevtoolsSupported,
+          this.apiToken
+        )
+        await ensureCursorMcpServers(
+          this.options.mcpPort || "3684",
+          this.options.port,
+          this.chromeDevtoolsSupported,
+          this.apiToken
+        )
+        await ensureOpenCodeMcpServers(
+          this.options.mcpPort || "3684",
+          this.options.port,
+          this.chromeDevtoolsSupported,
+          this.apiToken
+        )
 
         this.logD3K(`AI CLI Integration: Configured MCP servers in .mcp.json, .cursor/mcp.json, and opencode.json`)
       }
@@ -1087,7 +1222,10 @@ export class DevEnvironment {
         cdpUrl,
         chromePids,
         this.options.serverCommand,
-        this.options.framework
+        this.options.framework,
+        this.options.device,
+        this.apiToken,
+        this.options.dateTimeFormat
       )
 
       // Complete startup with success message only in non-TUI mode
@@ -1099,9 +1237,7 @@ export class DevEnvironment {
       console.log(chalk.cyan(`🌐 Your App: http://localhost:${this.options.port}`))
       console.log(chalk.cyan(`🤖 MCP Server: http://localhost:${this.options.mcpPort}`))
       console.log(
-        chalk.cyan(
-          `📸 Visual Timeline: http://localhost:${this.options.mcpPort}/logs?project=${encodeURIComponent(projectName)}`
-        )
+        chalk.cyan(`📸 Visual Timeline: ${this.getMcpPageUrl(`/logs?project=${encodeURIComponent(projectName)}`)}`)
       )
       if (this.options.serversOnly) {
         console.log(chalk.cyan("🖥️  Servers-only mode - use Chrome extension for browser monitoring"))
@@ -1132,7 +1268,7 @@ export class DevEnvironment {
       const entries = this.outputProcessor.process(text, false)
 
       entries.forEach((entry: LogEntry) => {
-        this.fileLogger.log("server", entry.formatted)
+        this.fileLogger.log("server", entry.formatted, { processName: entry.processName, stack: entry.stack })
 
         // Detect when server switches to a different port
         this.detectPortChange(text)
@@ -1144,7 +1280,7 @@ export class DevEnvironment {
       const entries = this.outputProcessor.process(text, true)
 
       entries.forEach((entry: LogEntry) => {
-        this.fileLogger.log("server", entry.formatted)
+        this.fileLogger.log("server", entry.formatted, { processName: entry.processName, stack: entry.stack })
 
         // Detect when server switches to a different port
         this.detectPortChange(text)
@@ -1159,7 +1295,7 @@ export class DevEnvironment {
     })
 
     this.serverProcess.on("exit", (code) => {
-      if (this.isShuttingDown) return // Don't handle exits during shutdown
+      if (this.isShuttingDown || this.isRestartingServer) return // Don't handle exits during shutdown or restart
 
       if (code !== 0 && code !== null) {
         this.debugLog(`Server process exited with code ${code}`)
@@ -1227,6 +1363,148 @@ export class DevEnvironment {
     })
   }
 
+  /**
+   * Compress and prune the archived logs of earlier sessions and garbage collect screenshots
+   * Runs once the lock is held and the screenshot directory is final, in the background.
+   */
+  private applyRetention() {
+    const policy = this.options.retention || DEFAULT_RETENTION_POLICY
+    applyLogRetention(this.options.logFile, policy)
+      .then(({ compressed, deleted }) => {
+        this.debugLog(`Log retention: compressed ${compressed.length}, deleted ${deleted.length} archived logs`)
+      })
+      .catch((error) => this.debugLog(`Log retention failed: ${error}`))
+
+    try {
+      const deleted = pruneScreenshots(this.screenshotDir, policy)
+      this.debugLog(`Screenshot retention: deleted ${deleted.length} files from ${this.screenshotDir}`)
+    } catch (error) {
+      this.debugLog(`Screenshot retention failed: ${error}`)
+    }
+  }
+
+  /**
+   * Stop the server process group and start the server command again
+   */
+  private async restartServer(): Promise<void> {
+    if (this.isRestartingServer) {
+      throw new Error("Server is already restarting")
+    }
+
+    this.isRestartingServer = true
+    this.stopHealthCheck()
+    this.fileLogger.log("server", "Restarting server process...")
+
+    try {
+      const serverProcess = this.serverProcess
+      const pid = serverProcess?.pid
+      if (serverProcess && pid && serverProcess.exitCode === null && serverProcess.signalCode === null) {
+        const exited = new Promise<void>((resolve) => serverProcess.once("exit", () => resolve()))
+        // The server is spawned detached, so its group holds the whole command (shell, package manager, dev server)
+        try {
+          process.kill(-pid, "SIGTERM")
+        } catch {
+          serverProcess.kill("SIGTERM")
+        }
+        const timedOut = await Promise.race([
+          exited.then(() => false),
+          new Promise<boolean>((resolve) => setTimeout(() => resolve(true), 5000))
+        ])
+        if (timedOut) {
+          this.debugLog(`Server process ${pid} ignored SIGTERM, sending SIGKILL`)
+          try {
+            process.kill(-pid, "SIGKILL")
+          } catch {
+            // Already gone
+          }
+        }
+      }
+
+      // Wait for the port to be released before starting again
+      for (let attempt = 0; attempt < 20 && !(await isPortAvailable(this.options.port)); attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 250))
+      }
+    } finally {
+      this.isRestartingServer = false
+    }
+
+    await this.startServer()
+    if (await this.waitForServer()) {
+      this.fileLogger.log("server", `Server restarted on port ${this.options.port}`)
+    }
+    this.startHealthCheck()
+  }
+
+  /**
+   * Headers for d3k's own requests to the MCP server
+   */
+  private getMcpAuthHeaders(): Record<string, string> {
+    return this.apiToken ? { Authorization: `Bearer ${this.apiToken}` } : {}
+  }
+
+  /**
+   * Link to a page of the MCP server, with the token the browser needs to get in under --api-token
+   */
+  private getMcpPageUrl(path: string): string {
+    const url = new URL(path, `http://localhost:${this.options.mcpPort || "3684"}`)
+    if (this.apiToken) url.searchParams.set("token", this.apiToken)
+    return url.toString()
+  }
+
+  /**
+   * Actions of the TUI command palette
+   */
+  private getTUIActions(): TUIActions {
+    const mcpPort = () => this.options.mcpPort || "3684"
+    const requireBrowser = () => {
+      if (!this.cdpMonitor) {
+        throw new Error(
+          this.options.serversOnly ? "No monitored browser in servers-only mode" : "Browser is not connected yet"
+        )
+      }
+      return this.cdpMonitor
+    }
+
+    return {
+      restart: async () => {
+        await this.restartServer()
+        return `Server restarted on port ${this.options.port}`
+      },
+      screenshot: async () => {
+        const filename = await requireBrowser().captureScreenshot()
+        if (!filename) {
+          throw new Error("Screenshot failed, see the log for details")
+        }
+        return `Saved screenshot ${filename}`
+      },
+      rotate: async () => {
+        const response = await fetch(`http://localhost:${mcpPort()}/api/logs/rotate`, {
+          method: "POST",
+          headers: this.getMcpAuthHeaders()
+        })
+        const result = (await response.json()) as { archivedLogPath?: string; error?: string }
+        if (!response.ok || !result.archivedLogPath) {
+          throw new Error(result.error || `Log rotation failed with status ${response.status}`)
+        }
+        return `Archived log to ${result.archivedLogPath.replace(homedir(), "~")}`
+      },
+      "open-logs": async () => {
+        const projectName = getProjectDisplayName()
+        await requireBrowser().openUrl(this.getMcpPageUrl(`/logs?project=${encodeURIComponent(projectName)}`))
+        return "Opened /logs in the monitored browser"
+      },
+      "copy-mcp": async () => {
+        const snippet = getMcpConfigSnippet(mcpPort(), this.apiToken)
+        if (!(await copyToClipboard(snippet))) {
+          // Leave the snippet where it can still be copied by hand
+          this.fileLogger.log("server", `MCP config (no clipboard available):\n${snippet}`)
+          throw new Error("No clipboard command available, snippet written to the log")
+        }
+        return "Copied MCP config to the clipboard"
+      }
+    }
+  }
+
   private acquireLock(): boolean {
     try {
       // Check if lock file exists
@@ -1295,7 +1573,11 @@ export class DevEnvironment {
           this.options.mcpPort,
           cdpUrl || undefined,
           chromePids,
-          this.options.serverCommand
+          this.options.serverCommand,
+          this.options.framework,
+          this.options.device,
+          this.apiToken,
+          this.options.dateTimeFormat
         )
         this.debugLog(`Updated session info with new port: ${this.options.port}`)
       }
@@ -1728,7 +2010,11 @@ export class DevEnvironment {
         LOG_FILE_PATH: this.options.logFile, // Pass log file path to MCP server
         DEV3000_VERSION: this.version, // Pass version to MCP server
         SCREENSHOT_DIR: this.screenshotDir, // Pass screenshot directory for global installs
-        CDP_URL: cdpUrl || "" // Pass CDP URL for chrome-devtools MCP orchestration
+        CDP_URL: cdpUrl || "", // Pass CDP URL for chrome-devtools MCP orchestration
+        APP_PORT: this.options.port, // Reported by /api/session so the Chrome extension can route tabs
+        D3K_API_TOKEN: this.apiToken || "", // Checked by the MCP server's proxy.ts
+        D3K_ALLOWED_ORIGINS: this.options.allowedOrigins || "",
+        D3K_DATE_TIME_FORMAT: this.options.dateTimeFormat || "local"
       }
     })
 
@@ -1736,6 +2022,9 @@ export class DevEnvironment {
     this.mcpServerProcess.unref()
 
     this.debugLog("MCP server process spawned as singleton background service")
+    if (this.apiToken) {
+      this.logD3K(`API Access: Bearer token required, see ~/.d3k/${getProjectName()}.json`)
+    }
 
     // Log MCP server output to separate file for debugging
     const mcpLogFile = join(dirname(this.options.logFile), "mcp.log")
@@ -2050,7 +2339,8 @@ export class DevEnvironment {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Accept: "application/json, text/event-stream"
+          Accept: "application/json, text/event-stream",
+          ...this.getMcpAuthHeaders()
         },
         body: JSON.stringify(requestPayload)
       })
@@ -2133,7 +2423,8 @@ export class DevEnvironment {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Accept: "application/json, text/event-stream"
+          Accept: "application/json, text/event-stream",
+          ...this.getMcpAuthHeaders()
         },
         body: JSON.stringify(requestPayload)
       })
@@ -2260,7 +2551,11 @@ export class DevEnvironment {
         this.options.mcpPort,
         cdpUrl,
         this.cdpMonitor.getChromePids(),
-        this.options.serverCommand
+        this.options.serverCommand,
+        this.options.framework,
+        this.options.device,
+        this.apiToken,
+        this.options.dateTimeFormat
       )
     } else {
       this.logD3K("CDP Integration: CDP URL not yet available - browser may still be starting")
@@ -2281,7 +2576,11 @@ export class DevEnvironment {
               this.options.mcpPort,
               delayedCdpUrl,
               this.cdpMonitor.getChromePids(),
-              this.options.serverCommand
+              this.options.serverCommand,
+              this.options.framework,
+              this.options.device,
+              this.apiToken,
+              this.options.dateTimeFormat
             )
           }
         }
@@ -2344,14 +2643,17 @@ export class DevEnvironment {
     this.cdpMonitor = new CDPMonitor(
       this.options.profileDir,
       this.mcpPublicDir,
-      (_source: string, message: string) => {
-        this.fileLogger.log("browser", message)
+      (_source: string, message: string, fields?: LogEventFields) => {
+        this.fileLogger.log("browser", message, fields)
       },
       this.structuredLogger,
       this.options.browser,
       this.options.pluginReactScan,
       this.options.port, // App server port to monitor
-      this.options.mcpPort // MCP server port to ignore
+      this.options.mcpPort, // MCP server port to ignore
+      this.options.captureNetwork ? getNetworkLogPath(this.options.logFile) : undefined,
+      getDevicesPath(process.cwd()),
+      this.options.device
     )
 
     try {
@@ -2380,7 +2682,9 @@ export class DevEnvironment {
             // Pass through CDP messages directly - they already have their own category tags
             this.fileLogger.log("browser", msg)
           },
-          this.options.port.toString()
+          this.options.port.toString(),
+          getBudgetsPath(process.cwd()),
+          getDevicesPath(process.cwd())
         )
         await this.screencastManager.start()
         // this.fileLogger.log("browser", "[Screencast] Auto-capture enabled for navigation events")
@@ -2394,7 +2698,11 @@ export class DevEnvironment {
           this.options.mcpPort,
           cdpUrl || undefined,
           chromePids,
-          this.options.serverCommand
+          this.options.serverCommand,
+          this.options.framework,
+          this.options.device,
+          this.apiToken,
+          this.options.dateTimeFormat
         )
         this.debugLog(`Updated session info with CDP URL: ${cdpUrl}, Chrome PIDs: [${chromePids.join(", ")}]`)
       }
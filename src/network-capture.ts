@@ -0,0 +1,200 @@
+import { appendFileSync, writeFileSync } from "fs"
+import {
+  type CapturedExchange,
+  type CDPResourceTiming,
+  isTextMimeType,
+  MAX_CAPTURED_BODY_BYTES,
+  prepareBody,
+  redactHeaders,
+  redactUrl,
+  toHarTimings
+} from "./utils/har.js"
+
+type CDPCommandSender = (method: string, params?: Record<string, unknown>) => Promise<Record<string, unknown>>
+
+interface PendingExchange {
+  exchange: CapturedExchange
+  hasPostData: boolean
+  timing?: CDPResourceTiming
+  startTimestamp: number // CDP monotonic seconds
+}
+
+// Requests still waiting for their response - protects against leaks from requests that never finish
+const MAX_PENDING_EXCHANGES = 500
+
+/**
+ * NetworkCapture - Opt-in full request/response capture for HAR export
+ *
+ * Fed with the CDP Network events of requests the monitor already filtered to
+ * the app's origin. Completed exchanges are redacted, capped and appended to
+ * the network sidecar of the session's log.
+ */
+export class NetworkCapture {
+  private pending = new Map<string, PendingExchange>()
+
+  constructor(
+    private outputPath: string,
+    private sendCommand: CDPCommandSender,
+    private debugLog: (message: string) => void
+  ) {
+    writeFileSync(this.outputPath, "")
+  }
+
+  onRequestWillBeSent(params: Record<string, unknown>): void {
+    const { requestId, request, wallTime, timestamp, type } = params as {
+      requestId: string
+      request: {
+        url: string
+        method: string
+        headers?: Record<string, string>
+        postData?: string
+        hasPostData?: boolean
+      }
+      wallTime?: number
+      timestamp: number
+      type?: string
+    }
+
+    if (this.pending.size >= MAX_PENDING_EXCHANGES) {
+      const oldest = this.pending.keys().next().value
+      if (oldest !== undefined) this.pending.delete(oldest)
+    }
+
+    const headers = request.headers || {}
+    const mimeType = headers["Content-Type"] || headers["content-type"]
+    const exchange: CapturedExchange = {
+      requestId,
+      startedDateTime: new Date(wallTime ? wallTime * 1000 : Date.now()).toISOString(),
+      time: 0,
+      resourceType: type,
+      request: {
+        method: request.method,
+        url: redactUrl(request.url),
+        httpVersion: "HTTP/1.1",
+        headers: redactHeaders(headers),
+        bodySize: request.postData ? Buffer.byteLength(request.postData) : 0,
+        mimeType
+      },
+      response: { status: 0, statusText: "", httpVersion: "HTTP/1.1", headers: {}, mimeType: "", bodySize: -1 },
+      timings: toHarTimings(undefined)
+    }
+    if (request.postData) {
+      const prepared = prepareBody(request.postData, mimeType)
+      exchange.request.body = prepared.body
+      if (prepared.truncated) exchange.request.bodyTruncated = true
+    }
+
+    this.pending.set(requestId, {
+      exchange,
+      hasPostData: !request.postData && !!request.hasPostData,
+      startTimestamp: timestamp
+    })
+  }
+
+  onResponseReceived(params: Record<string, unknown>): void {
+    const { requestId, response } = params as {
+      requestId: string
+      response: {
+        status: number
+        statusText: string
+        headers?: Record<string, string>
+        mimeType?: string
+        protocol?: string
+        timing?: CDPResourceTiming
+      }
+    }
+    const pending = this.pending.get(requestId)
+    if (!pending) return
+
+    const httpVersion = response.protocol ? response.protocol.toUpperCase().replace(/^H2$/, "HTTP/2") : "HTTP/1.1"
+    pending.exchange.request.httpVersion = httpVersion
+    pending.exchange.response = {
+      ...pending.exchange.response,
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion,
+      headers: redactHeaders(response.headers),
+      mimeType: response.mimeType || ""
+    }
+    pending.timing = response.timing
+  }
+
+  async onLoadingFinished(params: Record<string, unknown>): Promise<void> {
+    const { requestId, timestamp, encodedDataLength } = params as {
+      requestId: string
+      timestamp: number
+      encodedDataLength?: number
+    }
+    const pending = this.pending.get(requestId)
+    if (!pending) return
+    this.pending.delete(requestId)
+
+    const { exchange } = pending
+    exchange.time = Math.max(0, Math.round((timestamp - pending.startTimestamp) * 1000))
+    exchange.timings = toHarTimings(pending.timing, timestamp)
+    exchange.response.bodySize = encodedDataLength ?? -1
+
+    // Large request bodies aren't included in the event
+    if (pending.hasPostData) {
+      try {
+        const { postData } = (await this.sendCommand("Network.getRequestPostData", { requestId })) as {
+          postData?: string
+        }
+        if (postData) {
+          const prepared = prepareBody(postData, exchange.request.mimeType)
+          exchange.request.body = prepared.body
+          exchange.request.bodySize = Buffer.byteLength(postData)
+          if (prepared.truncated) exchange.request.bodyTruncated = true
+        }
+      } catch (error) {
+        this.debugLog(`Failed to get request body for ${exchange.request.url}: ${error}`)
+      }
+    }
+
+    if (!isTextMimeType(exchange.response.mimeType)) {
+      exchange.response.bodyOmitted = `Binary content (${exchange.response.mimeType || "unknown type"}) is not captured`
+    } else {
+      try {
+        const { body, base64Encoded } = (await this.sendCommand("Network.getResponseBody", { requestId })) as {
+          body: string
+          base64Encoded: boolean
+        }
+        const text = base64Encoded ? Buffer.from(body, "base64").toString("utf-8") : body
+        const prepared = prepareBody(text, exchange.response.mimeType, MAX_CAPTURED_BODY_BYTES)
+        exchange.response.body = prepared.body
+        if (prepared.truncated) exchange.response.bodyTruncated = true
+      } catch (error) {
+        // Redirects and evicted buffers have no body
+        exchange.response.bodyOmitted = `Body unavailable: ${error instanceof Error ? error.message : error}`
+      }
+    }
+
+    this.write(exchange)
+  }
+
+  onLoadingFailed(params: Record<string, unknown>): void {
+    const { requestId, timestamp, errorText, canceled } = params as {
+      requestId: string
+      timestamp: number
+      errorText?: string
+      canceled?: boolean
+    }
+    const pending = this.pending.get(requestId)
+    if (!pending) return
+    this.pending.delete(requestId)
+
+    const { exchange } = pending
+    exchange.time = Math.max(0, Math.round((timestamp - pending.startTimestamp) * 1000))
+    exchange.timings = toHarTimings(pending.timing)
+    exchange.error = canceled ? "Canceled" : errorText || "Failed"
+    this.write(exchange)
+  }
+
+  private write(exchange: CapturedExchange): void {
+    try {
+      appendFileSync(this.outputPath, `${JSON.stringify(exchange)}\n`)
+    } catch (error) {
+      this.debugLog(`Failed to write network capture: ${error}`)
+    }
+  }
+}
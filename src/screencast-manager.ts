@@ -1,7 +1,17 @@
-import { existsSync, mkdirSync, writeFileSync } from "node:fs"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
 import { tmpdir } from "node:os"
 import { join } from "node:path"
 import { WebSocket } from "ws"
+import {
+  type BudgetResult,
+  checkBudgets,
+  formatBudgetLog,
+  loadBudgets,
+  type PerformanceBudgets
+} from "./utils/budgets.js"
+import { type DeviceProfile, describeViewport, loadDeviceProfiles } from "./utils/device-profiles.js"
+import { formatLayoutShiftLog, type LayoutShift, PERFORMANCE_OBSERVER_SCRIPT } from "./utils/performance-observers.js"
+import { formatWebVitalsLog, type RawWebVitals, summarizeWebVitals, type WebVitals } from "./utils/web-vitals.js"
 
 export interface ScreencastFrame {
   timestamp: number // ms since navigation start
@@ -15,14 +25,6 @@ interface BufferedFrame {
   absoluteTime: number // Date.now()
 }
 
-interface LayoutShiftSource {
-  node?: string
-  position?: string | null
-  previousRect?: { x: number; y: number; width: number; height: number }
-  currentRect?: { x: number; y: number; width: number; height: number }
-  actualRect?: { x: number; y: number; width: number; height: number } | null
-}
-
 /**
  * ScreencastManager - Passive screencast capture for navigation events
  *
@@ -38,17 +40,27 @@ export class ScreencastManager {
   private screenshotDir: string
   private messageId = 1000 // Start high to avoid conflicts
   private appPort: string
-  private layoutShifts: Array<{ score: number; timestamp: number; sources?: LayoutShiftSource[] }> = []
+  private layoutShifts: LayoutShift[] = []
   private viewportInfo: Record<string, number> = {}
   private captureTrigger: "navigation" | "load" = "load"
+  private webVitals: RawWebVitals | null = null
+  private webVitalsSessionId = "" // Session whose page the web vitals are polled from
+  private webVitalsPoll = 0 // Bumped on navigation to stop the previous polling loop
+  private currentUrl = ""
+  private mainFrameId = ""
+  private navigationRequests = new Map<string, number>() // Request id -> encoded bytes, since the last document request
+  private deviceProfiles: DeviceProfile[]
 
   constructor(
     private cdpUrl: string,
     private logFn: (msg: string) => void,
-    appPort?: string
+    appPort?: string,
+    private budgetsPath?: string, // .d3k/budgets.json of the project, read on every navigation
+    devicesPath?: string // .d3k/devices.json of the project, to name the emulated device in the metadata
   ) {
     this.screenshotDir = process.env.SCREENSHOT_DIR || join(tmpdir(), "dev3000-mcp-deps", "public", "screenshots")
     this.appPort = appPort || process.env.APP_PORT || "3000"
+    this.deviceProfiles = loadDeviceProfiles(devicesPath)
     if (!existsSync(this.screenshotDir)) {
       mkdirSync(this.screenshotDir, { recursive: true })
     }
@@ -70,6 +82,8 @@ export class ScreencastManager {
         this.send("Page.enable", {})
         // Enable Runtime domain for URL checking
         this.send("Runtime.enable", {})
+        // Enable Network domain to measure transfer size and request count for budgets
+        this.send("Network.enable", {})
       })
 
       this.ws.on("message", (data) => {
@@ -92,6 +106,7 @@ export class ScreencastManager {
    * Stop capturing and cleanup
    */
   async stop(): Promise<void> {
+    this.finishWebVitals()
     if (this.isCapturing) {
       await this.stopScreencast()
     }
@@ -135,6 +150,37 @@ export class ScreencastManager {
     else if (message.method === "Page.screencastFrame" && message.params) {
       this.onScreencastFrame(message.params as { data: string; sessionId: string })
     }
+
+    // Track the main frame so iframe documents don't reset the navigation's requests
+    else if (message.method === "Page.frameNavigated" && message.params) {
+      const { frame } = message.params as { frame: { id: string; parentId?: string } }
+      if (!frame.parentId) {
+        this.mainFrameId = frame.id
+      }
+    }
+
+    // Network traffic of the current navigation
+    else if (message.method === "Network.requestWillBeSent" && message.params) {
+      const params = message.params as {
+        requestId: string
+        type?: string
+        frameId?: string
+        redirectResponse?: unknown
+      }
+      const isMainDocument = params.type === "Document" && (!this.mainFrameId || params.frameId === this.mainFrameId)
+      if (isMainDocument && !params.redirectResponse) {
+        this.navigationRequests.clear()
+      }
+      // Long-lived pages without document requests (SPAs) would grow this forever
+      if (!this.navigationRequests.has(params.requestId) && this.navigationRequests.size < 10000) {
+        this.navigationRequests.set(params.requestId, 0)
+      }
+    } else if (message.method === "Network.loadingFinished" && message.params) {
+      const params = message.params as { requestId: string; encodedDataLength: number }
+      if (this.navigationRequests.has(params.requestId)) {
+        this.navigationRequests.set(params.requestId, params.encodedDataLength)
+      }
+    }
   }
 
   /**
@@ -162,7 +208,7 @@ export class ScreencastManager {
           // Only capture if it's the app URL (localhost:appPort)
           if (url.includes(`localhost:${this.appPort}`)) {
             // this.logFn("[CDP] URL matches app, starting capture")
-            this.onNavigationStart()
+            this.onNavigationStart(url)
           } else {
             // this.logFn(`[CDP] Skipping capture - URL does not match localhost:${this.appPort}`)
           }
@@ -198,7 +244,7 @@ export class ScreencastManager {
   /**
    * Navigation started - begin capturing screencast
    */
-  private onNavigationStart(): void {
+  private onNavigationStart(url = ""): void {
     // this.logFn("[CDP] Navigation started, beginning screencast capture")
 
     // Stop any existing capture first
@@ -206,13 +252,20 @@ export class ScreencastManager {
       this.send("Page.stopScreencast", {})
     }
 
+    // Interactions on the previous page are only complete once it is left
+    this.finishWebVitals()
+
     this.navigationStartTime = Date.now()
+    this.currentUrl = url
     this.currentSessionId = new Date()
       .toISOString()
       .replace(/:/g, "-")
       .replace(/\.\d{3}Z$/, "Z")
     this.buffer = []
     this.layoutShifts = []
+    this.webVitals = null
+    this.webVitalsSessionId = this.currentSessionId
+    this.webVitalsPoll++
     this.isCapturing = true
 
     // Install CLS observer if not already present
@@ -259,6 +312,9 @@ export class ScreencastManager {
       // Save session metadata with CLS data
       const metadataPath = join(this.screenshotDir, `${this.currentSessionId}-metadata.json`)
       const totalCLS = this.layoutShifts.reduce((sum, shift) => sum + shift.score, 0)
+      const webVitals = this.webVitals ? summarizeWebVitals(this.webVitals) : undefined
+      const transferSize = [...this.navigationRequests.values()].reduce((sum, bytes) => sum + bytes, 0)
+      const budget = this.evaluateBudgets(totalCLS, webVitals, transferSize)
 
       const metadata = {
         sessionId: this.currentSessionId,
@@ -267,10 +323,16 @@ export class ScreencastManager {
         captureEndTime: Date.now(),
         appPort: this.appPort,
         cssViewport: this.viewportInfo, // CSS viewport dimensions from window.innerWidth
+        device: this.describeDevice(), // Device profile the page was rendered for
         captureTrigger: this.captureTrigger, // "navigation" or "load"
         layoutShifts: this.layoutShifts,
         totalCLS,
-        clsGrade: totalCLS <= 0.1 ? "good" : totalCLS <= 0.25 ? "needs-improvement" : "poor"
+        clsGrade: totalCLS <= 0.1 ? "good" : totalCLS <= 0.25 ? "needs-improvement" : "poor",
+        webVitals,
+        url: this.currentUrl || undefined,
+        transferSize,
+        requestCount: this.navigationRequests.size,
+        budget
       }
       try {
         writeFileSync(metadataPath, JSON.stringify(metadata, null, 2))
@@ -325,14 +387,58 @@ export class ScreencastManager {
         this.logFn(`[CDP] Failed to save metadata - ${error}`)
       }
 
+      if (webVitals) {
+        for (const line of formatWebVitalsLog(webVitals)) {
+          this.logFn(line)
+        }
+      }
+
+      if (budget) {
+        for (const line of formatBudgetLog(budget)) {
+          this.logFn(line)
+        }
+      }
+
       this.logFn(
         `[SCREENCAST] View frame analysis: http://localhost:${process.env.MCP_PORT || "3684"}/video/${this.currentSessionId}`
       )
+      this.logFn(
+        `[SCREENCAST] Download video: http://localhost:${process.env.MCP_PORT || "3684"}/api/video/${this.currentSessionId}?download=1`
+      )
 
       await this.stopScreencast()
     }, 2000)
   }
 
+  /**
+   * Check the navigation against the project's performance budgets
+   * The file is read every time so edits apply without restarting d3k.
+   */
+  private evaluateBudgets(
+    cls: number,
+    webVitals: WebVitals | undefined,
+    transferSize: number
+  ): BudgetResult | undefined {
+    if (!this.budgetsPath || !this.currentUrl) return undefined
+
+    let budgets: PerformanceBudgets | null
+    try {
+      budgets = loadBudgets(this.budgetsPath)
+    } catch (error) {
+      this.logFn(`[BUDGET] Invalid ${this.budgetsPath} - ${error instanceof Error ? error.message : error}`)
+      return undefined
+    }
+    if (!budgets) return undefined
+
+    const result = checkBudgets(budgets, new URL(this.currentUrl).pathname, {
+      cls,
+      lcp: webVitals?.lcp?.value,
+      transferSize,
+      requests: this.navigationRequests.size
+    })
+    return result ?? undefined
+  }
+
   /**
    * Received a screencast frame - add to buffer
    */
@@ -371,97 +477,25 @@ export class ScreencastManager {
   }
 
   /**
-   * Install PerformanceObserver for layout shifts (passive, no reload needed)
+   * Name the emulated device from the viewport reported by the page
    */
-  private installCLSObserver(): void {
-    const observerScript = `
-      (function() {
-        // Reset layout shifts array for new navigation
-        window.__dev3000_layout_shifts__ = [];
-
-        // Update viewport info for current navigation
-        window.__dev3000_viewport__ = {
-          width: window.innerWidth,
-          height: window.innerHeight,
-          devicePixelRatio: window.devicePixelRatio || 1
-        };
-
-        // Install observer if not already present
-        if (window.__dev3000_cls_observer__) return;
-        window.__dev3000_cls_observer__ = true;
-
-        try {
-          const observer = new PerformanceObserver((list) => {
-            for (const entry of list.getEntries()) {
-              if (entry.entryType === 'layout-shift' && !entry.hadRecentInput) {
-                // For each shift, try to get the actual current bounding box and position style
-                const sources = entry.sources ? entry.sources.map(s => {
-                  let actualRect = null;
-                  let positionStyle = null;
-                  if (s.node && s.node.nodeName) {
-                    try {
-                      // Query the first matching element (nav, header, etc.)
-                      const element = document.querySelector(s.node.nodeName.toLowerCase());
-                      if (element) {
-                        const rect = element.getBoundingClientRect();
-                        actualRect = {
-                          x: rect.x,
-                          y: rect.y,
-                          width: rect.width,
-                          height: rect.height
-                        };
-
-                        // Get computed position style to detect fixed/absolute elements
-                        const computed = window.getComputedStyle(element);
-                        positionStyle = computed.position;
-                      }
-                    } catch (e) {
-                      // Ignore errors
-                    }
-                  }
-
-                  return {
-                    node: s.node ? s.node.nodeName : undefined,
-                    position: positionStyle,
-                    previousRect: s.previousRect ? {
-                      x: s.previousRect.x,
-                      y: s.previousRect.y,
-                      width: s.previousRect.width,
-                      height: s.previousRect.height
-                    } : {},
-                    currentRect: s.currentRect ? {
-                      x: s.currentRect.x,
-                      y: s.currentRect.y,
-                      width: s.currentRect.width,
-                      height: s.currentRect.height
-                    } : {},
-                    actualRect: actualRect
-                  };
-                }) : [];
-
-                window.__dev3000_layout_shifts__.push({
-                  score: entry.value,
-                  timestamp: entry.startTime,
-                  sources: sources
-                });
-              }
-            }
-          });
-
-          observer.observe({ type: 'layout-shift', buffered: true });
-          console.log('CLS observer installed');
-        } catch (e) {
-          console.error('Failed to install CLS observer:', e);
-        }
-      })();
-    `
+  private describeDevice(): string | undefined {
+    const { screenWidth, screenHeight, devicePixelRatio } = this.viewportInfo
+    if (!screenWidth || !screenHeight) return undefined
+    return describeViewport(this.deviceProfiles, { width: screenWidth, height: screenHeight, devicePixelRatio })
+  }
 
+  /**
+   * Install PerformanceObservers for layout shifts and web vitals (passive, no reload needed)
+   */
+  private installCLSObserver(): void {
     // Inject observer via Runtime.evaluate (reinstall on each navigation to reset)
     const evalId = this.messageId++
-    this.send("Runtime.evaluate", { expression: observerScript, returnByValue: false }, evalId)
+    this.send("Runtime.evaluate", { expression: PERFORMANCE_OBSERVER_SCRIPT, returnByValue: false }, evalId)
 
-    // Set up periodic polling to retrieve layout shift data
+    // Set up periodic polling to retrieve layout shift and web vitals data
     this.pollLayoutShifts()
+    this.pollWebVitals(this.webVitalsPoll)
     // this.logFn("Installed CLS observer")
   }
 
@@ -499,33 +533,13 @@ export class ScreencastManager {
       result?: { result?: { value?: unknown[] | Record<string, number> } }
     }): void => {
       if (message.id === pollId && message.result?.result?.value) {
-        const shifts = message.result.result.value as Array<{
-          score: number
-          timestamp: number
-          sources?: LayoutShiftSource[]
-        }>
+        const shifts = message.result.result.value as LayoutShift[]
         if (shifts.length > this.layoutShifts.length) {
           // New shifts detected
           const newShifts = shifts.slice(this.layoutShifts.length)
           this.layoutShifts.push(...newShifts)
           newShifts.forEach((shift) => {
-            const element = shift.sources?.[0]?.node || "unidentified"
-            const position = shift.sources?.[0]?.position
-
-            // Log with context about whether we can verify this shift
-            if (!shift.sources?.[0] || element === "unidentified" || position === null || position === undefined) {
-              this.logFn(
-                `[CDP] Unverified shift detected (score: ${shift.score.toFixed(4)}, time: ${shift.timestamp.toFixed(0)}ms) - element could not be identified, likely fixed overlay noise`
-              )
-            } else if (position === "fixed" || position === "absolute") {
-              this.logFn(
-                `[CDP] Fixed/absolute element shift detected (${element}, position: ${position}, score: ${shift.score.toFixed(4)}) - will be filtered as overlay noise`
-              )
-            } else {
-              this.logFn(
-                `[CDP] Layout shift detected (element: ${element}, position: ${position}, score: ${shift.score.toFixed(4)}, time: ${shift.timestamp.toFixed(0)}ms)`
-              )
-            }
+            this.logFn(formatLayoutShiftLog(shift))
           })
         }
       }
@@ -556,6 +570,69 @@ export class ScreencastManager {
     }
   }
 
+  /**
+   * Poll for web vitals from the injected observers
+   * Unlike layout shifts, this keeps going after the capture - INP and long tasks come from
+   * interactions, so the data is only complete when the user leaves the page.
+   */
+  private pollWebVitals(poll: number): void {
+    if (!this.ws || this.webVitalsPoll !== poll) return
+
+    const pollId = this.messageId++
+    this.send(
+      "Runtime.evaluate",
+      {
+        expression: "window.__dev3000_web_vitals__ || null",
+        returnByValue: true
+      },
+      pollId
+    )
+
+    const responseHandler = (data: Buffer): void => {
+      const message = JSON.parse(data.toString()) as { id?: number; result?: { result?: { value?: RawWebVitals } } }
+      if (message.id === pollId && message.result?.result?.value && this.webVitalsPoll === poll) {
+        this.webVitals = message.result.result.value
+      }
+    }
+
+    this.ws.on("message", responseHandler)
+
+    // Timeout after 500ms
+    setTimeout(() => {
+      if (this.ws) {
+        this.ws.off("message", responseHandler)
+      }
+    }, 500)
+
+    setTimeout(() => this.pollWebVitals(poll), this.isCapturing ? 500 : 2000)
+  }
+
+  /**
+   * Update the metadata of the page being left with its final web vitals
+   */
+  private finishWebVitals(): void {
+    const sessionId = this.webVitalsSessionId
+    this.webVitalsSessionId = ""
+    if (!sessionId || !this.webVitals) return
+
+    // Only sessions that completed their capture have metadata
+    const metadataPath = join(this.screenshotDir, `${sessionId}-metadata.json`)
+    if (!existsSync(metadataPath)) return
+
+    try {
+      const metadata = JSON.parse(readFileSync(metadataPath, "utf-8"))
+      const webVitals = summarizeWebVitals(this.webVitals)
+      if (webVitals.inp && webVitals.inp.value !== metadata.webVitals?.inp?.value) {
+        for (const line of formatWebVitalsLog(webVitals, false)) {
+          this.logFn(line)
+        }
+      }
+      writeFileSync(metadataPath, JSON.stringify({ ...metadata, webVitals }, null, 2))
+    } catch (error) {
+      this.logFn(`[CDP] Failed to update web vitals - ${error}`)
+    }
+  }
+
   /**
    * Send CDP command
    */
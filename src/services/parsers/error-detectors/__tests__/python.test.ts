@@ -0,0 +1,44 @@
+/**
+ * Tests for PythonErrorDetector with real-world Django and Flask output
+ */
+
+import { describe, expect, test } from "vitest"
+import { PythonErrorDetector } from "../python.js"
+
+describe("PythonErrorDetector", () => {
+  const detector = new PythonErrorDetector()
+
+  describe("Python Critical Errors - Should Return True", () => {
+    test("Tracebacks and their exception lines", () => {
+      expect(detector.isCritical("Traceback (most recent call last):")).toBe(true)
+      expect(detector.isCritical("django.db.utils.OperationalError: no such table: blog_post")).toBe(true)
+      expect(detector.isCritical("KeyError: 'user_id'")).toBe(true)
+    })
+
+    test("Database errors", () => {
+      expect(
+        detector.isCritical("sqlalchemy.exc.OperationalError: (psycopg2.OperationalError) connection to server failed")
+      ).toBe(true)
+      expect(detector.isCritical("You have 3 unapplied migration(s). Your project may not work properly")).toBe(true)
+    })
+
+    test("Startup errors", () => {
+      expect(
+        detector.isCritical("django.core.exceptions.ImproperlyConfigured: The SECRET_KEY setting must not be empty.")
+      ).toBe(true)
+      expect(detector.isCritical("ModuleNotFoundError: No module named 'flask_cors'")).toBe(true)
+      expect(detector.isCritical("Error: That port is already in use.")).toBe(true)
+      expect(detector.isCritical("Port 5000 is in use by another program.")).toBe(true)
+      expect(detector.isCritical("Error: Could not locate a Flask application.")).toBe(true)
+    })
+  })
+
+  describe("Normal output - Should Return False", () => {
+    test("Request logs and startup banners", () => {
+      expect(detector.isCritical('"GET / HTTP/1.1" 200 1234')).toBe(false)
+      expect(detector.isCritical(" * Running on http://127.0.0.1:5000")).toBe(false)
+      expect(detector.isCritical("Starting development server at http://127.0.0.1:8000/")).toBe(false)
+      expect(detector.isCritical("Not Found: /favicon.ico")).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Tests for RailsErrorDetector with real-world Rails and Puma output
+ */
+
+import { describe, expect, test } from "vitest"
+import { RailsErrorDetector } from "../rails.js"
+
+describe("RailsErrorDetector", () => {
+  const detector = new RailsErrorDetector()
+
+  describe("Rails Critical Errors - Should Return True", () => {
+    test("Routing and view errors", () => {
+      expect(detector.isCritical('ActionController::RoutingError (No route matches [GET] "/admin/users"):')).toBe(true)
+      expect(detector.isCritical("ActionView::Template::Error (undefined method `name' for nil):")).toBe(true)
+    })
+
+    test("Database errors", () => {
+      expect(
+        detector.isCritical("ActiveRecord::PendingMigrationError (Migrations are pending. To resolve this issue, run:")
+      ).toBe(true)
+      expect(
+        detector.isCritical('PG::ConnectionBad: connection to server at "localhost" (127.0.0.1), port 5432 failed')
+      ).toBe(true)
+      expect(
+        detector.isCritical("ActiveRecord::NoDatabaseError: We could not find your database: app_development")
+      ).toBe(true)
+    })
+
+    test("Boot errors", () => {
+      expect(detector.isCritical("Zeitwerk::NameError: expected file app/models/user.rb to define constant User")).toBe(
+        true
+      )
+      expect(detector.isCritical("Bundler::GemNotFound: Could not find gem 'pg' in locally installed gems.")).toBe(true)
+      expect(detector.isCritical('Address already in use - bind(2) for "127.0.0.1" port 3000')).toBe(true)
+      expect(detector.isCritical("A server is already running (pid: 4242, file: tmp/pids/server.pid).")).toBe(true)
+    })
+  })
+
+  describe("Rails Exclusions - Should Return False", () => {
+    test("Missing browser icons", () => {
+      expect(detector.isCritical('ActionController::RoutingError (No route matches [GET] "/favicon.ico"):')).toBe(false)
+      expect(
+        detector.isCritical('ActionController::RoutingError (No route matches [GET] "/apple-touch-icon.png"):')
+      ).toBe(false)
+    })
+
+    test("Normal request logs", () => {
+      expect(detector.isCritical('Started GET "/" for 127.0.0.1 at 2025-10-01 10:00:00 +0000')).toBe(false)
+      expect(detector.isCritical("Completed 200 OK in 12ms (Views: 8.1ms | ActiveRecord: 0.4ms)")).toBe(false)
+    })
+  })
+})
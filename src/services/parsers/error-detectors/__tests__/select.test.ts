@@ -0,0 +1,31 @@
+/**
+ * Tests for automatic error detector selection by project type and framework
+ */
+
+import { describe, expect, test } from "vitest"
+import { NextJsErrorDetector } from "../nextjs.js"
+import { PythonErrorDetector } from "../python.js"
+import { RailsErrorDetector } from "../rails.js"
+import { RemixErrorDetector } from "../remix.js"
+import { createErrorDetector } from "../select.js"
+import { SvelteKitErrorDetector } from "../sveltekit.js"
+import { ViteErrorDetector } from "../vite.js"
+
+describe("createErrorDetector", () => {
+  test("selects by project type", () => {
+    expect(createErrorDetector("python")).toBeInstanceOf(PythonErrorDetector)
+    expect(createErrorDetector("rails")).toBeInstanceOf(RailsErrorDetector)
+  })
+
+  test("selects by node framework", () => {
+    expect(createErrorDetector("node", "svelte")).toBeInstanceOf(SvelteKitErrorDetector)
+    expect(createErrorDetector("node", "remix")).toBeInstanceOf(RemixErrorDetector)
+    expect(createErrorDetector("node", "vite")).toBeInstanceOf(ViteErrorDetector)
+    expect(createErrorDetector("node", "nextjs")).toBeInstanceOf(NextJsErrorDetector)
+  })
+
+  test("falls back to Next.js for other and unknown projects", () => {
+    expect(createErrorDetector("node", "other")).toBeInstanceOf(NextJsErrorDetector)
+    expect(createErrorDetector()).toBeInstanceOf(NextJsErrorDetector)
+  })
+})
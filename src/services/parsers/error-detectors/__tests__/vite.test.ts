@@ -0,0 +1,68 @@
+/**
+ * Tests for the Vite-based detectors (Vite, SvelteKit, Remix) with real-world dev server output
+ */
+
+import { describe, expect, test } from "vitest"
+import { RemixErrorDetector } from "../remix.js"
+import { SvelteKitErrorDetector } from "../sveltekit.js"
+import { ViteErrorDetector } from "../vite.js"
+
+describe("ViteErrorDetector", () => {
+  const detector = new ViteErrorDetector()
+
+  test("Dev server transform errors are critical", () => {
+    expect(detector.isCritical("10:12:03 AM [vite] Internal server error: Transform failed with 1 error:")).toBe(true)
+    expect(
+      detector.isCritical(
+        '[plugin:vite:import-analysis] Failed to resolve import "./Missing" from "src/App.tsx". Does the file exist?'
+      )
+    ).toBe(true)
+    expect(detector.isCritical("10:12:03 AM [vite] Pre-transform error: Unexpected token (12:4)")).toBe(true)
+    expect(detector.isCritical('✘ [ERROR] Expected ">" but found "}"')).toBe(true)
+  })
+
+  test("Config and dependency errors are critical", () => {
+    expect(detector.isCritical("failed to load config from /app/vite.config.ts")).toBe(true)
+    expect(detector.isCritical("error when starting dev server:")).toBe(true)
+    expect(detector.isCritical("[vite] error while updating dependencies:")).toBe(true)
+  })
+
+  test("HMR updates and normal output are not critical", () => {
+    expect(detector.isCritical("10:12:03 AM [vite] hmr update /src/components/ErrorBanner.tsx")).toBe(false)
+    expect(detector.isCritical("10:12:03 AM [vite] page reload src/error.ts")).toBe(false)
+    expect(detector.isCritical("VITE v5.4.0  ready in 312 ms")).toBe(false)
+  })
+})
+
+describe("SvelteKitErrorDetector", () => {
+  const detector = new SvelteKitErrorDetector()
+
+  test("Svelte compiler and SvelteKit errors are critical", () => {
+    expect(detector.isCritical("[plugin:vite-plugin-svelte] src/routes/+page.svelte:4:2 Unexpected token")).toBe(true)
+    expect(detector.isCritical("CompileError: Expected '}' (src/lib/Card.svelte:12:3)")).toBe(true)
+    expect(detector.isCritical("Cannot import $env/static/private into client-side code")).toBe(true)
+  })
+
+  test("Inherits Vite errors", () => {
+    expect(detector.isCritical("[vite] Internal server error: Cannot find module 'foo'")).toBe(true)
+  })
+
+  test("404s are not critical", () => {
+    expect(detector.isCritical("Error: Not found: /favicon.png")).toBe(false)
+    expect(detector.isCritical("SvelteKitError: Not found: /missing")).toBe(false)
+  })
+})
+
+describe("RemixErrorDetector", () => {
+  const detector = new RemixErrorDetector()
+
+  test("Remix config and route errors are critical", () => {
+    expect(detector.isCritical("Error loading Remix config at /app/remix.config.js")).toBe(true)
+    expect(detector.isCritical("✘ [ERROR] Build failed with 1 error")).toBe(true)
+    expect(detector.isCritical("Server-only module referenced by client")).toBe(true)
+  })
+
+  test("Unmatched routes are not critical", () => {
+    expect(detector.isCritical('Error: No route matches URL "/favicon.ico"')).toBe(false)
+  })
+})
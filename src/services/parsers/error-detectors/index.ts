@@ -4,3 +4,9 @@
 
 export { BaseErrorDetector, ErrorDetector } from "./base.js"
 export { NextJsErrorDetector } from "./nextjs.js"
+export { PythonErrorDetector } from "./python.js"
+export { RailsErrorDetector } from "./rails.js"
+export { RemixErrorDetector } from "./remix.js"
+export { createErrorDetector } from "./select.js"
+export { SvelteKitErrorDetector } from "./sveltekit.js"
+export { ViteErrorDetector } from "./vite.js"
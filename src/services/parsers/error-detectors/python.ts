@@ -0,0 +1,36 @@
+/**
+ * Python error detector for Django and Flask applications
+ * Extends base detector with Python traceback and framework error patterns
+ */
+
+import { BaseErrorDetector } from "./base.js"
+
+export class PythonErrorDetector extends BaseErrorDetector {
+  isCritical(message: string): boolean {
+    if (super.isCritical(message)) {
+      return true
+    }
+
+    const criticalPatterns = [
+      // Uncaught exceptions - the traceback header and the final exception line
+      /Traceback \(most recent call last\)/,
+      /^\w+(\.\w+)*(Error|Exception): /, // e.g. "django.db.utils.OperationalError: no such table"
+
+      // Database errors
+      /OperationalError/, // Django/SQLAlchemy connection and schema errors
+      /ProgrammingError/, // Missing tables/columns
+      /You have \d+ unapplied migration/, // Django pending migrations
+
+      // Startup errors
+      /ImproperlyConfigured/, // Django settings errors
+      /ModuleNotFoundError|ImportError/, // Missing packages or bad imports
+      /IndentationError|TabError/, // Python syntax errors
+      /Error: That port is already in use/, // Django runserver port conflict
+      /Port \d+ is in use by another program/, // Flask port conflict
+      /Error: Could not locate a Flask application/, // FLASK_APP not set
+      /Error: While importing/ // Flask app import failures
+    ]
+
+    return criticalPatterns.some((pattern) => pattern.test(message))
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Rails error detector for Ruby on Rails applications
+ * Extends base detector with Rails, ActiveRecord and Puma error patterns
+ */
+
+import { BaseErrorDetector } from "./base.js"
+
+export class RailsErrorDetector extends BaseErrorDetector {
+  isCritical(message: string): boolean {
+    // Browsers request these on every page - missing ones are noise, not app errors
+    if (/RoutingError.*\/(favicon\.ico|apple-touch-icon)/.test(message)) {
+      return false
+    }
+
+    if (super.isCritical(message)) {
+      return true
+    }
+
+    const criticalPatterns = [
+      // Request-level errors
+      /ActionController::RoutingError/, // No route matches
+      /ActionView::Template::Error/, // Errors while rendering views
+      /AbstractController::ActionNotFound/, // Route points to a missing action
+
+      // Database errors
+      /ActiveRecord::PendingMigrationError/, // Pending migrations block every request
+      /Migrations are pending/, // Same error, message form
+      /ActiveRecord::NoDatabaseError/, // Database not created
+      /ActiveRecord::ConnectionNotEstablished/, // Database not reachable
+      /PG::ConnectionBad/, // PostgreSQL connection failures
+      /PG::UndefinedTable|PG::UndefinedColumn/, // Schema out of date
+      /Mysql2::Error::ConnectionError/, // MySQL connection failures
+
+      // Boot errors
+      /Zeitwerk::NameError/, // Autoloading errors (file/constant mismatch)
+      /NameError: uninitialized constant/, // Missing constants
+      /LoadError/, // Missing files or native extensions
+      /Bundler::GemNotFound|Could not find gem/, // Missing gems
+      /Address already in use - bind\(2\)/, // Puma port conflicts
+      /A server is already running/ // Stale server.pid
+    ]
+
+    return criticalPatterns.some((pattern) => pattern.test(message))
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Remix error detector for Remix applications
+ * Extends the Vite detector with Remix compiler and route module errors
+ */
+
+import { ViteErrorDetector } from "./vite.js"
+
+export class RemixErrorDetector extends ViteErrorDetector {
+  isCritical(message: string): boolean {
+    // Unmatched routes are answered with the 404 boundary, not a crash
+    if (/No route matches URL/.test(message)) {
+      return false
+    }
+
+    if (super.isCritical(message)) {
+      return true
+    }
+
+    const criticalPatterns = [
+      /Error loading Remix config/, // remix.config.js errors prevent startup
+      /Remix Vite plugin.*(error|failed)/i, // Plugin setup failures
+      /\[remix\].*error/i, // Errors logged by the Remix dev server
+      /Route "[^"]+" (does not|has no|must)/, // Invalid route modules
+      /Server-only module referenced by client/, // .server modules imported from the client
+      /Build failed with \d+ error/ // esbuild compiler (classic Remix compiler)
+    ]
+
+    return criticalPatterns.some((pattern) => pattern.test(message))
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Automatic error detector selection
+ * Picks the detector matching the project type and framework detected by the CLI
+ */
+
+import type { ErrorDetector } from "./base.js"
+import { NextJsErrorDetector } from "./nextjs.js"
+import { PythonErrorDetector } from "./python.js"
+import { RailsErrorDetector } from "./rails.js"
+import { RemixErrorDetector } from "./remix.js"
+import { SvelteKitErrorDetector } from "./sveltekit.js"
+import { ViteErrorDetector } from "./vite.js"
+
+/**
+ * Create the error detector for a project
+ * @param projectType Project type from detectProjectType() ("node", "python" or "rails")
+ * @param framework Framework of node projects
+ * @returns The framework's detector, the Next.js detector for other node projects
+ */
+export function createErrorDetector(projectType?: string, framework?: string): ErrorDetector {
+  if (projectType === "python") {
+    return new PythonErrorDetector()
+  }
+  if (projectType === "rails") {
+    return new RailsErrorDetector()
+  }
+
+  switch (framework) {
+    case "svelte":
+      return new SvelteKitErrorDetector()
+    case "remix":
+      return new RemixErrorDetector()
+    case "vite":
+      return new ViteErrorDetector()
+    default:
+      // Next.js apps don't need a next.config file, so it stays the default for other node projects
+      return new NextJsErrorDetector()
+  }
+}
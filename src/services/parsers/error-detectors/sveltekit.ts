@@ -0,0 +1,31 @@
+/**
+ * SvelteKit error detector for SvelteKit applications
+ * Extends the Vite detector with Svelte compiler and SvelteKit routing errors
+ */
+
+import { ViteErrorDetector } from "./vite.js"
+
+export class SvelteKitErrorDetector extends ViteErrorDetector {
+  isCritical(message: string): boolean {
+    // SvelteKit logs every unmatched request; a 404 doesn't affect the app
+    if (/Error: Not found: \//.test(message) || /SvelteKitError: Not found/.test(message)) {
+      return false
+    }
+
+    if (super.isCritical(message)) {
+      return true
+    }
+
+    const criticalPatterns = [
+      /\[plugin:vite-plugin-svelte\]/, // Svelte compile errors surfaced through Vite
+      /\[vite-plugin-svelte\].*error/i, // vite-plugin-svelte failures
+      /CompileError/, // Svelte compiler errors
+      /Failed to load svelte\.config/, // Config errors prevent startup
+      /Files prefixed with \+ are reserved/, // Invalid route files
+      /Cannot import \$env\/static\/private into client-side code/, // Server-only module leaks
+      /Cannot import \$lib\/server/ // Server-only module leaks
+    ]
+
+    return criticalPatterns.some((pattern) => pattern.test(message))
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Vite error detector for Vite-powered dev servers
+ * Extends base detector with Vite and esbuild/Rollup error patterns
+ */
+
+import { BaseErrorDetector } from "./base.js"
+
+export class ViteErrorDetector extends BaseErrorDetector {
+  isCritical(message: string): boolean {
+    // HMR noise that mentions errors without breaking the dev server
+    const exclusionPatterns = [
+      /\[vite\] (hmr update|page reload|hot updated)/, // Successful HMR updates of files named *error*
+      /\[vite\] connected/ // Client connection messages
+    ]
+
+    if (exclusionPatterns.some((pattern) => pattern.test(message))) {
+      return false
+    }
+
+    if (super.isCritical(message)) {
+      return true
+    }
+
+    const criticalPatterns = [
+      // Transform/compile errors reported by the dev server
+      /\[vite\] Internal server error/, // Any error while serving a module
+      /\[plugin:vite:[\w-]+\]/, // Plugin errors (import analysis, css, esbuild, react-babel, ...)
+      /Pre-transform error/, // Errors while pre-transforming imports
+      /Failed to resolve import/, // Missing imports
+      /Failed to load url/, // Modules that can't be loaded at all
+
+      // Dependency optimization and config errors that stop the server
+      /error while updating dependencies/, // Dependency pre-bundling failures
+      /failed to load config from/, // vite.config errors
+      /error when starting dev server/, // Startup failures
+
+      // esbuild errors ("✘ [ERROR] Expected ... but found ...")
+      /✘ \[ERROR\]/
+    ]
+
+    return criticalPatterns.some((pattern) => pattern.test(message))
+  }
+}
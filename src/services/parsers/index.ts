@@ -3,12 +3,32 @@
  * Only exposes what external consumers need
  */
 
-export { NextJsErrorDetector } from "./error-detectors/nextjs.js"
+// Error detectors and automatic selection by project type
+export {
+  createErrorDetector,
+  NextJsErrorDetector,
+  PythonErrorDetector,
+  RailsErrorDetector,
+  RemixErrorDetector,
+  SvelteKitErrorDetector,
+  ViteErrorDetector
+} from "./error-detectors/index.js"
 
-// Concrete implementations for Next.js
-export { StandardLogParser } from "./log-parsers/standard.js"
+// Log format parsers and automatic selection by server command
+export {
+  createLogFormatParser,
+  DockerComposeLogParser,
+  detectLogFormat,
+  ForemanLogParser,
+  LogFormat,
+  OvermindLogParser,
+  StandardLogParser,
+  TurboLogParser
+} from "./log-parsers/index.js"
 // Main output processor and types
 export {
   LogEntry,
   OutputProcessor
 } from "./output-processor.js"
+// Stack trace parsing for grouped error entries
+export { parseStackFrame, parseStackFrames, StackFrame } from "./stack-trace.js"
@@ -0,0 +1,129 @@
+/**
+ * Tests for the multiplexed log format parsers and their automatic selection
+ */
+
+import { mkdtempSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { describe, expect, test } from "vitest"
+import { DockerComposeLogParser } from "../docker-compose.js"
+import { ForemanLogParser } from "../foreman.js"
+import { OvermindLogParser } from "../overmind.js"
+import { createLogFormatParser, detectLogFormat } from "../select.js"
+import { StandardLogParser } from "../standard.js"
+import { TurboLogParser } from "../turbo.js"
+
+describe("ForemanLogParser", () => {
+  const parser = new ForemanLogParser()
+
+  test("parses process name, instance and timestamp", () => {
+    const [line] = parser.parse("10:22:01 web.1  | Started GET / for 127.0.0.1")
+
+    expect(line).toEqual({
+      formatted: "[WEB] Started GET / for 127.0.0.1",
+      message: "Started GET / for 127.0.0.1",
+      processName: "web",
+      metadata: { instance: 1, timestamp: "10:22:01" }
+    })
+  })
+
+  test("strips ANSI colors from the prefix", () => {
+    const [line] = parser.parse("\x1b[36m10:22:01 css.1  |\x1b[0m Done in 120ms.")
+
+    expect(line.processName).toBe("css")
+    expect(line.message).toBe("Done in 120ms.")
+  })
+
+  test("passes lines without a prefix through", () => {
+    const [line] = parser.parse("Rails 7.1.0 application starting")
+
+    expect(line).toEqual({ formatted: "Rails 7.1.0 application starting", message: "Rails 7.1.0 application starting" })
+  })
+})
+
+describe("OvermindLogParser", () => {
+  test("parses padded process names", () => {
+    const lines = new OvermindLogParser().parse("web    | Puma starting\nworker | Sidekiq ready")
+
+    expect(lines.map((line) => [line.processName, line.formatted])).toEqual([
+      ["web", "[WEB] Puma starting"],
+      ["worker", "[WORKER] Sidekiq ready"]
+    ])
+  })
+})
+
+describe("TurboLogParser", () => {
+  const parser = new TurboLogParser()
+
+  test("parses package and task", () => {
+    const [line] = parser.parse("app:dev:  ▲ Next.js 16.0.0")
+
+    expect(line.processName).toBe("app")
+    expect(line.message).toBe(" ▲ Next.js 16.0.0")
+    expect(line.metadata).toEqual({ task: "dev" })
+  })
+
+  test("parses scoped package names", () => {
+    const [line] = parser.parse("@acme/web:dev: Failed to compile")
+
+    expect(line.processName).toBe("@acme/web")
+    expect(line.formatted).toBe("[@ACME/WEB] Failed to compile")
+  })
+
+  test("does not treat URLs as prefixes", () => {
+    const [line] = parser.parse("http://localhost:3000 is ready")
+
+    expect(line.processName).toBeUndefined()
+  })
+})
+
+describe("DockerComposeLogParser", () => {
+  const parser = new DockerComposeLogParser()
+
+  test("parses compose v2 service names", () => {
+    const [line] = parser.parse("web-1    | Listening on port 3000")
+
+    expect(line).toMatchObject({
+      processName: "web",
+      message: "Listening on port 3000",
+      metadata: { container: "web-1", replica: 1 }
+    })
+  })
+
+  test("drops the compose v1 project prefix", () => {
+    const [line] = parser.parse("myapp_db_1  | database system is ready to accept connections")
+
+    expect(line.processName).toBe("db")
+    expect(line.metadata).toEqual({ container: "myapp_db-1", replica: 1 })
+  })
+})
+
+describe("detectLogFormat", () => {
+  test("detects process managers from the command", () => {
+    expect(detectLogFormat("foreman start -f Procfile.dev")).toBe("foreman")
+    expect(detectLogFormat("bin/dev")).toBe("foreman")
+    expect(detectLogFormat("overmind start")).toBe("overmind")
+    expect(detectLogFormat("turbo run dev --filter=web")).toBe("turbo")
+    expect(detectLogFormat("pnpm exec turbo dev")).toBe("turbo")
+    expect(detectLogFormat("docker compose up")).toBe("docker-compose")
+    expect(detectLogFormat("next dev")).toBe("standard")
+  })
+
+  test("does not take next dev --turbo for turbo", () => {
+    expect(detectLogFormat("next dev --turbo")).toBe("standard")
+    expect(detectLogFormat("npx next dev --turbopack")).toBe("standard")
+  })
+
+  test("looks through package.json scripts", () => {
+    const dir = mkdtempSync(join(tmpdir(), "d3k-log-format-"))
+    writeFileSync(join(dir, "package.json"), JSON.stringify({ scripts: { dev: "turbo dev", start: "next start" } }))
+
+    expect(detectLogFormat("pnpm run dev", dir)).toBe("turbo")
+    expect(detectLogFormat("npm start", dir)).toBe("standard")
+  })
+
+  test("creates the matching parser", () => {
+    expect(createLogFormatParser("turbo")).toBeInstanceOf(TurboLogParser)
+    expect(createLogFormatParser("standard")).toBeInstanceOf(StandardLogParser)
+  })
+})
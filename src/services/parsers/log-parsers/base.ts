@@ -25,3 +25,55 @@ export interface LogFormatParser {
    */
   parse(text: string): ParsedLogLine[]
 }
+
+/**
+ * Result of matching a process prefix on a single line
+ */
+export interface ProcessPrefixMatch {
+  processName: string
+  message: string
+  metadata?: Record<string, unknown>
+}
+
+// Process managers color their prefixes when they think they're writing to a terminal
+// biome-ignore lint/suspicious/noControlCharactersInRegex: matching ANSI escape sequences
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g
+
+/**
+ * Base parser for multiplexed output where every line is prefixed with the name
+ * of the process that wrote it (foreman, overmind, turbo, docker compose, ...)
+ * Subclasses only need to recognize their prefix; lines without one are passed
+ * through like the StandardLogParser does.
+ */
+export abstract class PrefixedLogParser implements LogFormatParser {
+  /**
+   * Match the process prefix of a line (ANSI colors already removed)
+   * @returns The process name and message, or null when the line has no prefix
+   */
+  protected abstract matchPrefix(line: string): ProcessPrefixMatch | null
+
+  parse(text: string): ParsedLogLine[] {
+    if (!text?.trim()) {
+      return []
+    }
+
+    const lines = text.trim().split("\n").filter(Boolean)
+    return lines.map((rawLine) => {
+      const line = rawLine.replace(ANSI_PATTERN, "").trimEnd()
+      const match = this.matchPrefix(line)
+      if (!match) {
+        return { formatted: line, message: line }
+      }
+
+      const parsed: ParsedLogLine = {
+        formatted: `[${match.processName.toUpperCase()}] ${match.message}`,
+        message: match.message,
+        processName: match.processName
+      }
+      if (match.metadata) {
+        parsed.metadata = match.metadata
+      }
+      return parsed
+    })
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Docker Compose log parser for containerized dev environments
+ * Handles "docker compose up" output (e.g., "web-1  | Listening on port 3000")
+ */
+
+import { PrefixedLogParser, type ProcessPrefixMatch } from "./base.js"
+
+export class DockerComposeLogParser extends PrefixedLogParser {
+  protected matchPrefix(line: string): ProcessPrefixMatch | null {
+    // Compose v2 uses "service-1", v1 used "project_service_1"; both pad the name before "|"
+    const match = line.match(/^([\w.-]+?)[-_](\d+)\s*\|\s?(.*)$/)
+    if (!match) {
+      return null
+    }
+
+    const [, container, replica, message] = match
+    // Drop the v1 project prefix ("myapp_web" -> "web")
+    const processName = container.includes("_") ? container.slice(container.lastIndexOf("_") + 1) : container
+    return { processName, message, metadata: { container: `${container}-${replica}`, replica: Number(replica) } }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Foreman log parser for Procfile-based apps
+ * Handles foreman/honcho output (e.g., "10:22:01 web.1  | Started GET /")
+ */
+
+import { PrefixedLogParser, type ProcessPrefixMatch } from "./base.js"
+
+export class ForemanLogParser extends PrefixedLogParser {
+  protected matchPrefix(line: string): ProcessPrefixMatch | null {
+    // Optional HH:MM:SS timestamp, process name with instance number, padding, then "|"
+    const match = line.match(/^(?:(\d{1,2}:\d{2}:\d{2})\s+)?([\w-]+)\.(\d+)\s*\|\s?(.*)$/)
+    if (!match) {
+      return null
+    }
+
+    const [, timestamp, processName, instance, message] = match
+    return {
+      processName,
+      message,
+      metadata: {
+        instance: Number(instance),
+        ...(timestamp ? { timestamp } : {})
+      }
+    }
+  }
+}
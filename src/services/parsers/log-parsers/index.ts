@@ -2,5 +2,10 @@
  * Log format parsers module exports
  */
 
-export { LogFormatParser, ParsedLogLine } from "./base.js"
+export { LogFormatParser, ParsedLogLine, PrefixedLogParser, ProcessPrefixMatch } from "./base.js"
+export { DockerComposeLogParser } from "./docker-compose.js"
+export { ForemanLogParser } from "./foreman.js"
+export { OvermindLogParser } from "./overmind.js"
+export { createLogFormatParser, detectLogFormat, LogFormat } from "./select.js"
 export { StandardLogParser } from "./standard.js"
+export { TurboLogParser } from "./turbo.js"
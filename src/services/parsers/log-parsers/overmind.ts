@@ -0,0 +1,19 @@
+/**
+ * Overmind log parser for Procfile-based apps
+ * Handles overmind/hivemind output (e.g., "web    | Started GET /")
+ */
+
+import { PrefixedLogParser, type ProcessPrefixMatch } from "./base.js"
+
+export class OvermindLogParser extends PrefixedLogParser {
+  protected matchPrefix(line: string): ProcessPrefixMatch | null {
+    // Process name padded to the longest name in the Procfile, then "|"
+    const match = line.match(/^([\w-]+)\s*\|\s?(.*)$/)
+    if (!match) {
+      return null
+    }
+
+    const [, processName, message] = match
+    return { processName, message }
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Automatic log format parser selection
+ * Picks the parser matching the process manager that the server command runs
+ */
+
+import { existsSync, readFileSync } from "fs"
+import { join } from "path"
+import type { LogFormatParser } from "./base.js"
+import { DockerComposeLogParser } from "./docker-compose.js"
+import { ForemanLogParser } from "./foreman.js"
+import { OvermindLogParser } from "./overmind.js"
+import { StandardLogParser } from "./standard.js"
+import { TurboLogParser } from "./turbo.js"
+
+export type LogFormat = "standard" | "foreman" | "overmind" | "turbo" | "docker-compose"
+
+const FORMAT_PATTERNS: Array<[LogFormat, RegExp]> = [
+  ["docker-compose", /\bdocker[- ]compose\b/],
+  ["overmind", /\b(overmind|hivemind)\b/],
+  ["foreman", /\b(foreman|honcho|nf)\s+start\b|(^|[\s/])bin\/dev\b/],
+  // Only turbo as the command itself, next dev --turbo is a plain Next.js server
+  ["turbo", /^\s*(?:(?:npx|bunx|yarn|pnpm(?:\s+(?:exec|dlx))?)\s+)?turbo(?:\s|$)/]
+]
+
+/**
+ * Resolve "npm run dev"-style commands to the script they run
+ * so e.g. a "dev": "turbo dev" script is detected as turbo
+ */
+function resolvePackageScript(command: string, cwd: string): string | null {
+  const match = command.trim().match(/^(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?([\w:.-]+)$/)
+  if (!match) {
+    return null
+  }
+
+  try {
+    const packageJsonPath = join(cwd, "package.json")
+    if (!existsSync(packageJsonPath)) {
+      return null
+    }
+    const packageJson = JSON.parse(readFileSync(packageJsonPath, "utf-8"))
+    const script = packageJson.scripts?.[match[1]]
+    return typeof script === "string" ? script : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Detect the log format of a server command
+ * @param command The command used to start the dev server
+ * @param cwd Directory the command runs in (used to look up package.json scripts)
+ * @returns The detected format, "standard" when no process manager is recognized
+ */
+export function detectLogFormat(command: string, cwd: string = process.cwd()): LogFormat {
+  const candidates = [command, resolvePackageScript(command, cwd)].filter((c): c is string => Boolean(c))
+
+  for (const candidate of candidates) {
+    for (const [format, pattern] of FORMAT_PATTERNS) {
+      if (pattern.test(candidate)) {
+        return format
+      }
+    }
+  }
+  return "standard"
+}
+
+/**
+ * Create the log format parser for a format
+ */
+export function createLogFormatParser(format: LogFormat): LogFormatParser {
+  switch (format) {
+    case "foreman":
+      return new ForemanLogParser()
+    case "overmind":
+      return new OvermindLogParser()
+    case "turbo":
+      return new TurboLogParser()
+    case "docker-compose":
+      return new DockerComposeLogParser()
+    default:
+      return new StandardLogParser()
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Turborepo log parser for monorepo dev tasks
+ * Handles turbo output prefixed with package and task (e.g., "web:dev: ready started server on ...")
+ */
+
+import { PrefixedLogParser, type ProcessPrefixMatch } from "./base.js"
+
+export class TurboLogParser extends PrefixedLogParser {
+  protected matchPrefix(line: string): ProcessPrefixMatch | null {
+    // Package names may be scoped ("@acme/web:dev: ..."); the task name never contains ":"
+    const match = line.match(/^((?:@[\w.-]+\/)?[\w.-]+):([\w.-]+): ?(.*)$/)
+    if (!match) {
+      return null
+    }
+
+    const [, processName, task, message] = match
+    return { processName, message, metadata: { task } }
+  }
+}
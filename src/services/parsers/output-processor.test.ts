@@ -5,6 +5,7 @@
 import { describe, expect, it } from "vitest"
 import { NextJsErrorDetector } from "./error-detectors/nextjs.js"
 import { StandardLogParser } from "./log-parsers/standard.js"
+import { TurboLogParser } from "./log-parsers/turbo.js"
 import { OutputProcessor } from "./output-processor.js"
 
 describe("OutputProcessor with Next.js Log Detection", () => {
@@ -76,3 +77,83 @@ describe("OutputProcessor with Next.js Log Detection", () => {
     expect(result).toHaveLength(0)
   })
 })
+
+describe("OutputProcessor with multiplexed output", () => {
+  const processor = new OutputProcessor(new TurboLogParser(), new NextJsErrorDetector())
+
+  it("should carry the process name and detect errors in the unprefixed message", () => {
+    const result = processor.process("web:dev: Failed to compile", true)
+
+    expect(result).toHaveLength(1)
+    expect(result[0].formatted).toBe("ERROR: [WEB] Failed to compile")
+    expect(result[0].processName).toBe("web")
+    expect(result[0].isCritical).toBe(true)
+    expect(result[0].rawMessage).toBe("Failed to compile")
+  })
+})
+
+describe("OutputProcessor stack trace grouping", () => {
+  const processor = new OutputProcessor(new StandardLogParser(), new NextJsErrorDetector())
+
+  it("should group Node stack frames with their error", () => {
+    const result = processor.process(
+      [
+        "TypeError: Cannot read properties of undefined (reading 'id')",
+        "    at getUser (/app/lib/users.js:12:7)",
+        "    at async handler (/app/app/api/users/route.js:8:16)",
+        "    ... 2 lines matching cause stack trace ...",
+        "GET /api/users 500 in 31ms"
+      ].join("\n"),
+      true
+    )
+
+    expect(result).toHaveLength(2)
+    expect(result[0].formatted.split("\n")).toHaveLength(4)
+    expect(result[0].formatted.startsWith("ERROR: TypeError")).toBe(true)
+    expect(result[0].stack).toEqual([
+      { file: "/app/lib/users.js", line: 12, column: 7, function: "getUser" },
+      { file: "/app/app/api/users/route.js", line: 8, column: 16, function: "handler" }
+    ])
+    expect(result[1].formatted).toBe("ERROR: GET /api/users 500 in 31ms")
+    expect(result[1].stack).toBeUndefined()
+  })
+
+  it("should group a Python traceback including its exception line", () => {
+    const result = processor.process(
+      [
+        "Traceback (most recent call last):",
+        '  File "/app/blog/views.py", line 18, in detail',
+        "    post = Post.objects.get(pk=pk)",
+        "SyntaxError: invalid syntax",
+        '"GET /posts/1 HTTP/1.1" 500 145'
+      ].join("\n"),
+      true
+    )
+
+    expect(result).toHaveLength(2)
+    expect(result[0].stack).toEqual([{ file: "/app/blog/views.py", line: 18, function: "detail" }])
+    // The exception line is checked too, not just the first line
+    expect(result[0].isCritical).toBe(true)
+    expect(result[0].rawMessage).toBe("Traceback (most recent call last):\nSyntaxError: invalid syntax")
+  })
+
+  it("should group Ruby backtraces", () => {
+    const result = processor.process(
+      [
+        "/app/app.rb:3:in 'greet': undefined method 'upcase' for nil (NoMethodError)",
+        "\tfrom /app/app.rb:7:in '<main>'"
+      ].join("\n"),
+      false
+    )
+
+    expect(result).toHaveLength(1)
+    expect(result[0].stack).toEqual([{ file: "/app/app.rb", line: 7, function: "<main>" }])
+  })
+
+  it("should not group frames of different processes", () => {
+    const multiplexed = new OutputProcessor(new TurboLogParser(), new NextJsErrorDetector())
+    const result = multiplexed.process("web:dev: Error: boom\napi:dev:     at start (/api/index.js:1:1)", true)
+
+    expect(result).toHaveLength(2)
+  })
+})
@@ -5,6 +5,13 @@
 
 import type { ErrorDetector } from "./error-detectors/index.js"
 import type { LogFormatParser } from "./log-parsers/index.js"
+import {
+  continueStackTrace,
+  parseStackFrame,
+  type StackFrame,
+  type StackTraceState,
+  startsStackTrace
+} from "./stack-trace.js"
 
 /**
  * Log entry structure for processed output
@@ -13,6 +20,19 @@ export interface LogEntry {
   formatted: string // Ready-to-log formatted message
   isCritical?: boolean // Optional flag for critical errors that should be shown to console
   rawMessage?: string // Optional raw message for critical error display
+  processName?: string // Process that wrote the line, for multiplexed output (e.g., "web")
+  stack?: StackFrame[] // Frames of a grouped stack trace, in the order the runtime printed them
+}
+
+/**
+ * Entry being built while continuation lines are grouped into it
+ */
+interface PendingEntry {
+  formatted: string[]
+  messages: string[] // Lines that aren't frames (error header, Python exception line, ...)
+  frames: StackFrame[]
+  processName?: string
+  state: StackTraceState | null
 }
 
 /**
@@ -35,20 +55,59 @@ export class OutputProcessor {
     // First, parse the log format to extract structured information
     const parsedLines = this.logFormatParser.parse(text)
 
-    // Then, apply error detection and create log entries
-    return parsedLines.map((line) => {
-      // For error output, check if it's critical
-      const isCritical = isError && this.errorDetector.isCritical(line.message)
+    // Then, group stack trace continuation lines with the error they belong to.
+    // Traces are only grouped within one chunk of output, which is how runtimes write them.
+    const pending: PendingEntry[] = []
+    for (const line of parsedLines) {
+      const current = pending[pending.length - 1]
+      const state =
+        current && current.processName === line.processName ? continueStackTrace(line.message, current.state) : null
+
+      const frame = parseStackFrame(line.message)
+      if (current && state) {
+        current.formatted.push(line.message)
+        if (frame) {
+          current.frames.push(frame)
+        } else if (!/^\s/.test(line.message)) {
+          // Indented lines are source excerpts or elided frames, not part of the error message
+          current.messages.push(line.message)
+        }
+        current.state = state
+        continue
+      }
+
+      pending.push({
+        formatted: [line.formatted],
+        messages: [line.message],
+        frames: [],
+        processName: line.processName,
+        state: startsStackTrace(line.message)
+      })
+    }
+
+    // Finally, apply error detection and create log entries
+    return pending.map((group) => {
+      // For error output, check if it's critical - frames are never the error itself
+      const isCritical = isError && group.messages.some((message) => this.errorDetector.isCritical(message))
+      const formatted = group.formatted.join("\n")
 
       // Build the log entry
       const entry: LogEntry = {
-        formatted: isError ? `ERROR: ${line.formatted}` : line.formatted
+        formatted: isError ? `ERROR: ${formatted}` : formatted
+      }
+
+      if (group.processName) {
+        entry.processName = group.processName
+      }
+
+      if (group.frames.length > 0) {
+        entry.stack = group.frames
       }
 
       // Add critical error information if applicable
       if (isCritical) {
         entry.isCritical = true
-        entry.rawMessage = line.message
+        entry.rawMessage = group.messages.join("\n")
       }
 
       return entry
@@ -0,0 +1,80 @@
+/**
+ * Tests for stack frame parsing across runtimes
+ */
+
+import { describe, expect, it } from "vitest"
+import { continueStackTrace, parseStackFrame } from "./stack-trace.js"
+
+describe("parseStackFrame", () => {
+  it("should parse Node frames with and without a function name", () => {
+    expect(parseStackFrame("    at getUser (/app/lib/users.js:12:7)")).toEqual({
+      file: "/app/lib/users.js",
+      line: 12,
+      column: 7,
+      function: "getUser"
+    })
+    expect(parseStackFrame("    at async Promise.all (index 0)")).toEqual({
+      file: "index 0",
+      function: "Promise.all"
+    })
+    expect(parseStackFrame("    at /app/server.js:40:3")).toEqual({ file: "/app/server.js", line: 40, column: 3 })
+    expect(
+      parseStackFrame("    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)")
+    ).toEqual({
+      file: "node:internal/process/task_queues",
+      line: 95,
+      column: 5,
+      function: "process.processTicksAndRejections"
+    })
+  })
+
+  it("should keep the bundled location of source-mapped browser frames", () => {
+    expect(
+      parseStackFrame("    at Page (app/page.tsx:42:7) [http://localhost:3000/_next/static/chunks/app/page.js:1:4033]")
+    ).toEqual({
+      file: "app/page.tsx",
+      line: 42,
+      column: 7,
+      function: "Page",
+      bundled: "http://localhost:3000/_next/static/chunks/app/page.js:1:4033"
+    })
+  })
+
+  it("should parse Python frames", () => {
+    expect(parseStackFrame('  File "/app/blog/views.py", line 18, in detail')).toEqual({
+      file: "/app/blog/views.py",
+      line: 18,
+      function: "detail"
+    })
+  })
+
+  it("should parse Ruby frames in both quoting styles", () => {
+    expect(parseStackFrame("app/controllers/users_controller.rb:5:in `show'")).toEqual({
+      file: "app/controllers/users_controller.rb",
+      line: 5,
+      function: "show"
+    })
+    expect(parseStackFrame("\tfrom /app/app.rb:7:in '<main>'")).toEqual({
+      file: "/app/app.rb",
+      line: 7,
+      function: "<main>"
+    })
+  })
+
+  it("should not parse regular log lines", () => {
+    expect(parseStackFrame("Started GET / for 127.0.0.1")).toBeNull()
+    expect(parseStackFrame("Error: at least one item is required")).toBeNull()
+  })
+})
+
+describe("continueStackTrace", () => {
+  it("should end a Python traceback after the exception line", () => {
+    expect(continueStackTrace('  File "app.py", line 3, in <module>', "python")).toBe("python")
+    expect(continueStackTrace("ValueError: bad value", "python")).toBe("python-end")
+    expect(continueStackTrace("127.0.0.1 - - GET / 500", "python-end")).toBeNull()
+  })
+
+  it("should not treat a Ruby error header as a frame", () => {
+    expect(continueStackTrace("/app.rb:3:in 'foo': undefined method 'x' for nil (NoMethodError)", null)).toBeNull()
+  })
+})
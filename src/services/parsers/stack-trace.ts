@@ -0,0 +1,127 @@
+/**
+ * Stack trace recognition for server output
+ * Detects continuation lines of Node, Python and Ruby stack traces so they can be
+ * grouped with the error they belong to, and parses frames into structured data
+ */
+
+/**
+ * A single frame of a stack trace
+ */
+export interface StackFrame {
+  file: string // File path or URL (e.g., "/app/server.js", "node:internal/process/task_queues")
+  line?: number
+  column?: number
+  function?: string // Function, method or block name when the runtime reports one
+  bundled?: string // Bundled location a source-mapped browser frame was resolved from
+}
+
+/**
+ * Kind of trace being grouped, which decides what may continue it
+ * - "node": "    at ..." frames
+ * - "python": inside a Traceback block, until the exception line
+ * - "python-end": after the exception line, where a chained traceback may follow
+ * - "ruby": backtrace lines ("app/models/user.rb:12:in 'save'")
+ */
+export type StackTraceState = "node" | "python" | "python-end" | "ruby"
+
+const NODE_FRAME_PATTERN = /^\s+at\s+\S/
+const NODE_ELIDED_PATTERN = /^\s+\.\.\. \d+ (more|lines matching)/
+const PYTHON_TRACEBACK_PATTERN = /^Traceback \(most recent call last\):/
+const PYTHON_CHAINED_PATTERN =
+  /^(During handling of the above exception, another exception occurred:|The above exception was the direct cause of the following exception:)/
+// A whole line that is a frame - "/app.rb:3:in 'foo': undefined method ..." is an error header instead
+const RUBY_FRAME_PATTERN = /^\s*(?:from\s+)?\S+:\d+:in\s+[`'][^']*'\s*$/
+
+/**
+ * Get the trace state a line opens, for lines that start a new entry
+ * @returns The state, or null when the line doesn't start a multi-line trace
+ */
+export function startsStackTrace(line: string): StackTraceState | null {
+  return PYTHON_TRACEBACK_PATTERN.test(line) ? "python" : null
+}
+
+/**
+ * Check whether a line continues the trace of the previous entry
+ * @param line The raw message of the line
+ * @param state The state of the previous entry (null when it isn't a trace yet)
+ * @returns The state after the line, or null when the line starts a new entry
+ */
+export function continueStackTrace(line: string, state: StackTraceState | null): StackTraceState | null {
+  if (NODE_FRAME_PATTERN.test(line) || (state === "node" && NODE_ELIDED_PATTERN.test(line))) {
+    return "node"
+  }
+
+  if (state === "python") {
+    // Frames and source lines are indented - the first unindented line is the exception
+    return /^\s/.test(line) ? "python" : "python-end"
+  }
+  if (state === "python-end") {
+    if (PYTHON_CHAINED_PATTERN.test(line)) return "python-end"
+    if (PYTHON_TRACEBACK_PATTERN.test(line)) return "python"
+    return null
+  }
+
+  if (RUBY_FRAME_PATTERN.test(line)) {
+    return "ruby"
+  }
+
+  return null
+}
+
+/**
+ * Parse a single stack frame line
+ * Supports Node ("at fn (file:line:col)"), Python ('File "x.py", line 3, in fn')
+ * and Ruby ("from x.rb:3:in 'fn'") frames
+ * @returns The frame, or null when the line isn't a frame
+ */
+export function parseStackFrame(line: string): StackFrame | null {
+  // Source-mapped browser frames keep the bundled location: "at fn (app/page.tsx:4:2) [http://...:1:40]"
+  const node = line.match(/^\s*at\s+(?:(.+?)\s+\()?(.+?):(\d+):(\d+)\)?(?:\s+\[(.+)\])?\s*$/)
+  if (node) {
+    const [, fn, file, lineNumber, column, bundled] = node
+    const frame: StackFrame = { file, line: Number(lineNumber), column: Number(column) }
+    if (bundled) {
+      frame.bundled = bundled
+    }
+    return withFunction(frame, fn)
+  }
+
+  // Frames without a position, e.g. "at Array.forEach (<anonymous>)"
+  const nodeNoPosition = line.match(/^\s*at\s+(.+?)\s+\((.+)\)\s*$/)
+  if (nodeNoPosition) {
+    return withFunction({ file: nodeNoPosition[2] }, nodeNoPosition[1])
+  }
+
+  const python = line.match(/^\s*File "(.+)", line (\d+)(?:, in (.+))?\s*$/)
+  if (python) {
+    return withFunction({ file: python[1], line: Number(python[2]) }, python[3])
+  }
+
+  const ruby = line.match(/^\s*(?:from\s+)?(\S+?):(\d+):in\s+[`']([^']+)'(?::|\s*$)/)
+  if (ruby) {
+    return withFunction({ file: ruby[1], line: Number(ruby[2]) }, ruby[3])
+  }
+
+  return null
+}
+
+/**
+ * Parse every frame found in a multi-line trace
+ */
+export function parseStackFrames(text: string): StackFrame[] {
+  const frames: StackFrame[] = []
+  for (const line of text.split("\n")) {
+    const frame = parseStackFrame(line)
+    if (frame) {
+      frames.push(frame)
+    }
+  }
+  return frames
+}
+
+function withFunction(frame: StackFrame, fn?: string): StackFrame {
+  if (fn) {
+    frame.function = fn.replace(/^async\s+/, "")
+  }
+  return frame
+}
@@ -5,6 +5,20 @@ import Spinner from "ink-spinner"
 import { useEffect, useRef, useState } from "react"
 import type { Readable } from "stream"
 import { LOG_COLORS } from "./constants/log-colors.js"
+import { parseBudgetLogLine } from "./utils/budgets.js"
+import { filterTUICommands, TUI_COMMANDS, type TUIActions, type TUICommand } from "./utils/tui-commands.js"
+import {
+  findAdjacentId,
+  getEntryLine,
+  getLogProcess,
+  isErrorLine,
+  isLineShown,
+  matchesSearch,
+  nextProcessFilter,
+  splitHighlights,
+  TUI_FILTER_KEYS,
+  type TUILogCategory
+} from "./utils/tui-log-filters.js"
 
 export interface TUIOptions {
   appPort: string
@@ -14,11 +28,13 @@ export interface TUIOptions {
   serversOnly?: boolean
   version: string
   projectName?: string
+  actions?: TUIActions
 }
 
 interface LogEntry {
   id: number
   content: string
+  entryLine: string // First line of the entry, which decides how stack frames are filtered
 }
 
 const NEXTJS_MCP_404_REGEX = /(?:\[POST\]|POST)\s+\/_next\/mcp\b[^\n]*\b404\b/i
@@ -27,6 +43,21 @@ const NEXTJS_MCP_404_REGEX = /(?:\[POST\]|POST)\s+\/_next\/mcp\b[^\n]*\b404\b/i
 const COMPACT_LOGO = "d3k"
 
 // Full ASCII logo lines as array for easier rendering
+// Keys listed by the "?" help
+const HELP_KEYS: [string, string][] = [
+  [":", "Command palette"],
+  ["/", "Search, Enter to keep, Esc to cancel"],
+  ["n / N", "Previous / next search match"],
+  ["e", "Previous error"],
+  ["b s w i", "Toggle browser / server / network / interaction lines"],
+  ["p", "Show the server lines of each process in turn"],
+  ["↑ ↓ PgUp PgDn", "Scroll"],
+  ["g / G", "Go to start / end"],
+  ["Esc", "Clear search"],
+  ["^L", "Clear logs"],
+  ["^C", "Quit"]
+]
+
 const FULL_LOGO = ["   ▐▌▄▄▄▄ █  ▄ ", "   ▐▌   █ █▄▀  ", "▗▞▀▜▌▀▀▀█ █ ▀▄ ", "▝▚▄▟▌▄▄▄█ █  █ "]
 
 const TUIApp = ({
@@ -37,6 +68,7 @@ const TUIApp = ({
   serversOnly,
   version,
   projectName,
+  actions,
   onStatusUpdate,
   onAppPortUpdate
 }: TUIOptions & {
@@ -54,6 +86,24 @@ const TUIApp = ({
   const ctrlCMessageDefault = "^L clear ^C quit"
   const [ctrlCMessage, setCtrlCMessage] = useState(ctrlCMessageDefault)
   const maxScrollOffsetRef = useRef(0)
+  // Budget breaches of the latest checked navigation, cleared when a navigation is within budget
+  const [budgetAlert, setBudgetAlert] = useState<{ pathname: string; metrics: string[] } | null>(null)
+  const lastLineWasBudgetBreach = useRef(false)
+  const lastEntryLine = useRef<string | null>(null)
+  // Categories toggled off with b/s/w/i, and the search typed after "/"
+  const [hiddenCategories, setHiddenCategories] = useState<Set<TUILogCategory>>(new Set())
+  const [processFilter, setProcessFilter] = useState<string | null>(null) // Cycled with p, for multiplexed output
+  const [searchInput, setSearchInput] = useState<string | null>(null) // null when not typing a search
+  const searchInputRef = useRef<string | null>(null) // Read by the input handler, which keys can outrun renders
+  const [searchQuery, setSearchQuery] = useState("")
+  const [focusedLogId, setFocusedLogId] = useState<number | null>(null) // Current search match or error
+  // Command palette typed after ":", help toggled with "?", and the outcome of the last command
+  const [paletteInput, setPaletteInput] = useState<string | null>(null) // null when the palette is closed
+  const paletteInputRef = useRef<string | null>(null)
+  const [paletteIndex, setPaletteIndex] = useState(0)
+  const [showHelp, setShowHelp] = useState(false)
+  const [commandStatus, setCommandStatus] = useState<{ text: string; error: boolean } | null>(null)
+  const commandStatusTimer = useRef<NodeJS.Timeout | null>(null)
 
   const [terminalSize, setTerminalSize] = useState(() => ({
     width: stdout?.columns || 80,
@@ -132,7 +182,10 @@ const TUIApp = ({
       const headerContentLines = 5 // Logo is 4 lines tall, +1 for padding
       const logBoxBorderLines = 2 // Top and bottom border of log box
       const logBoxHeaderLines = 2 // "Logs (X total)" text (no blank line after)
-      const logBoxFooterLines = scrollOffset > 0 ? 2 : 0 // "(X lines below)" when scrolled
+      const logBoxFooterLines =
+        (scrollOffset > 0 ? 2 : 0) + // "(X lines below)" when scrolled
+        (searchInput !== null ? 1 : 0) + // Search prompt
+        (paletteInput !== null ? 1 + filterTUICommands(paletteInput).length : 0) // Palette prompt and commands
       const bottomStatusLine = 1 // Log path and quit message
       const safetyBuffer = 1 // Small buffer to prevent header from being pushed up
       const totalReservedLines =
@@ -151,6 +204,10 @@ const TUIApp = ({
   const maxVisibleLogs = calculateMaxVisibleLogs()
   const maxScrollOffset = Math.max(0, maxLogs - maxVisibleLogs)
   maxScrollOffsetRef.current = maxScrollOffset
+  const hiddenCategoriesRef = useRef(hiddenCategories)
+  hiddenCategoriesRef.current = hiddenCategories
+  const processFilterRef = useRef(processFilter)
+  processFilterRef.current = processFilter
 
   useEffect(() => {
     let logStream: Readable | undefined
@@ -161,9 +218,26 @@ const TUIApp = ({
         return
       }
 
+      // A navigation's breaches are logged back to back - group them until the next budget check
+      const budgetLine = parseBudgetLogLine(line)
+      if (budgetLine) {
+        const { pathname, metric } = budgetLine
+        const continuesBreach = lastLineWasBudgetBreach.current
+        setBudgetAlert((prev) => {
+          if (!metric) return null
+          return continuesBreach && prev?.pathname === pathname
+            ? { pathname, metrics: [...prev.metrics, metric] }
+            : { pathname, metrics: [metric] }
+        })
+      }
+      lastLineWasBudgetBreach.current = !!budgetLine?.metric
+
+      const entryLine = getEntryLine(line, lastEntryLine.current)
+      lastEntryLine.current = entryLine
       const newLog: LogEntry = {
         id: logIdCounter.current++,
-        content: line
+        content: line,
+        entryLine
       }
 
       setLogs((prevLogs) => {
@@ -177,6 +251,7 @@ const TUIApp = ({
 
       // Auto-scroll to bottom only if user is already at the bottom
       // Otherwise, increment scroll offset by 1, accounting for the appended log and max scroll offset
+      if (!isLineShown(entryLine, hiddenCategoriesRef.current, processFilterRef.current)) return
       setScrollOffset((currentOffset) => {
         return currentOffset === 0 ? 0 : Math.min(maxScrollOffsetRef.current, currentOffset + 1)
       })
@@ -209,11 +284,13 @@ const TUIApp = ({
 
     // Watch for new content
     watchFile(logFile, { interval: 100 }, (curr, prev) => {
-      if (curr.size > prev.size) {
+      // A rotated log is replaced by a new, smaller file - read that one from the start
+      const rotated = curr.ino !== prev.ino || curr.size < prev.size
+      if (rotated || curr.size > prev.size) {
         // File has grown, read new content
         const stream = createReadStream(logFile, {
           encoding: "utf8",
-          start: prev.size
+          start: rotated ? 0 : prev.size
         })
 
         let watchBuffer = ""
@@ -240,38 +317,171 @@ const TUIApp = ({
     }
   }, [logFile])
 
+  // Logs after the clear point, in the categories that are toggled on and of the filtered process
+  const filteredLogs = logs.filter(
+    (log) => log.id > clearFromLogId && isLineShown(log.entryLine, hiddenCategories, processFilter)
+  )
+  const matchIds = searchQuery
+    ? filteredLogs.filter((log) => matchesSearch(log.content, searchQuery)).map((log) => log.id)
+    : []
+
+  // Focus a line and scroll it to the middle of the view
+  const focusLog = (id: number | null) => {
+    if (id === null) return
+    const index = filteredLogs.findIndex((log) => log.id === id)
+    setFocusedLogId(id)
+    setScrollOffset(
+      Math.min(
+        Math.max(0, filteredLogs.length - 1 - index - Math.floor(maxVisibleLogs / 2)),
+        Math.max(0, filteredLogs.length - maxVisibleLogs)
+      )
+    )
+  }
+
+  // Incremental search: jump to the most recent match while typing
+  const updateSearch = (query: string) => {
+    searchInputRef.current = query
+    setSearchInput(query)
+    setSearchQuery(query)
+    const ids = filteredLogs.filter((log) => matchesSearch(log.content, query)).map((log) => log.id)
+    if (ids.length > 0) {
+      focusLog(ids[ids.length - 1])
+    } else {
+      setFocusedLogId(null)
+    }
+  }
+
+  // Show the outcome of a command in the status line for a few seconds
+  const showCommandStatus = (text: string, error: boolean, pending = false) => {
+    if (commandStatusTimer.current) clearTimeout(commandStatusTimer.current)
+    setCommandStatus({ text, error })
+    commandStatusTimer.current = pending ? null : setTimeout(() => setCommandStatus(null), 5000)
+  }
+
+  const runCommand = (command: TUICommand) => {
+    if (!actions) return
+    showCommandStatus(`${command.label}...`, false, true)
+    actions[command.id]().then(
+      (text) => showCommandStatus(text, false),
+      (error) => showCommandStatus(`${command.label} failed: ${error instanceof Error ? error.message : error}`, true)
+    )
+  }
+
+  const updatePalette = (query: string | null) => {
+    paletteInputRef.current = query
+    setPaletteInput(query)
+    setPaletteIndex(0)
+  }
+
+  const paletteCommands = paletteInput === null ? [] : filterTUICommands(paletteInput)
+  const selectedCommandIndex = Math.min(paletteIndex, paletteCommands.length - 1)
+
   // Handle keyboard input
   useInput((input, key) => {
     if (key.ctrl && input === "c") {
       // Send SIGINT to trigger main process shutdown handler
       process.kill(process.pid, "SIGINT")
+    } else if (paletteInputRef.current !== null) {
+      // Picking a command: Enter runs the selected one, Esc closes the palette
+      const query = paletteInputRef.current
+      if (key.escape) {
+        updatePalette(null)
+      } else if (key.return) {
+        const command = filterTUICommands(query)[selectedCommandIndex]
+        updatePalette(null)
+        if (command) runCommand(command)
+      } else if (key.upArrow) {
+        setPaletteIndex(Math.max(0, selectedCommandIndex - 1))
+      } else if (key.downArrow) {
+        setPaletteIndex(Math.min(paletteCommands.length - 1, selectedCommandIndex + 1))
+      } else if (key.backspace || key.delete) {
+        updatePalette(query.slice(0, -1))
+      } else if (input && !key.ctrl && !key.meta) {
+        updatePalette(query + input)
+      }
+    } else if (showHelp) {
+      // Any key closes the help
+      setShowHelp(false)
+    } else if (searchInputRef.current !== null) {
+      // Typing a search: Enter keeps it, Esc drops it
+      const query = searchInputRef.current
+      if (key.return || key.escape) {
+        searchInputRef.current = null
+        setSearchInput(null)
+        if (key.escape) {
+          setSearchQuery("")
+          setFocusedLogId(null)
+        }
+      } else if (key.backspace || key.delete) {
+        updateSearch(query.slice(0, -1))
+      } else if (input && !key.ctrl && !key.meta) {
+        updateSearch(query + input)
+      }
+    } else if (input.startsWith(":") && actions) {
+      updatePalette(input.slice(1))
+    } else if (input === "?") {
+      setShowHelp(true)
+    } else if (input.startsWith("/")) {
+      // Fast typing and pastes arrive as one input
+      updateSearch(input.slice(1))
+    } else if (input === "n" || input === "N") {
+      // n goes up to older matches, N back down to newer ones
+      focusLog(findAdjacentId(matchIds, focusedLogId, input === "n" ? "older" : "newer"))
+    } else if (input === "e") {
+      const errorIds = filteredLogs.filter((log) => isErrorLine(log.entryLine)).map((log) => log.id)
+      focusLog(findAdjacentId(errorIds, focusedLogId, "older"))
+    } else if (TUI_FILTER_KEYS[input]) {
+      const category = TUI_FILTER_KEYS[input]
+      setHiddenCategories((prev) => {
+        const next = new Set(prev)
+        if (!next.delete(category)) next.add(category)
+        return next
+      })
+      setScrollOffset(0)
+    } else if (input === "p") {
+      const processes = [...new Set(logs.map((log) => getLogProcess(log.content)))].filter(
+        (name): name is string => name !== null
+      )
+      setProcessFilter(nextProcessFilter(processes, processFilter))
+      setScrollOffset(0)
+    } else if (key.escape && (searchQuery || focusedLogId !== null)) {
+      setSearchQuery("")
+      setFocusedLogId(null)
     } else if (key.ctrl && input === "l") {
       // Ctrl-L: Clear logs box - set clear point to last log ID
       const lastLogId = logs.length > 0 ? logs[logs.length - 1].id : logIdCounter.current
       setClearFromLogId(lastLogId)
       setScrollOffset(0) // Reset scroll to bottom
     } else if (key.upArrow) {
-      const filteredCount = logs.filter((log) => log.id > clearFromLogId).length
-      setScrollOffset((prev) => Math.min(prev + 1, Math.max(0, filteredCount - maxVisibleLogs)))
+      setScrollOffset((prev) => Math.min(prev + 1, Math.max(0, filteredLogs.length - maxVisibleLogs)))
     } else if (key.downArrow) {
       setScrollOffset((prev) => Math.max(0, prev - 1))
     } else if (key.pageUp) {
-      const filteredCount = logs.filter((log) => log.id > clearFromLogId).length
-      setScrollOffset((prev) => Math.min(prev + maxVisibleLogs, Math.max(0, filteredCount - maxVisibleLogs)))
+      setScrollOffset((prev) => Math.min(prev + maxVisibleLogs, Math.max(0, filteredLogs.length - maxVisibleLogs)))
     } else if (key.pageDown) {
       setScrollOffset((prev) => Math.max(0, prev - maxVisibleLogs))
-    } else if (input === "g" && key.shift) {
+    } else if (input === "G") {
       // Shift+G to go to end
       setScrollOffset(0)
-    } else if (input === "g" && !key.shift) {
+    } else if (input === "g") {
       // g to go to beginning
-      const filteredCount = logs.filter((log) => log.id > clearFromLogId).length
-      setScrollOffset(Math.max(0, filteredCount - maxVisibleLogs))
+      setScrollOffset(Math.max(0, filteredLogs.length - maxVisibleLogs))
     }
   })
 
-  // Calculate visible logs - filter to only show logs after the clear point
-  const filteredLogs = logs.filter((log) => log.id > clearFromLogId)
+  // Message text with the search matches highlighted, brighter on the focused line
+  const renderMessage = (text: string, focused: boolean) =>
+    splitHighlights(text, searchQuery).map((segment, index) =>
+      segment.match ? (
+        // biome-ignore lint/suspicious/noArrayIndexKey: segments are derived from the text and never reorder
+        <Text key={index} backgroundColor={focused ? "#FFA500" : "yellow"} color="black">
+          {segment.text}
+        </Text>
+      ) : (
+        segment.text
+      )
+    )
+
   const visibleLogs = filteredLogs.slice(
     Math.max(0, filteredLogs.length - maxVisibleLogs - scrollOffset),
     filteredLogs.length - scrollOffset
@@ -362,17 +572,40 @@ const TUIApp = ({
       {/* Logs Box - flexGrow makes it expand to fill available height */}
       <Box flexDirection="column" borderStyle="single" borderColor="gray" paddingX={1} flexGrow={1} minHeight={0}>
         {!isVeryCompact && (
-          <Text color="gray" dimColor>
-            Logs ({filteredLogs.length} total{scrollOffset > 0 && `, scrolled up ${scrollOffset} lines`})
+          <Text color="gray" dimColor wrap="truncate-end">
+            Logs ({filteredLogs.length} total{scrollOffset > 0 && `, scrolled up ${scrollOffset} lines`}
+            {hiddenCategories.size > 0 && `, hiding ${[...hiddenCategories].join(", ")}`}
+            {processFilter && `, server process ${processFilter}`})
+            {searchQuery &&
+              ` · "${searchQuery}" ${matchIds.length === 0 ? "no matches" : `${matchIds.indexOf(focusedLogId ?? -1) + 1}/${matchIds.length}`}`}
+            {!isCompact &&
+              ` · ? help${actions ? "  : commands" : ""}  / search  n/N next/prev  e error  b/s/w/i browser/server/network/interaction  p process`}
           </Text>
         )}
 
         {/* Logs content area - also uses flexGrow to expand */}
         <Box flexDirection="column" flexGrow={1}>
-          {visibleLogs.length === 0 ? (
+          {showHelp ? (
+            <Box flexDirection="column">
+              {HELP_KEYS.map(([keys, description]) => (
+                <Text key={keys} wrap="truncate-end">
+                  <Text color="#A18CE5">{keys.padEnd(14)}</Text>
+                  {description}
+                </Text>
+              ))}
+              {actions && (
+                <Text dimColor wrap="truncate-end">
+                  Commands: {TUI_COMMANDS.map((command) => `${command.key} ${command.label.toLowerCase()}`).join(", ")}
+                </Text>
+              )}
+              <Text dimColor>Press any key to close</Text>
+            </Box>
+          ) : visibleLogs.length === 0 ? (
             <Text dimColor>Waiting for logs...</Text>
           ) : (
             visibleLogs.map((log) => {
+              const focused = log.id === focusedLogId
+
               // Parse log line to colorize different parts
               const parts = log.content.match(/^\[(.*?)\] \[(.*?)\] (?:\[(.*?)\] )?(.*)$/)
 
@@ -399,9 +632,11 @@ const TUIApp = ({
                   const shortType = type ? type.split(".")[0].charAt(0) : ""
                   return (
                     <Text key={log.id} wrap="truncate-end">
-                      <Text dimColor>[{shortSource}]</Text>
+                      <Text dimColor inverse={focused}>
+                        [{shortSource}]
+                      </Text>
                       {shortType && <Text dimColor>[{shortType}]</Text>}
-                      <Text> {message}</Text>
+                      <Text> {renderMessage(message, focused)}</Text>
                     </Text>
                   )
                 }
@@ -423,6 +658,10 @@ const TUIApp = ({
                   REPLAY: LOG_COLORS.REPLAY,
                   NAVIGATION: LOG_COLORS.NAVIGATION,
                   INTERACTION: LOG_COLORS.INTERACTION,
+                  PERF: LOG_COLORS.PERF,
+                  BUDGET: LOG_COLORS.BUDGET,
+                  A11Y: LOG_COLORS.A11Y,
+                  REACT: LOG_COLORS.REACT,
                   GET: LOG_COLORS.SERVER,
                   POST: LOG_COLORS.SERVER,
                   PUT: LOG_COLORS.SERVER,
@@ -436,7 +675,9 @@ const TUIApp = ({
                 if (isCompact) {
                   return (
                     <Text key={log.id} wrap="truncate-end">
-                      <Text dimColor>[{timestamp}]</Text>
+                      <Text dimColor inverse={focused}>
+                        [{timestamp}]
+                      </Text>
                       <Text> </Text>
                       <Text color={sourceColor} bold>
                         [{source.charAt(0)}]
@@ -447,7 +688,7 @@ const TUIApp = ({
                           <Text color={typeColors[type] || "#A0A0A0"}>[{type}]</Text>
                         </>
                       )}
-                      <Text> {message}</Text>
+                      <Text> {renderMessage(message, focused)}</Text>
                     </Text>
                   )
                 }
@@ -461,7 +702,9 @@ const TUIApp = ({
 
                 return (
                   <Text key={log.id} wrap="truncate-end">
-                    <Text dimColor>[{timestamp}]</Text>
+                    <Text dimColor inverse={focused}>
+                      [{timestamp}]
+                    </Text>
                     <Text> </Text>
                     <Text color={sourceColor} bold>
                       [{source}]
@@ -475,15 +718,15 @@ const TUIApp = ({
                     ) : (
                       <Text> </Text>
                     )}
-                    <Text>{message}</Text>
+                    <Text>{renderMessage(message, focused)}</Text>
                   </Text>
                 )
               }
 
               // Fallback for unparsed lines
               return (
-                <Text key={log.id} wrap="truncate-end">
-                  {log.content}
+                <Text key={log.id} wrap="truncate-end" inverse={focused && !searchQuery}>
+                  {renderMessage(log.content, focused)}
                 </Text>
               )
             })
@@ -494,16 +737,61 @@ const TUIApp = ({
         {!isVeryCompact && logs.length > maxVisibleLogs && scrollOffset > 0 && (
           <Text dimColor>({scrollOffset} lines below)</Text>
         )}
+
+        {/* Search prompt while typing after "/" */}
+        {searchInput !== null && (
+          <Text>
+            <Text color="#A18CE5">/</Text>
+            {searchInput}
+            <Text inverse> </Text>
+            <Text dimColor> Enter to keep, Esc to cancel</Text>
+          </Text>
+        )}
+
+        {/* Command palette after ":" */}
+        {paletteInput !== null && (
+          <Box flexDirection="column">
+            <Text>
+              <Text color="#A18CE5">:</Text>
+              {paletteInput}
+              <Text inverse> </Text>
+              <Text dimColor> ↑↓ select, Enter to run, Esc to close</Text>
+            </Text>
+            {paletteCommands.length === 0 ? (
+              <Text dimColor>No matching command</Text>
+            ) : (
+              paletteCommands.map((command, index) => (
+                <Text key={command.id} inverse={index === selectedCommandIndex} wrap="truncate-end">
+                  <Text color="#A18CE5"> {command.key} </Text>
+                  {command.label}
+                </Text>
+              ))
+            )}
+          </Box>
+        )}
       </Box>
 
       {/* Bottom status line - no border, just text */}
       <Box paddingX={1} justifyContent="space-between">
-        <Text color="#A18CE5">
-          ⏵⏵{" "}
-          {isVeryCompact
-            ? logFile.split("/").slice(-2, -1)[0] || "logs" // Just show directory name
-            : logFile.replace(process.env.HOME || "", "~")}
-        </Text>
+        {commandStatus ? (
+          <Text color={commandStatus.error ? "red" : "green"} wrap="truncate-end">
+            ⏵⏵ {commandStatus.text}
+          </Text>
+        ) : (
+          <Text color="#A18CE5">
+            ⏵⏵{" "}
+            {isVeryCompact
+              ? logFile.split("/").slice(-2, -1)[0] || "logs" // Just show directory name
+              : logFile.replace(process.env.HOME || "", "~")}
+          </Text>
+        )}
+        {budgetAlert && (
+          <Text color={LOG_COLORS.BUDGET}>
+            {isVeryCompact
+              ? "⚠ over budget"
+              : `⚠ ${budgetAlert.pathname} over ${budgetAlert.metrics.join(", ")} budget`}
+          </Text>
+        )}
         <Text color="#A18CE5">{ctrlCMessage}</Text>
       </Box>
     </Box>
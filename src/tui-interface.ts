@@ -1,3 +1,5 @@
+import type { TUIActions } from "./utils/tui-commands.js"
+
 export interface TUIOptions {
   appPort: string
   mcpPort: string
@@ -6,6 +8,7 @@ export interface TUIOptions {
   serversOnly?: boolean
   version: string
   projectName?: string
+  actions?: TUIActions // Command palette actions, the palette is disabled without them
 }
 
 type InkApp = { unmount: () => void }
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest"
+import {
+  checkBudgets,
+  formatBudgetLog,
+  getBudgetsPath,
+  matchBudgetRoute,
+  parseBudgetLogLine,
+  parseBudgets
+} from "./budgets"
+
+const budgets = parseBudgets(
+  JSON.stringify({
+    routes: {
+      "/": { lcp: 2500, cls: 0.1 },
+      "/blog/*": { lcp: 3000, transferSizeKb: 500, requests: 40 },
+      "/blog/drafts/*": { requests: 10 },
+      "*": { cls: 0.25 }
+    }
+  })
+)
+
+describe("getBudgetsPath", () => {
+  it("should live in the project's .d3k directory", () => {
+    expect(getBudgetsPath("/work/app")).toBe("/work/app/.d3k/budgets.json")
+  })
+})
+
+describe("parseBudgets", () => {
+  it("should reject malformed budgets", () => {
+    expect(() => parseBudgets("{}")).toThrow(/"routes" object/)
+    expect(() => parseBudgets('{"routes":{"/":{"fid":100}}}')).toThrow(/Unknown metric "fid"/)
+    expect(() => parseBudgets('{"routes":{"/":{"lcp":"fast"}}}')).toThrow(/positive number/)
+  })
+})
+
+describe("matchBudgetRoute", () => {
+  it("should prefer exact matches, then the most specific pattern", () => {
+    expect(matchBudgetRoute(budgets, "/")).toBe("/")
+    expect(matchBudgetRoute(budgets, "/blog/hello")).toBe("/blog/*")
+    expect(matchBudgetRoute(budgets, "/blog/drafts/wip")).toBe("/blog/drafts/*")
+    expect(matchBudgetRoute(budgets, "/pricing")).toBe("*")
+  })
+
+  it("should return null when no route matches", () => {
+    expect(matchBudgetRoute(parseBudgets('{"routes":{"/":{}}}'), "/about")).toBeNull()
+  })
+})
+
+describe("checkBudgets", () => {
+  it("should report every metric over its limit", () => {
+    const result = checkBudgets(budgets, "/blog/hello", {
+      cls: 0.3,
+      lcp: 3200,
+      transferSize: 400 * 1024,
+      requests: 55
+    })
+
+    expect(result).toEqual({
+      route: "/blog/*",
+      pathname: "/blog/hello",
+      violations: [
+        { metric: "lcp", actual: 3200, limit: 3000 },
+        { metric: "requests", actual: 55, limit: 40 }
+      ]
+    })
+  })
+
+  it("should skip metrics that were not measured", () => {
+    expect(checkBudgets(budgets, "/", { requests: 100 })?.violations).toEqual([])
+  })
+})
+
+describe("formatBudgetLog", () => {
+  it("should log breaches as critical lines", () => {
+    const result = checkBudgets(budgets, "/blog/hello", { lcp: 3200, transferSize: 600 * 1024 })
+    expect(result && formatBudgetLog(result)).toEqual([
+      '[BUDGET] CRITICAL: /blog/hello exceeded LCP budget - 3.20s > 3.00s (route "/blog/*")',
+      '[BUDGET] CRITICAL: /blog/hello exceeded transfer size budget - 600 kB > 500 kB (route "/blog/*")'
+    ])
+  })
+
+  it("should log a single line when the navigation is within budget", () => {
+    const result = checkBudgets(budgets, "/", { lcp: 1200 })
+    expect(result && formatBudgetLog(result)).toEqual(['[BUDGET] / within budget (route "/")'])
+  })
+})
+
+describe("parseBudgetLogLine", () => {
+  it("should read back breaches and passes from the consolidated log", () => {
+    expect(
+      parseBudgetLogLine(
+        '[12:00:00.000] [BROWSER] [BUDGET] CRITICAL: /blog/hello exceeded transfer size budget - 600 kB > 500 kB (route "/blog/*")'
+      )
+    ).toEqual({ pathname: "/blog/hello", metric: "transfer size" })
+    expect(parseBudgetLogLine('[12:00:00.000] [BROWSER] [BUDGET] / within budget (route "/")')).toEqual({
+      pathname: "/"
+    })
+    expect(parseBudgetLogLine("[12:00:00.000] [BROWSER] [PERF] LCP 1.20s (good)")).toBeNull()
+  })
+})
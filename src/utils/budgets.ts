@@ -0,0 +1,195 @@
+import { existsSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+
+/**
+ * Performance budgets
+ *
+ * A project can define per-route budgets in .d3k/budgets.json:
+ *
+ * {
+ *   "routes": {
+ *     "/": { "lcp": 2500, "cls": 0.1 },
+ *     "/blog/*": { "lcp": 3000, "transferSizeKb": 800, "requests": 60 },
+ *     "*": { "cls": 0.25 }
+ *   }
+ * }
+ *
+ * Every navigation captured by ScreencastManager is checked against the most specific
+ * matching route. Breaches are logged as critical [BUDGET] lines.
+ */
+
+export interface PerformanceBudget {
+  cls?: number
+  lcp?: number // ms
+  transferSizeKb?: number // kB over the wire for the whole navigation
+  requests?: number
+}
+
+export interface PerformanceBudgets {
+  routes: Record<string, PerformanceBudget> // Route pattern -> budget, "*" matches any path segments
+}
+
+export type BudgetMetric = keyof PerformanceBudget
+
+/**
+ * What a navigation measured, compared against its budget
+ */
+export interface NavigationMeasurements {
+  cls?: number
+  lcp?: number
+  transferSize?: number // Bytes
+  requests?: number
+}
+
+export interface BudgetViolation {
+  metric: BudgetMetric
+  actual: number
+  limit: number
+}
+
+export interface BudgetResult {
+  route: string // Matched route pattern
+  pathname: string
+  violations: BudgetViolation[]
+}
+
+const BUDGET_METRICS: BudgetMetric[] = ["cls", "lcp", "transferSizeKb", "requests"]
+
+const METRIC_LABELS: Record<BudgetMetric, string> = {
+  cls: "CLS",
+  lcp: "LCP",
+  transferSizeKb: "transfer size",
+  requests: "request count"
+}
+
+/**
+ * Get the path of the budget file of a project
+ */
+export function getBudgetsPath(projectDir: string): string {
+  return join(projectDir, ".d3k", "budgets.json")
+}
+
+/**
+ * Parse and validate the content of a budget file
+ * @throws If the file is not valid JSON or a budget is malformed
+ */
+export function parseBudgets(content: string): PerformanceBudgets {
+  const parsed = JSON.parse(content) as { routes?: unknown }
+  if (!parsed || typeof parsed.routes !== "object" || parsed.routes === null || Array.isArray(parsed.routes)) {
+    throw new Error('Expected a "routes" object mapping route patterns to budgets')
+  }
+
+  const routes: Record<string, PerformanceBudget> = {}
+  for (const [route, budget] of Object.entries(parsed.routes as Record<string, unknown>)) {
+    if (!budget || typeof budget !== "object") {
+      throw new Error(`Budget for "${route}" must be an object`)
+    }
+    routes[route] = {}
+    for (const [metric, limit] of Object.entries(budget)) {
+      if (!BUDGET_METRICS.includes(metric as BudgetMetric)) {
+        throw new Error(`Unknown metric "${metric}" for "${route}" (expected ${BUDGET_METRICS.join(", ")})`)
+      }
+      if (typeof limit !== "number" || limit < 0) {
+        throw new Error(`Budget "${metric}" for "${route}" must be a positive number`)
+      }
+      routes[route][metric as BudgetMetric] = limit
+    }
+  }
+  return { routes }
+}
+
+/**
+ * Load the budget file, or null if the project has none
+ * @throws If the file exists but is invalid
+ */
+export function loadBudgets(budgetsPath: string): PerformanceBudgets | null {
+  if (!existsSync(budgetsPath)) return null
+  return parseBudgets(readFileSync(budgetsPath, "utf-8"))
+}
+
+function routePatternToRegExp(route: string): RegExp {
+  const escaped = route.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")
+  return new RegExp(`^${escaped}/?$`)
+}
+
+/**
+ * Find the most specific route matching a path: an exact match wins, then the longest pattern
+ */
+export function matchBudgetRoute(budgets: PerformanceBudgets, pathname: string): string | null {
+  const routes = Object.keys(budgets.routes)
+  if (routes.includes(pathname)) return pathname
+
+  const matches = routes.filter((route) => routePatternToRegExp(route).test(pathname))
+  if (matches.length === 0) return null
+  return matches.sort((a, b) => b.replace(/\*/g, "").length - a.replace(/\*/g, "").length)[0]
+}
+
+/**
+ * Check the measurements of a navigation against the budget of its route
+ * @returns null if no route matches the path
+ */
+export function checkBudgets(
+  budgets: PerformanceBudgets,
+  pathname: string,
+  measurements: NavigationMeasurements
+): BudgetResult | null {
+  const route = matchBudgetRoute(budgets, pathname)
+  if (!route) return null
+
+  const budget = budgets.routes[route]
+  const actuals: Record<BudgetMetric, number | undefined> = {
+    cls: measurements.cls,
+    lcp: measurements.lcp,
+    transferSizeKb: measurements.transferSize !== undefined ? measurements.transferSize / 1024 : undefined,
+    requests: measurements.requests
+  }
+
+  const violations: BudgetViolation[] = []
+  for (const metric of BUDGET_METRICS) {
+    const limit = budget[metric]
+    const actual = actuals[metric]
+    if (limit !== undefined && actual !== undefined && actual > limit) {
+      violations.push({ metric, actual, limit })
+    }
+  }
+  return { route, pathname, violations }
+}
+
+function formatMetric(metric: BudgetMetric, value: number): string {
+  switch (metric) {
+    case "cls":
+      return value.toFixed(3)
+    case "lcp":
+      return value < 1000 ? `${Math.round(value)}ms` : `${(value / 1000).toFixed(2)}s`
+    case "transferSizeKb":
+      return `${Math.round(value)} kB`
+    case "requests":
+      return `${value}`
+  }
+}
+
+/**
+ * Build the [BUDGET] lines logged for a checked navigation
+ * Breaches are tagged CRITICAL so fix_my_app ranks them with runtime errors.
+ */
+export function formatBudgetLog(result: BudgetResult): string[] {
+  if (result.violations.length === 0) {
+    return [`[BUDGET] ${result.pathname} within budget (route "${result.route}")`]
+  }
+  return result.violations.map(
+    (violation) =>
+      `[BUDGET] CRITICAL: ${result.pathname} exceeded ${METRIC_LABELS[violation.metric]} budget - ${formatMetric(violation.metric, violation.actual)} > ${formatMetric(violation.metric, violation.limit)} (route "${result.route}")`
+  )
+}
+
+/**
+ * Read back a [BUDGET] line of the consolidated log
+ * @returns The checked path and, for breaches, the metric label - null for other lines
+ */
+export function parseBudgetLogLine(line: string): { pathname: string; metric?: string } | null {
+  const breach = line.match(/\[BUDGET\] CRITICAL: (\S+) exceeded (.+?) budget - /)
+  if (breach) return { pathname: breach[1], metric: breach[2] }
+
+  const within = line.match(/\[BUDGET\] (\S+) within budget/)
+  return within ? { pathname: within[1] } : null
+}
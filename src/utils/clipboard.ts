@@ -0,0 +1,34 @@
+import { spawn } from "child_process"
+
+// Clipboard commands to try on each platform, in order
+const CLIPBOARD_COMMANDS: Record<string, [string, string[]][]> = {
+  darwin: [["pbcopy", []]],
+  win32: [["clip", []]],
+  linux: [
+    ["wl-copy", []],
+    ["xclip", ["-selection", "clipboard"]],
+    ["xsel", ["--clipboard", "--input"]],
+    ["clip.exe", []] // WSL
+  ]
+}
+
+function pipeToCommand(command: string, args: string[], text: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const proc = spawn(command, args, { stdio: ["pipe", "ignore", "ignore"] })
+    proc.on("error", () => resolve(false))
+    proc.on("exit", (code) => resolve(code === 0))
+    proc.stdin?.on("error", () => resolve(false))
+    proc.stdin?.end(text)
+  })
+}
+
+/**
+ * Copy text to the system clipboard
+ * @returns Whether a clipboard command accepted the text
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  for (const [command, args] of CLIPBOARD_COMMANDS[process.platform] ?? CLIPBOARD_COMMANDS.linux) {
+    if (await pipeToCommand(command, args, text)) return true
+  }
+  return false
+}
@@ -0,0 +1,98 @@
+import { mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import {
+  applyDeviceProfile,
+  DEFAULT_DEVICE_PROFILES,
+  describeViewport,
+  getDevicesPath,
+  loadDeviceProfiles,
+  parseDeviceProfiles,
+  resolveDeviceProfiles
+} from "./device-profiles"
+
+describe("getDevicesPath", () => {
+  it("should live in the project's .d3k directory", () => {
+    expect(getDevicesPath("/work/app")).toBe("/work/app/.d3k/devices.json")
+  })
+})
+
+describe("parseDeviceProfiles", () => {
+  it("should fill in defaults, with touch following mobile", () => {
+    expect(parseDeviceProfiles('{"profiles":{"pixel-7":{"width":412,"height":915,"mobile":true}}}')).toEqual([
+      {
+        name: "pixel-7",
+        width: 412,
+        height: 915,
+        deviceScaleFactor: 1,
+        mobile: true,
+        hasTouch: true,
+        userAgent: undefined
+      }
+    ])
+  })
+
+  it("should reject malformed profiles", () => {
+    expect(() => parseDeviceProfiles("{}")).toThrow(/"profiles" object/)
+    expect(() => parseDeviceProfiles('{"profiles":{"tv":{"width":1920}}}')).toThrow(/positive "height"/)
+    expect(() => parseDeviceProfiles('{"profiles":{"tv":{"width":1920,"height":1080,"deviceScaleFactor":0}}}')).toThrow(
+      /deviceScaleFactor/
+    )
+  })
+})
+
+describe("loadDeviceProfiles", () => {
+  it("should let project profiles override and extend the built-in ones", () => {
+    const devicesPath = join(mkdtempSync(join(tmpdir(), "d3k-devices-")), "devices.json")
+    expect(loadDeviceProfiles(devicesPath)).toBe(DEFAULT_DEVICE_PROFILES)
+
+    writeFileSync(
+      devicesPath,
+      JSON.stringify({ profiles: { desktop: { width: 1920, height: 1080 }, tv: { width: 960, height: 540 } } })
+    )
+    const profiles = loadDeviceProfiles(devicesPath)
+    expect(profiles.map((profile) => profile.name)).toEqual(["mobile", "tablet", "desktop", "tv"])
+    expect(profiles.find((profile) => profile.name === "desktop")?.width).toBe(1920)
+  })
+})
+
+describe("resolveDeviceProfiles", () => {
+  it("should pick profiles by name and list the available ones on typos", () => {
+    expect(resolveDeviceProfiles(DEFAULT_DEVICE_PROFILES, ["tablet"]).map((profile) => profile.name)).toEqual([
+      "tablet"
+    ])
+    expect(resolveDeviceProfiles(DEFAULT_DEVICE_PROFILES, "all")).toHaveLength(3)
+    expect(() => resolveDeviceProfiles(DEFAULT_DEVICE_PROFILES, ["phone"])).toThrow(
+      'Unknown device profile "phone" (available: mobile, tablet, desktop)'
+    )
+  })
+})
+
+describe("applyDeviceProfile", () => {
+  it("should override metrics, touch and user agent", async () => {
+    const commands: Array<[string, Record<string, unknown> | undefined]> = []
+    const [mobile, , desktop] = DEFAULT_DEVICE_PROFILES
+
+    await applyDeviceProfile(async (method, params) => commands.push([method, params]), mobile)
+    expect(commands[0]).toEqual([
+      "Emulation.setDeviceMetricsOverride",
+      { width: 390, height: 844, deviceScaleFactor: 3, mobile: true }
+    ])
+    expect(commands[1]).toEqual(["Emulation.setTouchEmulationEnabled", { enabled: true, maxTouchPoints: 5 }])
+    expect(commands[2][1]?.userAgent).toContain("iPhone")
+
+    commands.length = 0
+    await applyDeviceProfile(async (method, params) => commands.push([method, params]), desktop)
+    expect(commands[2]).toEqual(["Emulation.setUserAgentOverride", { userAgent: "" }])
+  })
+})
+
+describe("describeViewport", () => {
+  it("should name matching profiles and fall back to the dimensions", () => {
+    expect(describeViewport(DEFAULT_DEVICE_PROFILES, { width: 820, height: 1180, devicePixelRatio: 2 })).toBe("tablet")
+    expect(describeViewport(DEFAULT_DEVICE_PROFILES, { width: 1512, height: 982, devicePixelRatio: 2 })).toBe(
+      "1512x982@2x"
+    )
+  })
+})
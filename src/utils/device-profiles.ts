@@ -0,0 +1,190 @@
+import { existsSync, readFileSync } from "node:fs"
+import { join } from "node:path"
+
+/**
+ * Device emulation profiles
+ *
+ * d3k ships mobile, tablet and desktop profiles. A project can add its own or
+ * override the built-in ones in .d3k/devices.json:
+ *
+ * {
+ *   "profiles": {
+ *     "pixel-7": { "width": 412, "height": 915, "deviceScaleFactor": 2.625, "mobile": true, "hasTouch": true },
+ *     "desktop": { "width": 1920, "height": 1080 }
+ *   }
+ * }
+ *
+ * Profiles are applied with Emulation.setDeviceMetricsOverride, so screenshots,
+ * crawls and jank captures see the page the way the device would.
+ */
+
+export interface DeviceProfile {
+  name: string
+  width: number // CSS pixels
+  height: number
+  deviceScaleFactor: number
+  mobile: boolean // Mobile viewport: meta viewport, overlay scrollbars, text autosizing
+  hasTouch: boolean
+  userAgent?: string
+}
+
+/**
+ * The viewport a page reports, as seen from inside it
+ */
+export interface MeasuredViewport {
+  width: number // screen.width
+  height: number // screen.height
+  devicePixelRatio: number
+}
+
+/**
+ * Send a CDP command - CDPMonitor and the MCP tools each bring their own connection
+ */
+type SendCommand = (method: string, params?: Record<string, unknown>) => Promise<unknown>
+
+const IPHONE_USER_AGENT =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1"
+const IPAD_USER_AGENT =
+  "Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1"
+
+export const DEFAULT_DEVICE_PROFILES: DeviceProfile[] = [
+  {
+    name: "mobile",
+    width: 390,
+    height: 844,
+    deviceScaleFactor: 3,
+    mobile: true,
+    hasTouch: true,
+    userAgent: IPHONE_USER_AGENT
+  },
+  {
+    name: "tablet",
+    width: 820,
+    height: 1180,
+    deviceScaleFactor: 2,
+    mobile: true,
+    hasTouch: true,
+    userAgent: IPAD_USER_AGENT
+  },
+  { name: "desktop", width: 1440, height: 900, deviceScaleFactor: 2, mobile: false, hasTouch: false }
+]
+
+/**
+ * Get the path of the device profile file of a project
+ */
+export function getDevicesPath(projectDir: string): string {
+  return join(projectDir, ".d3k", "devices.json")
+}
+
+/**
+ * Parse and validate the content of a device profile file
+ * @throws If the file is not valid JSON or a profile is malformed
+ */
+export function parseDeviceProfiles(content: string): DeviceProfile[] {
+  const parsed = JSON.parse(content) as { profiles?: unknown }
+  if (!parsed || typeof parsed.profiles !== "object" || parsed.profiles === null || Array.isArray(parsed.profiles)) {
+    throw new Error('Expected a "profiles" object mapping profile names to devices')
+  }
+
+  return Object.entries(parsed.profiles as Record<string, Partial<DeviceProfile>>).map(([name, profile]) => {
+    if (!profile || typeof profile !== "object") {
+      throw new Error(`Device profile "${name}" must be an object`)
+    }
+    for (const key of ["width", "height"] as const) {
+      if (typeof profile[key] !== "number" || profile[key] <= 0) {
+        throw new Error(`Device profile "${name}" needs a positive "${key}"`)
+      }
+    }
+    if (profile.deviceScaleFactor !== undefined && !(profile.deviceScaleFactor > 0)) {
+      throw new Error(`Device profile "${name}" needs a positive "deviceScaleFactor"`)
+    }
+
+    const mobile = profile.mobile ?? false
+    return {
+      name,
+      width: profile.width as number,
+      height: profile.height as number,
+      deviceScaleFactor: profile.deviceScaleFactor ?? 1,
+      mobile,
+      hasTouch: profile.hasTouch ?? mobile,
+      userAgent: profile.userAgent
+    }
+  })
+}
+
+/**
+ * Load the built-in profiles, overridden and extended by the project's device file
+ * @throws If the file exists but is invalid
+ */
+export function loadDeviceProfiles(devicesPath?: string): DeviceProfile[] {
+  if (!devicesPath || !existsSync(devicesPath)) return DEFAULT_DEVICE_PROFILES
+
+  const custom = parseDeviceProfiles(readFileSync(devicesPath, "utf-8"))
+  const names = new Set(custom.map((profile) => profile.name))
+  return [...DEFAULT_DEVICE_PROFILES.filter((profile) => !names.has(profile.name)), ...custom]
+}
+
+/**
+ * Pick profiles by name, or all of them
+ * @throws If a name matches no profile
+ */
+export function resolveDeviceProfiles(profiles: DeviceProfile[], names: string[] | "all"): DeviceProfile[] {
+  if (names === "all") return profiles
+
+  return names.map((name) => {
+    const profile = profiles.find((candidate) => candidate.name === name)
+    if (!profile) {
+      throw new Error(
+        `Unknown device profile "${name}" (available: ${profiles.map((candidate) => candidate.name).join(", ")})`
+      )
+    }
+    return profile
+  })
+}
+
+/**
+ * Emulate a device in the page: viewport, pixel ratio, touch and user agent
+ */
+export async function applyDeviceProfile(send: SendCommand, profile: DeviceProfile): Promise<void> {
+  await send("Emulation.setDeviceMetricsOverride", {
+    width: profile.width,
+    height: profile.height,
+    deviceScaleFactor: profile.deviceScaleFactor,
+    mobile: profile.mobile
+  })
+  await send("Emulation.setTouchEmulationEnabled", {
+    enabled: profile.hasTouch,
+    ...(profile.hasTouch ? { maxTouchPoints: 5 } : {})
+  })
+  // An empty user agent restores the browser's own
+  await send("Emulation.setUserAgentOverride", { userAgent: profile.userAgent ?? "" })
+}
+
+/**
+ * Go back to the browser window's own size and capabilities
+ */
+export async function clearDeviceProfile(send: SendCommand): Promise<void> {
+  await send("Emulation.clearDeviceMetricsOverride")
+  await send("Emulation.setTouchEmulationEnabled", { enabled: false })
+  await send("Emulation.setUserAgentOverride", { userAgent: "" })
+}
+
+/**
+ * JavaScript expression returning the page's MeasuredViewport
+ * screen.* follows the emulated device even on pages without a meta viewport, unlike innerWidth.
+ */
+export const MEASURE_VIEWPORT_EXPRESSION =
+  "({ width: screen.width, height: screen.height, devicePixelRatio: window.devicePixelRatio || 1 })"
+
+/**
+ * Name the device a page is rendered for: the matching profile, or its dimensions when none matches
+ */
+export function describeViewport(profiles: DeviceProfile[], viewport: MeasuredViewport): string {
+  const profile = profiles.find(
+    (candidate) =>
+      candidate.width === viewport.width &&
+      candidate.height === viewport.height &&
+      candidate.deviceScaleFactor === viewport.devicePixelRatio
+  )
+  return profile ? profile.name : `${viewport.width}x${viewport.height}@${viewport.devicePixelRatio}x`
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest"
+import {
+  buildHar,
+  type CapturedExchange,
+  getNetworkLogPath,
+  isTextMimeType,
+  parseCapturedExchanges,
+  prepareBody,
+  REDACTED,
+  redactBody,
+  redactHeaders,
+  redactUrl,
+  toHarTimings
+} from "./har"
+
+function exchange(overrides: Partial<CapturedExchange> = {}): CapturedExchange {
+  return {
+    requestId: "1234.1",
+    startedDateTime: "2025-10-01T10:00:00.000Z",
+    time: 42,
+    resourceType: "Fetch",
+    request: {
+      method: "POST",
+      url: "http://localhost:3000/api/users?page=2",
+      httpVersion: "HTTP/1.1",
+      headers: { "Content-Type": "application/json" },
+      body: '{"name":"Ada"}',
+      bodySize: 14,
+      mimeType: "application/json"
+    },
+    response: {
+      status: 500,
+      statusText: "Internal Server Error",
+      httpVersion: "HTTP/1.1",
+      headers: { "content-type": "application/json" },
+      mimeType: "application/json",
+      body: '{"error":"boom"}',
+      bodySize: 16
+    },
+    timings: { blocked: 0, dns: -1, connect: -1, ssl: -1, send: 1, wait: 30, receive: 11 },
+    ...overrides
+  }
+}
+
+describe("getNetworkLogPath", () => {
+  it("should put the sidecar next to the log file", () => {
+    expect(getNetworkLogPath("/home/me/.d3k/logs/app-2025-10-01T10-00-00Z.log")).toBe(
+      "/home/me/.d3k/logs/app-2025-10-01T10-00-00Z.network.jsonl"
+    )
+    expect(getNetworkLogPath("/home/me/.d3k/logs/app-2025-10-01T10-00-00Z.log.gz")).toBe(
+      "/home/me/.d3k/logs/app-2025-10-01T10-00-00Z.network.jsonl"
+    )
+  })
+})
+
+describe("redaction", () => {
+  it("should redact credential headers regardless of case", () => {
+    expect(redactHeaders({ Authorization: "Bearer abc", Cookie: "sid=1", Accept: "*/*" })).toEqual({
+      Authorization: REDACTED,
+      Cookie: REDACTED,
+      Accept: "*/*"
+    })
+  })
+
+  it("should redact sensitive fields of nested JSON bodies", () => {
+    const body = JSON.stringify({ user: { email: "a@b.c", password: "hunter2" }, tokens: [{ apiKey: "k" }] })
+    expect(JSON.parse(redactBody(body, "application/json; charset=utf-8"))).toEqual({
+      user: { email: "a@b.c", password: REDACTED },
+      tokens: REDACTED
+    })
+  })
+
+  it("should redact sensitive form fields", () => {
+    expect(redactBody("user=ada&password=hunter2", "application/x-www-form-urlencoded")).toBe(
+      `user=ada&password=${encodeURIComponent(REDACTED)}`
+    )
+  })
+
+  it("should redact sensitive query parameters of URLs", () => {
+    const url = redactUrl("http://localhost:3000/api/items?page=2&token=abc&api_key=k")
+    expect([...new URL(url).searchParams.entries()]).toEqual([
+      ["page", "2"],
+      ["token", REDACTED],
+      ["api_key", REDACTED]
+    ])
+    expect(redactUrl("http://localhost:3000/api/items?page=2")).toBe("http://localhost:3000/api/items?page=2")
+  })
+
+  it("should leave other bodies unchanged", () => {
+    expect(redactBody("password=hunter2", "text/plain")).toBe("password=hunter2")
+    expect(redactBody("{not json", "application/json")).toBe("{not json")
+  })
+})
+
+describe("prepareBody", () => {
+  it("should cap bodies at the byte limit", () => {
+    expect(prepareBody("x".repeat(20), "text/plain", 8)).toEqual({ body: "x".repeat(8), truncated: true })
+    expect(prepareBody("short", "text/plain", 8)).toEqual({ body: "short", truncated: false })
+  })
+})
+
+describe("isTextMimeType", () => {
+  it("should only accept text-like content", () => {
+    expect(isTextMimeType("application/json")).toBe(true)
+    expect(isTextMimeType("application/problem+json")).toBe(true)
+    expect(isTextMimeType("text/html; charset=utf-8")).toBe(true)
+    expect(isTextMimeType("image/png")).toBe(false)
+    expect(isTextMimeType(undefined)).toBe(false)
+  })
+})
+
+describe("toHarTimings", () => {
+  it("should convert CDP resource timing into HAR phases", () => {
+    const timings = toHarTimings(
+      {
+        requestTime: 100,
+        dnsStart: 1,
+        dnsEnd: 3,
+        connectStart: 3,
+        connectEnd: 10,
+        sslStart: -1,
+        sslEnd: -1,
+        sendStart: 10,
+        sendEnd: 11,
+        receiveHeadersEnd: 50
+      },
+      100.06
+    )
+    expect(timings).toMatchObject({ blocked: 1, dns: 2, connect: 7, ssl: -1, send: 1, wait: 39 })
+    expect(timings.receive).toBeCloseTo(10)
+  })
+})
+
+describe("buildHar", () => {
+  it("should build HAR 1.2 entries from captured exchanges", () => {
+    const content = `${JSON.stringify(exchange())}\n{"partial":`
+    const har = buildHar(parseCapturedExchanges(content), "1.0.0")
+
+    expect(har.log.version).toBe("1.2")
+    expect(har.log.creator).toEqual({ name: "dev3000", version: "1.0.0" })
+    expect(har.log.entries).toHaveLength(1)
+
+    const [entry] = har.log.entries
+    expect(entry.request.queryString).toEqual([{ name: "page", value: "2" }])
+    expect(entry.request.postData).toEqual({ mimeType: "application/json", text: '{"name":"Ada"}' })
+    expect(entry.response.status).toBe(500)
+    expect(entry.response.content).toEqual({ size: 16, mimeType: "application/json", text: '{"error":"boom"}' })
+  })
+
+  it("should explain truncated and omitted bodies", () => {
+    const truncated = exchange()
+    truncated.request.bodyTruncated = true
+    truncated.response.bodyTruncated = true
+    const failed = exchange({ error: "net::ERR_CONNECTION_REFUSED" })
+    failed.response = { ...failed.response, status: 0, body: undefined, bodyOmitted: "Binary content" }
+
+    const [first, second] = buildHar([truncated, failed]).log.entries
+    expect(first.request.postData?.comment).toMatch(/^Truncated to \d+ bytes$/)
+    expect(first.response.content.comment).toMatch(/^Truncated to \d+ bytes$/)
+    expect(second.response.content.comment).toBe("Binary content")
+    expect(second.response._error).toBe("net::ERR_CONNECTION_REFUSED")
+  })
+})
@@ -0,0 +1,305 @@
+/**
+ * Network capture and HAR export
+ *
+ * With --capture-network the CDP monitor records the full exchange of every
+ * request to the app's own origin (headers, bodies, timing) into a JSONL
+ * sidecar next to the consolidated log. Secrets are redacted and bodies capped
+ * before anything is written. The sidecar is turned into a HAR 1.2 file on
+ * demand, so agents and browser devtools can inspect the exact failing payload.
+ */
+
+export interface CapturedTiming {
+  blocked: number
+  dns: number
+  connect: number
+  ssl: number
+  send: number
+  wait: number
+  receive: number
+}
+
+/**
+ * A captured request/response exchange, one per line of the network sidecar
+ */
+export interface CapturedExchange {
+  requestId: string
+  startedDateTime: string // ISO
+  time: number // Total duration in ms
+  resourceType?: string // CDP resource type (Fetch, XHR, Document, ...)
+  request: {
+    method: string
+    url: string
+    httpVersion: string
+    headers: Record<string, string>
+    body?: string
+    bodySize: number
+    bodyTruncated?: boolean
+    mimeType?: string
+  }
+  response: {
+    status: number // 0 when the request failed
+    statusText: string
+    httpVersion: string
+    headers: Record<string, string>
+    mimeType: string
+    body?: string
+    bodyEncoding?: "base64"
+    bodySize: number
+    bodyTruncated?: boolean
+    bodyOmitted?: string // Why the body wasn't captured
+  }
+  timings: CapturedTiming
+  error?: string // Network error text for failed requests
+}
+
+// CDP Network.ResourceTiming, relative to requestTime (ms, -1 when not applicable)
+export interface CDPResourceTiming {
+  requestTime: number // Seconds
+  dnsStart: number
+  dnsEnd: number
+  connectStart: number
+  connectEnd: number
+  sslStart: number
+  sslEnd: number
+  sendStart: number
+  sendEnd: number
+  receiveHeadersEnd: number
+}
+
+export const MAX_CAPTURED_BODY_BYTES = 64 * 1024
+
+export const REDACTED = "[REDACTED]"
+
+const SENSITIVE_HEADERS = new Set([
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+  "x-auth-token",
+  "x-csrf-token"
+])
+
+const SENSITIVE_FIELD_PATTERN =
+  /pass(word|wd)?|secret|token|api[-_]?key|authorization|credit.?card|card.?number|cvv|ssn/i
+
+const TEXT_MIME_PATTERN =
+  /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded|graphql)|[^;]*\+(json|xml))/i
+
+/**
+ * Get the path of the network capture sidecar of a consolidated log file
+ * Sidecars of archived logs may be gzipped next to this path, see findLogSidecar in utils/log-rotation.
+ */
+export function getNetworkLogPath(logFilePath: string): string {
+  return /\.log(?:\.gz)?$/.test(logFilePath)
+    ? logFilePath.replace(/\.log(?:\.gz)?$/, ".network.jsonl")
+    : `${logFilePath}.network.jsonl`
+}
+
+export function isTextMimeType(mimeType: string | undefined): boolean {
+  return !!mimeType && TEXT_MIME_PATTERN.test(mimeType)
+}
+
+export function redactHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  const redacted: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    redacted[name] = SENSITIVE_HEADERS.has(name.toLowerCase()) ? REDACTED : value
+  }
+  return redacted
+}
+
+function redactSearchParams(params: URLSearchParams): boolean {
+  let redacted = false
+  for (const key of [...params.keys()]) {
+    if (SENSITIVE_FIELD_PATTERN.test(key)) {
+      params.set(key, REDACTED)
+      redacted = true
+    }
+  }
+  return redacted
+}
+
+/**
+ * Redact password, token and key parameters of a URL's query string
+ * Other URLs are returned unchanged.
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return redactSearchParams(parsed.searchParams) ? parsed.toString() : url
+  } catch {
+    return url
+  }
+}
+
+function redactJsonValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactJsonValue)
+  }
+  if (value && typeof value === "object") {
+    const redacted: Record<string, unknown> = {}
+    for (const [key, field] of Object.entries(value)) {
+      redacted[key] = SENSITIVE_FIELD_PATTERN.test(key) ? REDACTED : redactJsonValue(field)
+    }
+    return redacted
+  }
+  return value
+}
+
+/**
+ * Redact password, token, key and card fields of JSON and form bodies
+ * Other bodies are returned unchanged.
+ */
+export function redactBody(body: string, mimeType: string | undefined): string {
+  if (mimeType && /json/i.test(mimeType)) {
+    try {
+      return JSON.stringify(redactJsonValue(JSON.parse(body)))
+    } catch {
+      return body
+    }
+  }
+
+  if (mimeType && /x-www-form-urlencoded/i.test(mimeType)) {
+    const params = new URLSearchParams(body)
+    redactSearchParams(params)
+    return params.toString()
+  }
+
+  return body
+}
+
+/**
+ * Redact and cap a body before it's written to disk
+ */
+export function prepareBody(
+  body: string,
+  mimeType: string | undefined,
+  maxBytes: number = MAX_CAPTURED_BODY_BYTES
+): { body: string; truncated: boolean } {
+  const redacted = redactBody(body, mimeType)
+  if (Buffer.byteLength(redacted) <= maxBytes) {
+    return { body: redacted, truncated: false }
+  }
+  return { body: Buffer.from(redacted).subarray(0, maxBytes).toString("utf-8"), truncated: true }
+}
+
+/**
+ * Convert CDP resource timing into HAR timings
+ * @param finishedAt Monotonic time (seconds) the response finished loading
+ */
+export function toHarTimings(timing: CDPResourceTiming | undefined, finishedAt?: number): CapturedTiming {
+  if (!timing) {
+    return { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: 0, receive: 0 }
+  }
+
+  const span = (start: number, end: number) => (start >= 0 && end >= 0 ? Math.max(0, end - start) : -1)
+  const firstPhase = [timing.dnsStart, timing.connectStart, timing.sendStart].find((start) => start >= 0) ?? 0
+  const receive =
+    finishedAt !== undefined ? Math.max(0, (finishedAt - timing.requestTime) * 1000 - timing.receiveHeadersEnd) : 0
+
+  return {
+    blocked: firstPhase,
+    dns: span(timing.dnsStart, timing.dnsEnd),
+    connect: span(timing.connectStart, timing.connectEnd),
+    ssl: span(timing.sslStart, timing.sslEnd),
+    send: Math.max(0, timing.sendEnd - timing.sendStart),
+    wait: Math.max(0, timing.receiveHeadersEnd - timing.sendEnd),
+    receive
+  }
+}
+
+/**
+ * Parse the network sidecar, skipping malformed lines
+ */
+export function parseCapturedExchanges(content: string): CapturedExchange[] {
+  const exchanges: CapturedExchange[] = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      const exchange = JSON.parse(line) as CapturedExchange
+      if (exchange.requestId && exchange.request && exchange.response) {
+        exchanges.push(exchange)
+      }
+    } catch {
+      // Ignore a partially written last line
+    }
+  }
+  return exchanges
+}
+
+/**
+ * Requests that errored at the network level or got a 4xx/5xx response
+ */
+export function isFailedExchange(exchange: CapturedExchange): boolean {
+  return !!exchange.error || exchange.response.status >= 400
+}
+
+function toNameValueList(headers: Record<string, string>): Array<{ name: string; value: string }> {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }))
+}
+
+function toQueryString(url: string): Array<{ name: string; value: string }> {
+  try {
+    return [...new URL(url).searchParams.entries()].map(([name, value]) => ({ name, value }))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Build a HAR 1.2 document from captured exchanges
+ * @see http://www.softwareishard.com/blog/har-12-spec/
+ */
+export function buildHar(exchanges: CapturedExchange[], creatorVersion: string = "unknown") {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "dev3000", version: creatorVersion },
+      pages: [],
+      entries: exchanges.map((exchange) => ({
+        startedDateTime: exchange.startedDateTime,
+        time: exchange.time,
+        request: {
+          method: exchange.request.method,
+          url: exchange.request.url,
+          httpVersion: exchange.request.httpVersion,
+          cookies: [],
+          headers: toNameValueList(exchange.request.headers),
+          queryString: toQueryString(exchange.request.url),
+          ...(exchange.request.body !== undefined && {
+            postData: {
+              mimeType: exchange.request.mimeType || "",
+              text: exchange.request.body,
+              ...(exchange.request.bodyTruncated && { comment: `Truncated to ${MAX_CAPTURED_BODY_BYTES} bytes` })
+            }
+          }),
+          headersSize: -1,
+          bodySize: exchange.request.bodySize
+        },
+        response: {
+          status: exchange.response.status,
+          statusText: exchange.response.statusText,
+          httpVersion: exchange.response.httpVersion,
+          cookies: [],
+          headers: toNameValueList(exchange.response.headers),
+          content: {
+            size: exchange.response.bodySize,
+            mimeType: exchange.response.mimeType,
+            ...(exchange.response.body !== undefined && { text: exchange.response.body }),
+            ...(exchange.response.bodyEncoding && { encoding: exchange.response.bodyEncoding }),
+            ...((exchange.response.bodyTruncated || exchange.response.bodyOmitted) && {
+              comment: exchange.response.bodyOmitted || `Truncated to ${MAX_CAPTURED_BODY_BYTES} bytes`
+            })
+          },
+          redirectURL: exchange.response.headers.location || exchange.response.headers.Location || "",
+          headersSize: -1,
+          bodySize: exchange.response.bodySize,
+          ...(exchange.error && { _error: exchange.error })
+        },
+        cache: {},
+        timings: exchange.timings,
+        _resourceType: exchange.resourceType
+      }))
+    }
+  }
+}
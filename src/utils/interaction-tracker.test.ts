@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest"
+import { buildInteractionTrackingScript, TAKE_INTERACTIONS_EXPRESSION } from "./interaction-tracker"
+
+describe("buildInteractionTrackingScript", () => {
+  it("should build valid scripts, loading react-scan only when asked", () => {
+    const plain = buildInteractionTrackingScript()
+    const withReactScan = buildInteractionTrackingScript({
+      scriptUrl: "http://localhost:3684/api/react-scan",
+      slowRenderMs: 16
+    })
+
+    expect(() => new Function(plain)).not.toThrow()
+    expect(() => new Function(withReactScan)).not.toThrow()
+    expect(() => new Function(`return ${TAKE_INTERACTIONS_EXPRESSION}`)).not.toThrow()
+    expect(plain).not.toContain("react-scan")
+    expect(withReactScan).toContain("script.src = 'http://localhost:3684/api/react-scan'")
+    expect(withReactScan).toContain("render.time > 16")
+  })
+})
+
+describe("interaction tracking", () => {
+  // Run the script against just enough of a page to record key presses
+  const trackKeys = (target: Record<string, unknown>, keys: string[]) => {
+    const documentListeners: Record<string, (event: unknown) => void> = {}
+    const windowListeners: Array<(event: { type: string; detail: unknown }) => void> = []
+    const window: Record<string, unknown> = {
+      addEventListener: (_type: string, listener: (event: { type: string; detail: unknown }) => void) =>
+        windowListeners.push(listener),
+      dispatchEvent: (event: { type: string; detail: unknown }) => {
+        for (const listener of windowListeners) listener(event)
+      }
+    }
+    const document = {
+      addEventListener: (type: string, listener: (event: unknown) => void) => {
+        documentListeners[type] = listener
+      }
+    }
+    class CustomEvent {
+      constructor(
+        public type: string,
+        init: { detail: unknown }
+      ) {
+        this.detail = init.detail
+      }
+      detail: unknown
+    }
+
+    new Function("window", "document", "CustomEvent", buildInteractionTrackingScript())(window, document, CustomEvent)
+    for (const key of keys) {
+      documentListeners.keydown({ key, target })
+    }
+    return (window.__dev3000_interactions as Array<{ message: string }>).map(
+      (interaction) => interaction.message.split(" in ")[0]
+    )
+  }
+
+  it("should never record characters typed into passwords", () => {
+    const field = (type: string) => ({ tagName: "INPUT", type, id: "field", className: "", value: "" })
+
+    expect(trackKeys(field("text"), ["a", "Enter"])).toEqual(["KEY a", "KEY Enter"])
+    expect(trackKeys(field("password"), ["s", "3", "Enter"])).toEqual(["KEY Enter"])
+  })
+})
@@ -0,0 +1,339 @@
+/**
+ * Interaction tracking script
+ *
+ * Injected into the monitored page by the CDP monitor, and served by the MCP server to
+ * the Chrome extension, so both record clicks, keys, typing, scrolls, hovers and drags
+ * the same way. The page buffers them in window.__dev3000_interactions for the monitor
+ * to poll with TAKE_INTERACTIONS_EXPRESSION and log as [INTERACTION] lines.
+ *
+ * Kept free of relative imports, since the MCP server bundles it.
+ */
+
+export interface ReactScanTrackingOptions {
+  scriptUrl: string // Where the page loads react-scan from
+  slowRenderMs: number // Single renders slower than this are listed in the [REACT] lines
+}
+
+/**
+ * Expression returning the buffered interactions ({ timestamp, message }) and clearing the buffer
+ */
+export const TAKE_INTERACTIONS_EXPRESSION = `
+  (() => {
+    if (window.__dev3000_interactions && window.__dev3000_interactions.length > 0) {
+      const interactions = [...window.__dev3000_interactions];
+      window.__dev3000_interactions = []; // Clear the array
+      return interactions;
+    }
+    return [];
+  })()
+`
+
+/**
+ * Build the tracking script, a no-op when the page already runs it
+ * @param reactScan - Also load react-scan and group its render reports by interaction (--plugin-react-scan)
+ */
+export function buildInteractionTrackingScript(reactScan?: ReactScanTrackingOptions): string {
+  return `
+    try {
+      if (!window.__dev3000_cdp_tracking) {
+        window.__dev3000_cdp_tracking = true;
+        
+        ${
+          reactScan
+            ? `
+        // Load react-scan from d3k's MCP server (works offline, pinned version) and group
+        // its render reports by the interaction that caused them for the [REACT] log
+        if (!window.__REACT_SCAN_INJECTED__) {
+          window.__REACT_SCAN_INJECTED__ = true;
+          window.__dev3000_react_renders = [];
+          let reactTrigger = { id: 0, label: 'page load' };
+          
+          window.addEventListener('dev3000-interaction', function(e) {
+            const detail = e.detail;
+            if (detail.type === 'HOVER' || detail.type === 'SCROLL_SETTLED') return;
+            let target = detail.target || '';
+            try {
+              target = JSON.parse(detail.element).selector || target;
+            } catch (err) {}
+            let label = detail.type + (detail.type === 'KEY' ? ' ' + detail.key : '');
+            if (target) label += (detail.type === 'KEY' || detail.type === 'TYPE' || detail.type === 'SCROLL' ? ' in ' : ' on ') + target;
+            reactTrigger = { id: reactTrigger.id + 1, label: label };
+          });
+          
+          const recordRenders = function(fiber, renders) {
+            const buffer = window.__dev3000_react_renders;
+            let group = buffer[buffer.length - 1];
+            if (!group || group.triggerId !== reactTrigger.id) {
+              group = { triggerId: reactTrigger.id, trigger: reactTrigger.label, components: {}, slow: [], lastRender: 0 };
+              buffer.push(group);
+              if (buffer.length > 50) buffer.shift();
+            }
+            group.lastRender = Date.now();
+            for (const render of renders || []) {
+              const type = fiber && fiber.type;
+              const name = render.componentName || (type && (type.displayName || type.name)) || 'Anonymous';
+              const entry = group.components[name] || (group.components[name] = { count: 0, time: 0 });
+              entry.count += render.count || 1;
+              entry.time += render.time || 0;
+              if (render.time > ${reactScan.slowRenderMs} && group.slow.length < 20) {
+                group.slow.push({ name: name, time: render.time });
+              }
+            }
+          };
+          
+          const script = document.createElement('script');
+          script.src = '${reactScan.scriptUrl}';
+          script.onload = () => {
+            console.debug('[DEV3000] react-scan loaded successfully');
+            
+            // react-scan exposes its internals once React is detected; chain our onRender hook
+            let attempts = 0;
+            const hookRenders = setInterval(() => {
+              const internals = window.__REACT_SCAN__ && window.__REACT_SCAN__.ReactScanInternals;
+              if (internals && internals.options && internals.options.value) {
+                clearInterval(hookRenders);
+                const previous = internals.options.value.onRender;
+                internals.options.value = Object.assign({}, internals.options.value, {
+                  onRender: function(fiber, renders) {
+                    if (previous) previous(fiber, renders);
+                    recordRenders(fiber, renders);
+                  }
+                });
+              } else if (++attempts > 40) {
+                clearInterval(hookRenders);
+                console.debug('[DEV3000] react-scan found no React renderer');
+              }
+            }, 250);
+          };
+          script.onerror = (err) => {
+            console.debug('[DEV3000] Failed to load react-scan:', err);
+          };
+          document.head.appendChild(script);
+        }
+        `
+            : ""
+        }
+        
+        // Helper function to generate CSS selector for element
+        function getElementSelector(el) {
+          if (!el || el === document) return 'document';
+          
+          // Try ID first (most reliable)
+          if (el.id) return '#' + el.id;
+          
+          // Build path with tag + classes
+          let selector = el.tagName.toLowerCase();
+          if (el.className && typeof el.className === 'string') {
+            let classes = el.className.trim().split(/\\\\s+/).filter(c => c.length > 0);
+            if (classes.length > 0) selector += '.' + classes.join('.');
+          }
+          
+          // Add nth-child if needed to make unique
+          if (el.parentNode) {
+            let siblings = Array.from(el.parentNode.children).filter(child => 
+              child.tagName === el.tagName && 
+              child.className === el.className
+            );
+            if (siblings.length > 1) {
+              let index = siblings.indexOf(el) + 1;
+              selector += ':nth-child(' + index + ')';
+            }
+          }
+          
+          return selector;
+        }
+        
+        // Helper to get element details for replay
+        function getElementDetails(el) {
+          let details = {
+            selector: getElementSelector(el),
+            tag: el.tagName.toLowerCase(),
+            text: el.textContent ? el.textContent.trim().substring(0, 50) : '',
+            id: el.id || '',
+            className: el.className || '',
+            name: el.name || '',
+            type: el.type || '',
+            value: el.type === 'password' ? '' : (el.value || '')
+          };
+          return JSON.stringify(details);
+        }
+        
+        // Scroll coalescing variables  
+        let scrollTimeout = null;
+        let lastScrollX = 0;
+        let lastScrollY = 0;
+        let scrollStartX = 0;
+        let scrollStartY = 0;
+        let scrollTarget = 'document';
+        
+        // Add click tracking with element details
+        document.addEventListener('click', function(e) {
+          let details = getElementDetails(e.target);
+          // Send interaction data via custom event instead of console.log to avoid user visibility
+          window.dispatchEvent(new CustomEvent('dev3000-interaction', {
+            detail: { type: 'CLICK', x: e.clientX, y: e.clientY, element: details }
+          }));
+        });
+        
+        // Add key tracking with element details - characters typed into passwords are never
+        // recorded, named keys like Enter are, for replays to submit the form
+        document.addEventListener('keydown', function(e) {
+          if (e.target && e.target.type === 'password' && e.key.length === 1) return;
+          let details = getElementDetails(e.target);
+          // Send interaction data via custom event instead of console.log to avoid user visibility
+          window.dispatchEvent(new CustomEvent('dev3000-interaction', {
+            detail: { type: 'KEY', key: e.key, element: details }
+          }));
+        });
+        
+        // Record the final value of text fields and selects (passwords are never recorded)
+        document.addEventListener('change', function(e) {
+          let el = e.target;
+          if (!el || !('value' in el) || el.type === 'password' || el.type === 'checkbox' || el.type === 'radio' || el.type === 'file') return;
+          window.dispatchEvent(new CustomEvent('dev3000-interaction', {
+            detail: { type: 'TYPE', value: String(el.value), element: getElementDetails(el) }
+          }));
+        }, true);
+        
+        // Add form submit tracking
+        document.addEventListener('submit', function(e) {
+          window.dispatchEvent(new CustomEvent('dev3000-interaction', {
+            detail: { type: 'SUBMIT', element: getElementDetails(e.target) }
+          }));
+        }, true);
+        
+        // Add hover tracking - only record elements the pointer rests on for 600ms
+        let hoverTimeout = null;
+        let lastHoverSelector = null;
+        document.addEventListener('mouseover', function(e) {
+          if (hoverTimeout) clearTimeout(hoverTimeout);
+          let el = e.target;
+          let x = e.clientX;
+          let y = e.clientY;
+          hoverTimeout = setTimeout(function() {
+            let selector = getElementSelector(el);
+            if (selector === lastHoverSelector) return;
+            lastHoverSelector = selector;
+            window.dispatchEvent(new CustomEvent('dev3000-interaction', {
+              detail: { type: 'HOVER', x: x, y: y, element: getElementDetails(el) }
+            }));
+          }, 600);
+        }, true);
+        
+        // Add drag tracking - a press and release more than 10px apart
+        let dragStart = null;
+        document.addEventListener('mousedown', function(e) {
+          if (e.button !== 0) return;
+          dragStart = { x: e.clientX, y: e.clientY, element: getElementDetails(e.target) };
+        }, true);
+        document.addEventListener('mouseup', function(e) {
+          if (!dragStart) return;
+          let start = dragStart;
+          dragStart = null;
+          if (Math.abs(e.clientX - start.x) <= 10 && Math.abs(e.clientY - start.y) <= 10) return;
+          window.dispatchEvent(new CustomEvent('dev3000-interaction', {
+            detail: { type: 'DRAG', from: { x: start.x, y: start.y }, to: { x: e.clientX, y: e.clientY }, element: start.element }
+          }));
+        }, true);
+        
+        // Add coalesced scroll tracking with capture to catch all scroll events
+        document.addEventListener('scroll', function(e) {
+          let target = e.target === document ? 'document' : getElementSelector(e.target);
+          let currentScrollX, currentScrollY;
+          
+          // Get scroll position from the actual scrolling element
+          if (e.target === document) {
+            currentScrollX = window.scrollX;
+            currentScrollY = window.scrollY;
+          } else {
+            currentScrollX = e.target.scrollLeft;
+            currentScrollY = e.target.scrollTop;
+          }
+          
+          // If this is the first scroll event or different target, reset
+          if (scrollTimeout === null || scrollTarget !== target) {
+            scrollStartX = currentScrollX;
+            scrollStartY = currentScrollY;
+            scrollTarget = target;
+          } else {
+            clearTimeout(scrollTimeout);
+          }
+          
+          // Update current position
+          lastScrollX = currentScrollX;
+          lastScrollY = currentScrollY;
+          
+          // Set timeout to log scroll after 300ms of no scrolling (scroll settled)
+          scrollTimeout = setTimeout(function() {
+            // Only log if there was actual movement (threshold of 5 pixels)
+            let deltaX = Math.abs(lastScrollX - scrollStartX);
+            let deltaY = Math.abs(lastScrollY - scrollStartY);
+            
+            if (deltaX > 5 || deltaY > 5) {
+              // Send interaction data via custom event instead of console.log to avoid user visibility
+              window.dispatchEvent(new CustomEvent('dev3000-interaction', {
+                detail: { type: 'SCROLL', from: { x: scrollStartX, y: scrollStartY }, to: { x: lastScrollX, y: lastScrollY }, target: target }
+              }));
+              window.dispatchEvent(new CustomEvent('dev3000-interaction', {
+                detail: { type: 'SCROLL_SETTLED', x: lastScrollX, y: lastScrollY }
+              }));
+            }
+            scrollTimeout = null;
+          }, 300);
+        }, true); // Use capture: true to catch scroll events on all elements
+        
+        // Listen for our custom interaction events and store them for CDP polling
+        window.__dev3000_interactions = [];
+        
+        window.addEventListener('dev3000-interaction', function(e) {
+          const detail = e.detail;
+          let message = '';
+          
+          switch(detail.type) {
+            case 'CLICK':
+              message = 'CLICK at ' + detail.x + ',' + detail.y + ' on ' + detail.element;
+              break;
+            case 'KEY':
+              message = 'KEY ' + detail.key + ' in ' + detail.element;
+              break;
+            case 'SCROLL':
+              message = 'SCROLL from ' + detail.from.x + ',' + detail.from.y + ' to ' + detail.to.x + ',' + detail.to.y + ' in ' + detail.target;
+              break;
+            case 'SCROLL_SETTLED':
+              message = 'SCROLL_SETTLED at ' + detail.x + ',' + detail.y;
+              break;
+            case 'TYPE':
+              message = 'TYPE ' + JSON.stringify(detail.value) + ' in ' + detail.element;
+              break;
+            case 'SUBMIT':
+              message = 'SUBMIT on ' + detail.element;
+              break;
+            case 'HOVER':
+              message = 'HOVER at ' + detail.x + ',' + detail.y + ' on ' + detail.element;
+              break;
+            case 'DRAG':
+              message = 'DRAG from ' + detail.from.x + ',' + detail.from.y + ' to ' + detail.to.x + ',' + detail.to.y + ' on ' + detail.element;
+              break;
+          }
+          
+          if (message) {
+            // Store interaction in array for CDP to poll, don't log to console
+            window.__dev3000_interactions.push({
+              timestamp: Date.now(),
+              message: message
+            });
+            
+            // Keep only last 100 interactions to avoid memory issues
+            if (window.__dev3000_interactions.length > 100) {
+              window.__dev3000_interactions = window.__dev3000_interactions.slice(-100);
+            }
+          }
+        });
+        
+        console.debug('CDP tracking initialized');
+      }
+    } catch (err) {
+      console.debug('[DEV3000_INTERACTION] ERROR: ' + err.message);
+    }
+  `
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { LogEntryStream, parseLogEntries } from "./log-entries"
+
+const LOG = [
+  "[2026-10-19T10:00:00.000Z] [SERVER] ready on http://localhost:3000",
+  "[2026-10-19T10:00:05.000Z] [BROWSER] [NETWORK] 500 Internal Server Error http://localhost:3000/api/users",
+  "[2026-10-19T10:00:06.000Z] [BROWSER] [CONSOLE WARNING] Each child in a list should have a unique key",
+  "[2026-10-19T10:00:07.000Z] [SERVER] ERROR: Cannot read properties of undefined",
+  "    at handler (app/api/users/route.ts:12:5)",
+  "[2026-10-19T10:00:08.000Z] [BROWSER] [CONSOLE LOG] rendered"
+].join("\n")
+
+describe("LogEntryStream", () => {
+  it("should hold the newest entry back until its continuation lines are in", () => {
+    const stream = new LogEntryStream()
+    const lines = LOG.split("\n")
+
+    expect(stream.push(`${lines[0]}\n${lines[1]}\n[2026-10-19T10:00`)).toHaveLength(1)
+    expect(stream.push(`${lines[2].slice(17)}\n${lines[3]}\n`)).toHaveLength(2)
+    expect(stream.push(`${lines[4]}\n`)).toEqual([])
+
+    const [error] = stream.flush()
+    expect(error.message).toBe(
+      "ERROR: Cannot read properties of undefined\n    at handler (app/api/users/route.ts:12:5)"
+    )
+    expect(stream.flush()).toEqual([])
+  })
+})
+
+describe("parseLogEntries", () => {
+  it("should read the process of multiplexed server output", () => {
+    const entries = parseLogEntries(
+      [
+        "[2026-10-19T10:00:00.000Z] [SERVER] [WEB] ready on http://localhost:3000",
+        "[2026-10-19T10:00:01.000Z] [SERVER] ERROR: [WORKER] Job failed",
+        "[2026-10-19T10:00:02.000Z] [SERVER] ready on http://localhost:3000",
+        "[2026-10-19T10:00:03.000Z] [BROWSER] [CONSOLE LOG] rendered"
+      ].join("\n")
+    )
+    expect(entries.map((entry) => entry.processName)).toEqual(["WEB", "WORKER", undefined, undefined])
+  })
+  it("should date local timestamps back from the log's last write, across midnight", () => {
+    const log = [
+      "[23:59:58.000] [BROWSER] [NAVIGATION] http://localhost:3000/",
+      "[00:00:01.500] [SERVER] GET / 200",
+      "[00:00:01.400] [BROWSER] [INTERACTION] KEY Enter in document",
+      "[09:15:00.000] [SERVER] GET /settings 200"
+    ].join("\n")
+    const lastModified = new Date(2025, 9, 2, 9, 15, 0, 0)
+
+    const at = (day: number, hours: number, minutes: number, seconds: number, ms: number) =>
+      new Date(2025, 9, day, hours, minutes, seconds, ms).toISOString()
+    expect(parseLogEntries(log, lastModified).map((entry) => entry.timestamp)).toEqual([
+      at(1, 23, 59, 58, 0),
+      at(2, 0, 0, 1, 500),
+      at(2, 0, 0, 1, 400),
+      at(2, 9, 15, 0, 0)
+    ])
+  })
+})
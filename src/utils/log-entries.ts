@@ -0,0 +1,245 @@
+/**
+ * Entries of the consolidated log
+ *
+ * The logs viewer, the replay API and `d3k logs` all read the log through
+ * parseLogEntries, so a live session, another running instance and an archived
+ * log file are split into entries (stack traces included) the same way.
+ */
+
+export interface LogEntry {
+  timestamp: string
+  source: string
+  message: string
+  screenshot?: string
+  screencast?: string
+  original: string
+  tabIdentifier?: string
+  userAgent?: string
+  processName?: string // Process that wrote a server entry, for multiplexed output
+}
+
+const LOCAL_TIMESTAMP_PATTERN = /^\d{2}:\d{2}:\d{2}\.\d{3}$/
+const MIDNIGHT_TOLERANCE_MS = 60 * 1000
+
+// "[PROCESS] message" of multiplexed server output, "ERROR: [PROCESS] message" from stderr
+const PROCESS_PREFIX_PATTERN = /^(?:ERROR: )?\[([A-Z0-9][A-Z0-9_.:@/-]*)\] /
+
+/**
+ * Get the process that wrote a server message, when a process manager multiplexes the output
+ * @returns The process name as logged (upper case), or undefined for single-process output
+ */
+export function getServerProcessName(message: string): string | undefined {
+  return message.match(PROCESS_PREFIX_PATTERN)?.[1]
+}
+
+/**
+ * Cleans up console log messages that contain CSS formatting directives
+ * Example: "%c[Vercel Web Analytics]%c Debug mode... color: rgb(120, 120, 120) color: inherit"
+ * Becomes: "[Vercel Web Analytics] Debug mode..."
+ */
+function cleanConsoleFormatting(message: string): string {
+  // Pattern to match console log entries with CSS formatting
+  const consoleLogPattern = /^\[CONSOLE LOG\] (.+)$/
+  const match = message.match(consoleLogPattern)
+
+  if (!match) {
+    return message
+  }
+
+  const consoleMessage = match[1]
+
+  // Check if this message has %c CSS formatting directives
+  if (!consoleMessage.includes("%c")) {
+    return message // No formatting to clean
+  }
+
+  // Remove CSS formatting directives step by step
+  let cleaned = consoleMessage
+
+  // Remove %c markers
+  cleaned = cleaned.replace(/%c/g, "")
+
+  // Remove trailing CSS color declarations - look for CSS patterns before JSON or at end of string
+  // Match CSS color declarations that appear after %c removal
+  cleaned = cleaned.replace(/\s+color:\s*[^{}\n]*?(?=\s*[{[]|$)/g, "")
+
+  // Clean up any extra whitespace
+  cleaned = cleaned.replace(/\s+/g, " ").trim()
+
+  return `[CONSOLE LOG] ${cleaned}`
+}
+
+/**
+ * Split a consolidated log into entries, with their timestamps in ISO format
+ *
+ * @param lastModified - When the log was last written, e.g. its mtime, dates the local timestamps
+ */
+export function parseLogEntries(logContent: string, lastModified: Date = new Date()): LogEntry[] {
+  // Enhanced pattern to handle multiple timestamp formats:
+  // Format 1 (CDP): [timestamp] [SOURCE] message
+  // Format 2 (Extension): [timestamp] [TAB-id] [SOURCE] [event] message
+  // Format 3 (Short): [HH:MM:SS.mmm] [SOURCE] message
+  const timestampPattern = /\[(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z|\d{2}:\d{2}:\d{2}\.\d{3})\] \[([^\]]+)\] /
+
+  const entries: LogEntry[] = []
+  const lines = logContent.split("\n")
+  let currentEntry: LogEntry | null = null
+
+  for (const line of lines) {
+    if (!line.trim()) continue
+
+    const match = line.match(timestampPattern)
+    if (match) {
+      // Save previous entry if exists
+      if (currentEntry) {
+        entries.push(currentEntry)
+      }
+
+      const [fullMatch, timestamp, firstBracket] = match
+      const remainingLine = line.substring(fullMatch.length)
+
+      // Check if this is a Chrome extension format with tab identifier
+      const isTabIdentifier = /^TAB-\d+\.\d+$/.test(firstBracket)
+      let source = firstBracket
+      let message = remainingLine
+      let tabIdentifier: string | undefined
+      let userAgent: string | undefined
+
+      if (isTabIdentifier) {
+        // Chrome extension format: [TAB-id] [SOURCE] [event] message
+        tabIdentifier = firstBracket
+
+        // Look for the next bracketed section which should be the actual source
+        const sourceMatch = remainingLine.match(/^\[([^\]]+)\] /)
+        if (sourceMatch) {
+          source = sourceMatch[1] // This should be "BROWSER"
+          message = remainingLine.substring(sourceMatch[0].length)
+
+          // Extract user agent from INFO entries if present
+          if (message.includes("User-Agent:")) {
+            const uaMatch = message.match(/User-Agent: ([^,\n]+)/)
+            if (uaMatch) {
+              userAgent = uaMatch[1]
+            }
+          }
+        }
+      }
+
+      const screenshot = message.match(/\[SCREENSHOT\] ([^\s[]+)/)?.[1]
+      const screencast = message.match(/\[SCREENCAST\] View jank analysis: ([^\s]+)/)?.[1]
+
+      // Clean up CSS formatting directives in console log messages
+      let cleanedMessage = cleanConsoleFormatting(message)
+
+      // Remove browser type markers from displayed message (they'll show as pills instead)
+      // cleanedMessage = cleanedMessage.replace(/ \[PLAYWRIGHT\]$/, "").replace(/ \[CHROME_EXTENSION\]$/, "")
+      cleanedMessage = cleanedMessage.replace(/ \[CHROME_EXTENSION\]$/, "") // Only remove Chrome Extension tag
+
+      // Filter out noisy WebSocket logs from Next.js dev server
+      const isNoisyWebSocketLog =
+        cleanedMessage.includes("[Network.webSocketFrameSent]") ||
+        cleanedMessage.includes("[Network.webSocketFrameReceived]") ||
+        cleanedMessage.includes("[Network.webSocketFrame") ||
+        (cleanedMessage.includes("webSocketDebuggerUrl") && cleanedMessage.includes("localhost")) ||
+        (cleanedMessage.includes("[NETWORK") &&
+          cleanedMessage.includes("__PAGE__") &&
+          cleanedMessage.includes("refresh"))
+
+      // Skip noisy WebSocket logs unless user specifically wants to see them
+      if (isNoisyWebSocketLog) {
+        currentEntry = null // Skip this entry
+        continue
+      }
+
+      currentEntry = {
+        timestamp,
+        source,
+        message: cleanedMessage,
+        screenshot,
+        screencast,
+        original: line,
+        tabIdentifier,
+        userAgent,
+        processName: source === "SERVER" ? getServerProcessName(cleanedMessage) : undefined
+      }
+    } else if (currentEntry) {
+      // Append to current entry's message
+      currentEntry.message += `\n${line}`
+      currentEntry.original += `\n${line}`
+    }
+  }
+
+  // Don't forget the last entry
+  if (currentEntry) {
+    entries.push(currentEntry)
+  }
+
+  dateLocalTimestamps(entries, lastModified)
+  return entries
+}
+
+/**
+ * Turn the local HH:MM:SS.mmm timestamps of entries into ISO timestamps
+ *
+ * Local timestamps carry no date. The last entry was written on the day the log was last
+ * modified, and walking back from it, a time of day later than the entry after it means a
+ * midnight was crossed - so archived logs and sessions spanning midnight keep their dates.
+ */
+function dateLocalTimestamps(entries: LogEntry[], lastModified: Date): void {
+  const day = new Date(lastModified)
+  let laterTimeOfDay = timeOfDayMs(lastModified)
+
+  for (let index = entries.length - 1; index >= 0; index--) {
+    const entry = entries[index]
+    if (!LOCAL_TIMESTAMP_PATTERN.test(entry.timestamp)) continue
+
+    const [hours, minutes, secondsMs] = entry.timestamp.split(":")
+    const [seconds, ms] = secondsMs.split(".")
+    const date = new Date(day)
+    date.setHours(Number(hours), Number(minutes), Number(seconds), Number(ms))
+
+    // Lines of concurrent processes can be slightly out of order, that's not a new day
+    if (timeOfDayMs(date) - laterTimeOfDay > MIDNIGHT_TOLERANCE_MS) {
+      day.setDate(day.getDate() - 1)
+      date.setDate(date.getDate() - 1)
+    }
+    laterTimeOfDay = timeOfDayMs(date)
+    entry.timestamp = date.toISOString()
+  }
+}
+
+function timeOfDayMs(date: Date): number {
+  return ((date.getHours() * 60 + date.getMinutes()) * 60 + date.getSeconds()) * 1000 + date.getMilliseconds()
+}
+
+/**
+ * Turn chunks appended to a log file into complete entries
+ *
+ * The newest entry is held back until the next one starts, since stack traces
+ * continue it on the following lines. flush() releases it once writes pause.
+ */
+export class LogEntryStream {
+  private partialLine = ""
+  private heldEntry = ""
+
+  push(chunk: string): LogEntry[] {
+    const text = this.partialLine + chunk
+    const lastNewline = text.lastIndexOf("\n")
+    if (lastNewline === -1) {
+      this.partialLine = text
+      return []
+    }
+    this.partialLine = text.slice(lastNewline + 1)
+
+    const entries = parseLogEntries(this.heldEntry + text.slice(0, lastNewline + 1))
+    const held = entries.pop()
+    this.heldEntry = held ? `${held.original}\n` : ""
+    return entries
+  }
+
+  flush(): LogEntry[] {
+    const entries = parseLogEntries(this.heldEntry)
+    this.heldEntry = ""
+    return entries
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { parseLogEntries } from "./log-entries"
+import { matchesLogEntryFilter } from "./log-entry-filter"
+
+const LOG = [
+  "[2026-10-19T10:00:00.000Z] [SERVER] ready on http://localhost:3000",
+  "[2026-10-19T10:00:05.000Z] [BROWSER] [NETWORK] 500 Internal Server Error http://localhost:3000/api/users",
+  "[2026-10-19T10:00:06.000Z] [BROWSER] [CONSOLE WARNING] Each child in a list should have a unique key",
+  "[2026-10-19T10:00:07.000Z] [SERVER] ERROR: Cannot read properties of undefined",
+  "    at handler (app/api/users/route.ts:12:5)",
+  "[2026-10-19T10:00:08.000Z] [BROWSER] [CONSOLE LOG] rendered"
+].join("\n")
+
+describe("matchesLogEntryFilter", () => {
+  const entries = parseLogEntries(LOG)
+
+  it("should filter by source, time and message", () => {
+    const messages = (filter: Parameters<typeof matchesLogEntryFilter>[1]) =>
+      entries.filter((entry) => matchesLogEntryFilter(entry, filter)).map((entry) => entry.message)
+
+    expect(messages({ source: "server" })).toEqual([
+      "ready on http://localhost:3000",
+      "ERROR: Cannot read properties of undefined\n    at handler (app/api/users/route.ts:12:5)"
+    ])
+    expect(messages({ since: new Date("2026-10-19T10:00:07.000Z") })).toHaveLength(2)
+    expect(messages({ grep: /api\/USERS/i })).toHaveLength(2)
+  })
+
+  it("should keep entries at the level or more severe", () => {
+    const count = (level: "error" | "warn" | "log") =>
+      entries.filter((entry) => matchesLogEntryFilter(entry, { level })).length
+
+    expect(count("error")).toBe(2)
+    expect(count("warn")).toBe(3)
+    expect(count("log")).toBe(5)
+  })
+})
@@ -0,0 +1,37 @@
+/**
+ * Filters of `d3k logs`
+ *
+ * Kept apart from log-entries, which the logs viewer bundles and so has to stay
+ * free of relative imports.
+ */
+
+import type { LogEntry } from "./log-entries.js"
+import { classifyLogMessage, LOG_EVENT_LEVELS, type LogEventLevel } from "./log-events.js"
+
+export interface LogEntryFilter {
+  source?: "browser" | "server"
+  grep?: RegExp // Tested against the message
+  since?: Date
+  level?: LogEventLevel // This level or more severe - entries without one count as "log"
+}
+
+/**
+ * Infer the level of an entry the way the event sidecar does
+ */
+export function getLogEntryLevel(entry: LogEntry): LogEventLevel | undefined {
+  return classifyLogMessage(entry.source.toLowerCase() === "server" ? "server" : "browser", entry.message).level
+}
+
+/**
+ * Check an entry against the filters of `d3k logs`
+ */
+export function matchesLogEntryFilter(entry: LogEntry, filter: LogEntryFilter): boolean {
+  if (filter.source && entry.source.toLowerCase() !== filter.source) return false
+  if (filter.since && new Date(entry.timestamp) < filter.since) return false
+  if (filter.grep && !filter.grep.test(entry.message)) return false
+  if (filter.level) {
+    const level = getLogEntryLevel(entry) ?? "log"
+    if (LOG_EVENT_LEVELS.indexOf(level) > LOG_EVENT_LEVELS.indexOf(filter.level)) return false
+  }
+  return true
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest"
+import { classifyLogMessage, createLogEvent, getEventLogPath, getLogEventStacks, queryLogEvents } from "./log-events"
+
+describe("getEventLogPath", () => {
+  it("should put the sidecar next to the log file", () => {
+    expect(getEventLogPath("/home/me/.d3k/logs/app-2025-10-01T10-00-00Z.log")).toBe(
+      "/home/me/.d3k/logs/app-2025-10-01T10-00-00Z.jsonl"
+    )
+    expect(getEventLogPath("/home/me/.d3k/logs/app-2025-10-01T10-00-00Z.log.gz")).toBe(
+      "/home/me/.d3k/logs/app-2025-10-01T10-00-00Z.jsonl"
+    )
+    expect(getEventLogPath("./ai-dev-tools/consolidated")).toBe("./ai-dev-tools/consolidated.jsonl")
+  })
+})
+
+describe("classifyLogMessage", () => {
+  it("should infer kind and level from the message tags", () => {
+    expect(classifyLogMessage("browser", "[CONSOLE ERROR] Failed to load")).toEqual({ kind: "console", level: "error" })
+    expect(classifyLogMessage("browser", "[NETWORK] 404 Not Found http://localhost:3000/x")).toEqual({
+      kind: "network",
+      level: "error"
+    })
+    expect(classifyLogMessage("browser", "[NETWORK] GET http://localhost:3000/")).toEqual({ kind: "network" })
+    expect(classifyLogMessage("browser", "[SCREENSHOT] 2025-10-01-error.png")).toEqual({ kind: "screenshot" })
+    expect(classifyLogMessage("browser", "[PERF] LCP 1.20s (good) - <img#hero>")).toEqual({ kind: "performance" })
+    expect(classifyLogMessage("browser", "[PERF] INP 640ms (poor) - click")).toEqual({
+      kind: "performance",
+      level: "warn"
+    })
+    expect(classifyLogMessage("browser", "[BUDGET] CRITICAL: / exceeded LCP budget - 3.20s > 2.50s")).toEqual({
+      kind: "performance",
+      level: "error"
+    })
+    expect(classifyLogMessage("browser", "[A11Y] CRITICAL: image-alt on / - Images must have alternate text")).toEqual({
+      kind: "accessibility",
+      level: "error"
+    })
+    expect(
+      classifyLogMessage("browser", "[A11Y] MINOR: region on / - All page content should be in landmarks")
+    ).toEqual({ kind: "accessibility" })
+    expect(classifyLogMessage("browser", "[REACT] SLOW RENDER: Chart took 31.0ms after page load")).toEqual({
+      kind: "performance",
+      level: "warn"
+    })
+    expect(classifyLogMessage("browser", "[CDP] Enabled Page domain")).toEqual({ kind: "system" })
+    expect(classifyLogMessage("server", "ERROR: Failed to compile")).toEqual({ kind: "server", level: "error" })
+  })
+})
+
+describe("createLogEvent", () => {
+  it("should let explicit fields override inferred ones", () => {
+    const event = createLogEvent(
+      "browser",
+      "[ERROR] Something failed",
+      { kind: "console", level: "error", url: undefined },
+      new Date("2025-10-01T10:00:00.000Z")
+    )
+
+    expect(event).toEqual({
+      timestamp: "2025-10-01T10:00:00.000Z",
+      source: "browser",
+      kind: "console",
+      level: "error",
+      message: "[ERROR] Something failed"
+    })
+  })
+})
+
+describe("queryLogEvents", () => {
+  const content = [
+    createLogEvent("browser", "[NETWORK] POST http://localhost:3000/api/users", {
+      url: "http://localhost:3000/api/users",
+      method: "POST",
+      requestId: "1.1"
+    }),
+    createLogEvent("browser", "[NETWORK] 500 Internal Server Error http://localhost:3000/api/users", {
+      url: "http://localhost:3000/api/users",
+      status: 500,
+      requestId: "1.1"
+    }),
+    createLogEvent("browser", "[NETWORK] 200 OK http://localhost:3000/", {
+      url: "http://localhost:3000/",
+      status: 200
+    }),
+    createLogEvent("server", "ERROR: TypeError: Cannot read properties of undefined\n    at load (/app/db.js:3:9)", {
+      processName: "web",
+      stack: [{ file: "/app/db.js", line: 3, column: 9, function: "load" }]
+    })
+  ]
+    .map((event) => JSON.stringify(event))
+    .concat('{"timestamp": "partial')
+    .join("\n")
+
+  it("should filter by field", () => {
+    expect(queryLogEvents(content, { kind: "network", level: "error" }).events.map((e) => e.status)).toEqual([500])
+    expect(queryLogEvents(content, { requestId: "1.1" }).total).toBe(2)
+    expect(queryLogEvents(content, { url: "/api/users", method: "post" }).events).toHaveLength(1)
+    expect(queryLogEvents(content, { source: "server" }).events[0].processName).toBe("web")
+    expect(queryLogEvents(content, { hasStack: true }).events.map((e) => e.source)).toEqual(["server"])
+  })
+
+  it("should return the most recent matches up to the limit", () => {
+    const result = queryLogEvents(content, { kind: "network", limit: 1 })
+
+    expect(result.total).toBe(3)
+    expect(result.events.map((e) => e.status)).toEqual([200])
+  })
+})
+
+describe("getLogEventStacks", () => {
+  it("should map the messages of events with a stack trace to their frames", () => {
+    const stack = [
+      { file: "app/page.tsx", line: 42, column: 7, function: "Page", bundled: "http://localhost:3000/page.js:1:4033" }
+    ]
+    const content = [
+      createLogEvent("browser", "[ERROR] Uncaught Error: boom", { stack }),
+      createLogEvent("browser", "[LOG] hello")
+    ]
+      .map((event) => JSON.stringify(event))
+      .join("\n")
+
+    const stacks = getLogEventStacks(content)
+
+    expect([...stacks.keys()]).toEqual(["[ERROR] Uncaught Error: boom"])
+    expect(stacks.get("[ERROR] Uncaught Error: boom")).toEqual(stack)
+  })
+})
@@ -0,0 +1,220 @@
+/**
+ * Structured log events
+ *
+ * Every line written to the consolidated log is also appended as a JSON object
+ * to a sidecar file next to it (project-2025-10-01T10-00-00Z.log ->
+ * project-2025-10-01T10-00-00Z.jsonl). Consumers can then filter by field
+ * instead of regex-parsing "[timestamp] [SOURCE] message" lines.
+ */
+
+import type { StackFrame } from "../services/parsers/stack-trace.js"
+
+export type LogEventSource = "server" | "browser"
+
+export type LogEventKind =
+  | "console" // Browser console output
+  | "error" // Uncaught browser exceptions
+  | "network" // Requests and responses
+  | "interaction" // Clicks, keys, scrolls, ... recorded in the page
+  | "navigation" // Page navigations
+  | "screenshot" // Screenshots saved by d3k
+  | "performance" // Web vitals, long tasks and budget checks measured per navigation
+  | "accessibility" // axe-core violations found by audit_accessibility
+  | "server" // Dev server output
+  | "system" // d3k's own messages (CDP, replay, crashes, ...)
+
+export type LogEventLevel = "error" | "warn" | "info" | "log" | "debug"
+
+export interface LogEvent {
+  timestamp: string // ISO, regardless of the text log's timestamp format
+  source: LogEventSource
+  kind: LogEventKind
+  level?: LogEventLevel
+  message: string // The message as written to the text log
+  url?: string
+  status?: number // HTTP status of network responses
+  method?: string // HTTP method of network requests
+  requestId?: string // CDP request id, shared by a request and its response
+  processName?: string // Process that wrote a server line, for multiplexed output
+  device?: string // Device profile a screenshot was taken for
+  stack?: StackFrame[] // Frames of an error's stack trace, in the order the runtime printed them
+}
+
+/**
+ * Fields a logger may know better than what can be inferred from the message
+ */
+export type LogEventFields = Partial<Omit<LogEvent, "timestamp" | "source" | "message">>
+
+export interface LogEventQuery {
+  source?: LogEventSource
+  kind?: LogEventKind
+  level?: LogEventLevel
+  url?: string // Substring match
+  status?: number
+  method?: string
+  requestId?: string
+  text?: string // Case-insensitive substring match on the message
+  hasStack?: boolean // Only events with a stack trace
+  since?: Date
+  until?: Date
+  limit?: number // Most recent matches to return
+}
+
+export const LOG_EVENT_KINDS: LogEventKind[] = [
+  "console",
+  "error",
+  "network",
+  "interaction",
+  "navigation",
+  "screenshot",
+  "performance",
+  "accessibility",
+  "server",
+  "system"
+]
+
+export const LOG_EVENT_LEVELS: LogEventLevel[] = ["error", "warn", "info", "log", "debug"]
+
+const DEFAULT_QUERY_LIMIT = 100
+
+/**
+ * Get the path of the event sidecar of a consolidated log file
+ * Sidecars of archived logs may be gzipped next to this path, see findLogSidecar in utils/log-rotation.
+ */
+export function getEventLogPath(logFilePath: string): string {
+  return /\.log(?:\.gz)?$/.test(logFilePath) ? logFilePath.replace(/\.log(?:\.gz)?$/, ".jsonl") : `${logFilePath}.jsonl`
+}
+
+/**
+ * Infer the kind and level of a message from the tags the loggers put in it
+ */
+export function classifyLogMessage(source: LogEventSource, message: string): Pick<LogEvent, "kind" | "level"> {
+  if (source === "server") {
+    return /^ERROR: /.test(message) ? { kind: "server", level: "error" } : { kind: "server" }
+  }
+
+  const tag = message.match(/^\[([A-Z0-9 ]+)\]/)?.[1]
+  switch (tag) {
+    case "ERROR":
+      return { kind: "error", level: "error" }
+    case "WARNING":
+    case "CONSOLE WARNING":
+      return { kind: "console", level: "warn" }
+    case "CONSOLE ERROR":
+      return { kind: "console", level: "error" }
+    case "INFO":
+      return { kind: "console", level: "info" }
+    case "LOG":
+      return { kind: "console", level: "log" }
+    case "DEBUG":
+      return { kind: "console", level: "debug" }
+    case "NETWORK": {
+      const status = Number(message.match(/^\[NETWORK\] (\d{3}) /)?.[1])
+      return status >= 400 ? { kind: "network", level: "error" } : { kind: "network" }
+    }
+    case "INTERACTION":
+      return { kind: "interaction" }
+    case "NAVIGATION":
+      return { kind: "navigation" }
+    case "SCREENSHOT":
+      return { kind: "screenshot" }
+    case "PERF":
+      return / \(poor\)/.test(message) ? { kind: "performance", level: "warn" } : { kind: "performance" }
+    case "BUDGET":
+      return /^\[BUDGET\] CRITICAL/.test(message) ? { kind: "performance", level: "error" } : { kind: "performance" }
+    case "REACT":
+      return /^\[REACT\] SLOW RENDER/.test(message) ? { kind: "performance", level: "warn" } : { kind: "performance" }
+    case "A11Y": {
+      const impact = message.match(/^\[A11Y\] ([A-Z]+):/)?.[1]
+      return impact === "CRITICAL"
+        ? { kind: "accessibility", level: "error" }
+        : impact === "SERIOUS"
+          ? { kind: "accessibility", level: "warn" }
+          : { kind: "accessibility" }
+    }
+    default:
+      return { kind: "system" }
+  }
+}
+
+/**
+ * Build the event for a line written to the consolidated log
+ */
+export function createLogEvent(
+  source: LogEventSource,
+  message: string,
+  fields: LogEventFields = {},
+  timestamp: Date = new Date()
+): LogEvent {
+  // Explicit fields win over inferred ones, but undefined never erases them
+  const explicit = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined))
+  return {
+    timestamp: timestamp.toISOString(),
+    source,
+    ...classifyLogMessage(source, message),
+    ...explicit,
+    message
+  }
+}
+
+/**
+ * Parse the content of an event sidecar, skipping lines that aren't valid events
+ * (e.g. a partially written last line)
+ */
+export function parseLogEvents(content: string): LogEvent[] {
+  const events: LogEvent[] = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      const event = JSON.parse(line) as LogEvent
+      if (event.timestamp && event.source && event.kind) {
+        events.push(event)
+      }
+    } catch {
+      // Ignore malformed lines
+    }
+  }
+  return events
+}
+
+export function matchesLogEventQuery(event: LogEvent, query: LogEventQuery): boolean {
+  if (query.source && event.source !== query.source) return false
+  if (query.kind && event.kind !== query.kind) return false
+  if (query.level && event.level !== query.level) return false
+  if (query.status !== undefined && event.status !== query.status) return false
+  if (query.method && event.method?.toUpperCase() !== query.method.toUpperCase()) return false
+  if (query.requestId && event.requestId !== query.requestId) return false
+  if (query.url && !event.url?.includes(query.url)) return false
+  if (query.text && !event.message.toLowerCase().includes(query.text.toLowerCase())) return false
+  if (query.hasStack && !event.stack?.length) return false
+
+  if (query.since || query.until) {
+    const time = Date.parse(event.timestamp)
+    if (query.since && time < query.since.getTime()) return false
+    if (query.until && time > query.until.getTime()) return false
+  }
+
+  return true
+}
+
+/**
+ * Filter the events of a sidecar by field
+ * @returns The most recent matches (up to query.limit, 100 by default) in log order, and the number of matches
+ */
+export function queryLogEvents(content: string, query: LogEventQuery): { events: LogEvent[]; total: number } {
+  const matches = parseLogEvents(content).filter((event) => matchesLogEventQuery(event, query))
+  const limit = query.limit ?? DEFAULT_QUERY_LIMIT
+  return { events: limit > 0 ? matches.slice(-limit) : [], total: matches.length }
+}
+
+/**
+ * Get the stack traces of a sidecar's events by message, for readers of the text log
+ * Messages logged several times with different traces keep the last one.
+ */
+export function getLogEventStacks(content: string): Map<string, StackFrame[]> {
+  const stacks = new Map<string, StackFrame[]>()
+  for (const event of parseLogEvents(content)) {
+    if (event.stack?.length) stacks.set(event.message, event.stack)
+  }
+  return stacks
+}
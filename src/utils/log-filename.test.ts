@@ -2,6 +2,7 @@ import { describe, expect, it } from "vitest"
 import {
   extractProjectNameFromLogFilename,
   extractTimestampFromLogFilename,
+  getRotatedLogFilename,
   logFilenameMatchesProject
 } from "./log-filename"
 
@@ -26,6 +27,10 @@ describe("extractProjectNameFromLogFilename", () => {
     expect(extractProjectNameFromLogFilename("my-app-a3b5c7-2025-10-27T17-57-15-014Z.log")).toBe("my-app-a3b5c7")
   })
 
+  it("should extract project name from compressed archives", () => {
+    expect(extractProjectNameFromLogFilename("my-app-2025-10-27T17-57-15-014Z.log.gz")).toBe("my-app")
+  })
+
   it("should return null for invalid filename format", () => {
     expect(extractProjectNameFromLogFilename("invalid-log-file.log")).toBeNull()
   })
@@ -114,3 +119,13 @@ describe("Real-world log filename scenarios", () => {
     expect(logFilenameMatchesProject("ai-chatbot-2025-10-20T15-44-20-139Z.log", "chatbot")).toBe(true)
   })
 })
+
+describe("getRotatedLogFilename", () => {
+  it("should name the archive after the log's project and the rotation time", () => {
+    const now = new Date("2025-10-27T18:30:00.000Z")
+    expect(getRotatedLogFilename("my-app-2025-10-27T17-57-15-014Z.log", now)).toBe(
+      "my-app-2025-10-27T18-30-00-000Z.log"
+    )
+    expect(getRotatedLogFilename("consolidated.log", now)).toBe("unknown-2025-10-27T18-30-00-000Z.log")
+  })
+})
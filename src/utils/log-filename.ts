@@ -2,10 +2,15 @@
  * Utilities for working with dev3000 log filenames
  *
  * Log files follow the pattern: <project-name>-<timestamp>.log
- * where timestamp is ISO 8601 with special chars replaced by hyphens
+ * where timestamp is ISO 8601 with special chars replaced by hyphens.
+ * Compressed archives add a .gz extension.
  * Example: tailwindui-studio-2025-10-27T17-57-15-014Z.log
  */
 
+// <project-name>-YYYY-MM-DDTHH-MM-SS-SSSZ.log(.gz) - the timestamp always starts with
+// YYYY-MM-DD, which is a reliable anchor for project names containing hyphens
+export const LOG_FILENAME_PATTERN = /^(.+?)-(\d{4}-\d{2}-\d{2}T[\d-]+Z)\.log(?:\.gz)?$/
+
 /**
  * Extract the project name from a log filename
  *
@@ -13,9 +18,7 @@
  * @returns The project name (e.g., "tailwindui-studio") or null if invalid format
  */
 export function extractProjectNameFromLogFilename(filename: string): string | null {
-  // Pattern matches: <project-name>-YYYY-MM-DDTHH-MM-SS-SSSZ.log
-  // The timestamp always starts with YYYY-MM-DD which is a reliable anchor
-  const match = filename.match(/^(.+?)-(\d{4}-\d{2}-\d{2}T[\d-]+Z)\.log$/)
+  const match = filename.match(LOG_FILENAME_PATTERN)
   if (match) {
     return match[1]
   }
@@ -39,6 +42,17 @@ export function logFilenameMatchesProject(filename: string, projectName: string)
   return extractedName.includes(projectName)
 }
 
+/**
+ * Get the name a log is archived under when rotated: its project with the rotation time
+ *
+ * @param filename - The current log filename
+ * @returns The archive filename (e.g., "tailwindui-studio-2025-10-27T18-30-00-000Z.log")
+ */
+export function getRotatedLogFilename(filename: string, now: Date = new Date()): string {
+  const projectName = extractProjectNameFromLogFilename(filename) || "unknown"
+  return `${projectName}-${now.toISOString().replace(/[:.]/g, "-")}.log`
+}
+
 /**
  * Extract the timestamp from a log filename
  *
@@ -46,10 +60,10 @@ export function logFilenameMatchesProject(filename: string, projectName: string)
  * @returns ISO 8601 timestamp string or null if invalid format
  */
 export function extractTimestampFromLogFilename(filename: string): string | null {
-  const match = filename.match(/^.+?-(\d{4}-\d{2}-\d{2}T[\d-]+Z)\.log$/)
+  const match = filename.match(LOG_FILENAME_PATTERN)
   if (match) {
     // Convert back to proper ISO format (replace hyphens with colons and dots)
-    const timestamp = match[1]
+    const timestamp = match[2]
     // Format: 2025-10-27T17-57-15-014Z -> 2025-10-27T17:57:15.014Z
     const isoTimestamp = timestamp.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/, "T$1:$2:$3.$4Z")
     return isoTimestamp
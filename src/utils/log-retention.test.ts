@@ -0,0 +1,90 @@
+import { existsSync, mkdtempSync, readdirSync, rmSync, utimesSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { getEventLogPath } from "./log-events"
+import { applyLogRetention, DEFAULT_RETENTION_POLICY, pruneScreenshots, resolveRetentionPolicy } from "./log-retention"
+import { findLogSidecar, readLogFile } from "./log-rotation"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = new Date("2026-10-19T12:00:00.000Z").getTime()
+
+describe("resolveRetentionPolicy", () => {
+  it("should convert CLI values and keep defaults for the rest", () => {
+    expect(resolveRetentionPolicy({ logMaxSize: "5", logRetention: "3", logCompression: false })).toEqual({
+      ...DEFAULT_RETENTION_POLICY,
+      maxLogSizeBytes: 5 * 1024 * 1024,
+      maxLogFiles: 3,
+      compressLogs: false
+    })
+    expect(() => resolveRetentionPolicy({ logMaxAge: "two weeks" })).toThrow("--log-max-age")
+  })
+})
+
+describe("log retention", () => {
+  let dir: string
+
+  // Write a file last modified the given number of days before NOW
+  const writeAged = (name: string, content: string, daysAgo: number) => {
+    const path = join(dir, name)
+    writeFileSync(path, content)
+    const time = new Date(NOW - daysAgo * DAY_MS)
+    utimesSync(path, time, time)
+    return path
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "d3k-retention-"))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should compress recent archives and delete old or extra ones of the project only", async () => {
+    const current = writeAged("app-2026-10-19T10-00-00-000Z.log", "current\n", 0)
+    writeAged("app-2026-10-18T10-00-00-000Z.log", "[10:00:00.000] [SERVER] yesterday\n", 1)
+    writeAged("app-2026-10-18T10-00-00-000Z.jsonl", '{"message":"yesterday"}\n', 1)
+    writeAged("app-2026-10-18T10-00-00-000Z.network.jsonl", "{}\n", 1)
+    writeAged("app-2026-10-17T10-00-00-000Z.log.gz", "", 2)
+    writeAged("app-2026-10-01T10-00-00-000Z.log", "too old\n", 18)
+    writeAged("app-2026-10-01T10-00-00-000Z.jsonl", "{}\n", 18)
+    writeAged("my-app-2026-10-01T10-00-00-000Z.log", "another project\n", 18)
+
+    const result = await applyLogRetention(current, { ...DEFAULT_RETENTION_POLICY, maxLogFiles: 1 }, NOW)
+
+    expect(result.compressed.sort()).toEqual([
+      join(dir, "app-2026-10-18T10-00-00-000Z.jsonl.gz"),
+      join(dir, "app-2026-10-18T10-00-00-000Z.log.gz"),
+      join(dir, "app-2026-10-18T10-00-00-000Z.network.jsonl.gz")
+    ])
+    expect(result.deleted).toEqual([
+      join(dir, "app-2026-10-17T10-00-00-000Z.log.gz"),
+      join(dir, "app-2026-10-01T10-00-00-000Z.log")
+    ])
+    expect(readdirSync(dir).sort()).toEqual([
+      "app-2026-10-18T10-00-00-000Z.jsonl.gz",
+      "app-2026-10-18T10-00-00-000Z.log.gz",
+      "app-2026-10-18T10-00-00-000Z.network.jsonl.gz",
+      "app-2026-10-19T10-00-00-000Z.log",
+      "my-app-2026-10-01T10-00-00-000Z.log"
+    ])
+    const archive = join(dir, "app-2026-10-18T10-00-00-000Z.log.gz")
+    expect(readLogFile(archive)).toBe("[10:00:00.000] [SERVER] yesterday\n")
+    expect(readLogFile(findLogSidecar(getEventLogPath(archive)) ?? "")).toBe('{"message":"yesterday"}\n')
+  })
+
+  it("should delete screenshots beyond the limit or age", () => {
+    writeAged("2026-10-19T10-00-00-000Z-manual.png", "", 0)
+    writeAged("2026-10-18T10-00-00-000Z-error.png", "", 1)
+    writeAged("2026-10-17T10-00-00-000Z-network-idle.png", "", 2)
+    writeAged("1760000000000-jank-120ms.png", "", 10)
+    writeAged("1760000000000-metadata.json", "{}", 10)
+
+    const deleted = pruneScreenshots(dir, { ...DEFAULT_RETENTION_POLICY, maxScreenshots: 2 }, NOW)
+
+    expect(deleted.length).toBe(3)
+    expect(existsSync(join(dir, "2026-10-18T10-00-00-000Z-error.png"))).toBe(true)
+    expect(existsSync(join(dir, "1760000000000-metadata.json"))).toBe(false)
+  })
+})
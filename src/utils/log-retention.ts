@@ -0,0 +1,173 @@
+/**
+ * Retention and compression of log files, and garbage collection of screenshots
+ *
+ * Archived logs keep the <project>-<timestamp>.log naming of session logs, so the log list
+ * and the MCP tools find them, and are gzipped to <project>-<timestamp>.log.gz. Their
+ * sidecars (<project>-<timestamp>.jsonl.gz, ...) are compressed and deleted with them, see
+ * utils/log-rotation for reading them back.
+ */
+
+import { createReadStream, createWriteStream, existsSync, readdirSync, statSync, unlinkSync, utimesSync } from "fs"
+import { basename, dirname, join } from "path"
+import { pipeline } from "stream/promises"
+import { createGzip } from "zlib"
+import { extractProjectNameFromLogFilename } from "./log-filename.js"
+import { getLogSidecarFiles, isCompressedLog } from "./log-rotation.js"
+
+export interface RetentionPolicy {
+  maxLogSizeBytes: number // Rotate the current log once it grows past this, 0 to never rotate
+  maxLogFiles: number // Archived logs kept per project, 0 for no limit
+  maxLogAgeDays: number // Archived logs last written longer ago are deleted, 0 for no limit
+  compressLogs: boolean // Gzip archived logs
+  maxScreenshots: number // Screenshots kept, newest first, 0 for no limit
+  maxScreenshotAgeDays: number // Screenshots taken longer ago are deleted, 0 for no limit
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxLogSizeBytes: 50 * 1024 * 1024,
+  maxLogFiles: 10,
+  maxLogAgeDays: 14,
+  compressLogs: true,
+  maxScreenshots: 1000,
+  maxScreenshotAgeDays: 7
+}
+
+export interface RetentionResult {
+  compressed: string[]
+  deleted: string[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function getProjectName(logFilePath: string): string | null {
+  return extractProjectNameFromLogFilename(basename(logFilePath))
+}
+
+/**
+ * Build a retention policy from CLI option values, falling back to the defaults
+ * @throws If a value is not a non-negative number
+ */
+export function resolveRetentionPolicy(values: {
+  logMaxSize?: string // MB
+  logRetention?: string
+  logMaxAge?: string
+  logCompression?: boolean
+  screenshotRetention?: string
+  screenshotMaxAge?: string
+}): RetentionPolicy {
+  const parse = (value: string | undefined, option: string, fallback: number) => {
+    if (value === undefined) return fallback
+    const number = Number(value)
+    if (value.trim() === "" || !Number.isFinite(number) || number < 0) {
+      throw new Error(`${option} must be a non-negative number, got "${value}"`)
+    }
+    return number
+  }
+
+  const defaults = DEFAULT_RETENTION_POLICY
+  return {
+    maxLogSizeBytes: Math.round(
+      parse(values.logMaxSize, "--log-max-size", defaults.maxLogSizeBytes / 1024 / 1024) * 1024 * 1024
+    ),
+    maxLogFiles: Math.floor(parse(values.logRetention, "--log-retention", defaults.maxLogFiles)),
+    maxLogAgeDays: parse(values.logMaxAge, "--log-max-age", defaults.maxLogAgeDays),
+    compressLogs: values.logCompression ?? defaults.compressLogs,
+    maxScreenshots: Math.floor(parse(values.screenshotRetention, "--screenshot-retention", defaults.maxScreenshots)),
+    maxScreenshotAgeDays: parse(values.screenshotMaxAge, "--screenshot-max-age", defaults.maxScreenshotAgeDays)
+  }
+}
+
+/**
+ * Gzip an archived log or sidecar next to itself and remove the original
+ * The archive keeps the modification time of the file, which retention goes by.
+ * @returns The path of the compressed file
+ */
+export async function compressLogFile(logFilePath: string): Promise<string> {
+  const compressedPath = `${logFilePath}.gz`
+  const { atime, mtime } = statSync(logFilePath)
+  await pipeline(createReadStream(logFilePath), createGzip(), createWriteStream(compressedPath))
+  utimesSync(compressedPath, atime, mtime)
+  unlinkSync(logFilePath)
+  return compressedPath
+}
+
+/**
+ * Apply the retention policy to the archived logs of the current log's project
+ *
+ * Archives beyond the newest maxLogFiles or older than maxLogAgeDays are deleted with their
+ * sidecars, the remaining ones are gzipped with their sidecars. The current log is never touched.
+ */
+export async function applyLogRetention(
+  currentLogPath: string,
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): Promise<RetentionResult> {
+  const result: RetentionResult = { compressed: [], deleted: [] }
+  const logDir = dirname(currentLogPath)
+  const projectName = getProjectName(currentLogPath)
+  if (!projectName || !existsSync(logDir)) return result
+
+  const archives = readdirSync(logDir)
+    .filter((file) => getProjectName(file) === projectName)
+    .map((file) => join(logDir, file))
+    .filter((path) => path !== currentLogPath)
+    .map((path) => ({ path, mtime: statSync(path).mtimeMs }))
+    .sort((a, b) => b.mtime - a.mtime) // Most recent first
+
+  for (const [index, archive] of archives.entries()) {
+    const tooMany = policy.maxLogFiles > 0 && index >= policy.maxLogFiles
+    const tooOld = policy.maxLogAgeDays > 0 && now - archive.mtime > policy.maxLogAgeDays * DAY_MS
+
+    try {
+      if (tooMany || tooOld) {
+        for (const sidecar of getLogSidecarFiles(archive.path)) {
+          unlinkSync(join(logDir, sidecar))
+        }
+        unlinkSync(archive.path)
+        result.deleted.push(archive.path)
+      } else if (policy.compressLogs) {
+        const files = [archive.path, ...getLogSidecarFiles(archive.path).map((sidecar) => join(logDir, sidecar))]
+        for (const file of files.filter((path) => !isCompressedLog(path))) {
+          result.compressed.push(await compressLogFile(file))
+        }
+      }
+    } catch {
+      // Another instance may be cleaning up the same archive
+    }
+  }
+
+  return result
+}
+
+/**
+ * Delete screenshots beyond the newest maxScreenshots or older than maxScreenshotAgeDays
+ * Jank capture metadata is aged out with the frames it describes.
+ * @returns The deleted paths
+ */
+export function pruneScreenshots(screenshotDir: string, policy: RetentionPolicy, now: number = Date.now()): string[] {
+  if (!existsSync(screenshotDir)) return []
+
+  const files = readdirSync(screenshotDir)
+    .filter((file) => file.endsWith(".png") || file.endsWith("-metadata.json"))
+    .map((file) => {
+      const path = join(screenshotDir, file)
+      return { path, screenshot: file.endsWith(".png"), mtime: statSync(path).mtimeMs }
+    })
+    .sort((a, b) => b.mtime - a.mtime) // Most recent first
+
+  const deleted: string[] = []
+  let screenshots = 0
+  for (const file of files) {
+    const tooMany = file.screenshot && policy.maxScreenshots > 0 && ++screenshots > policy.maxScreenshots
+    const tooOld = policy.maxScreenshotAgeDays > 0 && now - file.mtime > policy.maxScreenshotAgeDays * DAY_MS
+    if (!tooMany && !tooOld) continue
+
+    try {
+      unlinkSync(file.path)
+      deleted.push(file.path)
+    } catch {
+      // Already gone
+    }
+  }
+  return deleted
+}
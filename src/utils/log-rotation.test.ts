@@ -0,0 +1,37 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { gzipSync } from "zlib"
+import { readLogFile, rotateLogFile } from "./log-rotation"
+
+describe("log rotation", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "d3k-rotation-"))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("should rotate the log with its sidecars", () => {
+    const logPath = join(dir, "app-2026-10-19T10-00-00-000Z.log")
+    writeFileSync(logPath, "[10:00:00.000] [SERVER] ready\n")
+    writeFileSync(join(dir, "app-2026-10-19T10-00-00-000Z.jsonl"), "{}\n")
+
+    const archived = rotateLogFile(logPath, "app-2026-10-19T11-00-00-000Z.log")
+    expect(archived).toBe(join(dir, "app-2026-10-19T11-00-00-000Z.log"))
+    expect(readFileSync(archived, "utf8")).toBe("[10:00:00.000] [SERVER] ready\n")
+    expect(readFileSync(join(dir, "app-2026-10-19T11-00-00-000Z.jsonl"), "utf8")).toBe("{}\n")
+    expect(readFileSync(logPath, "utf8")).toBe("")
+  })
+
+  it("should read gzipped archives", () => {
+    const archivePath = join(dir, "app-2026-10-18T10-00-00-000Z.log.gz")
+    writeFileSync(archivePath, gzipSync("[10:00:00.000] [SERVER] yesterday\n"))
+
+    expect(readLogFile(archivePath)).toBe("[10:00:00.000] [SERVER] yesterday\n")
+  })
+})
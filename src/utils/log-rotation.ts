@@ -0,0 +1,73 @@
+/**
+ * Reading and rotation of log files
+ *
+ * Sidecars (the .jsonl event log, the .network.jsonl capture) share the log's name and
+ * follow it. Kept apart from log-retention, which the MCP server can't bundle since it
+ * matches log filenames through utils/log-filename - this module has no relative imports.
+ */
+
+import { existsSync, readdirSync, readFileSync, renameSync, writeFileSync } from "fs"
+import { basename, dirname, join } from "path"
+import { gunzipSync } from "zlib"
+
+// Name of a log without its extensions, which its sidecars share
+function getBaseName(logFilePath: string): string {
+  return basename(logFilePath).replace(/\.log(?:\.gz)?$/, "")
+}
+
+/**
+ * List the sidecars of a log
+ * @returns Their file names, in the log's directory
+ */
+export function getLogSidecarFiles(logFilePath: string): string[] {
+  const base = getBaseName(logFilePath)
+  const logFile = basename(logFilePath)
+  return readdirSync(dirname(logFilePath)).filter((file) => file.startsWith(`${base}.`) && file !== logFile)
+}
+
+export function isCompressedLog(logFilePath: string): boolean {
+  return logFilePath.endsWith(".gz")
+}
+
+/**
+ * Find a sidecar of a log, which retention gzips along with an archived log
+ * @param sidecarPath - The uncompressed path, e.g. from getEventLogPath
+ * @returns The path of the sidecar or of its archive, null when there is neither
+ */
+export function findLogSidecar(sidecarPath: string): string | null {
+  if (existsSync(sidecarPath)) return sidecarPath
+  return existsSync(`${sidecarPath}.gz`) ? `${sidecarPath}.gz` : null
+}
+
+/**
+ * Read a log file or a sidecar, decompressing gzipped archives
+ */
+export function readLogFile(logFilePath: string): string {
+  const content = readFileSync(logFilePath)
+  return (isCompressedLog(logFilePath) ? gunzipSync(content) : content).toString("utf8")
+}
+
+/**
+ * Move the current log and its sidecars to an archive and start them over empty
+ * Writers append by path, so they carry on in the new file.
+ * @param archivedLogFilename - Name of the archive, see getRotatedLogFilename in utils/log-filename
+ * @returns The path of the archived log
+ */
+export function rotateLogFile(logFilePath: string, archivedLogFilename: string): string {
+  const logDir = dirname(logFilePath)
+  const archivedBase = getBaseName(archivedLogFilename)
+  const archivedLogPath = join(logDir, `${archivedBase}.log`)
+  const sidecars = getLogSidecarFiles(logFilePath)
+
+  renameSync(logFilePath, archivedLogPath)
+  writeFileSync(logFilePath, "")
+
+  const base = getBaseName(logFilePath)
+  for (const sidecar of sidecars) {
+    const sidecarPath = join(logDir, sidecar)
+    renameSync(sidecarPath, join(logDir, `${archivedBase}${sidecar.slice(base.length)}`))
+    writeFileSync(sidecarPath, "")
+  }
+
+  return archivedLogPath
+}
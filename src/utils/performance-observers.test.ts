@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { formatLayoutShiftLog, PERFORMANCE_OBSERVER_SCRIPT } from "./performance-observers"
+
+describe("formatLayoutShiftLog", () => {
+  it("should tell verified shifts from overlay noise", () => {
+    const rect = { x: 0, y: 0, width: 100, height: 40 }
+    expect(
+      formatLayoutShiftLog({
+        score: 0.05,
+        timestamp: 812.4,
+        sources: [{ node: "NAV", position: "static", previousRect: rect, currentRect: { ...rect, y: 60 } }]
+      })
+    ).toBe("[CDP] Layout shift detected (element: NAV, position: static, score: 0.0500, time: 812ms)")
+    expect(formatLayoutShiftLog({ score: 0.01, timestamp: 100, sources: [{ node: "DIV", position: "fixed" }] })).toBe(
+      "[CDP] Fixed/absolute element shift detected (DIV, position: fixed, score: 0.0100) - will be filtered as overlay noise"
+    )
+    expect(formatLayoutShiftLog({ score: 0.2, timestamp: 1500, sources: [] })).toBe(
+      "[CDP] Unverified shift detected (score: 0.2000, time: 1500ms) - element could not be identified, likely fixed overlay noise"
+    )
+  })
+
+  it("should inject a valid script", () => {
+    expect(() => new Function(PERFORMANCE_OBSERVER_SCRIPT)).not.toThrow()
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * Page performance observers
+ *
+ * Injected into the monitored page by ScreencastManager on each navigation, and served
+ * by the MCP server to the Chrome extension. The observers buffer layout shifts in
+ * window.__dev3000_layout_shifts__ and the raw web vitals entries (see web-vitals) in
+ * window.__dev3000_web_vitals__, which the monitor polls.
+ *
+ * Kept free of relative imports, since the MCP server bundles it.
+ */
+
+export interface LayoutShiftSource {
+  node?: string
+  position?: string | null
+  previousRect?: { x: number; y: number; width: number; height: number }
+  currentRect?: { x: number; y: number; width: number; height: number }
+  actualRect?: { x: number; y: number; width: number; height: number } | null
+}
+
+/**
+ * Layout shift as buffered by the injected observer
+ */
+export interface LayoutShift {
+  score: number
+  timestamp: number // ms since navigation start
+  sources?: LayoutShiftSource[]
+}
+
+/**
+ * Script installing the observers, resetting the buffers when run again for a new navigation
+ */
+export const PERFORMANCE_OBSERVER_SCRIPT = `
+  (function() {
+    // Reset layout shifts array for new navigation
+    window.__dev3000_layout_shifts__ = [];
+
+    // Update viewport info for current navigation
+    window.__dev3000_viewport__ = {
+      width: window.innerWidth,
+      height: window.innerHeight,
+      devicePixelRatio: window.devicePixelRatio || 1,
+      screenWidth: screen.width,
+      screenHeight: screen.height
+    };
+
+    // Reset web vitals entries for new navigation
+    window.__dev3000_web_vitals__ = { events: [], longTasks: [] };
+
+    if (!window.__dev3000_web_vitals_observer__) {
+      window.__dev3000_web_vitals_observer__ = true;
+
+      // Short selector for an element, e.g. "img#hero" or "button.submit"
+      const describe = (node) => {
+        if (!node || !node.tagName) return undefined;
+        let selector = node.tagName.toLowerCase();
+        if (node.id) {
+          selector += '#' + node.id;
+        } else if (typeof node.className === 'string' && node.className.trim()) {
+          selector += '.' + node.className.trim().split(/\\s+/)[0];
+        }
+        return selector;
+      };
+
+      const observe = (type, callback, options) => {
+        try {
+          new PerformanceObserver((list) => list.getEntries().forEach(callback))
+            .observe(Object.assign({ type: type, buffered: true }, options));
+        } catch (e) {
+          // Entry type not supported by this browser
+        }
+      };
+
+      // Cap the buffered entries - the page may stay open for hours
+      const push = (list, entry) => {
+        if (list.length < 200) list.push(entry);
+      };
+
+      observe('largest-contentful-paint', (entry) => {
+        window.__dev3000_web_vitals__.lcp = {
+          startTime: entry.startTime,
+          element: describe(entry.element),
+          url: entry.url || undefined,
+          size: entry.size
+        };
+      });
+
+      observe('paint', (entry) => {
+        if (entry.name === 'first-contentful-paint') {
+          window.__dev3000_web_vitals__.fcp = entry.startTime;
+        }
+      });
+
+      observe('navigation', (entry) => {
+        window.__dev3000_web_vitals__.ttfb = entry.responseStart;
+      });
+
+      observe('event', (entry) => {
+        push(window.__dev3000_web_vitals__.events, {
+          name: entry.name,
+          interactionId: entry.interactionId || 0,
+          startTime: entry.startTime,
+          duration: entry.duration,
+          processingStart: entry.processingStart,
+          processingEnd: entry.processingEnd,
+          target: describe(entry.target)
+        });
+      }, { durationThreshold: 40 });
+
+      observe('longtask', (entry) => {
+        push(window.__dev3000_web_vitals__.longTasks, {
+          type: 'longtask',
+          startTime: entry.startTime,
+          duration: entry.duration
+        });
+      });
+
+      observe('long-animation-frame', (entry) => {
+        const slowest = (entry.scripts || []).slice().sort((a, b) => b.duration - a.duration)[0];
+        push(window.__dev3000_web_vitals__.longTasks, {
+          type: 'long-animation-frame',
+          startTime: entry.startTime,
+          duration: entry.duration,
+          blockingDuration: entry.blockingDuration,
+          script: slowest ? slowest.sourceURL || slowest.invoker || undefined : undefined
+        });
+      });
+    }
+
+    // Install observer if not already present
+    if (window.__dev3000_cls_observer__) return;
+    window.__dev3000_cls_observer__ = true;
+
+    try {
+      const observer = new PerformanceObserver((list) => {
+        for (const entry of list.getEntries()) {
+          if (entry.entryType === 'layout-shift' && !entry.hadRecentInput) {
+            // For each shift, try to get the actual current bounding box and position style
+            const sources = entry.sources ? entry.sources.map(s => {
+              let actualRect = null;
+              let positionStyle = null;
+              if (s.node && s.node.nodeName) {
+                try {
+                  // Query the first matching element (nav, header, etc.)
+                  const element = document.querySelector(s.node.nodeName.toLowerCase());
+                  if (element) {
+                    const rect = element.getBoundingClientRect();
+                    actualRect = {
+                      x: rect.x,
+                      y: rect.y,
+                      width: rect.width,
+                      height: rect.height
+                    };
+
+                    // Get computed position style to detect fixed/absolute elements
+                    const computed = window.getComputedStyle(element);
+                    positionStyle = computed.position;
+                  }
+                } catch (e) {
+                  // Ignore errors
+                }
+              }
+
+              return {
+                node: s.node ? s.node.nodeName : undefined,
+                position: positionStyle,
+                previousRect: s.previousRect ? {
+                  x: s.previousRect.x,
+                  y: s.previousRect.y,
+                  width: s.previousRect.width,
+                  height: s.previousRect.height
+                } : {},
+                currentRect: s.currentRect ? {
+                  x: s.currentRect.x,
+                  y: s.currentRect.y,
+                  width: s.currentRect.width,
+                  height: s.currentRect.height
+                } : {},
+                actualRect: actualRect
+              };
+            }) : [];
+
+            window.__dev3000_layout_shifts__.push({
+              score: entry.value,
+              timestamp: entry.startTime,
+              sources: sources
+            });
+          }
+        }
+      });
+
+      observer.observe({ type: 'layout-shift', buffered: true });
+      console.log('CLS observer installed');
+    } catch (e) {
+      console.error('Failed to install CLS observer:', e);
+    }
+  })();
+`
+
+/**
+ * Format the log line of a layout shift, noting shifts of elements that can't be verified
+ * or are fixed overlays
+ */
+export function formatLayoutShiftLog(shift: LayoutShift): string {
+  const element = shift.sources?.[0]?.node || "unidentified"
+  const position = shift.sources?.[0]?.position
+
+  if (!shift.sources?.[0] || element === "unidentified" || position === null || position === undefined) {
+    return `[CDP] Unverified shift detected (score: ${shift.score.toFixed(4)}, time: ${shift.timestamp.toFixed(0)}ms) - element could not be identified, likely fixed overlay noise`
+  }
+  if (position === "fixed" || position === "absolute") {
+    return `[CDP] Fixed/absolute element shift detected (${element}, position: ${position}, score: ${shift.score.toFixed(4)}) - will be filtered as overlay noise`
+  }
+  return `[CDP] Layout shift detected (element: ${element}, position: ${position}, score: ${shift.score.toFixed(4)}, time: ${shift.timestamp.toFixed(0)}ms)`
+}
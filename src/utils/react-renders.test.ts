@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { formatRenderLog, parseRenderLogLine, summarizeRenderHotspots } from "./react-renders"
+
+describe("formatRenderLog", () => {
+  it("should list the busiest components first and report slow renders", () => {
+    expect(
+      formatRenderLog({
+        trigger: "CLICK on button#add",
+        components: {
+          App: { count: 1, time: 2.34 },
+          TodoItem: { count: 40, time: 9.1 },
+          Icon: { count: 40, time: 0 }
+        },
+        slow: [{ name: "TodoList", time: 42.26 }]
+      })
+    ).toEqual([
+      "[REACT] after CLICK on button#add: 81 renders of 3 components in 11.4ms - TodoItem ×40 (9.1ms), Icon ×40, App ×1 (2.3ms)",
+      "[REACT] SLOW RENDER: TodoList took 42.3ms after CLICK on button#add"
+    ])
+  })
+
+  it("should log nothing for an empty group", () => {
+    expect(formatRenderLog({ trigger: "page load", components: {}, slow: [] })).toEqual([])
+  })
+})
+
+describe("parseRenderLogLine", () => {
+  it("should read back formatted lines, including truncated component lists", () => {
+    const components = Object.fromEntries(Array.from({ length: 12 }, (_, i) => [`Row${i}`, { count: 12 - i, time: 0 }]))
+    const [line] = formatRenderLog({ trigger: "KEY Enter in input:nth-child(2)", components, slow: [] })
+
+    const parsed = parseRenderLogLine(`[2026-10-19T10:00:00.000Z] [BROWSER] ${line}`)
+    expect(parsed?.trigger).toBe("KEY Enter in input:nth-child(2)")
+    expect(parsed?.renders).toBe(78)
+    expect(parsed?.components).toHaveLength(10)
+    expect(parsed?.components[0]).toEqual({ name: "Row0", count: 12, time: 0 })
+  })
+
+  it("should read slow render lines and ignore other lines", () => {
+    expect(parseRenderLogLine("[BROWSER] [REACT] SLOW RENDER: Chart took 31.0ms after page load")).toEqual({
+      trigger: "page load",
+      renders: 1,
+      components: [{ name: "Chart", count: 1, time: 31 }],
+      slow: true
+    })
+    expect(parseRenderLogLine("[BROWSER] [INTERACTION] CLICK at 10,20")).toBeNull()
+  })
+})
+
+describe("summarizeRenderHotspots", () => {
+  it("should rank triggers by renders per occurrence", () => {
+    const lines = [
+      "[REACT] after CLICK on button#add: 41 renders of 2 components in 10.0ms - TodoItem ×40 (9.0ms), App ×1 (1.0ms)",
+      "[REACT] after CLICK on button#add: 21 renders of 2 components in 6.0ms - TodoItem ×20 (5.0ms), App ×1 (1.0ms)",
+      "[REACT] after page load: 5 renders of 1 component in 3.0ms - App ×5 (3.0ms)",
+      "[REACT] SLOW RENDER: TodoItem took 20.0ms after CLICK on button#add"
+    ].flatMap((line) => parseRenderLogLine(line) ?? [])
+
+    const [click, load] = summarizeRenderHotspots(lines)
+    expect(click).toMatchObject({ trigger: "CLICK on button#add", occurrences: 2, rendersPerOccurrence: 31 })
+    expect(click.components[0]).toEqual({ name: "TodoItem", rendersPerOccurrence: 30, time: 14 })
+    expect(load).toMatchObject({ trigger: "page load", occurrences: 1, rendersPerOccurrence: 5 })
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * React render reports
+ *
+ * With --plugin-react-scan, react-scan's onRender hook groups renders in the page by
+ * the interaction that caused them. The CDP monitor polls those groups and logs them
+ * as [REACT] lines, which get_render_hotspots reads back to find the components that
+ * re-render most per interaction.
+ */
+
+export interface ComponentRenders {
+  count: number
+  time: number // ms, summed over the renders react-scan could time
+}
+
+/**
+ * Renders collected in the page between one interaction and the next
+ */
+export interface RenderGroup {
+  trigger: string // "page load", "CLICK on button#add", ...
+  components: Record<string, ComponentRenders>
+  slow: Array<{ name: string; time: number }> // Single renders over SLOW_RENDER_MS
+}
+
+export interface ParsedRenderLine {
+  trigger: string
+  renders: number
+  components: Array<{ name: string } & ComponentRenders> // Only the components listed in the line
+  slow?: boolean // A SLOW RENDER line, with its single component
+}
+
+export interface RenderHotspot {
+  trigger: string
+  occurrences: number // Logged render groups for this trigger
+  rendersPerOccurrence: number
+  components: Array<{ name: string; rendersPerOccurrence: number; time: number }>
+}
+
+// A render longer than a frame at 60fps
+export const SLOW_RENDER_MS = 16
+
+// Components listed per [REACT] line, busiest first
+const LOGGED_COMPONENTS = 10
+
+function formatTime(ms: number): string {
+  return `${ms.toFixed(1)}ms`
+}
+
+/**
+ * Build the [REACT] lines logged for a render group
+ */
+export function formatRenderLog(group: RenderGroup): string[] {
+  const components = Object.entries(group.components).sort(([, a], [, b]) => b.count - a.count || b.time - a.time)
+  if (components.length === 0) return []
+
+  const renders = components.reduce((sum, [, entry]) => sum + entry.count, 0)
+  const time = components.reduce((sum, [, entry]) => sum + entry.time, 0)
+  const listed = components
+    .slice(0, LOGGED_COMPONENTS)
+    .map(([name, entry]) => `${name} ×${entry.count}${entry.time > 0 ? ` (${formatTime(entry.time)})` : ""}`)
+  const more = components.length > LOGGED_COMPONENTS ? ` (+${components.length - LOGGED_COMPONENTS} more)` : ""
+
+  return [
+    `[REACT] after ${group.trigger}: ${renders} ${renders === 1 ? "render" : "renders"} of ${components.length} ${components.length === 1 ? "component" : "components"} in ${formatTime(time)} - ${listed.join(", ")}${more}`,
+    ...group.slow
+      .sort((a, b) => b.time - a.time)
+      .map((slow) => `[REACT] SLOW RENDER: ${slow.name} took ${formatTime(slow.time)} after ${group.trigger}`)
+  ]
+}
+
+/**
+ * Read back a [REACT] line of the consolidated log, or null for other lines
+ */
+export function parseRenderLogLine(line: string): ParsedRenderLine | null {
+  const slow = line.match(/\[REACT\] SLOW RENDER: (\S+) took ([\d.]+)ms after (.+)$/)
+  if (slow) {
+    return {
+      trigger: slow[3],
+      renders: 1,
+      components: [{ name: slow[1], count: 1, time: Number(slow[2]) }],
+      slow: true
+    }
+  }
+
+  const group = line.match(
+    /\[REACT\] after (.+?): (\d+) renders? of \d+ components? in [\d.]+ms - (.+?)(?: \(\+\d+ more\))?$/
+  )
+  if (!group) return null
+
+  const components = group[3].split(", ").flatMap((entry) => {
+    const match = entry.match(/^(\S+) ×(\d+)(?: \(([\d.]+)ms\))?$/)
+    return match ? [{ name: match[1], count: Number(match[2]), time: match[3] ? Number(match[3]) : 0 }] : []
+  })
+  return { trigger: group[1], renders: Number(group[2]), components }
+}
+
+/**
+ * Rank triggers by how many renders they cause each time, with their busiest components
+ */
+export function summarizeRenderHotspots(lines: ParsedRenderLine[]): RenderHotspot[] {
+  const byTrigger = new Map<
+    string,
+    { occurrences: number; renders: number; components: Map<string, ComponentRenders> }
+  >()
+
+  for (const line of lines) {
+    if (line.slow) continue
+
+    const entry = byTrigger.get(line.trigger) ?? { occurrences: 0, renders: 0, components: new Map() }
+    entry.occurrences++
+    entry.renders += line.renders
+    for (const component of line.components) {
+      const total = entry.components.get(component.name) ?? { count: 0, time: 0 }
+      total.count += component.count
+      total.time += component.time
+      entry.components.set(component.name, total)
+    }
+    byTrigger.set(line.trigger, entry)
+  }
+
+  return [...byTrigger.entries()]
+    .map(([trigger, entry]) => ({
+      trigger,
+      occurrences: entry.occurrences,
+      rendersPerOccurrence: entry.renders / entry.occurrences,
+      components: [...entry.components.entries()]
+        .map(([name, total]) => ({ name, rendersPerOccurrence: total.count / entry.occurrences, time: total.time }))
+        .sort((a, b) => b.rendersPerOccurrence - a.rendersPerOccurrence || b.time - a.time)
+    }))
+    .sort((a, b) => b.rendersPerOccurrence - a.rendersPerOccurrence)
+}
@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest"
+import { parseLogEntries } from "./log-entries"
+import { type CDPCommandSender, exportPlaywrightSpec, parseReplayEvents, parseTimeBound, runReplay } from "./replay"
+
+const element = JSON.stringify({ selector: "#save", tag: "button", text: "Save", id: "save" })
+
+describe("parseReplayEvents", () => {
+  it("should parse clicks, keys, scrolls and navigations with offsets", () => {
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: "[NAVIGATION] http://localhost:3000/" },
+      { timestamp: "2025-10-01T10:00:02.000Z", message: `[INTERACTION] CLICK at 450,300 on ${element}` },
+      { timestamp: "2025-10-01T10:00:03.500Z", message: `[INTERACTION] KEY Enter in ${element}` },
+      { timestamp: "2025-10-01T10:00:05.000Z", message: "[INTERACTION] SCROLL from 0,0 to 0,800 in document" }
+    ])
+
+    expect(events.map((e) => [e.type, e.offsetMs])).toEqual([
+      ["NAVIGATION", 0],
+      ["CLICK", 2000],
+      ["KEY", 3500],
+      ["SCROLL", 5000]
+    ])
+    expect(events[1]).toMatchObject({ x: 450, y: 300, element: { selector: "#save", text: "Save" } })
+    expect(events[2]).toMatchObject({ key: "Enter", element: { selector: "#save" } })
+    expect(events[3]).toMatchObject({ from: { x: 0, y: 0 }, to: { x: 0, y: 800 }, target: "document" })
+  })
+
+  it("should mark navigations caused by a click as triggered", () => {
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: "[NAVIGATION] http://localhost:3000/" },
+      { timestamp: "2025-10-01T10:00:01.000Z", message: `[INTERACTION] CLICK at 10,20 on ${element}` },
+      { timestamp: "2025-10-01T10:00:01.400Z", message: "[NAVIGATION] http://localhost:3000/settings" }
+    ])
+
+    expect(events[0].triggered).toBeUndefined()
+    expect(events[2]).toMatchObject({ type: "NAVIGATION", url: "http://localhost:3000/settings", triggered: true })
+  })
+
+  it("should start from the last navigation before the first interaction", () => {
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: "[NAVIGATION] http://localhost:3000/" },
+      { timestamp: "2025-10-01T10:00:10.000Z", message: "[NAVIGATION] http://localhost:3000/about" },
+      { timestamp: "2025-10-01T10:00:12.000Z", message: `[INTERACTION] CLICK at 10,20 on ${element}` }
+    ])
+
+    expect(events).toHaveLength(2)
+    expect(events[0]).toMatchObject({ url: "http://localhost:3000/about", offsetMs: 0 })
+  })
+
+  it("should ignore interactions recorded during a previous replay", () => {
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: `[INTERACTION] CLICK at 1,1 on ${element}` },
+      { timestamp: "2025-10-01T10:00:01.000Z", message: "[REPLAY] Replay started (1 events, speed 2x)" },
+      { timestamp: "2025-10-01T10:00:01.500Z", message: `[INTERACTION] CLICK at 1,1 on ${element}` },
+      { timestamp: "2025-10-01T10:00:02.000Z", message: "[REPLAY] Replay finished (1 executed, 0 skipped, 0 failed)" }
+    ])
+
+    expect(events).toHaveLength(1)
+  })
+
+  it("should parse typing, submits, hovers and drags", () => {
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: `[INTERACTION] TYPE "say \\"hi\\"" in ${element}` },
+      { timestamp: "2025-10-01T10:00:01.000Z", message: `[INTERACTION] SUBMIT on ${element}` },
+      { timestamp: "2025-10-01T10:00:02.000Z", message: `[INTERACTION] HOVER at 12,34 on ${element}` },
+      { timestamp: "2025-10-01T10:00:03.000Z", message: `[INTERACTION] DRAG from 10,10 to 110,60 on ${element}` }
+    ])
+
+    expect(events[0]).toMatchObject({ type: "TYPE", value: 'say "hi"', element: { selector: "#save" } })
+    expect(events[1]).toMatchObject({ type: "SUBMIT", element: { selector: "#save" } })
+    expect(events[2]).toMatchObject({ type: "HOVER", x: 12, y: 34 })
+    expect(events[3]).toMatchObject({ type: "DRAG", from: { x: 10, y: 10 }, to: { x: 110, y: 60 } })
+  })
+
+  it("should fold the key presses of a typed value into the TYPE event", () => {
+    const input = JSON.stringify({ selector: "input.email", tag: "input" })
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: `[INTERACTION] CLICK at 5,5 on ${input}` },
+      { timestamp: "2025-10-01T10:00:01.000Z", message: `[INTERACTION] KEY a in ${input}` },
+      { timestamp: "2025-10-01T10:00:01.100Z", message: `[INTERACTION] KEY Backspace in ${input}` },
+      { timestamp: "2025-10-01T10:00:01.200Z", message: `[INTERACTION] KEY b in ${input}` },
+      { timestamp: "2025-10-01T10:00:01.300Z", message: `[INTERACTION] KEY Enter in ${input}` },
+      { timestamp: "2025-10-01T10:00:01.310Z", message: `[INTERACTION] TYPE "b" in ${input}` }
+    ])
+
+    expect(events.map((e) => e.type)).toEqual(["CLICK", "TYPE", "KEY"])
+    expect(events[1]).toMatchObject({ value: "b", offsetMs: 1000 })
+    expect(events[2].key).toBe("Enter")
+  })
+
+  it("should return nothing when there are no interactions", () => {
+    expect(parseReplayEvents([{ timestamp: "2025-10-01T10:00:00.000Z", message: "[NAVIGATION] http://x/" }])).toEqual(
+      []
+    )
+  })
+})
+
+describe("runReplay", () => {
+  it("should dispatch at the resolved element position instead of the recorded coordinates", async () => {
+    const clicks: Array<{ x: unknown; y: unknown }> = []
+    const send: CDPCommandSender = async (method, params) => {
+      if (method === "Runtime.evaluate") {
+        return { result: { value: { x: 200, y: 120, resolvedBy: "text" } } }
+      }
+      if (method === "Input.dispatchMouseEvent" && params?.type === "mousePressed") {
+        clicks.push({ x: params.x, y: params.y })
+      }
+      return {}
+    }
+
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: `[INTERACTION] CLICK at 5,6 on ${element}` }
+    ])
+    const progress: Array<string | undefined> = []
+    await runReplay(send, events, { onProgress: (p) => progress.push(p.resolvedBy) })
+
+    expect(clicks).toEqual([{ x: 200, y: 120 }])
+    expect(progress).toEqual(["text"])
+  })
+
+  it("should dispatch events through the CDP sender and report progress", async () => {
+    const commands: string[] = []
+    const send: CDPCommandSender = async (method, params) => {
+      commands.push(`${method}:${(params as { type?: string })?.type ?? ""}`)
+      return {}
+    }
+
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: `[INTERACTION] CLICK at 5,6 on ${element}` },
+      { timestamp: "2025-10-01T10:00:00.010Z", message: `[INTERACTION] KEY Shift in ${element}` }
+    ])
+    const progress: string[] = []
+    const result = await runReplay(send, events, { speed: 10, onProgress: (p) => progress.push(p.status) })
+
+    expect(result).toEqual({ total: 2, executed: 1, skipped: 1, failed: 0, aborted: false })
+    expect(progress).toEqual(["executed", "skipped"])
+    expect(commands).toEqual([
+      "Runtime.evaluate:",
+      "Input.dispatchMouseEvent:mouseMoved",
+      "Input.dispatchMouseEvent:mousePressed",
+      "Input.dispatchMouseEvent:mouseReleased"
+    ])
+  })
+
+  it("should count failed commands without stopping the replay", async () => {
+    const send: CDPCommandSender = async () => {
+      throw new Error("boom")
+    }
+    const events = parseReplayEvents([
+      { timestamp: "2025-10-01T10:00:00.000Z", message: `[INTERACTION] CLICK at 5,6 on ${element}` },
+      { timestamp: "2025-10-01T10:00:00.001Z", message: `[INTERACTION] CLICK at 7,8 on ${element}` }
+    ])
+
+    const result = await runReplay(send, events)
+    expect(result.failed).toBe(2)
+  })
+})
+
+const button = JSON.stringify({ selector: "button.primary", tag: "button", text: "Sign up" })
+const email = JSON.stringify({ selector: "form > input", tag: "input", name: "email" })
+const form = JSON.stringify({ selector: "form", tag: "form", id: "signup" })
+
+const log = [
+  "[2025-10-01T10:00:00.000Z] [BROWSER] [NAVIGATION] http://localhost:3000/signup",
+  "[2025-10-01T10:00:01.000Z] [SERVER] GET /signup 200",
+  `[2025-10-01T10:00:02.000Z] [BROWSER] [INTERACTION] CLICK at 40,80 on ${email}`,
+  `[2025-10-01T10:00:03.000Z] [BROWSER] [INTERACTION] KEY j in ${email}`,
+  `[2025-10-01T10:00:04.000Z] [BROWSER] [INTERACTION] TYPE "jane@example.com" in ${email}`,
+  `[2025-10-01T10:00:05.000Z] [BROWSER] [INTERACTION] CLICK at 40,120 on ${button}`,
+  `[2025-10-01T10:00:05.010Z] [BROWSER] [INTERACTION] SUBMIT on ${form}`,
+  "[2025-10-01T10:00:05.200Z] [BROWSER] [NETWORK] 500 Internal Server Error http://localhost:3000/api/signup (Fetch)",
+  "[2025-10-01T10:00:05.300Z] [BROWSER] [CONSOLE ERROR] Signup failed",
+  "[2025-10-01T10:00:06.000Z] [BROWSER] [NAVIGATION] http://localhost:3000/welcome"
+].join("\n")
+
+describe("exportPlaywrightSpec", () => {
+  it("should turn a recorded session into Playwright steps", () => {
+    const result = exportPlaywrightSpec(parseLogEntries(log))
+
+    expect(result).not.toBeNull()
+    const spec = result?.spec ?? ""
+    expect(spec).toContain('import { expect, test } from "@playwright/test"')
+    expect(spec).toContain('await page.goto("http://localhost:3000/signup")')
+    expect(spec).toContain('await page.locator("input[name=\\"email\\"]").fill("jane@example.com")')
+    expect(spec).toContain('await page.getByRole("button", { name: "Sign up" }).click()')
+    expect(spec).toContain('await page.waitForURL("http://localhost:3000/welcome")')
+    expect(spec).toContain('expect(consoleErrors, "console errors").toEqual([])')
+    // Typed keys are folded into fill() and the click already submits the form
+    expect(spec).not.toContain("keyboard.press")
+    expect(spec).not.toContain("requestSubmit")
+  })
+
+  it("should list the errors seen while recording", () => {
+    const result = exportPlaywrightSpec(parseLogEntries(log))
+
+    expect(result?.errors).toEqual([
+      "[NETWORK] 500 Internal Server Error http://localhost:3000/api/signup (Fetch)",
+      "[CONSOLE ERROR] Signup failed"
+    ])
+    expect(result?.spec).toContain("//   [CONSOLE ERROR] Signup failed")
+  })
+
+  it("should start a window that begins mid-page on the last navigation before it", () => {
+    const result = exportPlaywrightSpec(parseLogEntries(log), {
+      since: new Date("2025-10-01T10:00:04.500Z"),
+      until: new Date("2025-10-01T10:00:05.500Z")
+    })
+
+    const steps = result?.spec.split("\n").filter((line) => line.trim().startsWith("await page.")) ?? []
+    expect(steps[0].trim()).toBe('await page.goto("http://localhost:3000/signup")')
+    expect(steps[1].trim()).toBe('await page.getByRole("button", { name: "Sign up" }).click()')
+    expect(result?.spec).not.toContain("/welcome")
+  })
+
+  it("should return null when the window has no interactions", () => {
+    expect(exportPlaywrightSpec(parseLogEntries(log), { since: new Date("2025-10-01T11:00:00.000Z") })).toBeNull()
+  })
+})
+
+describe("parseTimeBound", () => {
+  const now = new Date("2025-10-01T10:30:00.000Z")
+
+  it("should parse durations back from now", () => {
+    expect(parseTimeBound("10m", now)?.toISOString()).toBe("2025-10-01T10:20:00.000Z")
+    expect(parseTimeBound("90s", now)?.toISOString()).toBe("2025-10-01T10:28:30.000Z")
+  })
+
+  it("should parse timestamps and times of day", () => {
+    expect(parseTimeBound("2025-10-01T09:00:00.000Z", now)?.toISOString()).toBe("2025-10-01T09:00:00.000Z")
+    expect(parseTimeBound("14:05", now)?.getHours()).toBe(14)
+    expect(parseTimeBound("yesterday", now)).toBeNull()
+  })
+})
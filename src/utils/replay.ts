@@ -0,0 +1,927 @@
+/**
+ * Interaction replay for dev3000 sessions
+ *
+ * The tracking script injected by CDPMonitor records user input as log lines:
+ *   [INTERACTION] CLICK at 450,300 on {"selector":"#save","tag":"button",...}
+ *   [INTERACTION] KEY Enter in {"selector":"input.email",...}
+ *   [INTERACTION] SCROLL from 0,0 to 0,800 in document
+ *   [INTERACTION] TYPE "jane@example.com" in {"selector":"input.email",...}
+ *   [INTERACTION] SUBMIT on {"selector":"form#signup",...}
+ *   [INTERACTION] HOVER at 120,40 on {"selector":"nav a.menu",...}
+ *   [INTERACTION] DRAG from 100,200 to 300,200 on {"selector":"li.card",...}
+ *   [NAVIGATION] http://localhost:3000/settings
+ *
+ * This module turns those lines back into ReplayEvents and drives them through a
+ * CDP connection. Elements are resolved by id, selector or text at replay time so
+ * the replay survives layout changes; recorded coordinates are only a fallback.
+ *
+ * exportPlaywrightSpec turns the same entries from a time window into a runnable
+ * @playwright/test spec instead. It repeats the user's actions with resolvable
+ * locators and finishes by asserting that no console error or failed request
+ * happened, so a bug reproduced in d3k becomes a regression test once it is fixed.
+ *
+ * It has no runtime dependencies so it can be shared between the d3k process and
+ * the MCP server (which talks to Chrome over its own WebSocket).
+ */
+
+export type ReplayEventType = "CLICK" | "KEY" | "SCROLL" | "TYPE" | "SUBMIT" | "HOVER" | "DRAG" | "NAVIGATION"
+
+/**
+ * Element details captured by the tracking script's getElementDetails()
+ */
+export interface ReplayElement {
+  selector: string
+  tag?: string
+  text?: string
+  id?: string
+  className?: string
+  name?: string
+  type?: string
+  value?: string
+}
+
+export interface ReplayEvent {
+  type: ReplayEventType
+  timestamp: string // ISO timestamp of the original event
+  offsetMs: number // Milliseconds since the first event in the replay
+  x?: number
+  y?: number
+  key?: string
+  value?: string // Final value of a TYPE event
+  from?: { x: number; y: number }
+  to?: { x: number; y: number }
+  target?: string // Scroll target selector ("document" for the window)
+  url?: string
+  element?: ReplayElement
+  triggered?: boolean // Navigation or submit caused by the preceding interaction (not replayed directly)
+}
+
+/**
+ * Minimal shape of a parsed log entry (matches LogEntry from the logs UI)
+ */
+export interface ReplayLogEntry {
+  timestamp: string
+  message: string
+}
+
+/**
+ * Sends a CDP command and resolves with its result
+ */
+export type CDPCommandSender = (method: string, params?: Record<string, unknown>) => Promise<Record<string, unknown>>
+
+/**
+ * How the target element was found at replay time
+ */
+export type ReplayResolution = "selector" | "text" | "coordinates"
+
+export interface ReplayDispatch {
+  dispatched: boolean
+  resolvedBy?: ReplayResolution
+}
+
+export interface ReplayProgress {
+  index: number
+  total: number
+  event: ReplayEvent
+  status: "executed" | "skipped" | "failed"
+  resolvedBy?: ReplayResolution
+  error?: string
+}
+
+export interface ReplayOptions {
+  speed?: number // Playback speed multiplier (2 = twice as fast)
+  maxGapMs?: number // Cap on idle time between two events
+  signal?: AbortSignal
+  onProgress?: (progress: ReplayProgress) => void
+}
+
+export interface ReplayResult {
+  total: number
+  executed: number
+  skipped: number
+  failed: number
+  aborted: boolean
+}
+
+// Markers written around a replay so the replay's own interactions are not replayed again
+export const REPLAY_START_MARKER = "[REPLAY] Replay started"
+export const REPLAY_END_MARKER = "[REPLAY] Replay finished"
+
+// Navigations this soon after a click/key are the result of that interaction
+const TRIGGERED_NAVIGATION_WINDOW_MS = 1500
+
+const NUMBER = "(-?\\d+(?:\\.\\d+)?)"
+const CLICK_PATTERN = new RegExp(`^CLICK at ${NUMBER},${NUMBER} on (.*)$`, "s")
+const KEY_PATTERN = /^KEY (.*) in (\{.*\}|\S+)$/s
+const SCROLL_PATTERN = new RegExp(`^SCROLL from ${NUMBER},${NUMBER} to ${NUMBER},${NUMBER} in (.+)$`, "s")
+const TYPE_PATTERN = /^TYPE ("(?:[^"\\]|\\.)*") in (\{.*\}|\S+)$/s
+const SUBMIT_PATTERN = /^SUBMIT on (.+)$/s
+const HOVER_PATTERN = new RegExp(`^HOVER at ${NUMBER},${NUMBER} on (.*)$`, "s")
+const DRAG_PATTERN = new RegExp(`^DRAG from ${NUMBER},${NUMBER} to ${NUMBER},${NUMBER} on (.*)$`, "s")
+
+function parseElement(raw: string): ReplayElement {
+  const trimmed = raw.trim()
+  try {
+    const parsed = JSON.parse(trimmed)
+    if (parsed && typeof parsed.selector === "string") {
+      return parsed as ReplayElement
+    }
+  } catch {
+    // Older log lines only contain the selector
+  }
+  return { selector: trimmed }
+}
+
+function parseInteraction(payload: string): Omit<ReplayEvent, "timestamp" | "offsetMs"> | null {
+  // JSON format: [INTERACTION] {"type":"CLICK","x":10,"y":20,...}
+  if (payload.startsWith("{")) {
+    try {
+      const data = JSON.parse(payload)
+      const element =
+        typeof data.element === "string"
+          ? parseElement(data.element)
+          : typeof data.target === "string"
+            ? { selector: data.target }
+            : undefined
+      if (data.type === "CLICK" && typeof data.x === "number" && typeof data.y === "number") {
+        return { type: "CLICK", x: data.x, y: data.y, element }
+      }
+      if (data.type === "KEY" && typeof data.key === "string") {
+        return { type: "KEY", key: data.key, element }
+      }
+    } catch {
+      return null
+    }
+    return null
+  }
+
+  const click = payload.match(CLICK_PATTERN)
+  if (click) {
+    return {
+      type: "CLICK",
+      x: Number(click[1]),
+      y: Number(click[2]),
+      element: parseElement(click[3])
+    }
+  }
+
+  const key = payload.match(KEY_PATTERN)
+  if (key) {
+    return { type: "KEY", key: key[1], element: parseElement(key[2]) }
+  }
+
+  const scroll = payload.match(SCROLL_PATTERN)
+  if (scroll) {
+    return {
+      type: "SCROLL",
+      from: { x: Number(scroll[1]), y: Number(scroll[2]) },
+      to: { x: Number(scroll[3]), y: Number(scroll[4]) },
+      target: scroll[5].trim()
+    }
+  }
+
+  const typed = payload.match(TYPE_PATTERN)
+  if (typed) {
+    try {
+      return { type: "TYPE", value: JSON.parse(typed[1]), element: parseElement(typed[2]) }
+    } catch {
+      return null
+    }
+  }
+
+  const submit = payload.match(SUBMIT_PATTERN)
+  if (submit) {
+    return { type: "SUBMIT", element: parseElement(submit[1]) }
+  }
+
+  const hover = payload.match(HOVER_PATTERN)
+  if (hover) {
+    return { type: "HOVER", x: Number(hover[1]), y: Number(hover[2]), element: parseElement(hover[3]) }
+  }
+
+  const drag = payload.match(DRAG_PATTERN)
+  if (drag) {
+    return {
+      type: "DRAG",
+      from: { x: Number(drag[1]), y: Number(drag[2]) },
+      to: { x: Number(drag[3]), y: Number(drag[4]) },
+      element: parseElement(drag[5])
+    }
+  }
+
+  return null
+}
+
+function isPrintableKey(key?: string): boolean {
+  return key !== undefined && key.length === 1
+}
+
+/**
+ * Fold the individual key presses that produced a TYPE event into that event
+ *
+ * The tracker records every keydown as well as the final value on change. Replaying
+ * both would type the text twice, so the printable (and editing) keys for the same
+ * element are dropped and the TYPE event takes the place of the first of them. This
+ * keeps e.g. an Enter that submitted the field after the text was typed.
+ */
+function collapseTypedKeys(events: ReplayEvent[]): ReplayEvent[] {
+  const result: ReplayEvent[] = []
+
+  for (const event of events) {
+    if (event.type === "TYPE" && event.element) {
+      let insertAt = -1
+      for (let i = result.length - 1; i >= 0; i--) {
+        const previous = result[i]
+        if (previous.type !== "KEY" || previous.element?.selector !== event.element.selector) break
+        if (isPrintableKey(previous.key)) insertAt = i
+      }
+
+      if (insertAt !== -1) {
+        const keys = result.splice(insertAt)
+        const remaining = keys.filter(
+          (key) => !isPrintableKey(key.key) && key.key !== "Backspace" && key.key !== "Delete"
+        )
+        result.push({ ...event, timestamp: keys[0].timestamp }, ...remaining)
+        continue
+      }
+    }
+    result.push(event)
+  }
+
+  return result
+}
+
+/**
+ * Extract replayable events from parsed log entries
+ *
+ * Interactions recorded while a previous replay was running are ignored, and
+ * navigations and submits that directly follow a click or key press are marked as
+ * triggered so the replay lets the interaction cause them instead of doing it twice.
+ */
+export function parseReplayEvents(entries: ReplayLogEntry[]): ReplayEvent[] {
+  const events: ReplayEvent[] = []
+  let insideReplay = false
+  let lastInteractionTime: number | null = null
+
+  for (const entry of entries) {
+    const { message } = entry
+
+    if (message.includes(REPLAY_START_MARKER)) {
+      insideReplay = true
+      continue
+    }
+    if (message.includes(REPLAY_END_MARKER)) {
+      insideReplay = false
+      continue
+    }
+    if (insideReplay) continue
+
+    const time = Date.parse(entry.timestamp)
+    if (Number.isNaN(time)) continue
+
+    const interactionMatch = message.match(/\[INTERACTION\] (.+)/s)
+    if (interactionMatch) {
+      const interaction = parseInteraction(interactionMatch[1].trim())
+      if (interaction) {
+        // A submit right after a click or Enter is the form reacting to that interaction
+        const triggered =
+          interaction.type === "SUBMIT" &&
+          lastInteractionTime !== null &&
+          time - lastInteractionTime <= TRIGGERED_NAVIGATION_WINDOW_MS
+        events.push({
+          ...interaction,
+          timestamp: entry.timestamp,
+          offsetMs: 0,
+          ...(triggered ? { triggered: true } : {})
+        })
+        if (interaction.type !== "SCROLL" && interaction.type !== "HOVER") {
+          lastInteractionTime = time
+        }
+      }
+      continue
+    }
+
+    const navigationMatch = message.match(/^\[NAVIGATION\] (\S+)/)
+    if (navigationMatch) {
+      const triggered = lastInteractionTime !== null && time - lastInteractionTime <= TRIGGERED_NAVIGATION_WINDOW_MS
+      events.push({
+        type: "NAVIGATION",
+        url: navigationMatch[1],
+        timestamp: entry.timestamp,
+        offsetMs: 0,
+        ...(triggered ? { triggered: true } : {})
+      })
+    }
+  }
+
+  const collapsed = collapseTypedKeys(events)
+
+  // Drop navigations before the last one preceding the first interaction - only
+  // the page the user actually started interacting on matters for the replay
+  const firstInteraction = collapsed.findIndex((event) => event.type !== "NAVIGATION")
+  let startIndex = 0
+  for (let i = 0; i < firstInteraction; i++) {
+    if (collapsed[i].type === "NAVIGATION") startIndex = i
+  }
+  const trimmed = firstInteraction === -1 ? [] : collapsed.slice(startIndex)
+
+  const start = trimmed.length > 0 ? Date.parse(trimmed[0].timestamp) : 0
+  for (const event of trimmed) {
+    event.offsetMs = Date.parse(event.timestamp) - start
+  }
+
+  return trimmed
+}
+
+// windowsVirtualKeyCode values for non-printable keys recorded by KeyboardEvent.key
+const SPECIAL_KEYS: Record<string, { code: string; keyCode: number }> = {
+  Enter: { code: "Enter", keyCode: 13 },
+  Tab: { code: "Tab", keyCode: 9 },
+  Backspace: { code: "Backspace", keyCode: 8 },
+  Escape: { code: "Escape", keyCode: 27 },
+  Delete: { code: "Delete", keyCode: 46 },
+  ArrowLeft: { code: "ArrowLeft", keyCode: 37 },
+  ArrowUp: { code: "ArrowUp", keyCode: 38 },
+  ArrowRight: { code: "ArrowRight", keyCode: 39 },
+  ArrowDown: { code: "ArrowDown", keyCode: 40 },
+  Home: { code: "Home", keyCode: 36 },
+  End: { code: "End", keyCode: 35 },
+  PageUp: { code: "PageUp", keyCode: 33 },
+  PageDown: { code: "PageDown", keyCode: 34 }
+}
+
+// Modifier keys are recorded as their own keydown events but carry no input on their own
+const MODIFIER_KEYS = new Set(["Shift", "Control", "Alt", "Meta", "CapsLock"])
+
+async function dispatchClick(send: CDPCommandSender, x: number, y: number): Promise<void> {
+  await send("Input.dispatchMouseEvent", { type: "mouseMoved", x, y })
+  await send("Input.dispatchMouseEvent", { type: "mousePressed", x, y, button: "left", clickCount: 1 })
+  await send("Input.dispatchMouseEvent", { type: "mouseReleased", x, y, button: "left", clickCount: 1 })
+}
+
+async function dispatchDrag(
+  send: CDPCommandSender,
+  from: { x: number; y: number },
+  to: { x: number; y: number }
+): Promise<void> {
+  await send("Input.dispatchMouseEvent", { type: "mouseMoved", x: from.x, y: from.y })
+  await send("Input.dispatchMouseEvent", { type: "mousePressed", ...from, button: "left", clickCount: 1 })
+  // Move in steps so drag libraries see intermediate pointer positions
+  const steps = 10
+  for (let step = 1; step <= steps; step++) {
+    await send("Input.dispatchMouseEvent", {
+      type: "mouseMoved",
+      x: from.x + ((to.x - from.x) * step) / steps,
+      y: from.y + ((to.y - from.y) * step) / steps,
+      button: "left",
+      buttons: 1
+    })
+  }
+  await send("Input.dispatchMouseEvent", { type: "mouseReleased", ...to, button: "left", clickCount: 1 })
+}
+
+async function dispatchKey(send: CDPCommandSender, key: string): Promise<void> {
+  const special = SPECIAL_KEYS[key]
+  if (special) {
+    await send("Input.dispatchKeyEvent", {
+      type: "rawKeyDown",
+      key,
+      code: special.code,
+      windowsVirtualKeyCode: special.keyCode,
+      ...(key === "Enter" ? { text: "\r" } : {})
+    })
+    await send("Input.dispatchKeyEvent", {
+      type: "keyUp",
+      key,
+      code: special.code,
+      windowsVirtualKeyCode: special.keyCode
+    })
+    return
+  }
+
+  await send("Input.dispatchKeyEvent", { type: "keyDown", key, text: key })
+  await send("Input.dispatchKeyEvent", { type: "keyUp", key })
+}
+
+/**
+ * Find the recorded element in the current page and scroll it into view
+ *
+ * Tries the element id, then the recorded selector (accepted only when the text
+ * still matches), then the first element of the same tag with the same text. The
+ * resolved element is kept on window.__dev3000_replay_target for follow-up calls.
+ *
+ * @returns The viewport center of the element, or null when it can't be found
+ */
+async function resolveElement(
+  send: CDPCommandSender,
+  element: ReplayElement
+): Promise<{ x: number; y: number; resolvedBy: "selector" | "text" } | null> {
+  const expression = `(() => {
+    const details = ${JSON.stringify(element)};
+    const tagMatches = (el) => !details.tag || el.tagName.toLowerCase() === details.tag;
+    const textOf = (el) => (el.textContent || '').trim().substring(0, 50);
+    const textMatches = (el) => !details.text || textOf(el) === details.text;
+    let found = null;
+    let resolvedBy = 'selector';
+    let selectorMatch = null;
+    if (details.id) {
+      const el = document.getElementById(details.id);
+      if (el && tagMatches(el)) found = el;
+    }
+    if (!found && details.selector && details.selector !== 'document') {
+      try {
+        const el = document.querySelector(details.selector);
+        if (el && tagMatches(el)) {
+          if (textMatches(el)) found = el;
+          else selectorMatch = el;
+        }
+      } catch (e) {}
+    }
+    if (!found && details.text) {
+      const candidates = document.querySelectorAll(details.tag || 'a, button, input, label, [role], [onclick]');
+      for (const el of candidates) {
+        if (textOf(el) === details.text) { found = el; resolvedBy = 'text'; break; }
+      }
+    }
+    if (!found && details.name) {
+      const el = document.querySelector('[name="' + CSS.escape(details.name) + '"]');
+      if (el && tagMatches(el)) found = el;
+    }
+    if (!found) found = selectorMatch;
+    if (!found) return null;
+    found.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+    window.__dev3000_replay_target = found;
+    const rect = found.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2, resolvedBy };
+  })()`
+
+  try {
+    const result = (await send("Runtime.evaluate", { expression, returnByValue: true })) as {
+      result?: { value?: { x: number; y: number; resolvedBy: "selector" | "text" } | null }
+    }
+    return result.result?.value || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Run a function against the element found by the last resolveElement() call
+ * (or the focused element when nothing was resolved)
+ */
+async function evaluateOnTarget(send: CDPCommandSender, body: string): Promise<boolean> {
+  const result = (await send("Runtime.evaluate", {
+    expression: `(() => {
+      const el = window.__dev3000_replay_target || document.activeElement;
+      if (!el) return false;
+      ${body}
+      return true;
+    })()`,
+    returnByValue: true
+  })) as { result?: { value?: unknown } }
+  return result.result?.value === true
+}
+
+async function waitForLoad(send: CDPCommandSender, timeoutMs = 10000): Promise<void> {
+  const deadline = Date.now() + timeoutMs
+  while (Date.now() < deadline) {
+    try {
+      const result = (await send("Runtime.evaluate", {
+        expression: "document.readyState",
+        returnByValue: true
+      })) as { result?: { value?: unknown } }
+      if (result.result?.value === "complete") return
+    } catch {
+      // The execution context is replaced while navigating - keep polling
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100))
+  }
+}
+
+/**
+ * Dispatch a single replay event through CDP
+ *
+ * Events that carry element details are resolved against the live DOM first and
+ * dispatched at the element's current position; the recorded coordinates are
+ * only used when the element can no longer be found.
+ */
+export async function executeReplayEvent(send: CDPCommandSender, event: ReplayEvent): Promise<ReplayDispatch> {
+  if (event.type === "KEY" && (!event.key || MODIFIER_KEYS.has(event.key))) {
+    return { dispatched: false }
+  }
+  if (event.type === "SUBMIT" && event.triggered) {
+    // The replayed click or Enter already submits the form
+    return { dispatched: false }
+  }
+
+  const resolved = event.element ? await resolveElement(send, event.element) : null
+  if (!resolved && (event.type === "TYPE" || event.type === "SUBMIT")) {
+    // Don't act on a stale target from a previous event
+    await send("Runtime.evaluate", { expression: "window.__dev3000_replay_target = null", returnByValue: true })
+  }
+
+  switch (event.type) {
+    case "CLICK":
+    case "HOVER": {
+      const point = resolved || (event.x !== undefined && event.y !== undefined ? { x: event.x, y: event.y } : null)
+      if (!point) return { dispatched: false }
+      if (event.type === "CLICK") {
+        await dispatchClick(send, point.x, point.y)
+      } else {
+        await send("Input.dispatchMouseEvent", { type: "mouseMoved", x: point.x, y: point.y })
+      }
+      return { dispatched: true, resolvedBy: resolved?.resolvedBy || "coordinates" }
+    }
+
+    case "DRAG": {
+      if (!event.from || !event.to) return { dispatched: false }
+      // Keep the recorded drag distance but start from where the element is now
+      const from = resolved || event.from
+      const to = {
+        x: from.x + (event.to.x - event.from.x),
+        y: from.y + (event.to.y - event.from.y)
+      }
+      await dispatchDrag(send, from, to)
+      return { dispatched: true, resolvedBy: resolved?.resolvedBy || "coordinates" }
+    }
+
+    case "KEY":
+      if (!event.key) return { dispatched: false }
+      await dispatchKey(send, event.key)
+      return { dispatched: true, resolvedBy: resolved?.resolvedBy }
+
+    case "TYPE": {
+      if (event.value === undefined) return { dispatched: false }
+      if (event.element?.tag === "select") {
+        const changed = await evaluateOnTarget(
+          send,
+          `el.value = ${JSON.stringify(event.value)}; el.dispatchEvent(new Event('input', { bubbles: true })); el.dispatchEvent(new Event('change', { bubbles: true }));`
+        )
+        return { dispatched: changed, resolvedBy: resolved?.resolvedBy }
+      }
+      // Clear through the native setter so frameworks tracking the value (React) notice,
+      // then insert the text as real input
+      const focused = await evaluateOnTarget(
+        send,
+        `el.focus();
+        const proto = el instanceof HTMLTextAreaElement ? HTMLTextAreaElement.prototype : HTMLInputElement.prototype;
+        const setter = Object.getOwnPropertyDescriptor(proto, 'value');
+        if ('value' in el && setter && setter.set) {
+          setter.set.call(el, '');
+          el.dispatchEvent(new Event('input', { bubbles: true }));
+        }`
+      )
+      if (!focused) return { dispatched: false }
+      if (event.value) {
+        await send("Input.insertText", { text: event.value })
+      }
+      return { dispatched: true, resolvedBy: resolved?.resolvedBy }
+    }
+
+    case "SUBMIT": {
+      if (!resolved) return { dispatched: false }
+      const submitted = await evaluateOnTarget(
+        send,
+        "const form = el.closest('form'); if (!form) return false; form.requestSubmit ? form.requestSubmit() : form.submit();"
+      )
+      return { dispatched: submitted, resolvedBy: resolved.resolvedBy }
+    }
+
+    case "SCROLL": {
+      if (!event.to) return { dispatched: false }
+      const target = event.target && event.target !== "document" ? event.target : null
+      const expression = target
+        ? `(() => { const el = document.querySelector(${JSON.stringify(target)}); if (!el) return false; el.scrollTo(${event.to.x}, ${event.to.y}); return true })()`
+        : `(() => { window.scrollTo(${event.to.x}, ${event.to.y}); return true })()`
+      await send("Runtime.evaluate", { expression, returnByValue: true })
+      return { dispatched: true }
+    }
+
+    case "NAVIGATION":
+      if (!event.url) return { dispatched: false }
+      if (event.triggered) {
+        // The preceding interaction navigates by itself - just let the page settle
+        await waitForLoad(send)
+        return { dispatched: false }
+      }
+      await send("Page.navigate", { url: event.url })
+      await waitForLoad(send)
+      return { dispatched: true }
+  }
+}
+
+/**
+ * Replay events with the same spacing as the original session
+ *
+ * Gaps between events are divided by `speed` and capped at `maxGapMs` so that a
+ * coffee break in the middle of a session does not stall the replay.
+ */
+export async function runReplay(
+  send: CDPCommandSender,
+  events: ReplayEvent[],
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const { speed = 1, maxGapMs = 5000, signal, onProgress } = options
+  const result: ReplayResult = { total: events.length, executed: 0, skipped: 0, failed: 0, aborted: false }
+
+  for (let i = 0; i < events.length; i++) {
+    if (signal?.aborted) {
+      result.aborted = true
+      break
+    }
+
+    const event = events[i]
+    if (i > 0) {
+      const gap = (event.offsetMs - events[i - 1].offsetMs) / (speed > 0 ? speed : 1)
+      const delay = Math.min(Math.max(gap, 0), maxGapMs)
+      if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay))
+      }
+    }
+
+    try {
+      const { dispatched, resolvedBy } = await executeReplayEvent(send, event)
+      if (dispatched) {
+        result.executed++
+      } else {
+        result.skipped++
+      }
+      onProgress?.({ index: i, total: events.length, event, status: dispatched ? "executed" : "skipped", resolvedBy })
+    } catch (error) {
+      result.failed++
+      onProgress?.({
+        index: i,
+        total: events.length,
+        event,
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Short human-readable description of an event for log lines and UI previews
+ */
+export function describeReplayEvent(event: ReplayEvent): string {
+  switch (event.type) {
+    case "CLICK":
+      return `CLICK at ${event.x},${event.y}${event.element ? ` on ${event.element.selector}` : ""}`
+    case "KEY":
+      return `KEY ${event.key}${event.element ? ` in ${event.element.selector}` : ""}`
+    case "SCROLL":
+      return `SCROLL to ${event.to?.x},${event.to?.y} in ${event.target || "document"}`
+    case "TYPE":
+      return `TYPE ${JSON.stringify(event.value ?? "")}${event.element ? ` in ${event.element.selector}` : ""}`
+    case "SUBMIT":
+      return `SUBMIT ${event.element?.selector ?? "form"}${event.triggered ? " (triggered)" : ""}`
+    case "HOVER":
+      return `HOVER at ${event.x},${event.y}${event.element ? ` on ${event.element.selector}` : ""}`
+    case "DRAG":
+      return `DRAG from ${event.from?.x},${event.from?.y} to ${event.to?.x},${event.to?.y}${event.element ? ` on ${event.element.selector}` : ""}`
+    case "NAVIGATION":
+      return `NAVIGATION ${event.url}${event.triggered ? " (triggered)" : ""}`
+  }
+}
+
+export interface PlaywrightExportOptions {
+  since?: Date // Only include log lines at or after this time
+  until?: Date // Only include log lines at or before this time
+  testName?: string
+}
+
+export interface PlaywrightExport {
+  spec: string
+  actionCount: number // Steps emitted into the spec (navigations included)
+  startTime: string
+  endTime: string
+  errors: string[] // Errors seen in the window while the session was recorded
+}
+
+const ERROR_PATTERNS = [/^\[CONSOLE ERROR\]/, /^\[ERROR\]/, /^\[NETWORK\] [45]\d\d /]
+const MAX_REPORTED_ERRORS = 10
+
+// KeyboardEvent.key values that Playwright names differently
+const PLAYWRIGHT_KEYS: Record<string, string> = {
+  " ": "Space",
+  Esc: "Escape"
+}
+
+const ROLE_BY_TAG: Record<string, string> = {
+  a: "link",
+  button: "button"
+}
+
+/**
+ * Parse a time bound given on the command line or to an MCP tool
+ *
+ * Accepts a duration back from now ("90s", "10m", "2h"), an ISO timestamp or a
+ * local time of day ("14:05" or "14:05:30").
+ *
+ * @returns The bound, or null when the value can't be parsed
+ */
+export function parseTimeBound(value: string, now: Date = new Date()): Date | null {
+  const trimmed = value.trim()
+
+  const duration = trimmed.match(/^(\d+(?:\.\d+)?)\s*(s|m|h)$/)
+  if (duration) {
+    const unitMs = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }[duration[2] as "s" | "m" | "h"]
+    return new Date(now.getTime() - Number(duration[1]) * unitMs)
+  }
+
+  const timeOfDay = trimmed.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/)
+  if (timeOfDay) {
+    const date = new Date(now)
+    date.setHours(Number(timeOfDay[1]), Number(timeOfDay[2]), Number(timeOfDay[3] || 0), 0)
+    return date
+  }
+
+  const parsed = Date.parse(trimmed)
+  return Number.isNaN(parsed) ? null : new Date(parsed)
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value)
+}
+
+function isSimpleId(id: string): boolean {
+  return /^[A-Za-z][\w-]*$/.test(id)
+}
+
+/**
+ * Build a Playwright locator expression for a recorded element
+ *
+ * Prefers what survives markup changes: ids, accessible roles with their name,
+ * form field names, and only then the recorded CSS selector.
+ *
+ * @returns The locator expression, or null when only coordinates are usable
+ */
+function toLocator(element?: ReplayElement): string | null {
+  if (!element?.selector || element.selector === "document") return null
+
+  if (element.id) {
+    return `page.locator(${quote(isSimpleId(element.id) ? `#${element.id}` : `[id="${element.id}"]`)})`
+  }
+
+  const role = element.tag ? ROLE_BY_TAG[element.tag] : undefined
+  if (role && element.text) {
+    return `page.getByRole(${quote(role)}, { name: ${quote(element.text)} })`
+  }
+
+  if (element.name && element.tag && ["input", "select", "textarea"].includes(element.tag)) {
+    return `page.locator(${quote(`${element.tag}[name="${element.name}"]`)})`
+  }
+
+  if (element.text) {
+    return `page.locator(${quote(element.selector)}, { hasText: ${quote(element.text)} }).first()`
+  }
+  return `page.locator(${quote(element.selector)}).first()`
+}
+
+function toStep(event: ReplayEvent, isFirst: boolean): string[] {
+  const locator = toLocator(event.element)
+
+  switch (event.type) {
+    case "NAVIGATION":
+      if (!event.url) return []
+      if (event.triggered && !isFirst) {
+        return [`await page.waitForURL(${quote(event.url)})`]
+      }
+      return [`await page.goto(${quote(event.url)})`]
+
+    case "CLICK":
+      if (locator) return [`await ${locator}.click()`]
+      return event.x !== undefined && event.y !== undefined ? [`await page.mouse.click(${event.x}, ${event.y})`] : []
+
+    case "HOVER":
+      if (locator) return [`await ${locator}.hover()`]
+      return event.x !== undefined && event.y !== undefined ? [`await page.mouse.move(${event.x}, ${event.y})`] : []
+
+    case "DRAG":
+      if (!event.from || !event.to) return []
+      return [
+        `await page.mouse.move(${event.from.x}, ${event.from.y})`,
+        "await page.mouse.down()",
+        `await page.mouse.move(${event.to.x}, ${event.to.y}, { steps: 10 })`,
+        "await page.mouse.up()"
+      ]
+
+    case "KEY":
+      if (!event.key || MODIFIER_KEYS.has(event.key)) return []
+      return [`await page.keyboard.press(${quote(PLAYWRIGHT_KEYS[event.key] || event.key)})`]
+
+    case "TYPE":
+      if (event.value === undefined || !locator) return []
+      if (event.element?.tag === "select") {
+        return [`await ${locator}.selectOption(${quote(event.value)})`]
+      }
+      return [`await ${locator}.fill(${quote(event.value)})`]
+
+    case "SUBMIT":
+      // Submits caused by a click or Enter happen again when that step runs
+      if (event.triggered || !locator) return []
+      return [`await ${locator}.evaluate((form) => (form as HTMLFormElement).requestSubmit())`]
+
+    case "SCROLL": {
+      if (!event.to) return []
+      if (!event.target || event.target === "document") {
+        return [`await page.evaluate(() => window.scrollTo(${event.to.x}, ${event.to.y}))`]
+      }
+      return [
+        `await page.locator(${quote(event.target)}).first().evaluate((el) => el.scrollTo(${event.to.x}, ${event.to.y}))`
+      ]
+    }
+  }
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString("en-US", { hour12: false })
+}
+
+/**
+ * Generate a Playwright spec from the log entries of a dev3000 session
+ *
+ * @param logEntries - Entries of the consolidated log, as parsed by parseLogEntries
+ * @returns The spec, or null when the window contains no replayable interactions
+ */
+export function exportPlaywrightSpec(
+  logEntries: Array<ReplayLogEntry & { source: string }>,
+  options: PlaywrightExportOptions = {}
+): PlaywrightExport | null {
+  const since = options.since?.getTime() ?? Number.NEGATIVE_INFINITY
+  const until = options.until?.getTime() ?? Number.POSITIVE_INFINITY
+  const entries = logEntries.filter((entry) => {
+    const time = Date.parse(entry.timestamp)
+    return time >= since && time <= until
+  })
+
+  const events = parseReplayEvents(entries)
+  if (events.length === 0) return null
+
+  const startTime = events[0].timestamp
+  const endTime = events[events.length - 1].timestamp
+  const errors = entries
+    .filter((entry) => entry.source === "BROWSER" && ERROR_PATTERNS.some((pattern) => pattern.test(entry.message)))
+    .map((entry) => entry.message.split("\n")[0].slice(0, 200))
+
+  const steps: string[] = []
+  // The spec needs a page to start on - when the window begins mid-page, use the
+  // last navigation before it
+  if (events[0].type !== "NAVIGATION") {
+    const start = Date.parse(startTime)
+    const previousNavigation = logEntries
+      .filter((entry) => entry.message.startsWith("[NAVIGATION] ") && Date.parse(entry.timestamp) <= start)
+      .pop()
+    if (previousNavigation) {
+      steps.push(`await page.goto(${quote(previousNavigation.message.slice("[NAVIGATION] ".length).trim())})`)
+    }
+  }
+  events.forEach((event, index) => {
+    steps.push(...toStep(event, index === 0))
+  })
+
+  const testName = options.testName || `d3k session ${formatTime(startTime)} - ${formatTime(endTime)}`
+  const header = [
+    `// Generated by dev3000 from the session recorded between ${startTime} and ${endTime}.`,
+    "// Review the locators before committing - they are inferred from the recorded elements."
+  ]
+  if (errors.length > 0) {
+    header.push("//", "// Errors seen while recording:")
+    for (const error of errors.slice(0, MAX_REPORTED_ERRORS)) {
+      header.push(`//   ${error}`)
+    }
+    if (errors.length > MAX_REPORTED_ERRORS) {
+      header.push(`//   ... and ${errors.length - MAX_REPORTED_ERRORS} more`)
+    }
+  }
+
+  const spec = [
+    ...header,
+    "",
+    'import { expect, test } from "@playwright/test"',
+    "",
+    `test(${quote(testName)}, async ({ page }) => {`,
+    "  const consoleErrors: string[] = []",
+    "  const failedRequests: string[] = []",
+    '  page.on("console", (message) => {',
+    '    if (message.type() === "error") consoleErrors.push(message.text())',
+    "  })",
+    '  page.on("pageerror", (error) => consoleErrors.push(error.message))',
+    `  page.on("requestfailed", (request) => failedRequests.push(\`\${request.method()} \${request.url()}\`))`,
+    '  page.on("response", (response) => {',
+    `    if (response.status() >= 400) failedRequests.push(\`\${response.status()} \${response.url()}\`)`,
+    "  })",
+    "",
+    ...steps.map((step) => `  ${step}`),
+    "",
+    '  await page.waitForLoadState("networkidle")',
+    '  expect(consoleErrors, "console errors").toEqual([])',
+    '  expect(failedRequests, "failed requests").toEqual([])',
+    "})",
+    ""
+  ].join("\n")
+
+  return { spec, actionCount: steps.length, startTime, endTime, errors }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest"
+import { normalizeSourcePath, SourceMapResolver } from "./source-map"
+
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+
+function encodeVlq(values: number[]): string {
+  return values
+    .map((value) => {
+      let vlq = value < 0 ? (-value << 1) | 1 : value << 1
+      let encoded = ""
+      do {
+        let digit = vlq & 31
+        vlq >>>= 5
+        if (vlq > 0) digit |= 32
+        encoded += BASE64_CHARS[digit]
+      } while (vlq > 0)
+      return encoded
+    })
+    .join("")
+}
+
+// Generated line 1: column 0 -> app/page.tsx 1:1, column 4032 -> app/page.tsx 42:7 ("user")
+const pageMap = JSON.stringify({
+  version: 3,
+  sources: ["webpack://_N_E/./app/page.tsx?3f1c"],
+  names: ["user"],
+  mappings: `${encodeVlq([0, 0, 0, 0])},${encodeVlq([4032, 0, 41, 6, 0])}`
+})
+
+const chunkUrl = "http://localhost:3000/_next/static/chunks/app/page-abc.js"
+
+describe("SourceMapResolver", () => {
+  it("should resolve registered scripts to their original position", async () => {
+    const fetched: string[] = []
+    const resolver = new SourceMapResolver(async (url) => {
+      fetched.push(url)
+      return url.endsWith(".map") ? pageMap : null
+    })
+    resolver.registerScript(chunkUrl, "page-abc.js.map")
+
+    expect(await resolver.resolve(chunkUrl, 0, 4040)).toEqual({
+      source: "app/page.tsx",
+      line: 42,
+      column: 7,
+      name: "user"
+    })
+    expect(await resolver.resolve(chunkUrl, 0, 12)).toEqual({ source: "app/page.tsx", line: 1, column: 1 })
+    // The map is fetched once
+    expect(fetched).toEqual(["http://localhost:3000/_next/static/chunks/app/page-abc.js.map"])
+  })
+
+  it("should fetch the map again when the script is parsed again or the page navigates", async () => {
+    let fetches = 0
+    const resolver = new SourceMapResolver(async () => {
+      fetches++
+      return pageMap
+    })
+    resolver.registerScript(chunkUrl, "page-abc.js.map")
+    await resolver.resolve(chunkUrl, 0, 4032)
+    await resolver.resolve(chunkUrl, 0, 4032)
+    expect(fetches).toBe(1)
+
+    // Hot update: same chunk and map URL, new content
+    resolver.registerScript(chunkUrl, "page-abc.js.map")
+    await resolver.resolve(chunkUrl, 0, 4032)
+    expect(fetches).toBe(2)
+
+    resolver.clear()
+    resolver.registerScript(chunkUrl, "page-abc.js.map")
+    await resolver.resolve(chunkUrl, 0, 4032)
+    expect(fetches).toBe(3)
+  })
+
+  it("should read the sourceMappingURL comment of scripts parsed before monitoring started", async () => {
+    const resolver = new SourceMapResolver(async (url) =>
+      url === chunkUrl ? "console.log(1)\n//# sourceMappingURL=page-abc.js.map" : pageMap
+    )
+
+    expect((await resolver.resolve(chunkUrl, 0, 4032))?.line).toBe(42)
+  })
+
+  it("should resolve sections of index maps", async () => {
+    const indexMap = JSON.stringify({
+      version: 3,
+      sections: [
+        {
+          offset: { line: 0, column: 0 },
+          map: { version: 3, sources: ["webpack://_N_E/./lib/a.ts"], names: [], mappings: "AAAA" }
+        },
+        { offset: { line: 10, column: 0 }, map: JSON.parse(pageMap) }
+      ]
+    })
+    const resolver = new SourceMapResolver(async () => indexMap)
+    resolver.registerScript(chunkUrl, "page-abc.js.map")
+
+    expect(await resolver.resolve(chunkUrl, 10, 4032)).toMatchObject({ source: "app/page.tsx", line: 42 })
+    expect(await resolver.resolve(chunkUrl, 0, 5)).toMatchObject({ source: "lib/a.ts", line: 1 })
+  })
+
+  it("should return null for scripts without a usable map", async () => {
+    const resolver = new SourceMapResolver(async () => null)
+
+    expect(await resolver.resolve(chunkUrl, 0, 0)).toBeNull()
+    expect(await resolver.resolve("chrome-extension://abc/content.js", 0, 0)).toBeNull()
+  })
+})
+
+describe("normalizeSourcePath", () => {
+  const mapUrl = "http://localhost:5173/src/App.tsx.map"
+
+  it("should strip bundler schemes", () => {
+    expect(normalizeSourcePath("webpack://_N_E/./app/page.tsx", mapUrl)).toBe("app/page.tsx")
+    expect(normalizeSourcePath("turbopack:///[project]/app/layout.tsx", mapUrl)).toBe("app/layout.tsx")
+  })
+
+  it("should make paths relative to the project", () => {
+    expect(normalizeSourcePath("file:///home/me/app/src/main.ts", mapUrl, "/home/me/app")).toBe("src/main.ts")
+    expect(normalizeSourcePath("App.tsx", mapUrl)).toBe("src/App.tsx")
+  })
+})
@@ -0,0 +1,308 @@
+/**
+ * Source map resolution for browser stack frames
+ *
+ * Dev servers serve bundled chunks (e.g. /_next/static/chunks/app/page-abc.js)
+ * with source maps next to them. The resolver fetches those maps from the dev
+ * server and maps generated positions back to the original files, so frames in
+ * the consolidated log point at app/page.tsx:42:7 instead of a chunk offset.
+ */
+
+import { isAbsolute, relative } from "path"
+import { fileURLToPath } from "url"
+
+/**
+ * A position in an original source file (1-based line and column)
+ */
+export interface OriginalPosition {
+  source: string // Project-relative path when it can be derived (e.g., "app/page.tsx")
+  line: number
+  column: number
+  name?: string
+}
+
+// A decoded mapping: [generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex?]
+type MappingSegment = [number, number, number, number, number?]
+
+interface DecodedSourceMap {
+  sources: string[]
+  names: string[]
+  lines: MappingSegment[][] // Indexed by generated line, sorted by generated column
+}
+
+interface IndexMapSection {
+  offset: { line: number; column: number }
+  map: DecodedSourceMap
+}
+
+type LoadedSourceMap = { sections: IndexMapSection[] }
+
+interface RawSourceMap {
+  version: number
+  sources?: string[]
+  sourceRoot?: string
+  names?: string[]
+  mappings?: string
+  sections?: Array<{ offset: { line: number; column: number }; map: RawSourceMap }>
+}
+
+export type TextFetcher = (url: string) => Promise<string | null>
+
+const FETCH_TIMEOUT_MS = 3000
+const BASE64_CHARS = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+const SOURCE_MAPPING_URL_PATTERN = /\/\/[#@] sourceMappingURL=(\S+)\s*$/
+
+async function fetchText(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) })
+    return response.ok ? await response.text() : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Decode the VLQ "mappings" field of a source map
+ */
+function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = []
+  let sourceIndex = 0
+  let originalLine = 0
+  let originalColumn = 0
+  let nameIndex = 0
+
+  for (const line of mappings.split(";")) {
+    const segments: MappingSegment[] = []
+    let generatedColumn = 0
+
+    for (const segment of line.split(",")) {
+      if (!segment) continue
+      const values = decodeVlq(segment)
+      generatedColumn += values[0]
+      if (values.length < 4) continue // Segments without a source position can't be resolved
+
+      sourceIndex += values[1]
+      originalLine += values[2]
+      originalColumn += values[3]
+      if (values.length >= 5) {
+        nameIndex += values[4]
+        segments.push([generatedColumn, sourceIndex, originalLine, originalColumn, nameIndex])
+      } else {
+        segments.push([generatedColumn, sourceIndex, originalLine, originalColumn])
+      }
+    }
+
+    segments.sort((a, b) => a[0] - b[0])
+    lines.push(segments)
+  }
+
+  return lines
+}
+
+function decodeVlq(segment: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let shift = 0
+
+  for (const char of segment) {
+    const digit = BASE64_CHARS.indexOf(char)
+    if (digit === -1) break
+    value += (digit & 31) << shift
+    if (digit & 32) {
+      shift += 5
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1)
+      value = 0
+      shift = 0
+    }
+  }
+
+  return values
+}
+
+/**
+ * Turn a source map "sources" entry into a path an agent can open
+ *
+ * Strips bundler schemes ("webpack://_N_E/./app/page.tsx",
+ * "turbopack:///[project]/app/page.tsx") and makes file paths relative to the project.
+ *
+ * @param baseUrl URL that relative sources are resolved against (the map, or the script for inline maps)
+ */
+export function normalizeSourcePath(source: string, baseUrl: string, projectRoot: string = process.cwd()): string {
+  let path = source.replace(/[?#].*$/, "")
+
+  if (/^webpack:\/\//.test(path)) {
+    return path.replace(/^webpack:\/\/[^/]*\//, "").replace(/^\.\//, "")
+  }
+  if (/^turbopack:\/\//.test(path)) {
+    return path.replace(/^turbopack:\/\/\/(\[project\]\/)?/, "")
+  }
+
+  if (path.startsWith("file://")) {
+    path = fileURLToPath(path)
+  } else if (/^https?:\/\//.test(path) || (!isAbsolute(path) && /^https?:\/\//.test(baseUrl))) {
+    // Served by the dev server (Vite serves /src/App.tsx) - the URL path is the project path
+    return new URL(path, baseUrl).pathname.replace(/^\//, "")
+  }
+
+  if (isAbsolute(path) && path.startsWith(`${projectRoot}/`)) {
+    return relative(projectRoot, path)
+  }
+  return path.replace(/^\.\//, "")
+}
+
+function decodeSourceMap(raw: RawSourceMap, baseUrl: string, projectRoot?: string): LoadedSourceMap {
+  if (raw.sections) {
+    return {
+      sections: raw.sections.map((section) => ({
+        offset: section.offset,
+        map: decodeSourceMap(section.map, baseUrl, projectRoot).sections[0].map
+      }))
+    }
+  }
+
+  const root = raw.sourceRoot ? raw.sourceRoot.replace(/\/?$/, "/") : ""
+  return {
+    sections: [
+      {
+        offset: { line: 0, column: 0 },
+        map: {
+          sources: (raw.sources || []).map((source) => normalizeSourcePath(`${root}${source}`, baseUrl, projectRoot)),
+          names: raw.names || [],
+          lines: decodeMappings(raw.mappings || "")
+        }
+      }
+    ]
+  }
+}
+
+/**
+ * Look up a generated position (0-based line and column, as reported by CDP)
+ */
+function lookupOriginalPosition(sourceMap: LoadedSourceMap, line: number, column: number): OriginalPosition | null {
+  // Index maps: the last section starting at or before the position
+  const section = sourceMap.sections
+    .filter((s) => s.offset.line < line || (s.offset.line === line && s.offset.column <= column))
+    .pop()
+  if (!section) return null
+
+  const relativeLine = line - section.offset.line
+  const relativeColumn = relativeLine === 0 ? column - section.offset.column : column
+  const segments = section.map.lines[relativeLine]
+  if (!segments || segments.length === 0) return null
+
+  let match: MappingSegment | undefined
+  for (const segment of segments) {
+    if (segment[0] > relativeColumn) break
+    match = segment
+  }
+  if (!match) return null
+
+  const source = section.map.sources[match[1]]
+  if (!source) return null
+
+  const position: OriginalPosition = { source, line: match[2] + 1, column: match[3] + 1 }
+  if (match[4] !== undefined && section.map.names[match[4]]) {
+    position.name = section.map.names[match[4]]
+  }
+  return position
+}
+
+/**
+ * Resolves generated script positions to original source positions
+ *
+ * Source map URLs are registered from Debugger.scriptParsed. When a script was
+ * parsed before monitoring started, the resolver reads the sourceMappingURL
+ * comment from the script itself. Maps are cached per URL until the script is
+ * parsed again (HMR, reload) or the page navigates.
+ */
+export class SourceMapResolver {
+  private sourceMapUrls = new Map<string, string>() // Script URL -> source map URL
+  private sourceMaps = new Map<string, Promise<LoadedSourceMap | null>>()
+
+  constructor(
+    private fetcher: TextFetcher = fetchText,
+    private projectRoot: string = process.cwd()
+  ) {}
+
+  /**
+   * Remember the source map of a parsed script
+   * @param sourceMapUrl As reported by CDP - may be relative to the script or a data: URL
+   */
+  registerScript(scriptUrl: string, sourceMapUrl?: string): void {
+    if (!scriptUrl) return
+
+    // A script parsed again was rebuilt, so its map may have changed even at the same URL
+    const previousMapUrl = this.sourceMapUrls.get(scriptUrl)
+    if (previousMapUrl) this.sourceMaps.delete(previousMapUrl)
+    this.sourceMapUrls.delete(scriptUrl)
+
+    if (!sourceMapUrl) return
+    try {
+      const mapUrl = new URL(sourceMapUrl, scriptUrl).href
+      this.sourceMaps.delete(mapUrl)
+      this.sourceMapUrls.set(scriptUrl, mapUrl)
+    } catch {
+      // Not a resolvable URL - fall back to the script's own comment
+    }
+  }
+
+  /**
+   * Forget every script and map, e.g. when the page navigates
+   */
+  clear(): void {
+    this.sourceMapUrls.clear()
+    this.sourceMaps.clear()
+  }
+
+  /**
+   * Map a generated position back to the original source
+   * @param line 0-based line, as reported by CDP
+   * @param column 0-based column, as reported by CDP
+   * @returns The original position, or null when the script has no usable source map
+   */
+  async resolve(scriptUrl: string, line: number, column: number): Promise<OriginalPosition | null> {
+    if (!/^https?:\/\//.test(scriptUrl)) return null
+
+    const sourceMap = await this.loadForScript(scriptUrl)
+    return sourceMap ? lookupOriginalPosition(sourceMap, line, column) : null
+  }
+
+  private async loadForScript(scriptUrl: string): Promise<LoadedSourceMap | null> {
+    let mapUrl = this.sourceMapUrls.get(scriptUrl)
+    if (!mapUrl) {
+      const script = await this.fetcher(scriptUrl)
+      const comment = script?.match(SOURCE_MAPPING_URL_PATTERN)?.[1]
+      if (!comment) return null
+      mapUrl = new URL(comment, scriptUrl).href
+      this.sourceMapUrls.set(scriptUrl, mapUrl)
+    }
+
+    let sourceMap = this.sourceMaps.get(mapUrl)
+    if (!sourceMap) {
+      sourceMap = this.loadSourceMap(mapUrl, scriptUrl)
+      this.sourceMaps.set(mapUrl, sourceMap)
+    }
+    return sourceMap
+  }
+
+  private async loadSourceMap(mapUrl: string, scriptUrl: string): Promise<LoadedSourceMap | null> {
+    try {
+      let content: string | null
+      if (mapUrl.startsWith("data:")) {
+        // Inline maps (Vite) - relative sources are relative to the script
+        const separator = mapUrl.indexOf(",")
+        const header = mapUrl.slice(0, separator)
+        const data = mapUrl.slice(separator + 1)
+        content = header.endsWith(";base64") ? Buffer.from(data, "base64").toString("utf-8") : decodeURIComponent(data)
+      } else {
+        content = await this.fetcher(mapUrl)
+      }
+      if (!content) return null
+
+      const baseUrl = mapUrl.startsWith("data:") ? scriptUrl : mapUrl
+      return decodeSourceMap(JSON.parse(content) as RawSourceMap, baseUrl, this.projectRoot)
+    } catch {
+      return null
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest"
+import { filterTUICommands, TUI_COMMANDS } from "./tui-commands"
+
+describe("filterTUICommands", () => {
+  const ids = (query: string) => filterTUICommands(query).map((command) => command.id)
+
+  it("should list every command for an empty query", () => {
+    expect(filterTUICommands("  ")).toEqual(TUI_COMMANDS)
+  })
+
+  it("should select a command by its key", () => {
+    expect(ids("r")).toEqual(["restart"])
+    expect(ids("c")).toEqual(["copy-mcp"])
+  })
+
+  it("should match every word against ids and labels", () => {
+    expect(ids("log")).toEqual(["rotate", "open-logs"])
+    expect(ids("open log")).toEqual(["open-logs"])
+    expect(ids("mcp")).toEqual(["copy-mcp"])
+    expect(ids("deploy")).toEqual([])
+  })
+})
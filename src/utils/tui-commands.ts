@@ -0,0 +1,46 @@
+/**
+ * Command palette of the TUI
+ *
+ * The palette opens with ":", commands are picked by typing their key or part of
+ * their name and run with Enter. The actions themselves live in DevEnvironment,
+ * which owns the server process and the browser connection.
+ */
+
+export type TUICommandId = "restart" | "screenshot" | "rotate" | "open-logs" | "copy-mcp"
+
+export interface TUICommand {
+  id: TUICommandId
+  key: string
+  label: string
+}
+
+// Each action resolves with the message shown in the status line, or throws
+export type TUIActions = Record<TUICommandId, () => Promise<string>>
+
+export const TUI_COMMANDS: TUICommand[] = [
+  { id: "restart", key: "r", label: "Restart dev server" },
+  { id: "screenshot", key: "s", label: "Take screenshot" },
+  { id: "rotate", key: "l", label: "Rotate log file" },
+  { id: "open-logs", key: "o", label: "Open /logs in browser" },
+  { id: "copy-mcp", key: "c", label: "Copy MCP config to clipboard" }
+]
+
+/**
+ * Get the commands matching what was typed in the palette
+ *
+ * A single character matching a command key selects that command only, so keys stay
+ * usable as shortcuts. Anything longer matches every word of the query against the id and label.
+ */
+export function filterTUICommands(query: string): TUICommand[] {
+  const normalized = query.trim().toLowerCase()
+  if (!normalized) return TUI_COMMANDS
+
+  const byKey = TUI_COMMANDS.find((command) => command.key === normalized)
+  if (byKey) return [byKey]
+
+  const words = normalized.split(/\s+/)
+  return TUI_COMMANDS.filter((command) => {
+    const haystack = `${command.id} ${command.label}`.toLowerCase()
+    return words.every((word) => haystack.includes(word))
+  })
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+import {
+  findAdjacentId,
+  getEntryLine,
+  getLogCategory,
+  getLogProcess,
+  isErrorLine,
+  isLineShown,
+  nextProcessFilter,
+  splitHighlights
+} from "./tui-log-filters"
+
+describe("getLogCategory", () => {
+  it("should put interaction and network lines in their own category", () => {
+    expect(getLogCategory("[10:00:00.000] [BROWSER] [INTERACTION] CLICK at 10,20")).toBe("interaction")
+    expect(getLogCategory("[10:00:00.000] [BROWSER] [NETWORK] GET http://localhost:3000/")).toBe("network")
+    expect(getLogCategory("[10:00:00.000] [BROWSER] [CONSOLE LOG] hello")).toBe("browser")
+    expect(getLogCategory("[10:00:00.000] [SERVER] GET / 200 in 12ms")).toBe("server")
+  })
+})
+
+describe("getEntryLine", () => {
+  it("should give continuation lines the entry before them", () => {
+    const entry = "[10:00:00.000] [SERVER] ERROR: TypeError: boom"
+    const frame = "    at handler (route.ts:1:1)"
+    expect(getEntryLine(entry, "[09:59:59.000] [BROWSER] [CONSOLE LOG] hello")).toBe(entry)
+    expect(getEntryLine(frame, entry)).toBe(entry)
+    expect(getEntryLine(frame, null)).toBe(frame)
+
+    const entryLine = getEntryLine(frame, entry)
+    expect(isLineShown(entryLine, new Set(["server"] as const), null)).toBe(false)
+    expect(isErrorLine(entryLine)).toBe(true)
+  })
+})
+
+describe("getLogProcess", () => {
+  it("should read the process of multiplexed server lines", () => {
+    expect(getLogProcess("[10:00:00.000] [SERVER] [WEB] GET / 200 in 12ms")).toBe("WEB")
+    expect(getLogProcess("[10:00:00.000] [SERVER] ERROR: [WORKER.1] Job failed")).toBe("WORKER.1")
+    expect(getLogProcess("[10:00:00.000] [SERVER] GET / 200 in 12ms")).toBe(null)
+    expect(getLogProcess("[10:00:00.000] [BROWSER] [CONSOLE LOG] hello")).toBe(null)
+  })
+})
+
+describe("isLineShown", () => {
+  it("should only filter server lines by process", () => {
+    const none = new Set<never>()
+    expect(isLineShown("[10:00:00.000] [SERVER] [WEB] ready", none, "WEB")).toBe(true)
+    expect(isLineShown("[10:00:00.000] [SERVER] [API] ready", none, "WEB")).toBe(false)
+    expect(isLineShown("[10:00:00.000] [SERVER] ready", none, "WEB")).toBe(false)
+    expect(isLineShown("[10:00:00.000] [BROWSER] [CONSOLE LOG] hello", none, "WEB")).toBe(true)
+    expect(isLineShown("[10:00:00.000] [SERVER] [API] ready", none, null)).toBe(true)
+    expect(isLineShown("[10:00:00.000] [SERVER] [WEB] ready", new Set(["server"] as const), "WEB")).toBe(false)
+  })
+})
+
+describe("nextProcessFilter", () => {
+  it("should cycle through the processes and back to all of them", () => {
+    expect(nextProcessFilter(["WEB", "API"], null)).toBe("WEB")
+    expect(nextProcessFilter(["WEB", "API"], "WEB")).toBe("API")
+    expect(nextProcessFilter(["WEB", "API"], "API")).toBe(null)
+    expect(nextProcessFilter([], null)).toBe(null)
+  })
+})
+
+describe("isErrorLine", () => {
+  it("should flag browser and server errors", () => {
+    expect(isErrorLine("[10:00:00.000] [BROWSER] [CONSOLE ERROR] boom")).toBe(true)
+    expect(isErrorLine("[10:00:00.000] [BROWSER] [NETWORK] 500 Internal Server Error http://localhost:3000/")).toBe(
+      true
+    )
+    expect(isErrorLine("[10:00:00.000] [SERVER] ERROR: Failed to compile")).toBe(true)
+    expect(isErrorLine("[10:00:00.000] [BROWSER] [CONSOLE WARNING] careful")).toBe(false)
+    expect(isErrorLine("    at handler (route.ts:1:1)")).toBe(false)
+  })
+})
+
+describe("splitHighlights", () => {
+  it("should split around every case-insensitive match", () => {
+    expect(splitHighlights("Fetch failed, fetch again", "FETCH")).toEqual([
+      { text: "Fetch", match: true },
+      { text: " failed, ", match: false },
+      { text: "fetch", match: true },
+      { text: " again", match: false }
+    ])
+    expect(splitHighlights("no match", "")).toEqual([{ text: "no match", match: false }])
+  })
+})
+
+describe("findAdjacentId", () => {
+  it("should move through targets and wrap around", () => {
+    expect(findAdjacentId([2, 5, 9], null, "older")).toBe(9)
+    expect(findAdjacentId([2, 5, 9], 9, "older")).toBe(5)
+    expect(findAdjacentId([2, 5, 9], 2, "older")).toBe(9)
+    expect(findAdjacentId([2, 5, 9], 5, "newer")).toBe(9)
+    expect(findAdjacentId([2, 5, 9], 9, "newer")).toBe(2)
+    expect(findAdjacentId([], 3, "newer")).toBeNull()
+  })
+})
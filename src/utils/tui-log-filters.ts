@@ -0,0 +1,134 @@
+/**
+ * Filters and search of the TUI log view
+ *
+ * Categories mirror the web /logs filters: interaction and network lines follow
+ * their own toggle, every other line the toggle of its source. Stack frames and
+ * other continuation lines are filtered with the entry they continue.
+ */
+
+import { getServerProcessName } from "./log-entries.js"
+import { classifyLogMessage } from "./log-events.js"
+
+export type TUILogCategory = "browser" | "server" | "network" | "interaction"
+
+// Key toggling each category in the TUI
+export const TUI_FILTER_KEYS: Record<string, TUILogCategory> = {
+  b: "browser",
+  s: "server",
+  w: "network",
+  i: "interaction"
+}
+
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+// "[timestamp] [SOURCE] message"
+const LOG_LINE_PATTERN = /^\[[^\]]*\] \[([^\]]+)\] (.*)$/
+
+/**
+ * Get the line starting the log entry a line belongs to
+ * Continuation lines have no "[timestamp] [SOURCE]" prefix, they belong to the entry before them.
+ * @param previousEntryLine Entry line of the line before, null for the first line
+ */
+export function getEntryLine(line: string, previousEntryLine: string | null): string {
+  return previousEntryLine === null || LOG_LINE_PATTERN.test(line) ? line : previousEntryLine
+}
+
+/**
+ * Get the filter category of a consolidated log line
+ */
+export function getLogCategory(line: string): TUILogCategory {
+  const match = line.match(LOG_LINE_PATTERN)
+  const message = match?.[2] ?? line
+  if (message.startsWith("[INTERACTION]")) return "interaction"
+  if (message.startsWith("[NETWORK")) return "network"
+  return match?.[1] === "SERVER" ? "server" : "browser"
+}
+
+/**
+ * Get the process that wrote a server line, when a process manager multiplexes the output
+ * @returns The process name as logged (upper case), or null for other lines
+ */
+export function getLogProcess(line: string): string | null {
+  const match = line.match(LOG_LINE_PATTERN)
+  if (match?.[1] !== "SERVER") return null
+  return getServerProcessName(match[2]) ?? null
+}
+
+/**
+ * Check whether a line passes the category toggles and the process filter
+ * @param processFilter Only server lines of this process are shown, null shows all of them
+ */
+export function isLineShown(
+  line: string,
+  hiddenCategories: Set<TUILogCategory>,
+  processFilter: string | null
+): boolean {
+  const category = getLogCategory(line)
+  if (hiddenCategories.has(category)) return false
+  return processFilter === null || category !== "server" || getLogProcess(line) === processFilter
+}
+
+/**
+ * Pick the process filter after the current one, going back to all processes after the last
+ */
+export function nextProcessFilter(processes: string[], current: string | null): string | null {
+  const index = current === null ? -1 : processes.indexOf(current)
+  return processes[index + 1] ?? null
+}
+
+/**
+ * Check whether a consolidated log line is an error, the way the event sidecar classifies it
+ */
+export function isErrorLine(line: string): boolean {
+  const match = line.match(LOG_LINE_PATTERN)
+  if (!match) return false
+  return classifyLogMessage(match[1] === "SERVER" ? "server" : "browser", match[2]).level === "error"
+}
+
+/**
+ * Check whether a line contains the search query (case-insensitive)
+ */
+export function matchesSearch(line: string, query: string): boolean {
+  return query !== "" && line.toLowerCase().includes(query.toLowerCase())
+}
+
+/**
+ * Split text around the case-insensitive occurrences of the search query, for highlighting
+ */
+export function splitHighlights(text: string, query: string): HighlightSegment[] {
+  if (!query) return [{ text, match: false }]
+
+  const segments: HighlightSegment[] = []
+  const lowerText = text.toLowerCase()
+  const lowerQuery = query.toLowerCase()
+  let position = 0
+  let index = lowerText.indexOf(lowerQuery)
+  while (index !== -1) {
+    if (index > position) segments.push({ text: text.slice(position, index), match: false })
+    segments.push({ text: text.slice(index, index + query.length), match: true })
+    position = index + query.length
+    index = lowerText.indexOf(lowerQuery, position)
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), match: false })
+  return segments
+}
+
+/**
+ * Pick the next target line from the focused one, wrapping around
+ * @param ids Ids of the target lines, oldest first
+ * @param direction "older" moves up the log, "newer" down
+ * @returns The id to focus, or null without targets
+ */
+export function findAdjacentId(ids: number[], focusedId: number | null, direction: "older" | "newer"): number | null {
+  if (ids.length === 0) return null
+
+  if (direction === "older") {
+    const older = focusedId === null ? [] : ids.filter((id) => id < focusedId)
+    return older.length > 0 ? older[older.length - 1] : ids[ids.length - 1]
+  }
+  const newer = focusedId === null ? undefined : ids.find((id) => id > focusedId)
+  return newer ?? ids[0]
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest"
+import { formatWebVitalsLog, type RawEventTiming, rankWebVitals, rateWebVital, summarizeWebVitals } from "./web-vitals"
+
+function event(overrides: Partial<RawEventTiming> = {}): RawEventTiming {
+  return {
+    name: "click",
+    interactionId: 1,
+    startTime: 1000,
+    duration: 120,
+    processingStart: 1010,
+    processingEnd: 1100,
+    target: "button.submit",
+    ...overrides
+  }
+}
+
+describe("rateWebVital", () => {
+  it("should use the good and poor boundaries", () => {
+    expect(rateWebVital("LCP", 2500)).toBe("good")
+    expect(rateWebVital("LCP", 2501)).toBe("needs-improvement")
+    expect(rateWebVital("LCP", 4001)).toBe("poor")
+    expect(rateWebVital("CLS", 0.3)).toBe("poor")
+  })
+})
+
+describe("summarizeWebVitals", () => {
+  it("should rate load metrics", () => {
+    const vitals = summarizeWebVitals({
+      lcp: { startTime: 2843.6, element: "img#hero", url: "http://localhost:3000/hero.png" },
+      fcp: 900.2,
+      ttfb: 120.4,
+      events: [],
+      longTasks: []
+    })
+
+    expect(vitals.lcp).toEqual({
+      value: 2844,
+      rating: "needs-improvement",
+      element: "img#hero",
+      url: "http://localhost:3000/hero.png"
+    })
+    expect(vitals.fcp).toEqual({ value: 900, rating: "good" })
+    expect(vitals.ttfb).toEqual({ value: 120, rating: "good" })
+    expect(vitals.inp).toBeUndefined()
+  })
+
+  it("should use the worst event of the worst interaction for INP", () => {
+    const vitals = summarizeWebVitals({
+      events: [
+        event({ interactionId: 1, duration: 80 }),
+        event({ interactionId: 2, name: "pointerdown", duration: 40 }),
+        event({ interactionId: 2, duration: 320, processingStart: 1020, processingEnd: 1280 }),
+        event({ interactionId: 0, name: "mouseover", duration: 500 }) // Not an interaction
+      ],
+      longTasks: []
+    })
+
+    expect(vitals.interactionCount).toBe(2)
+    expect(vitals.inp).toEqual({
+      value: 320,
+      rating: "needs-improvement",
+      eventType: "click",
+      target: "button.submit",
+      inputDelay: 20,
+      processingTime: 260,
+      presentationDelay: 40
+    })
+    expect(vitals.slowEvents[0]).toMatchObject({ eventType: "mouseover", duration: 500 })
+  })
+
+  it("should ignore one outlier per 50 interactions", () => {
+    const events = Array.from({ length: 60 }, (_, i) => event({ interactionId: i + 1, duration: 100 }))
+    events[0].duration = 900
+
+    expect(summarizeWebVitals({ events, longTasks: [] }).inp?.value).toBe(100)
+  })
+
+  it("should compute total blocking time from long tasks", () => {
+    const vitals = summarizeWebVitals({
+      events: [],
+      longTasks: [
+        { type: "longtask", startTime: 100, duration: 250 },
+        { type: "longtask", startTime: 600, duration: 70 },
+        { type: "long-animation-frame", startTime: 90, duration: 270, blockingDuration: 200, script: "app.js" }
+      ]
+    })
+
+    expect(vitals.tbt).toEqual({ value: 220, rating: "needs-improvement" })
+    expect(vitals.longTaskCount).toBe(1) // Long animation frames are reported when available
+    expect(vitals.longTasks[0].script).toBe("app.js")
+  })
+})
+
+describe("formatWebVitalsLog", () => {
+  it("should log one [PERF] line per metric", () => {
+    const vitals = summarizeWebVitals({
+      lcp: { startTime: 4200, element: "img#hero" },
+      ttfb: 80,
+      events: [event({ duration: 240 })],
+      longTasks: [{ type: "longtask", startTime: 100, duration: 180 }]
+    })
+
+    expect(formatWebVitalsLog(vitals)).toEqual([
+      "[PERF] TTFB 80ms (good)",
+      "[PERF] LCP 4.20s (poor) - <img#hero>",
+      "[PERF] TBT 130ms (good) - 1 long task, longest 180ms",
+      "[PERF] INP 240ms (needs-improvement) - click on <button.submit> (input delay 10ms, processing 90ms, presentation 140ms)"
+    ])
+    expect(formatWebVitalsLog(vitals, false)).toHaveLength(1)
+  })
+})
+
+describe("rankWebVitals", () => {
+  it("should rank metrics that are not good by how far past the poor boundary they are", () => {
+    const vitals = summarizeWebVitals({
+      lcp: { startTime: 3000 },
+      fcp: 500,
+      events: [event({ duration: 600 })],
+      longTasks: []
+    })
+
+    expect(rankWebVitals(vitals, 0.2).map((ranked) => [ranked.name, ranked.rating])).toEqual([
+      ["INP", "poor"],
+      ["CLS", "needs-improvement"],
+      ["LCP", "needs-improvement"]
+    ])
+  })
+})
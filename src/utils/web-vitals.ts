@@ -0,0 +1,239 @@
+/**
+ * Core Web Vitals
+ *
+ * ScreencastManager injects PerformanceObservers into the page and polls the raw
+ * entries they buffer. This module turns those entries into per-navigation metrics
+ * rated with Chrome's thresholds, formats the [PERF] log lines and ranks the
+ * metrics for fix_my_jank.
+ */
+
+export type WebVitalName = "LCP" | "INP" | "CLS" | "FCP" | "TTFB" | "TBT"
+
+export type WebVitalRating = "good" | "needs-improvement" | "poor"
+
+/**
+ * [good, poor] boundaries - values up to the first are good, values above the second are poor
+ * Everything is in ms except CLS, which is unitless. TBT uses the Lighthouse thresholds.
+ */
+export const WEB_VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  INP: [200, 500],
+  CLS: [0.1, 0.25],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+  TBT: [200, 600]
+}
+
+// Main thread work beyond this counts as blocking
+const LONG_TASK_BUDGET_MS = 50
+
+// Entries kept in the summary - the full list lives in the page
+const MAX_REPORTED_ENTRIES = 5
+
+/**
+ * Event timing entry as buffered by the injected observer
+ */
+export interface RawEventTiming {
+  name: string // "click", "keydown", "pointerdown", ...
+  interactionId: number // 0 for events that are not part of an interaction
+  startTime: number
+  duration: number
+  processingStart: number
+  processingEnd: number
+  target?: string // Short selector of the event target
+}
+
+/**
+ * "longtask" or "long-animation-frame" entry as buffered by the injected observer
+ */
+export interface RawLongTask {
+  type: "longtask" | "long-animation-frame"
+  startTime: number
+  duration: number
+  blockingDuration?: number // Only reported for long animation frames
+  script?: string // Source of the slowest script of a long animation frame
+}
+
+/**
+ * Everything the injected observers collect for one navigation (window.__dev3000_web_vitals__)
+ */
+export interface RawWebVitals {
+  lcp?: { startTime: number; element?: string; url?: string; size?: number }
+  fcp?: number
+  ttfb?: number
+  events: RawEventTiming[]
+  longTasks: RawLongTask[]
+}
+
+export interface WebVitalMetric {
+  value: number
+  rating: WebVitalRating
+}
+
+export interface WebVitals {
+  lcp?: WebVitalMetric & { element?: string; url?: string }
+  fcp?: WebVitalMetric
+  ttfb?: WebVitalMetric
+  inp?: WebVitalMetric & {
+    eventType: string
+    target?: string
+    inputDelay: number
+    processingTime: number
+    presentationDelay: number
+  }
+  interactionCount: number
+  slowEvents: Array<{ eventType: string; target?: string; startTime: number; duration: number }> // Slowest first
+  tbt: WebVitalMetric
+  longTaskCount: number
+  longTasks: RawLongTask[] // Longest first
+}
+
+export interface RankedWebVital extends WebVitalMetric {
+  name: WebVitalName
+  severity: number // Value relative to the "poor" boundary - 1 means just poor
+}
+
+/**
+ * Rate a metric against its thresholds
+ */
+export function rateWebVital(name: WebVitalName, value: number): WebVitalRating {
+  const [good, poor] = WEB_VITAL_THRESHOLDS[name]
+  return value <= good ? "good" : value <= poor ? "needs-improvement" : "poor"
+}
+
+function metric(name: WebVitalName, value: number): WebVitalMetric {
+  return { value, rating: rateWebVital(name, value) }
+}
+
+/**
+ * Summarize the raw entries of a navigation into rated metrics
+ */
+export function summarizeWebVitals(raw: RawWebVitals): WebVitals {
+  // INP: worst interaction, ignoring one outlier per 50 interactions (98th percentile)
+  const interactions = new Map<number, RawEventTiming>()
+  for (const event of raw.events) {
+    if (!event.interactionId) continue
+    const worst = interactions.get(event.interactionId)
+    if (!worst || event.duration > worst.duration) {
+      interactions.set(event.interactionId, event)
+    }
+  }
+  const byDuration = [...interactions.values()].sort((a, b) => b.duration - a.duration)
+  const inpEntry = byDuration[Math.min(Math.floor(byDuration.length / 50), byDuration.length - 1)]
+
+  // TBT comes from "longtask" entries; long animation frames are listed instead when
+  // available because they carry script attribution
+  const tasks = raw.longTasks.filter((task) => task.type === "longtask")
+  const frames = raw.longTasks.filter((task) => task.type === "long-animation-frame")
+  const tbt = tasks.reduce((sum, task) => sum + Math.max(0, task.duration - LONG_TASK_BUDGET_MS), 0)
+  const reported = (frames.length > 0 ? frames : tasks).sort((a, b) => b.duration - a.duration)
+
+  const vitals: WebVitals = {
+    interactionCount: interactions.size,
+    slowEvents: [...raw.events]
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, MAX_REPORTED_ENTRIES)
+      .map((event) => ({
+        eventType: event.name,
+        target: event.target,
+        startTime: Math.round(event.startTime),
+        duration: event.duration
+      })),
+    tbt: metric("TBT", Math.round(tbt)),
+    longTaskCount: reported.length,
+    longTasks: reported.slice(0, MAX_REPORTED_ENTRIES)
+  }
+
+  if (raw.lcp) {
+    vitals.lcp = { ...metric("LCP", Math.round(raw.lcp.startTime)), element: raw.lcp.element, url: raw.lcp.url }
+  }
+  if (raw.fcp !== undefined) {
+    vitals.fcp = metric("FCP", Math.round(raw.fcp))
+  }
+  if (raw.ttfb !== undefined) {
+    vitals.ttfb = metric("TTFB", Math.round(raw.ttfb))
+  }
+  if (inpEntry) {
+    const presentationStart = inpEntry.startTime + inpEntry.duration
+    vitals.inp = {
+      ...metric("INP", inpEntry.duration),
+      eventType: inpEntry.name,
+      target: inpEntry.target,
+      inputDelay: Math.round(inpEntry.processingStart - inpEntry.startTime),
+      processingTime: Math.round(inpEntry.processingEnd - inpEntry.processingStart),
+      presentationDelay: Math.max(0, Math.round(presentationStart - inpEntry.processingEnd))
+    }
+  }
+
+  return vitals
+}
+
+/**
+ * Format a metric value the way DevTools does (320ms, 2.84s, 0.12)
+ */
+export function formatWebVitalValue(name: WebVitalName, value: number): string {
+  if (name === "CLS") return value.toFixed(2)
+  return value < 1000 ? `${Math.round(value)}ms` : `${(value / 1000).toFixed(2)}s`
+}
+
+/**
+ * Build the [PERF] lines logged for a navigation
+ * @param includeLoadMetrics Set to false to only log interaction metrics, e.g. when leaving the page
+ */
+export function formatWebVitalsLog(vitals: WebVitals, includeLoadMetrics = true): string[] {
+  const lines: string[] = []
+  const label = (name: WebVitalName, value: WebVitalMetric) =>
+    `[PERF] ${name} ${formatWebVitalValue(name, value.value)} (${value.rating})`
+
+  if (includeLoadMetrics) {
+    if (vitals.ttfb) lines.push(label("TTFB", vitals.ttfb))
+    if (vitals.fcp) lines.push(label("FCP", vitals.fcp))
+    if (vitals.lcp) {
+      const element = vitals.lcp.element ? ` - <${vitals.lcp.element}>` : ""
+      const url = vitals.lcp.url ? ` ${vitals.lcp.url}` : ""
+      lines.push(`${label("LCP", vitals.lcp)}${element}${url}`)
+    }
+    if (vitals.longTaskCount > 0) {
+      const longest = vitals.longTasks[0]
+      const script = longest.script ? ` in ${longest.script}` : ""
+      lines.push(
+        `${label("TBT", vitals.tbt)} - ${vitals.longTaskCount} long ${vitals.longTaskCount === 1 ? "task" : "tasks"}, longest ${Math.round(longest.duration)}ms${script}`
+      )
+    }
+  }
+
+  if (vitals.inp) {
+    const target = vitals.inp.target ? ` on <${vitals.inp.target}>` : ""
+    lines.push(
+      `${label("INP", vitals.inp)} - ${vitals.inp.eventType}${target} (input delay ${vitals.inp.inputDelay}ms, processing ${vitals.inp.processingTime}ms, presentation ${vitals.inp.presentationDelay}ms)`
+    )
+  }
+
+  return lines
+}
+
+/**
+ * Rank the metrics that are not good, worst first
+ * @param cls Total CLS of the navigation, ranked alongside the other metrics when given
+ */
+export function rankWebVitals(vitals: WebVitals, cls?: number): RankedWebVital[] {
+  const candidates: Array<[WebVitalName, WebVitalMetric | undefined]> = [
+    ["LCP", vitals.lcp],
+    ["INP", vitals.inp],
+    ["CLS", cls !== undefined ? metric("CLS", cls) : undefined],
+    ["FCP", vitals.fcp],
+    ["TTFB", vitals.ttfb],
+    ["TBT", vitals.tbt]
+  ]
+
+  return candidates
+    .filter((candidate): candidate is [WebVitalName, WebVitalMetric] => !!candidate[1])
+    .filter(([, value]) => value.rating !== "good")
+    .map(([name, value]) => ({
+      name,
+      value: value.value,
+      rating: value.rating,
+      severity: value.value / WEB_VITAL_THRESHOLDS[name][1]
+    }))
+    .sort((a, b) => b.severity - a.severity)
+}